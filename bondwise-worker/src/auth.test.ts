@@ -27,6 +27,7 @@ describe("Worker Authentication", () => {
 			CLERK_PUBLISHABLE_KEY: "test_pub_key",
 			// Add other required Env properties, even if empty for this test
 			SAVED_ITEMS_KV: {} as KVNamespace, // Mock KV
+			FILES_BUCKET: {} as R2Bucket,
 			GCF_SUMMARIZE_URL: "http://example.com/summarize",
 			GCF_CHAT_URL: "http://example.com/chat",
 			GEMINI_API_KEY: "",
@@ -0,0 +1,193 @@
+// bondwise-worker/src/extract.ts
+
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+import { readPageMetadata } from "./metadata";
+import { findNextPageUrl } from "./pagination";
+import type { ExtractedArticle } from "./types";
+
+// Same allowlist the client passes to DOMPurify
+const ALLOWED_TAGS = new Set([
+	"a",
+	"b",
+	"blockquote",
+	"br",
+	"caption",
+	"code",
+	"div",
+	"em",
+	"h1",
+	"h2",
+	"h3",
+	"h4",
+	"h5",
+	"h6",
+	"hr",
+	"i",
+	"img",
+	"li",
+	"nl",
+	"ol",
+	"p",
+	"pre",
+	"span",
+	"strong",
+	"table",
+	"tbody",
+	"td",
+	"th",
+	"thead",
+	"tr",
+	"ul",
+]);
+const ALLOWED_ATTR = new Set(["href", "src", "alt", "title", "class"]);
+// Removed together with their content instead of being unwrapped
+const DROPPED_TAGS = new Set([
+	"script",
+	"style",
+	"noscript",
+	"template",
+	"iframe",
+	"object",
+	"embed",
+	"svg",
+	"math",
+	"form",
+	"button",
+	"select",
+	"textarea",
+]);
+const SAFE_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+const WORDS_PER_MINUTE = 200;
+const EXCERPT_LENGTH = 280;
+
+/**
+ * Resolves a link or image URL against the page, returning null for
+ * anything other than http(s) and mailto links (e.g. `javascript:`).
+ */
+function safeUrl(value: string, baseUrl: string): string | null {
+	try {
+		const resolved = new URL(value.trim(), baseUrl);
+		return SAFE_PROTOCOLS.has(resolved.protocol) ? resolved.href : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Cleans an element's children in place: disallowed tags are unwrapped,
+ * dangerous ones dropped with their content, and only allowlisted
+ * attributes with safe URLs are kept.
+ */
+function sanitizeChildren(parent: Element, baseUrl: string) {
+	for (const node of [...parent.childNodes]) {
+		if (node.nodeType === 8) {
+			node.remove(); // Comment
+			continue;
+		}
+		if (node.nodeType !== 1) continue;
+		// Workers have no global Element class to check against
+		const element = node as Element;
+
+		const tag = element.localName.toLowerCase();
+		if (DROPPED_TAGS.has(tag)) {
+			element.remove();
+			continue;
+		}
+		sanitizeChildren(element, baseUrl);
+		if (!ALLOWED_TAGS.has(tag)) {
+			element.replaceWith(...element.childNodes);
+			continue;
+		}
+		for (const name of element.getAttributeNames()) {
+			if (!ALLOWED_ATTR.has(name.toLowerCase())) {
+				element.removeAttribute(name);
+				continue;
+			}
+			if (name === "href" || name === "src") {
+				const url = safeUrl(element.getAttribute(name) ?? "", baseUrl);
+				if (url) element.setAttribute(name, url);
+				else element.removeAttribute(name);
+			}
+		}
+	}
+}
+
+/**
+ * Points the document's `<base>` at an absolute URL. Readability resolves
+ * relative links against it, and linkedom has no page URL of its own.
+ */
+function setBaseUrl(document: Document, baseUrl: string) {
+	let base = document.querySelector("base[href]");
+	const href = safeUrl(base?.getAttribute("href") ?? "", baseUrl) ?? baseUrl;
+	if (!base) {
+		base = document.createElement("base");
+		document.head?.appendChild(base);
+	}
+	base.setAttribute("href", href);
+}
+
+/**
+ * Sanitizes article HTML with the same tag and attribute allowlist as the
+ * client, resolving relative links and images against `baseUrl`.
+ */
+export function sanitizeArticleHtml(html: string, baseUrl: string): string {
+	const { document } = parseHTML(
+		`<!DOCTYPE html><html><body>${html}</body></html>`,
+	);
+	sanitizeChildren(document.body, baseUrl);
+	return document.body.innerHTML;
+}
+
+export interface Extraction {
+	article: ExtractedArticle;
+	nextPageUrl?: string; // Next page of a paginated article
+}
+
+/**
+ * Extracts the readable article from a page's HTML, in the shape the
+ * client's `parseArticle` returns.
+ *
+ * @param html - The page HTML.
+ * @param url - The URL the article is saved under.
+ * @param baseUrl - The URL the page was served from, after redirects.
+ * @returns The article and the link to its next page, or null if
+ * Readability finds no content.
+ */
+export function extractArticle(
+	html: string,
+	url: string,
+	baseUrl = url,
+): Extraction | null {
+	const { document } = parseHTML(html);
+	setBaseUrl(document, baseUrl);
+	// Readability removes navigation, page links included
+	const nextPageUrl = findNextPageUrl(document, baseUrl);
+	const metadata = readPageMetadata(document, new URL(baseUrl));
+	const article = new Readability(document).parse();
+	if (!article?.content) return null;
+
+	const content = sanitizeArticleHtml(article.content, baseUrl);
+	const textContent = article.textContent || "";
+	const wordCount = textContent.split(/\s+/).length;
+
+	const extracted: ExtractedArticle = {
+		title: article.title || "Untitled Article",
+		url,
+		content,
+		excerpt:
+			article.excerpt ||
+			`${textContent.substring(0, EXCERPT_LENGTH).trim()}...`,
+		author: article.byline || metadata.author,
+		publishedDate: metadata.publishedDate,
+		siteName: article.siteName || new URL(url).hostname,
+		coverImage: metadata.coverImage,
+		language: metadata.language,
+		canonicalUrl: metadata.canonicalUrl,
+		estimatedReadTime: Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE)),
+		type: "article",
+		status: "inbox",
+	};
+	return { article: extracted, nextPageUrl };
+}
@@ -38,6 +38,7 @@ describe("Worker API Handlers", () => {
 			GCF_AUTH_SECRET: "test-secret",
 			// Add other required Env properties
 			SAVED_ITEMS_KV: {} as KVNamespace, // Simple mock for KV
+			FILES_BUCKET: {} as R2Bucket,
 			CLERK_SECRET_KEY: "test_secret_key",
 			CLERK_PUBLISHABLE_KEY: "test_pub_key",
 			GEMINI_API_KEY: "",
@@ -0,0 +1,131 @@
+// bondwise-worker/src/handlers/collections.test.ts
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { createKvMock } from "../test-utils/kvMock";
+import type { Env, WorkerCollection } from "../types";
+import { createCollectionKey } from "../utils";
+import { handleListCollections, handlePutCollection } from "./collections";
+
+describe("Worker Collection Handlers", () => {
+	const testUserId = "user_test_collections_123";
+	let mockKv: ReturnType<typeof createKvMock>;
+	let mockEnv: Env;
+
+	const collection: WorkerCollection = {
+		_id: "collection_1",
+		userId: testUserId,
+		name: "Long reads about AI",
+		filter: { siteNames: [], types: [], tags: [], searchQuery: "time:>20 ai" },
+		sortCriteria: { field: "savedAt", direction: "desc" },
+		createdAt: 1000,
+		updatedAt: 2000,
+	};
+
+	const putRequest = (body: unknown, id = "collection_1") =>
+		new Request(`http://worker/collections/${id}`, {
+			method: "PUT",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+		});
+
+	beforeEach(() => {
+		mockKv = createKvMock();
+		mockEnv = { SAVED_ITEMS_KV: mockKv } as unknown as Env;
+	});
+
+	describe("handleListCollections", () => {
+		it("should list only the user's collections, including tombstones", async () => {
+			mockKv._store.set(
+				createCollectionKey(testUserId, "collection_1"),
+				JSON.stringify(collection),
+			);
+			mockKv._store.set(
+				createCollectionKey(testUserId, "collection_2"),
+				JSON.stringify({ ...collection, _id: "collection_2", deleted: true }),
+			);
+			mockKv._store.set(
+				createCollectionKey("other_user", "collection_3"),
+				JSON.stringify({ ...collection, _id: "collection_3" }),
+			);
+			// Items share the namespace but not the prefix
+			mockKv._store.set(`${testUserId}:article_1`, "{}");
+
+			const response = await handleListCollections(
+				new Request("http://worker/collections"),
+				mockEnv,
+				testUserId,
+			);
+			const body = (await response.json()) as WorkerCollection[];
+
+			expect(response.status).toBe(200);
+			expect(body.map((c) => c._id).sort()).toEqual([
+				"collection_1",
+				"collection_2",
+			]);
+		});
+	});
+
+	describe("handlePutCollection", () => {
+		it("should save a new collection", async () => {
+			const response = await handlePutCollection(
+				putRequest(collection),
+				mockEnv,
+				testUserId,
+				"collection_1",
+			);
+
+			expect(response.status).toBe(200);
+			expect(
+				JSON.parse(
+					mockKv._store.get(createCollectionKey(testUserId, "collection_1")) ??
+						"null",
+				),
+			).toEqual(collection);
+		});
+
+		it("should keep the stored copy when it is newer", async () => {
+			const key = createCollectionKey(testUserId, "collection_1");
+			const newer = { ...collection, name: "Renamed", updatedAt: 3000 };
+			mockKv._store.set(key, JSON.stringify(newer));
+
+			const response = await handlePutCollection(
+				putRequest({ ...collection, deleted: true }),
+				mockEnv,
+				testUserId,
+				"collection_1",
+			);
+			const body = (await response.json()) as {
+				collection: WorkerCollection;
+			};
+
+			expect(body.collection).toEqual(newer);
+			expect(JSON.parse(mockKv._store.get(key) ?? "null")).toEqual(newer);
+		});
+
+		it("should reject invalid data and other users' collections", async () => {
+			const missingName = await handlePutCollection(
+				putRequest({ ...collection, name: undefined }),
+				mockEnv,
+				testUserId,
+				"collection_1",
+			);
+			const wrongId = await handlePutCollection(
+				putRequest(collection, "collection_9"),
+				mockEnv,
+				testUserId,
+				"collection_9",
+			);
+			const otherUser = await handlePutCollection(
+				putRequest({ ...collection, userId: "other_user" }),
+				mockEnv,
+				testUserId,
+				"collection_1",
+			);
+
+			expect(missingName.status).toBe(400);
+			expect(wrongId.status).toBe(400);
+			expect(otherUser.status).toBe(403);
+			expect(mockKv.put).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,125 @@
+// bondwise-worker/src/handlers/collections.ts
+
+import type { Env, WorkerCollection } from "../types";
+import { createCollectionKey, errorResponse, jsonResponse } from "../utils";
+
+/**
+ * Handles GET /collections requests. Lists every collection for the
+ * authenticated user, including tombstones for deleted ones.
+ */
+export async function handleListCollections(
+	request: Request,
+	env: Env,
+	userId: string,
+): Promise<Response> {
+	console.log(`Listing collections for user: ${userId}`);
+	try {
+		const prefix = createCollectionKey(userId, "");
+		const collections: WorkerCollection[] = [];
+		let cursor: string | undefined;
+		do {
+			const page = await env.SAVED_ITEMS_KV.list({ prefix, cursor });
+			for (const key of page.keys) {
+				const value = await env.SAVED_ITEMS_KV.get(key.name);
+				if (!value) continue;
+				try {
+					collections.push(JSON.parse(value) as WorkerCollection);
+				} catch (parseError) {
+					console.error(
+						`Failed to parse collection with key ${key.name}:`,
+						parseError,
+					);
+				}
+			}
+			cursor = page.list_complete === false ? page.cursor : undefined;
+		} while (cursor);
+		return jsonResponse(collections);
+	} catch (listError) {
+		console.error("Error listing collections:", listError);
+		return errorResponse("Failed to list collections", 500);
+	}
+}
+
+/**
+ * Handles PUT /collections/:id requests. Creates, updates or tombstones a
+ * collection. The copy with the newest `updatedAt` wins, so a stale device
+ * can't overwrite a newer edit; the stored collection is returned either way.
+ */
+export async function handlePutCollection(
+	request: Request,
+	env: Env,
+	userId: string,
+	collectionId: string,
+): Promise<Response> {
+	try {
+		const collection = (await request.json()) as WorkerCollection;
+		if (
+			!collection ||
+			collection._id !== collectionId ||
+			!collection.userId ||
+			typeof collection.name !== "string" ||
+			typeof collection.filter !== "object" ||
+			typeof collection.sortCriteria !== "object" ||
+			typeof collection.updatedAt !== "number"
+		) {
+			return errorResponse(
+				"Invalid collection data - missing required fields",
+				400,
+			);
+		}
+
+		if (collection.userId !== userId) {
+			console.warn(
+				`Attempt to save collection for user ${collection.userId} by authenticated user ${userId}`,
+			);
+			return errorResponse("User ID mismatch", 403);
+		}
+
+		const key = createCollectionKey(userId, collectionId);
+		const existingValue = await env.SAVED_ITEMS_KV.get(key);
+		if (existingValue) {
+			try {
+				const existing = JSON.parse(existingValue) as WorkerCollection;
+				if (existing.updatedAt > collection.updatedAt) {
+					console.log(
+						`Keeping newer stored collection ${collectionId} for user: ${userId}`,
+					);
+					return jsonResponse({
+						status: "success",
+						message: "A newer version of the collection is stored",
+						collection: existing,
+					});
+				}
+			} catch (parseError) {
+				console.error(
+					`Failed to parse stored collection ${key}, overwriting:`,
+					parseError,
+				);
+			}
+		}
+
+		const collectionToSave: WorkerCollection = {
+			_id: collection._id,
+			userId: collection.userId,
+			name: collection.name,
+			filter: collection.filter,
+			sortCriteria: collection.sortCriteria,
+			createdAt: collection.createdAt ?? collection.updatedAt,
+			updatedAt: collection.updatedAt,
+			...(collection.deleted && { deleted: true }),
+		};
+		await env.SAVED_ITEMS_KV.put(key, JSON.stringify(collectionToSave));
+
+		return jsonResponse({
+			status: "success",
+			message: "Collection saved successfully",
+			collection: collectionToSave,
+		});
+	} catch (saveError: any) {
+		console.error("Error saving collection:", saveError);
+		if (saveError instanceof SyntaxError) {
+			return errorResponse("Invalid JSON format in request body", 400);
+		}
+		return errorResponse(saveError.message || "Failed to save collection", 500);
+	}
+}
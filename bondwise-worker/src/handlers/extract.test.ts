@@ -0,0 +1,206 @@
+// bondwise-worker/src/handlers/extract.test.ts
+
+import {
+	type MockInstance,
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "vitest";
+import * as auth from "../auth";
+import type { Env, ExtractedArticle } from "../types";
+import { handleExtract } from "./extract";
+
+vi.mock("../auth", async (importOriginal) => {
+	const actual = await importOriginal<typeof auth>();
+	return {
+		...actual,
+		authenticateRequestWithClerk: vi.fn(),
+	};
+});
+const mockedAuth = vi.mocked(auth.authenticateRequestWithClerk);
+
+const pageUrl = "https://blog.example.com/posts/readable";
+
+const paragraph =
+	"Reading later is a habit worth keeping, and this paragraph has enough words in it to look like the body of a real article to Readability. ";
+
+const articleHtml = `<!DOCTYPE html>
+<html lang="en-US">
+<head>
+	<title>A Readable Post</title>
+	<meta property="og:site_name" content="Example Blog">
+	<meta property="og:image" content="/images/cover.jpg">
+	<link rel="canonical" href="https://blog.example.com/posts/readable/">
+	<script type="application/ld+json">
+		{"@context": "https://schema.org", "@type": "Article", "datePublished": "2024-05-01T12:00:00Z"}
+	</script>
+</head>
+<body>
+	<nav><a href="/">Home</a></nav>
+	<article>
+		<h1>A Readable Post</h1>
+		<p>${paragraph.repeat(4)}</p>
+		<p onclick="alert(1)">${paragraph.repeat(4)}<a href="/related">Related</a></p>
+		<p>${paragraph.repeat(4)}<a href="javascript:alert(1)">Click</a></p>
+		<img src="images/chart.png" alt="Chart" onerror="alert(1)">
+		<script>alert("tracking")</script>
+	</article>
+	<nav class="pagination"><a href="/posts/readable?page=2">Next page</a></nav>
+</body>
+</html>`;
+
+const htmlResponse = (body: string, init: ResponseInit = {}) =>
+	new Response(body, {
+		status: 200,
+		headers: { "Content-Type": "text/html; charset=utf-8" },
+		...init,
+	});
+
+const extractRequest = (body: unknown) =>
+	new Request("http://worker/api/extract", {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			Authorization: "Bearer valid",
+		},
+		body: typeof body === "string" ? body : JSON.stringify(body),
+	});
+
+describe("handleExtract", () => {
+	let mockEnv: Env;
+	let fetchSpy: MockInstance<typeof fetch>;
+
+	beforeEach(() => {
+		mockedAuth.mockReset();
+		mockedAuth.mockResolvedValue({ status: "success", userId: "user_1" });
+		fetchSpy = vi.spyOn(globalThis, "fetch");
+		mockEnv = {
+			SAVED_ITEMS_KV: {} as KVNamespace,
+			FILES_BUCKET: {} as R2Bucket,
+		} as Env;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should return the sanitized article", async () => {
+		fetchSpy.mockResolvedValue(htmlResponse(articleHtml));
+
+		const response = await handleExtract(
+			extractRequest({ url: pageUrl }),
+			mockEnv,
+		);
+		expect(response.status).toBe(200);
+		const { article, nextPageUrl } = (await response.json()) as {
+			article: ExtractedArticle;
+			nextPageUrl?: string;
+		};
+
+		expect(fetchSpy).toHaveBeenCalledWith(pageUrl, expect.anything());
+		expect(article).toMatchObject({
+			title: "A Readable Post",
+			url: pageUrl,
+			siteName: "Example Blog",
+			type: "article",
+			status: "inbox",
+			publishedDate: "2024-05-01T12:00:00.000Z",
+			coverImage: "https://blog.example.com/images/cover.jpg",
+			language: "en",
+			canonicalUrl: "https://blog.example.com/posts/readable/",
+		});
+		expect(article.estimatedReadTime).toBe(2);
+		expect(article.excerpt.length).toBeGreaterThan(0);
+		expect(article.content).toContain("Reading later is a habit");
+		// Relative links and images point at the page's site
+		expect(article.content).toContain(
+			'href="https://blog.example.com/related"',
+		);
+		expect(article.content).toContain(
+			'src="https://blog.example.com/posts/images/chart.png"',
+		);
+		expect(article.content).not.toContain("<script");
+		expect(article.content).not.toContain("onclick");
+		expect(article.content).not.toContain("onerror");
+		expect(article.content).not.toContain("javascript:");
+		expect(article.content).not.toContain("Next page");
+		expect(nextPageUrl).toBe(`${pageUrl}?page=2`);
+	});
+
+	it("should return the page HTML as is when asked for it raw", async () => {
+		fetchSpy.mockResolvedValue(htmlResponse(articleHtml));
+
+		const response = await handleExtract(
+			extractRequest({ url: pageUrl, raw: true }),
+			mockEnv,
+		);
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({
+			status: "success",
+			html: articleHtml,
+			url: pageUrl,
+		});
+	});
+
+	it("should reject a missing or non-http URL", async () => {
+		for (const url of [undefined, "not a url", "ftp://example.com/file"]) {
+			const response = await handleExtract(extractRequest({ url }), mockEnv);
+			expect(response.status).toBe(400);
+		}
+		expect(fetchSpy).not.toHaveBeenCalled();
+	});
+
+	it("should respond 502 when the page can't be fetched", async () => {
+		fetchSpy.mockRejectedValueOnce(new TypeError("fetch failed"));
+		expect(
+			(await handleExtract(extractRequest({ url: pageUrl }), mockEnv)).status,
+		).toBe(502);
+
+		fetchSpy.mockResolvedValueOnce(htmlResponse("Forbidden", { status: 403 }));
+		const response = await handleExtract(
+			extractRequest({ url: pageUrl }),
+			mockEnv,
+		);
+		expect(response.status).toBe(502);
+		expect(((await response.json()) as { message: string }).message).toBe(
+			"Page responded with status 403",
+		);
+	});
+
+	it("should respond 422 for pages that aren't readable articles", async () => {
+		fetchSpy.mockResolvedValueOnce(
+			new Response("%PDF-1.4", {
+				headers: { "Content-Type": "application/pdf" },
+			}),
+		);
+		expect(
+			(await handleExtract(extractRequest({ url: pageUrl }), mockEnv)).status,
+		).toBe(422);
+
+		fetchSpy.mockResolvedValueOnce(htmlResponse("<html><body></body></html>"));
+		const response = await handleExtract(
+			extractRequest({ url: pageUrl }),
+			mockEnv,
+		);
+		expect(response.status).toBe(422);
+		expect(((await response.json()) as { message: string }).message).toBe(
+			"Could not parse article content",
+		);
+	});
+
+	it("should return the auth error when not signed in", async () => {
+		mockedAuth.mockResolvedValue({
+			status: "error",
+			response: new Response("Unauthorized", { status: 401 }),
+		});
+		const response = await handleExtract(
+			extractRequest({ url: pageUrl }),
+			mockEnv,
+		);
+		expect(response.status).toBe(401);
+		expect(fetchSpy).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,121 @@
+// bondwise-worker/src/handlers/extract.ts
+
+import { authenticateRequestWithClerk } from "../auth";
+import { extractArticle } from "../extract";
+import type { Env } from "../types";
+import { errorResponse, jsonResponse } from "../utils";
+
+// Give up on pages that take longer than this to respond
+export const EXTRACT_FETCH_TIMEOUT = 15 * 1000;
+// Larger pages are not articles worth reading, and would strain the isolate
+export const MAX_PAGE_SIZE = 5 * 1024 * 1024;
+
+const PAGE_REQUEST_HEADERS = {
+	"User-Agent":
+		"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.6167.160 Safari/537.36",
+	Accept:
+		"text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8",
+};
+
+function parsePageUrl(value: unknown): URL | null {
+	if (typeof value !== "string") return null;
+	try {
+		const url = new URL(value);
+		return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Handles POST /api/extract requests: fetches the page at `url` and returns
+ * its readable article. Saves the client from going through public CORS
+ * proxies. For paginated articles the response includes `nextPageUrl`,
+ * which the client extracts in turn. With `raw: true` the page HTML is
+ * returned as is, for sites the client has its own extraction rules for.
+ *
+ * Pages that can't be reached respond with 502, so the client can fall back
+ * to fetching them itself; pages that were fetched but aren't readable
+ * articles respond with 422.
+ */
+export async function handleExtract(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	console.log("Processing /api/extract request...");
+	try {
+		// Authentication is required
+		const authResult = await authenticateRequestWithClerk(request, env);
+		if (authResult.status === "error") return authResult.response;
+
+		const { url, raw } = (await request.json()) as {
+			url?: unknown;
+			raw?: unknown;
+		};
+		const pageUrl = parsePageUrl(url);
+		if (!pageUrl) return errorResponse("Invalid URL", 400);
+
+		let pageResponse: Response;
+		try {
+			pageResponse = await fetch(pageUrl.href, {
+				headers: PAGE_REQUEST_HEADERS,
+				redirect: "follow",
+				signal: AbortSignal.timeout(EXTRACT_FETCH_TIMEOUT),
+			});
+		} catch (error) {
+			console.error(`Fetching ${pageUrl.href} failed:`, error);
+			return errorResponse("Failed to fetch the page", 502);
+		}
+
+		if (!pageResponse.ok) {
+			console.error(
+				`Fetching ${pageUrl.href} failed with status ${pageResponse.status}`,
+			);
+			return errorResponse(
+				`Page responded with status ${pageResponse.status}`,
+				502,
+			);
+		}
+
+		const contentType = pageResponse.headers.get("Content-Type") ?? "";
+		if (contentType && !/html/i.test(contentType)) {
+			return errorResponse(`Not an HTML page (${contentType})`, 422);
+		}
+		const contentLength = Number(pageResponse.headers.get("Content-Length"));
+		if (contentLength > MAX_PAGE_SIZE) {
+			return errorResponse("Page is too large to extract", 422);
+		}
+
+		const html = await pageResponse.text();
+		if (html.length > MAX_PAGE_SIZE) {
+			return errorResponse("Page is too large to extract", 422);
+		}
+
+		// Relative links resolve against where the page ended up after redirects
+		const finalUrl = pageResponse.url || pageUrl.href;
+		if (raw === true) {
+			return jsonResponse({ status: "success", html, url: finalUrl });
+		}
+
+		const extraction = extractArticle(html, pageUrl.href, finalUrl);
+		if (!extraction) {
+			return errorResponse("Could not parse article content", 422);
+		}
+
+		console.log(`Successfully extracted ${pageUrl.href}`);
+		return jsonResponse({
+			status: "success",
+			article: extraction.article,
+			nextPageUrl: extraction.nextPageUrl,
+		});
+	} catch (error: any) {
+		console.error("Error processing /api/extract:", error);
+		if (error instanceof SyntaxError) {
+			return errorResponse("Invalid JSON format in request body", 400);
+		}
+		return errorResponse(
+			error.message || "Internal worker error processing extract request.",
+			500,
+		);
+	}
+}
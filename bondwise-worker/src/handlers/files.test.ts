@@ -0,0 +1,317 @@
+// bondwise-worker/src/handlers/files.test.ts
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { createBucketMock } from "../test-utils/bucketMock";
+import { createKvMock } from "../test-utils/kvMock";
+import type { Env, WorkerArticle } from "../types";
+import { createFileKey, createUploadKey, createUserItemKey } from "../utils";
+import {
+	FILE_PART_SIZE,
+	handleAbortUpload,
+	handleCompleteUpload,
+	handleCreateUpload,
+	handleDeleteFile,
+	handleGetFile,
+	handlePutFile,
+	handleUploadPart,
+} from "./files";
+
+describe("Worker File Handlers", () => {
+	const testUserId = "user_test_files_123";
+	let mockKv: ReturnType<typeof createKvMock>;
+	let mockBucket: ReturnType<typeof createBucketMock>;
+	let mockEnv: Env;
+
+	const pdfItem: WorkerArticle = {
+		_id: "pdf_1",
+		userId: testUserId,
+		url: "local-pdf://paper.pdf",
+		title: "Paper",
+		type: "pdf",
+		savedAt: 1000,
+		isRead: false,
+		favorite: false,
+	};
+
+	const storedItem = () =>
+		JSON.parse(
+			mockKv._store.get(createUserItemKey(testUserId, pdfItem._id)) as string,
+		) as WorkerArticle;
+
+	const fileUrl = (path = "") =>
+		`http://worker/files/${pdfItem._id}${path ? `/${path}` : ""}`;
+
+	const startUpload = (size: number) =>
+		handleCreateUpload(
+			new Request(fileUrl("uploads"), {
+				method: "POST",
+				body: JSON.stringify({ size, contentType: "application/pdf" }),
+			}),
+			mockEnv,
+			testUserId,
+			pdfItem._id,
+		);
+
+	const uploadPart = (uploadId: string, partNumber: number, body: BodyInit) =>
+		handleUploadPart(
+			new Request(fileUrl(`uploads/${uploadId}/parts/${partNumber}`), {
+				method: "PUT",
+				body,
+			}),
+			mockEnv,
+			testUserId,
+			pdfItem._id,
+			uploadId,
+			String(partNumber),
+		);
+
+	beforeEach(() => {
+		mockKv = createKvMock();
+		mockBucket = createBucketMock();
+		mockEnv = {
+			SAVED_ITEMS_KV: mockKv,
+			FILES_BUCKET: mockBucket,
+		} as unknown as Env;
+		mockKv._store.set(
+			createUserItemKey(testUserId, pdfItem._id),
+			JSON.stringify(pdfItem),
+		);
+	});
+
+	describe("handlePutFile / handleGetFile", () => {
+		it("should store a file and serve it back", async () => {
+			const putResponse = await handlePutFile(
+				new Request(fileUrl(), {
+					method: "PUT",
+					headers: { "Content-Type": "application/pdf" },
+					body: "%PDF-1.4 test",
+				}),
+				mockEnv,
+				testUserId,
+				pdfItem._id,
+			);
+			expect(putResponse.status).toBe(201);
+			expect(mockBucket._objects.has(createFileKey(testUserId, "pdf_1"))).toBe(
+				true,
+			);
+			// The item keeps only a reference to the file
+			expect(storedItem().fileRef).toMatchObject({
+				key: createFileKey(testUserId, "pdf_1"),
+				size: 13,
+				contentType: "application/pdf",
+			});
+
+			const getResponse = await handleGetFile(
+				new Request(fileUrl()),
+				mockEnv,
+				testUserId,
+				pdfItem._id,
+			);
+			expect(getResponse.status).toBe(200);
+			expect(getResponse.headers.get("Content-Type")).toBe("application/pdf");
+			expect(await getResponse.text()).toBe("%PDF-1.4 test");
+		});
+
+		it("should not store files for another user's item", async () => {
+			const response = await handlePutFile(
+				new Request(fileUrl(), { method: "PUT", body: "%PDF" }),
+				mockEnv,
+				"other_user",
+				pdfItem._id,
+			);
+			expect(response.status).toBe(404);
+			expect(mockBucket._objects.size).toBe(0);
+		});
+
+		it("should not serve another user's file", async () => {
+			await mockBucket.put(createFileKey(testUserId, pdfItem._id), "%PDF");
+			const response = await handleGetFile(
+				new Request(fileUrl()),
+				mockEnv,
+				"other_user",
+				pdfItem._id,
+			);
+			expect(response.status).toBe(404);
+		});
+
+		it("should reject files too large for a single upload", async () => {
+			const response = await handlePutFile(
+				new Request(fileUrl(), {
+					method: "PUT",
+					body: new Uint8Array(FILE_PART_SIZE + 1),
+				}),
+				mockEnv,
+				testUserId,
+				pdfItem._id,
+			);
+			expect(response.status).toBe(413);
+			expect(mockBucket._objects.size).toBe(0);
+		});
+
+		it("should serve inline fileData of items saved before the bucket", async () => {
+			mockKv._store.set(
+				createUserItemKey(testUserId, pdfItem._id),
+				JSON.stringify({ ...pdfItem, fileData: btoa("%PDF legacy") }),
+			);
+			const response = await handleGetFile(
+				new Request(fileUrl()),
+				mockEnv,
+				testUserId,
+				pdfItem._id,
+			);
+			expect(response.status).toBe(200);
+			expect(await response.text()).toBe("%PDF legacy");
+		});
+	});
+
+	describe("handleDeleteFile", () => {
+		it("should remove the file and the item's reference", async () => {
+			await handlePutFile(
+				new Request(fileUrl(), { method: "PUT", body: "%PDF" }),
+				mockEnv,
+				testUserId,
+				pdfItem._id,
+			);
+			const response = await handleDeleteFile(
+				new Request(fileUrl(), { method: "DELETE" }),
+				mockEnv,
+				testUserId,
+				pdfItem._id,
+			);
+			expect(response.status).toBe(200);
+			expect(mockBucket._objects.size).toBe(0);
+			expect(storedItem().fileRef).toBeUndefined();
+		});
+	});
+
+	describe("multipart uploads", () => {
+		const size = FILE_PART_SIZE + 3;
+		const firstPart = new Uint8Array(FILE_PART_SIZE).fill(1);
+		const lastPart = new Uint8Array([2, 3, 4]);
+
+		it("should assemble the parts into the item's file", async () => {
+			const createResponse = await startUpload(size);
+			expect(createResponse.status).toBe(201);
+			const upload = (await createResponse.json()) as {
+				uploadId: string;
+				partSize: number;
+				partCount: number;
+				uploadedParts: number[];
+			};
+			expect(upload).toMatchObject({
+				partSize: FILE_PART_SIZE,
+				partCount: 2,
+				uploadedParts: [],
+			});
+
+			// Parts may arrive in any order
+			expect((await uploadPart(upload.uploadId, 2, lastPart)).status).toBe(200);
+			expect((await uploadPart(upload.uploadId, 1, firstPart)).status).toBe(
+				200,
+			);
+
+			const completeResponse = await handleCompleteUpload(
+				new Request(fileUrl(`uploads/${upload.uploadId}/complete`), {
+					method: "POST",
+				}),
+				mockEnv,
+				testUserId,
+				pdfItem._id,
+				upload.uploadId,
+			);
+			expect(completeResponse.status).toBe(201);
+
+			const stored = mockBucket._objects.get(
+				createFileKey(testUserId, pdfItem._id),
+			);
+			expect(stored?.data.byteLength).toBe(size);
+			expect([...(stored?.data.slice(-4) ?? [])]).toEqual([1, 2, 3, 4]);
+			expect(storedItem().fileRef).toMatchObject({
+				size,
+				contentType: "application/pdf",
+			});
+			expect(mockKv._store.has(createUploadKey(testUserId, pdfItem._id))).toBe(
+				false,
+			);
+		});
+
+		it("should resume an interrupted upload with the parts received so far", async () => {
+			const { uploadId } = (await (await startUpload(size)).json()) as {
+				uploadId: string;
+			};
+			await uploadPart(uploadId, 1, firstPart);
+
+			const resumeResponse = await startUpload(size);
+			expect(resumeResponse.status).toBe(200);
+			expect(await resumeResponse.json()).toMatchObject({
+				uploadId,
+				uploadedParts: [1],
+			});
+		});
+
+		it("should refuse to complete an upload with missing parts", async () => {
+			const { uploadId } = (await (await startUpload(size)).json()) as {
+				uploadId: string;
+			};
+			await uploadPart(uploadId, 2, lastPart);
+
+			const response = await handleCompleteUpload(
+				new Request(fileUrl(`uploads/${uploadId}/complete`), {
+					method: "POST",
+				}),
+				mockEnv,
+				testUserId,
+				pdfItem._id,
+				uploadId,
+			);
+			expect(response.status).toBe(409);
+			const body = (await response.json()) as { details?: unknown };
+			expect(body.details).toEqual({ missing: [1] });
+			expect(mockBucket._objects.size).toBe(0);
+		});
+
+		it("should reject parts of the wrong size", async () => {
+			const { uploadId } = (await (await startUpload(size)).json()) as {
+				uploadId: string;
+			};
+			const response = await uploadPart(uploadId, 2, new Uint8Array(10));
+			expect(response.status).toBe(400);
+		});
+
+		it("should not accept parts for another user's upload", async () => {
+			const { uploadId } = (await (await startUpload(size)).json()) as {
+				uploadId: string;
+			};
+			const response = await handleUploadPart(
+				new Request(fileUrl(`uploads/${uploadId}/parts/2`), {
+					method: "PUT",
+					body: lastPart,
+				}),
+				mockEnv,
+				"other_user",
+				pdfItem._id,
+				uploadId,
+				"2",
+			);
+			expect(response.status).toBe(404);
+		});
+
+		it("should discard an aborted upload", async () => {
+			const { uploadId } = (await (await startUpload(size)).json()) as {
+				uploadId: string;
+			};
+			const response = await handleAbortUpload(
+				new Request(fileUrl(`uploads/${uploadId}`), { method: "DELETE" }),
+				mockEnv,
+				testUserId,
+				pdfItem._id,
+				uploadId,
+			);
+			expect(response.status).toBe(200);
+			expect(mockBucket._uploads.size).toBe(0);
+			expect(mockKv._store.has(createUploadKey(testUserId, pdfItem._id))).toBe(
+				false,
+			);
+		});
+	});
+});
@@ -0,0 +1,466 @@
+// bondwise-worker/src/handlers/files.ts
+
+import type {
+	Env,
+	FileReference,
+	PendingUpload,
+	WorkerArticle,
+} from "../types";
+import {
+	corsHeaders,
+	createFileKey,
+	createUploadKey,
+	createUserItemKey,
+	errorResponse,
+	jsonResponse,
+} from "../utils";
+
+/**
+ * Bytes per part of a multipart upload. Files up to this size can be sent in
+ * a single PUT; larger ones must be uploaded in parts of exactly this size
+ * (only the last part may be smaller). R2 requires at least 5 MiB per part.
+ */
+export const FILE_PART_SIZE = 8 * 1024 * 1024;
+
+const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+
+/**
+ * MIME type to store an item's file under when the client didn't send one.
+ */
+export function fileContentType(type: WorkerArticle["type"]): string {
+	if (type === "pdf") return "application/pdf";
+	if (type === "epub") return "application/epub+zip";
+	return DEFAULT_CONTENT_TYPE;
+}
+
+// Reads the caller's own item; access to a file is access to its item
+async function getOwnedItem(
+	env: Env,
+	userId: string,
+	itemId: string,
+): Promise<WorkerArticle | null> {
+	const value = await env.SAVED_ITEMS_KV.get(createUserItemKey(userId, itemId));
+	return value ? (JSON.parse(value) as WorkerArticle) : null;
+}
+
+// Points the item at its file, dropping any inline copy, or clears the pointer
+async function setFileReference(
+	env: Env,
+	userId: string,
+	itemId: string,
+	fileRef: FileReference | undefined,
+): Promise<void> {
+	const item = await getOwnedItem(env, userId, itemId);
+	if (!item) return;
+	const { fileData: _inline, fileRef: _previous, ...rest } = item;
+	const updated: WorkerArticle = fileRef ? { ...rest, fileRef } : rest;
+	await env.SAVED_ITEMS_KV.put(
+		createUserItemKey(userId, itemId),
+		JSON.stringify(updated),
+	);
+}
+
+function decodeBase64(data: string): ArrayBuffer {
+	const binary = atob(data.replace(/^data:[^,]*,/, ""));
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes.buffer;
+}
+
+/**
+ * Stores an item's file in FILES_BUCKET, replacing any previous one.
+ * Used for single-part uploads and for base64 `fileData` sent by older clients.
+ * @returns The reference to keep on the item.
+ */
+export async function putItemFile(
+	env: Env,
+	userId: string,
+	itemId: string,
+	data: ArrayBuffer | string,
+	contentType = DEFAULT_CONTENT_TYPE,
+): Promise<FileReference> {
+	const key = createFileKey(userId, itemId);
+	const body = typeof data === "string" ? decodeBase64(data) : data;
+	const object = await env.FILES_BUCKET.put(key, body, {
+		httpMetadata: { contentType },
+	});
+	return {
+		key,
+		size: object?.size ?? body.byteLength,
+		contentType,
+		uploadedAt: Date.now(),
+	};
+}
+
+/**
+ * Removes an item's file and abandons any unfinished upload of it.
+ */
+export async function deleteItemFile(
+	env: Env,
+	userId: string,
+	itemId: string,
+): Promise<void> {
+	const uploadKey = createUploadKey(userId, itemId);
+	const pendingValue = await env.SAVED_ITEMS_KV.get(uploadKey);
+	if (pendingValue) {
+		const pending = JSON.parse(pendingValue) as PendingUpload;
+		await env.FILES_BUCKET.resumeMultipartUpload(
+			createFileKey(userId, itemId),
+			pending.uploadId,
+		)
+			.abort()
+			.catch((abortError) =>
+				console.warn(`Failed to abort upload for ${itemId}:`, abortError),
+			);
+		await env.SAVED_ITEMS_KV.delete(uploadKey);
+	}
+	await env.FILES_BUCKET.delete(createFileKey(userId, itemId));
+}
+
+/**
+ * Handles GET /files/:id requests. Streams the file of one of the
+ * authenticated user's items. Items saved before files moved to the bucket
+ * are served from their inline `fileData`.
+ */
+export async function handleGetFile(
+	request: Request,
+	env: Env,
+	userId: string,
+	itemId: string,
+): Promise<Response> {
+	console.log(`Getting file of item ${itemId} for user: ${userId}`);
+	try {
+		const object = await env.FILES_BUCKET.get(createFileKey(userId, itemId));
+		if (object) {
+			return new Response(object.body, {
+				headers: {
+					"Content-Type":
+						object.httpMetadata?.contentType ?? DEFAULT_CONTENT_TYPE,
+					"Content-Length": String(object.size),
+					ETag: object.httpEtag,
+					...corsHeaders,
+				},
+			});
+		}
+
+		const item = await getOwnedItem(env, userId, itemId);
+		if (item?.fileData) {
+			return new Response(decodeBase64(item.fileData), {
+				headers: { "Content-Type": DEFAULT_CONTENT_TYPE, ...corsHeaders },
+			});
+		}
+		return errorResponse("File not found", 404);
+	} catch (getError) {
+		console.error(`Error retrieving file of item ${itemId}:`, getError);
+		return errorResponse("Failed to retrieve file", 500);
+	}
+}
+
+/**
+ * Handles PUT /files/:id requests. Stores the request body as the file of
+ * one of the authenticated user's items, in one go. Files larger than
+ * FILE_PART_SIZE must use a multipart upload instead.
+ */
+export async function handlePutFile(
+	request: Request,
+	env: Env,
+	userId: string,
+	itemId: string,
+): Promise<Response> {
+	try {
+		if (!(await getOwnedItem(env, userId, itemId))) {
+			return errorResponse("Item not found", 404);
+		}
+		const body = await request.arrayBuffer();
+		if (body.byteLength === 0) {
+			return errorResponse("Empty file", 400);
+		}
+		if (body.byteLength > FILE_PART_SIZE) {
+			return errorResponse(
+				`File too large for a single upload - use /files/${itemId}/uploads`,
+				413,
+			);
+		}
+
+		const fileRef = await putItemFile(
+			env,
+			userId,
+			itemId,
+			body,
+			request.headers.get("Content-Type") || DEFAULT_CONTENT_TYPE,
+		);
+		await setFileReference(env, userId, itemId, fileRef);
+		console.log(
+			`Stored file of item ${itemId} (${fileRef.size} bytes) for user: ${userId}`,
+		);
+		return jsonResponse({ status: "success", fileRef }, 201);
+	} catch (putError) {
+		console.error(`Error storing file of item ${itemId}:`, putError);
+		return errorResponse("Failed to store file", 500);
+	}
+}
+
+/**
+ * Handles DELETE /files/:id requests. Removes the file of one of the
+ * authenticated user's items.
+ */
+export async function handleDeleteFile(
+	request: Request,
+	env: Env,
+	userId: string,
+	itemId: string,
+): Promise<Response> {
+	console.log(`Deleting file of item ${itemId} for user: ${userId}`);
+	try {
+		await deleteItemFile(env, userId, itemId);
+		await setFileReference(env, userId, itemId, undefined);
+		return jsonResponse({
+			status: "success",
+			message: "File deleted successfully",
+		});
+	} catch (deleteError) {
+		console.error(`Error deleting file of item ${itemId}:`, deleteError);
+		return errorResponse("Failed to delete file", 500);
+	}
+}
+
+// Number of parts a file of `size` bytes is split into
+const partCount = (upload: Pick<PendingUpload, "size" | "partSize">) =>
+	Math.ceil(upload.size / upload.partSize);
+
+// Describes an upload to the client, including which parts it still needs
+const uploadResponse = (upload: PendingUpload) => ({
+	uploadId: upload.uploadId,
+	partSize: upload.partSize,
+	partCount: partCount(upload),
+	uploadedParts: upload.parts.map((part) => part.partNumber),
+});
+
+async function getPendingUpload(
+	env: Env,
+	userId: string,
+	itemId: string,
+	uploadId: string,
+): Promise<PendingUpload | null> {
+	const value = await env.SAVED_ITEMS_KV.get(createUploadKey(userId, itemId));
+	const pending = value ? (JSON.parse(value) as PendingUpload) : null;
+	return pending?.uploadId === uploadId ? pending : null;
+}
+
+/**
+ * Handles POST /files/:id/uploads requests. Starts a multipart upload of
+ * `{ size, contentType }` for one of the authenticated user's items. If an
+ * upload of a file of the same size is already in progress it is returned
+ * instead, listing the parts already received, so the client can resume.
+ */
+export async function handleCreateUpload(
+	request: Request,
+	env: Env,
+	userId: string,
+	itemId: string,
+): Promise<Response> {
+	try {
+		const { size, contentType } = (await request.json()) as {
+			size?: number;
+			contentType?: string;
+		};
+		if (typeof size !== "number" || !Number.isInteger(size) || size <= 0) {
+			return errorResponse("Invalid size - must be a positive integer", 400);
+		}
+		if (!(await getOwnedItem(env, userId, itemId))) {
+			return errorResponse("Item not found", 404);
+		}
+
+		const key = createFileKey(userId, itemId);
+		const uploadKey = createUploadKey(userId, itemId);
+		const existingValue = await env.SAVED_ITEMS_KV.get(uploadKey);
+		if (existingValue) {
+			const existing = JSON.parse(existingValue) as PendingUpload;
+			if (existing.size === size) {
+				console.log(
+					`Resuming upload ${existing.uploadId} of item ${itemId} (${existing.parts.length}/${partCount(existing)} parts)`,
+				);
+				return jsonResponse(uploadResponse(existing));
+			}
+			// A different file replaced the one being uploaded
+			await env.FILES_BUCKET.resumeMultipartUpload(key, existing.uploadId)
+				.abort()
+				.catch((abortError) =>
+					console.warn(
+						`Failed to abort upload ${existing.uploadId}:`,
+						abortError,
+					),
+				);
+		}
+
+		const resolvedType = contentType || DEFAULT_CONTENT_TYPE;
+		const multipart = await env.FILES_BUCKET.createMultipartUpload(key, {
+			httpMetadata: { contentType: resolvedType },
+		});
+		const upload: PendingUpload = {
+			uploadId: multipart.uploadId,
+			size,
+			contentType: resolvedType,
+			partSize: FILE_PART_SIZE,
+			parts: [],
+			createdAt: Date.now(),
+		};
+		await env.SAVED_ITEMS_KV.put(uploadKey, JSON.stringify(upload));
+		console.log(
+			`Started upload ${upload.uploadId} of item ${itemId} (${size} bytes in ${partCount(upload)} parts)`,
+		);
+		return jsonResponse(uploadResponse(upload), 201);
+	} catch (createError) {
+		console.error(`Error starting upload of item ${itemId}:`, createError);
+		if (createError instanceof SyntaxError) {
+			return errorResponse("Invalid JSON format in request body", 400);
+		}
+		return errorResponse("Failed to start upload", 500);
+	}
+}
+
+/**
+ * Handles PUT /files/:id/uploads/:uploadId/parts/:partNumber requests.
+ * Stores one part (1-based) of a multipart upload. Parts may be sent again,
+ * e.g. after a dropped connection; the latest copy is kept. Parts are
+ * recorded with a read-modify-write, so clients send them one at a time.
+ */
+export async function handleUploadPart(
+	request: Request,
+	env: Env,
+	userId: string,
+	itemId: string,
+	uploadId: string,
+	partNumberParam: string,
+): Promise<Response> {
+	try {
+		const pending = await getPendingUpload(env, userId, itemId, uploadId);
+		if (!pending) {
+			return errorResponse("Upload not found", 404);
+		}
+		const partNumber = Number(partNumberParam);
+		const count = partCount(pending);
+		if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > count) {
+			return errorResponse(
+				`Invalid part number - must be between 1 and ${count}`,
+				400,
+			);
+		}
+
+		const body = await request.arrayBuffer();
+		const expectedSize =
+			partNumber < count
+				? pending.partSize
+				: pending.size - pending.partSize * (count - 1);
+		if (body.byteLength !== expectedSize) {
+			return errorResponse(
+				`Invalid part size - expected ${expectedSize} bytes, got ${body.byteLength}`,
+				400,
+			);
+		}
+
+		const part = await env.FILES_BUCKET.resumeMultipartUpload(
+			createFileKey(userId, itemId),
+			uploadId,
+		).uploadPart(partNumber, body);
+		pending.parts = [
+			...pending.parts.filter((uploaded) => uploaded.partNumber !== partNumber),
+			part,
+		];
+		await env.SAVED_ITEMS_KV.put(
+			createUploadKey(userId, itemId),
+			JSON.stringify(pending),
+		);
+		return jsonResponse({ partNumber, etag: part.etag });
+	} catch (partError) {
+		console.error(
+			`Error storing part ${partNumberParam} of upload ${uploadId}:`,
+			partError,
+		);
+		return errorResponse("Failed to store part", 500);
+	}
+}
+
+/**
+ * Handles POST /files/:id/uploads/:uploadId/complete requests. Assembles
+ * the uploaded parts into the item's file and points the item at it.
+ */
+export async function handleCompleteUpload(
+	request: Request,
+	env: Env,
+	userId: string,
+	itemId: string,
+	uploadId: string,
+): Promise<Response> {
+	try {
+		const pending = await getPendingUpload(env, userId, itemId, uploadId);
+		if (!pending) {
+			return errorResponse("Upload not found", 404);
+		}
+		const uploaded = new Set(pending.parts.map((part) => part.partNumber));
+		const missing: number[] = [];
+		for (let partNumber = 1; partNumber <= partCount(pending); partNumber++) {
+			if (!uploaded.has(partNumber)) missing.push(partNumber);
+		}
+		if (missing.length > 0) {
+			return errorResponse("Upload is missing parts", 409, { missing });
+		}
+
+		const key = createFileKey(userId, itemId);
+		const parts = [...pending.parts].sort(
+			(a, b) => a.partNumber - b.partNumber,
+		);
+		const object = await env.FILES_BUCKET.resumeMultipartUpload(
+			key,
+			uploadId,
+		).complete(parts);
+		const fileRef: FileReference = {
+			key,
+			size: object.size,
+			contentType: pending.contentType,
+			uploadedAt: Date.now(),
+		};
+		await env.SAVED_ITEMS_KV.delete(createUploadKey(userId, itemId));
+		await setFileReference(env, userId, itemId, fileRef);
+		console.log(
+			`Completed upload ${uploadId} of item ${itemId} (${fileRef.size} bytes)`,
+		);
+		return jsonResponse({ status: "success", fileRef }, 201);
+	} catch (completeError) {
+		console.error(`Error completing upload ${uploadId}:`, completeError);
+		return errorResponse("Failed to complete upload", 500);
+	}
+}
+
+/**
+ * Handles DELETE /files/:id/uploads/:uploadId requests. Abandons an
+ * unfinished upload and discards its parts.
+ */
+export async function handleAbortUpload(
+	request: Request,
+	env: Env,
+	userId: string,
+	itemId: string,
+	uploadId: string,
+): Promise<Response> {
+	try {
+		const pending = await getPendingUpload(env, userId, itemId, uploadId);
+		if (!pending) {
+			return errorResponse("Upload not found", 404);
+		}
+		await env.FILES_BUCKET.resumeMultipartUpload(
+			createFileKey(userId, itemId),
+			uploadId,
+		).abort();
+		await env.SAVED_ITEMS_KV.delete(createUploadKey(userId, itemId));
+		return jsonResponse({
+			status: "success",
+			message: "Upload aborted successfully",
+		});
+	} catch (abortError) {
+		console.error(`Error aborting upload ${uploadId}:`, abortError);
+		return errorResponse("Failed to abort upload", 500);
+	}
+}
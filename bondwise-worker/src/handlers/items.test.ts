@@ -1,93 +1,18 @@
 // bondwise-worker/src/handlers/items.test.ts
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import type { Env, WorkerArticle } from "../types";
-import { createUserItemKey } from "../utils";
+import { createBucketMock } from "../test-utils/bucketMock";
+import { createKvMock } from "../test-utils/kvMock";
+import type { ChangesResponse, Env, WorkerArticle } from "../types";
+import { createChangeSeq, createFileKey, createUserItemKey } from "../utils";
 import {
 	handleDeleteItem,
 	handleGetItem,
+	handleListChanges,
 	handleListItems,
 	handlePostItem,
 } from "./items";
 
-// Function to create a KV mock with an internal store
-const createKvMock = () => {
-	const store = new Map<string, string>(); // Internal store for this mock instance
-	const mock = {
-		_store: store, // Expose store for direct manipulation in tests if needed
-		get: vi
-			.fn()
-			.mockImplementation(
-				async (
-					key: string,
-					options?: any,
-				): Promise<string | Record<string, any> | null> => {
-					const value = store.get(key);
-					const found = value !== undefined;
-					// console.log(`[Mock KV Get] Key: "${key}", Found: ${found}`);
-					if (!found) return null;
-					if (options?.type === "json") {
-						try {
-							return JSON.parse(value);
-						} catch (e) {
-							return null;
-						}
-					}
-					return value;
-				},
-			),
-		put: vi
-			.fn()
-			.mockImplementation(
-				async (key: string, value: string): Promise<undefined> => {
-					// console.log(`[Mock KV Put] Setting Key: "${key}"`);
-					store.set(key, value); // Use the internal store
-					return undefined;
-				},
-			),
-		delete: vi
-			.fn()
-			.mockImplementation(async (key: string): Promise<undefined> => {
-				const deleted = store.delete(key); // Use the internal store
-				// console.log(`[Mock KV Delete] Key: "${key}", Deleted: ${deleted}`);
-				return undefined;
-			}),
-		list: vi
-			.fn()
-			.mockImplementation(
-				async (
-					options?: KVNamespaceListOptions,
-				): Promise<KVNamespaceListResult<unknown>> => {
-					const prefix = options?.prefix ?? "";
-					// console.log(`[Mock KV List] Listing with prefix: "${prefix}". Current store size: ${store.size}`);
-					// console.log("[Mock KV List] Current Keys:", Array.from(store.keys()));
-					const keys: KVNamespaceListKey<unknown>[] = [];
-					for (const key of store.keys()) {
-						// Use the internal store
-						if (key.startsWith(prefix)) {
-							// console.log(`[Mock KV List]   Match found: "${key}"`);
-							keys.push({
-								name: key,
-								expiration: undefined,
-								metadata: undefined,
-							});
-						}
-					}
-					// console.log(`[Mock KV List] Returning ${keys.length} keys for prefix "${prefix}"`);
-					return {
-						keys: keys,
-						list_complete: true,
-						cacheStatus: null,
-					};
-				},
-			),
-		getWithMetadata: vi.fn(),
-		deleteMany: vi.fn(),
-		putMany: vi.fn(),
-	};
-	return mock as unknown as KVNamespace & { _store: Map<string, string> }; // Cast including _store
-};
-
 // Declare mockKvNamespace with let so it can be reassigned in beforeEach
 let mockKvNamespace: ReturnType<typeof createKvMock>;
 
@@ -152,6 +77,7 @@ describe("Worker Item Handlers", () => {
 		// Mock environment
 		mockEnv = {
 			SAVED_ITEMS_KV: mockKvNamespace,
+			FILES_BUCKET: createBucketMock(),
 			// Add other required Env properties
 			CLERK_SECRET_KEY: "test_secret_key",
 			CLERK_PUBLISHABLE_KEY: "test_pub_key",
@@ -500,6 +426,77 @@ describe("Worker Item Handlers", () => {
 			expect(mockKvNamespace.put).not.toHaveBeenCalled();
 		});
 
+		it("should merge field changes with the stored item", async () => {
+			const key = createUserItemKey(testUserId, article1._id);
+			mockKvNamespace._store.set(
+				key,
+				JSON.stringify({
+					...article1,
+					favorite: true,
+					fieldTimestamps: { favorite: 2000 },
+				}),
+			);
+			// Another device marked it read without knowing about the favorite
+			const incoming: WorkerArticle = {
+				...article1,
+				isRead: true,
+				fieldTimestamps: { isRead: 3000 },
+			};
+
+			const response = await handlePostItem(
+				new Request("http://example.com/items", {
+					method: "POST",
+					body: JSON.stringify(incoming),
+				}),
+				mockEnv,
+				mockCtx,
+				testUserId,
+			);
+
+			expect(response.status).toBe(201);
+			const stored = JSON.parse(
+				mockKvNamespace._store.get(key) as string,
+			) as WorkerArticle;
+			expect(stored.favorite).toBe(true);
+			expect(stored.isRead).toBe(true);
+			expect(stored.fieldTimestamps).toEqual({ favorite: 2000, isRead: 3000 });
+		});
+
+		it("should move inline file data to the files bucket", async () => {
+			const pdfItem: WorkerArticle = {
+				...newItem,
+				_id: "pdf_new",
+				type: "pdf",
+				fileData: btoa("%PDF-1.4"),
+			};
+			const response = await handlePostItem(
+				new Request("http://example.com/items", {
+					method: "POST",
+					body: JSON.stringify(pdfItem),
+				}),
+				mockEnv,
+				mockCtx,
+				testUserId,
+			);
+
+			expect(response.status).toBe(201);
+			const stored = JSON.parse(
+				mockKvNamespace._store.get(
+					createUserItemKey(testUserId, pdfItem._id),
+				) as string,
+			) as WorkerArticle;
+			expect(stored.fileData).toBeUndefined();
+			expect(stored.fileRef).toMatchObject({
+				key: createFileKey(testUserId, pdfItem._id),
+				size: 8,
+				contentType: "application/pdf",
+			});
+			const file = await mockEnv.FILES_BUCKET.get(
+				createFileKey(testUserId, pdfItem._id),
+			);
+			expect(await file?.text()).toBe("%PDF-1.4");
+		});
+
 		it("should return 403 if item userId does not match authenticated userId", async () => {
 			const wrongUserItem = { ...newItem, userId: "wrong_user" };
 			const request = new Request("http://example.com/items", {
@@ -616,6 +613,22 @@ describe("Worker Item Handlers", () => {
 			expect(itemExistsAfterDelete).toBe(false); // Verify item is gone
 		});
 
+		it("should delete the item's file", async () => {
+			const fileKey = createFileKey(testUserId, article1._id);
+			await mockEnv.FILES_BUCKET.put(fileKey, "%PDF");
+
+			await handleDeleteItem(
+				new Request(`http://example.com/items/${article1._id}`, {
+					method: "DELETE",
+				}),
+				mockEnv,
+				testUserId,
+				article1._id,
+			);
+
+			expect(await mockEnv.FILES_BUCKET.get(fileKey)).toBeNull();
+		});
+
 		it("should return success even if item doesn't exist (idempotent)", async () => {
 			const key = createUserItemKey(testUserId, "non_existent_id");
 			expect(mockKvNamespace._store.has(key)).toBe(false);
@@ -661,4 +674,189 @@ describe("Worker Item Handlers", () => {
 			expect(mockKvNamespace._store.has(otherUserKey)).toBe(true); // Other user's item should remain
 		});
 	});
+
+	// --- handleListChanges ---
+	describe("handleListChanges", () => {
+		const postItem = (item: WorkerArticle) =>
+			handlePostItem(
+				new Request("http://example.com/items", {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify(item),
+				}),
+				mockEnv,
+				mockCtx,
+				testUserId,
+			);
+
+		const getChanges = async (query = "") => {
+			const response = await handleListChanges(
+				new Request(`http://example.com/items/changes${query}`),
+				mockEnv,
+				testUserId,
+			);
+			return { response, body: (await response.json()) as ChangesResponse };
+		};
+
+		// Changes are only past the cursor once they're older than this
+		const settleMs = 60_000;
+
+		const newArticle: WorkerArticle = {
+			_id: "article_new",
+			userId: testUserId,
+			url: "http://example.com/new",
+			title: "New Article",
+			type: "article",
+			savedAt: 1000,
+			isRead: false,
+			favorite: false,
+			siteName: "Example",
+			estimatedReadTime: 1,
+		};
+
+		it("should include items saved before the change index on a full pull", async () => {
+			const { response, body } = await getChanges();
+			expect(response.status).toBe(200);
+			expect(body.results.map((change) => change.id).sort()).toEqual([
+				article1._id,
+				article2._id,
+			]);
+			expect(body.results[0].doc).toBeDefined();
+			// Past the legacy items, so later pulls don't list them again
+			expect(body.last_seq).toBe(createChangeSeq("", 0));
+			expect(body.has_more).toBe(false);
+		});
+
+		it("should only return items changed after the since cursor", async () => {
+			const first = await getChanges();
+
+			vi.spyOn(Date, "now").mockReturnValue(2000);
+			await postItem(newArticle);
+
+			vi.spyOn(Date, "now").mockReturnValue(3000 + settleMs);
+			const { body } = await getChanges(`?since=${first.body.last_seq}`);
+			expect(body.results).toHaveLength(1);
+			expect(body.results[0].id).toBe(newArticle._id);
+			expect(body.results[0].deleted).toBe(false);
+			expect(body.results[0].doc?.title).toBe(newArticle.title);
+
+			const again = await getChanges(`?since=${body.last_seq}`);
+			expect(again.body.results).toEqual([]);
+			expect(again.body.last_seq).toBe(body.last_seq);
+		});
+
+		it("should return a tombstone for deleted items", async () => {
+			vi.spyOn(Date, "now").mockReturnValue(2000);
+			await postItem(newArticle);
+			const { body: afterPost } = await getChanges();
+
+			vi.spyOn(Date, "now").mockReturnValue(3000);
+			await handleDeleteItem(
+				new Request(`http://example.com/items/${newArticle._id}`, {
+					method: "DELETE",
+				}),
+				mockEnv,
+				testUserId,
+				newArticle._id,
+			);
+
+			const { body } = await getChanges(`?since=${afterPost.last_seq}`);
+			expect(body.results).toEqual([
+				{ id: newArticle._id, seq: expect.any(String), deleted: true },
+			]);
+		});
+
+		it("should paginate results with has_more and last_seq", async () => {
+			const { body: initial } = await getChanges();
+			vi.spyOn(Date, "now").mockReturnValue(2000);
+			await postItem(newArticle);
+			await postItem({ ...newArticle, _id: "article_new_2" });
+
+			vi.spyOn(Date, "now").mockReturnValue(3000 + settleMs);
+			const firstPage = await getChanges(`?since=${initial.last_seq}&limit=1`);
+			expect(firstPage.body.results.map((change) => change.id)).toEqual([
+				"article_new",
+			]);
+			expect(firstPage.body.has_more).toBe(true);
+
+			const secondPage = await getChanges(
+				`?since=${firstPage.body.last_seq}&limit=1`,
+			);
+			expect(secondPage.body.results.map((change) => change.id)).toEqual([
+				"article_new_2",
+			]);
+			expect(secondPage.body.has_more).toBe(false);
+		});
+
+		it("should send recent changes again until they settle", async () => {
+			const { body: initial } = await getChanges();
+			vi.spyOn(Date, "now").mockReturnValue(2000);
+			await postItem(newArticle);
+
+			const recent = await getChanges(`?since=${initial.last_seq}`);
+			expect(recent.body.results.map((change) => change.id)).toEqual([
+				"article_new",
+			]);
+			expect(recent.body.last_seq).toBe(initial.last_seq);
+
+			// A write that only became visible after the previous pull
+			vi.spyOn(Date, "now").mockReturnValue(1500);
+			await postItem({ ...newArticle, _id: "article_late" });
+
+			vi.spyOn(Date, "now").mockReturnValue(3000 + settleMs);
+			const settled = await getChanges(`?since=${recent.body.last_seq}`);
+			expect(settled.body.results.map((change) => change.id)).toEqual([
+				"article_late",
+				"article_new",
+			]);
+			expect(settled.body.last_seq).toBe(createChangeSeq("article_new", 2000));
+		});
+
+		it("should keep one change-log entry per item and list from the cursor", async () => {
+			vi.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+			await postItem(newArticle);
+			vi.spyOn(Date, "now").mockReturnValue(1_700_000_100_000);
+			await postItem(newArticle);
+
+			const logKeys = [...mockKvNamespace._store.keys()].filter((key) =>
+				key.startsWith(`changelog:${testUserId}:`),
+			);
+			expect(logKeys).toEqual([
+				`changelog:${testUserId}:${createChangeSeq("article_new", 1_700_000_100_000)}`,
+			]);
+
+			vi.spyOn(Date, "now").mockReturnValue(1_700_000_200_000);
+			const since = createChangeSeq("article_old", 1_700_000_050_000);
+			const { body } = await getChanges(`?since=${since}`);
+			expect(body.results.map((change) => change.seq)).toEqual([
+				createChangeSeq("article_new", 1_700_000_100_000),
+			]);
+			expect(mockKvNamespace.list).toHaveBeenLastCalledWith({
+				prefix: `changelog:${testUserId}:0001700000`,
+				cursor: undefined,
+			});
+		});
+
+		it("should not return other users' changes", async () => {
+			await handlePostItem(
+				new Request("http://example.com/items", {
+					method: "POST",
+					body: JSON.stringify({ ...newArticle, userId: "other_user_456" }),
+				}),
+				mockEnv,
+				mockCtx,
+				"other_user_456",
+			);
+
+			const { body } = await getChanges();
+			expect(body.results.map((change) => change.id)).not.toContain(
+				newArticle._id,
+			);
+		});
+
+		it("should return 400 for an invalid limit", async () => {
+			const { response } = await getChanges("?limit=abc");
+			expect(response.status).toBe(400);
+		});
+	});
 });
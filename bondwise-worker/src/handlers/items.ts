@@ -1,7 +1,37 @@
 // bondwise-worker/src/handlers/items.ts
 
-import type { Env, WorkerArticle } from "../types";
-import { createUserItemKey, errorResponse, jsonResponse } from "../utils";
+import { mergeDocuments } from "../merge";
+import type {
+	ChangeLogMetadata,
+	ChangesResponse,
+	Env,
+	ItemChange,
+	WorkerArticle,
+} from "../types";
+import {
+	createChangeIndexKey,
+	createChangeLogKey,
+	createChangeSeq,
+	createUserItemKey,
+	errorResponse,
+	jsonResponse,
+} from "../utils";
+import { deleteItemFile, fileContentType, putItemFile } from "./files";
+
+const DEFAULT_CHANGES_LIMIT = 50;
+const MAX_CHANGES_LIMIT = 500;
+// Sequence prefix for items stored before the change index existed.
+// Sorts before every indexed sequence ("-" < "0").
+const LEGACY_SEQ_PREFIX = "0-";
+// Sorts after every legacy sequence and before every logged one
+const LOG_START_SEQ = createChangeSeq("", 0);
+// KV lists can lag writes by up to a minute, so the feed cursor stays this
+// far behind the clock. Newer changes are sent again on every pull until
+// they settle; clients apply them idempotently.
+const CHANGES_SETTLE_MS = 60_000;
+
+// A changes-feed entry and the KV key holding its document
+type PendingChange = ItemChange & { key: string };
 
 // Helper function to estimate read time (words per minute)
 function calculateReadTime(content: string | undefined): number | undefined {
@@ -18,6 +48,182 @@ function calculateReadTime(content: string | undefined): number | undefined {
 	return readTime === 0 ? 1 : readTime;
 }
 
+// Fills in siteName and estimatedReadTime for items saved without them
+function fillDerivedFields(parsedItem: WorkerArticle): void {
+	// Ensure siteName exists
+	if (!parsedItem.siteName && parsedItem.url) {
+		try {
+			// Extract hostname, removing 'www.' if present
+			let hostname = new URL(parsedItem.url).hostname;
+			hostname = hostname.startsWith("www.") ? hostname.substring(4) : hostname;
+			parsedItem.siteName = hostname;
+		} catch {
+			parsedItem.siteName = "Unknown Source"; // Fallback on URL parse error
+		}
+	} else if (!parsedItem.siteName) {
+		// Fallback if URL is also missing or invalid
+		if (parsedItem.type === "pdf") {
+			parsedItem.siteName = "PDF Document";
+		} else if (parsedItem.type === "epub") {
+			parsedItem.siteName = "EPUB Book";
+		} else {
+			parsedItem.siteName = "Unknown Source";
+		}
+	}
+
+	// Ensure estimatedReadTime exists
+	if (
+		parsedItem.estimatedReadTime === undefined ||
+		parsedItem.estimatedReadTime === null ||
+		Number.isNaN(parsedItem.estimatedReadTime) // Also check for NaN
+	) {
+		// Calculate only if content exists, otherwise leave as undefined (or default to 1?)
+		if (parsedItem.content) {
+			parsedItem.estimatedReadTime = calculateReadTime(parsedItem.content);
+		} else {
+			// Decide fallback: undefined or 1? Let's default to 1 min if content is missing.
+			parsedItem.estimatedReadTime = 1;
+		}
+	}
+}
+
+// Lists every key under a prefix, following KV pagination cursors
+async function listAllKeys<Metadata>(
+	kv: KVNamespace,
+	prefix: string,
+): Promise<KVNamespaceListKey<Metadata>[]> {
+	const keys: KVNamespaceListKey<Metadata>[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = await kv.list<Metadata>({ prefix, cursor });
+		keys.push(...page.keys);
+		cursor = page.list_complete === false ? page.cursor : undefined;
+	} while (cursor);
+	return keys;
+}
+
+/**
+ * Records a save or delete in the user's change log, replacing the item's
+ * previous entry. The value is unused; the item lives in the key metadata
+ * so the changes feed can be built from list calls alone.
+ */
+async function recordItemChange(
+	env: Env,
+	userId: string,
+	itemId: string,
+	deleted: boolean,
+): Promise<void> {
+	const indexKey = createChangeIndexKey(userId, itemId);
+	const previousSeq = await env.SAVED_ITEMS_KV.get(indexKey);
+	const seq = createChangeSeq(itemId);
+	const metadata: ChangeLogMetadata = { id: itemId, deleted };
+	await env.SAVED_ITEMS_KV.put(createChangeLogKey(userId, seq), "", {
+		metadata,
+	});
+	await env.SAVED_ITEMS_KV.put(indexKey, seq);
+	if (previousSeq && previousSeq !== seq) {
+		await env.SAVED_ITEMS_KV.delete(createChangeLogKey(userId, previousSeq));
+	}
+}
+
+/**
+ * The narrowest change-log prefix covering every sequence from `from` to
+ * `to`: the log keys they share leading time digits with. Listing under it
+ * skips the history before the cursor.
+ */
+function changeLogPrefix(userId: string, from: number, to: number): string {
+	const fromSeq = createChangeSeq("", from);
+	const toSeq = createChangeSeq("", to);
+	let shared = 0;
+	while (fromSeq[shared] === toSeq[shared] && toSeq[shared] !== "-") shared++;
+	return createChangeLogKey(userId, fromSeq.slice(0, shared));
+}
+
+/**
+ * Lists logged changes after `since`, oldest first: at most `limit` settled
+ * ones, then, once those run out, every change that hasn't settled yet.
+ */
+async function listLoggedChanges(
+	env: Env,
+	userId: string,
+	since: string | null,
+	limit: number,
+	now: number,
+): Promise<{
+	settled: PendingChange[];
+	unsettled: PendingChange[];
+	hasMore: boolean;
+}> {
+	const logPrefix = createChangeLogKey(userId, "");
+	// Sequences start with their time, so parseInt reads it off the cursor
+	const from = since ? Number.parseInt(since, 10) : 0;
+	const prefix = changeLogPrefix(userId, from, now + CHANGES_SETTLE_MS);
+	const settledBefore = createChangeSeq("", now - CHANGES_SETTLE_MS);
+
+	const settled: PendingChange[] = [];
+	const unsettled: PendingChange[] = [];
+	let cursor: string | undefined;
+	do {
+		// KV lists keys in order, so settled changes come before unsettled ones
+		const page = await env.SAVED_ITEMS_KV.list<ChangeLogMetadata>({
+			prefix,
+			cursor,
+		});
+		for (const logKey of page.keys) {
+			const seq = logKey.name.slice(logPrefix.length);
+			if (!logKey.metadata || (since !== null && seq <= since)) continue;
+			const change: PendingChange = {
+				id: logKey.metadata.id,
+				seq,
+				deleted: logKey.metadata.deleted,
+				key: createUserItemKey(userId, logKey.metadata.id),
+			};
+			if (seq >= settledBefore) {
+				unsettled.push(change);
+			} else if (settled.length < limit) {
+				settled.push(change);
+			} else {
+				return { settled, unsettled, hasMore: true };
+			}
+		}
+		cursor = page.list_complete === false ? page.cursor : undefined;
+	} while (cursor);
+	return { settled, unsettled, hasMore: false };
+}
+
+/**
+ * Lists items stored before the change log existed, with legacy sequences
+ * ordered by ID.
+ */
+async function listLegacyChanges(
+	env: Env,
+	userId: string,
+	email: string | null,
+): Promise<PendingChange[]> {
+	const indexPrefix = createChangeIndexKey(userId, "");
+	const indexedIds = new Set(
+		(await listAllKeys(env.SAVED_ITEMS_KV, indexPrefix)).map((indexKey) =>
+			indexKey.name.slice(indexPrefix.length),
+		),
+	);
+	const changes: PendingChange[] = [];
+	const legacyPrefixes = [`${userId}:`, ...(email ? [`${email}:`] : [])];
+	for (const prefix of legacyPrefixes) {
+		for (const itemKey of await listAllKeys(env.SAVED_ITEMS_KV, prefix)) {
+			const id = itemKey.name.slice(prefix.length);
+			if (indexedIds.has(id)) continue;
+			indexedIds.add(id);
+			changes.push({
+				id,
+				seq: `${LEGACY_SEQ_PREFIX}${id}`,
+				deleted: false,
+				key: itemKey.name,
+			});
+		}
+	}
+	return changes.sort((a, b) => (a.seq < b.seq ? -1 : a.seq > b.seq ? 1 : 0));
+}
+
 /**
  * Handles GET /items requests. Lists items for the authenticated user.
  */
@@ -78,46 +284,7 @@ export async function handleListItems(
 				try {
 					const parsedItem = JSON.parse(value) as WorkerArticle;
 
-					// Ensure siteName exists
-					if (!parsedItem.siteName && parsedItem.url) {
-						try {
-							// Extract hostname, removing 'www.' if present
-							let hostname = new URL(parsedItem.url).hostname;
-							hostname = hostname.startsWith("www.")
-								? hostname.substring(4)
-								: hostname;
-							parsedItem.siteName = hostname;
-						} catch {
-							parsedItem.siteName = "Unknown Source"; // Fallback on URL parse error
-						}
-					} else if (!parsedItem.siteName) {
-						// Fallback if URL is also missing or invalid
-						if (parsedItem.type === "pdf") {
-							parsedItem.siteName = "PDF Document";
-						} else if (parsedItem.type === "epub") {
-							parsedItem.siteName = "EPUB Book";
-						} else {
-							parsedItem.siteName = "Unknown Source";
-						}
-					}
-
-					// Ensure estimatedReadTime exists
-					if (
-						parsedItem.estimatedReadTime === undefined ||
-						parsedItem.estimatedReadTime === null ||
-						Number.isNaN(parsedItem.estimatedReadTime) // Also check for NaN
-					) {
-						// Calculate only if content exists, otherwise leave as undefined (or default to 1?)
-						if (parsedItem.content) {
-							parsedItem.estimatedReadTime = calculateReadTime(
-								parsedItem.content,
-							);
-						} else {
-							// Decide fallback: undefined or 1? Let's default to 1 min if content is missing.
-							parsedItem.estimatedReadTime = 1;
-						}
-					}
-
+					fillDerivedFields(parsedItem);
 					items.push(parsedItem); // Push the potentially modified item
 				} catch (parseError) {
 					console.error(
@@ -136,6 +303,99 @@ export async function handleListItems(
 	}
 }
 
+/**
+ * Handles GET /items/changes requests. Returns items saved or deleted after
+ * the `since` sequence, oldest first, in pages of at most `limit` entries.
+ * Changes from the last minute are also returned, but `last_seq` stays
+ * before them so the next pull sees them again, along with any that were
+ * not yet visible. Items stored before the change log existed have no
+ * sequence; they are given legacy sequences so a first pull (no `since`)
+ * still returns them.
+ */
+export async function handleListChanges(
+	request: Request,
+	env: Env,
+	userId: string,
+): Promise<Response> {
+	const url = new URL(request.url);
+	const sinceParam = url.searchParams.get("since");
+	const since = sinceParam || null;
+	const email = url.searchParams.get("email"); // For fallback lookup
+	const limitParam = url.searchParams.get("limit");
+	const limit = limitParam ? Number(limitParam) : DEFAULT_CHANGES_LIMIT;
+	if (!Number.isInteger(limit) || limit < 1) {
+		return errorResponse("Invalid limit - must be a positive integer", 400);
+	}
+	const pageSize = Math.min(limit, MAX_CHANGES_LIMIT);
+	console.log(
+		`Listing changes for user: ${userId} since ${since ?? "start"} (limit ${pageSize})`,
+	);
+
+	try {
+		const page: PendingChange[] = [];
+		let hasMore = false;
+
+		// Legacy items are only part of the feed until a client has paged past them
+		const legacyPhase = !since || since.startsWith(LEGACY_SEQ_PREFIX);
+		if (legacyPhase) {
+			const legacy = (await listLegacyChanges(env, userId, email)).filter(
+				(change) => since === null || change.seq > since,
+			);
+			page.push(...legacy.slice(0, pageSize));
+			hasMore = legacy.length >= pageSize;
+		}
+
+		let lastSeq = page.length > 0 ? page[page.length - 1].seq : since;
+		if (!hasMore) {
+			const logged = await listLoggedChanges(
+				env,
+				userId,
+				legacyPhase ? null : since,
+				pageSize - page.length,
+				Date.now(),
+			);
+			page.push(...logged.settled, ...logged.unsettled);
+			hasMore = logged.hasMore;
+			if (logged.settled.length > 0) {
+				lastSeq = logged.settled[logged.settled.length - 1].seq;
+			} else if (legacyPhase) {
+				lastSeq = LOG_START_SEQ; // Don't list the legacy items again
+			}
+		}
+
+		const results: ItemChange[] = [];
+		for (const { key, ...change } of page) {
+			if (change.deleted) {
+				results.push(change);
+				continue;
+			}
+			const value = await env.SAVED_ITEMS_KV.get(key);
+			if (value === null) {
+				// Index entry outlived its item; report it as deleted
+				results.push({ ...change, deleted: true });
+				continue;
+			}
+			try {
+				const doc = JSON.parse(value) as WorkerArticle;
+				fillDerivedFields(doc);
+				results.push({ ...change, doc });
+			} catch (parseError) {
+				console.error(`Failed to parse item with key ${key}:`, parseError);
+			}
+		}
+
+		const body: ChangesResponse = {
+			results,
+			last_seq: lastSeq,
+			has_more: hasMore,
+		};
+		return jsonResponse(body);
+	} catch (listError) {
+		console.error("Error listing changes:", listError);
+		return errorResponse("Failed to list changes", 500);
+	}
+}
+
 /**
  * Handles POST /items requests. Creates or updates an item for the authenticated user.
  */
@@ -175,7 +435,7 @@ export async function handlePostItem(
 		);
 
 		const key = createUserItemKey(item.userId, item._id);
-		const itemToSave: WorkerArticle = {
+		let itemToSave: WorkerArticle = {
 			_id: item._id,
 			userId: item.userId,
 			url: item.url,
@@ -184,17 +444,23 @@ export async function handlePostItem(
 			savedAt: item.savedAt,
 			isRead: item.isRead ?? false,
 			favorite: item.favorite ?? false,
+			...(item.status && { status: item.status }),
 			...(item.content && { content: item.content }),
-			...(item.fileData && { fileData: item.fileData }),
 			...(item.htmlContent && { htmlContent: item.htmlContent }),
 			...(item.excerpt && { excerpt: item.excerpt }),
 			...(item.author && { author: item.author }),
 			...(item.siteName && { siteName: item.siteName }),
 			...(item.publishedDate && { publishedDate: item.publishedDate }),
 			...(item.tags && { tags: item.tags }),
-			...(item.readingProgress && { readingProgress: item.readingProgress }),
+			// Zero is a meaningful (e.g. reset) value for the tracked progress fields
+			...(item.readingProgress !== undefined && {
+				readingProgress: item.readingProgress,
+			}),
 			...(item.readAt && { readAt: item.readAt }),
-			...(item.scrollPosition && { scrollPosition: item.scrollPosition }),
+			...(item.scrollPosition !== undefined && {
+				scrollPosition: item.scrollPosition,
+			}),
+			...(item.note !== undefined && { note: item.note }),
 			...(item.coverImage && { coverImage: item.coverImage }),
 			...(item.language && { language: item.language }),
 			...(item.pageCount && { pageCount: item.pageCount }),
@@ -202,12 +468,46 @@ export async function handlePostItem(
 				estimatedReadTime: item.estimatedReadTime,
 			}),
 			...(item._rev && { _rev: item._rev }),
+			...(item.fieldTimestamps && { fieldTimestamps: item.fieldTimestamps }),
 		};
 
+		// Merge with the stored copy so concurrent edits from other devices survive
+		const existingValue = await env.SAVED_ITEMS_KV.get(key);
+		if (existingValue) {
+			try {
+				const existing = JSON.parse(existingValue) as WorkerArticle;
+				const merged = mergeDocuments(existing, itemToSave);
+				itemToSave = item._rev ? { ...merged, _rev: item._rev } : merged;
+			} catch (parseError) {
+				console.error(
+					`Failed to parse stored item ${key}, overwriting:`,
+					parseError,
+				);
+			}
+		}
+
+		// Files don't fit in a KV value: inline data from older clients (or
+		// stored before the bucket existed) moves to the bucket, leaving a reference
+		const { fileData: storedFileData, ...withoutFileData } = itemToSave;
+		const inlineFile = item.fileData || storedFileData;
+		if (inlineFile) {
+			itemToSave = {
+				...withoutFileData,
+				fileRef: await putItemFile(
+					env,
+					userId,
+					item._id,
+					inlineFile,
+					fileContentType(item.type),
+				),
+			};
+		}
+
 		const kvPromise = env.SAVED_ITEMS_KV.put(key, JSON.stringify(itemToSave));
 		// Simplify waitUntil - main await handles promise resolution/rejection for the response
 		ctx.waitUntil(kvPromise);
 		await kvPromise; // Wait for completion before responding
+		await recordItemChange(env, userId, item._id, false);
 
 		return jsonResponse(
 			{
@@ -279,6 +579,8 @@ export async function handleDeleteItem(
 	try {
 		const key = createUserItemKey(userId, itemId);
 		await env.SAVED_ITEMS_KV.delete(key);
+		await deleteItemFile(env, userId, itemId);
+		await recordItemChange(env, userId, itemId, true); // Tombstone for the changes feed
 		return jsonResponse({
 			status: "success",
 			message: "Item deleted successfully",
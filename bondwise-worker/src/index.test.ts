@@ -5,7 +5,8 @@ import { http, HttpResponse } from "msw"; // Import MSW http
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import * as auth from "./auth"; // Import the auth module to mock it
 import worker from "./index"; // Import the worker module directly
-import type { Env, WorkerArticle } from "./types";
+import { createBucketMock } from "./test-utils/bucketMock";
+import type { ChangesResponse, Env, WorkerArticle } from "./types";
 import { createUserItemKey } from "./utils";
 // import { server } from '../../src/mocks/server'; // Cannot import due to rootDir constraint
 
@@ -88,6 +89,7 @@ describe("Worker Integration Tests", () => {
 		// Create the env object with our mocks
 		env = {
 			SAVED_ITEMS_KV: mockKV as any,
+			FILES_BUCKET: createBucketMock(),
 			CLERK_SECRET_KEY: "test-clerk-key",
 			CLERK_PUBLISHABLE_KEY: "test-clerk-pub-key",
 			GEMINI_API_KEY: "test-gemini-key",
@@ -202,6 +204,23 @@ describe("Worker Integration Tests", () => {
 			expect(body).toEqual(testArticle);
 		});
 
+		it("GET /items/changes should return the changes feed", async () => {
+			mockedAuth.mockResolvedValue({ status: "success", userId: testUserId });
+			await env.SAVED_ITEMS_KV.put(
+				createUserItemKey(testUserId, testArticleId),
+				JSON.stringify(testArticle),
+			);
+
+			const req = new Request("http://worker/items/changes");
+			const res = await worker.fetch(req, env, ctx);
+			expect(res.status).toBe(200);
+			const body = (await res.json()) as ChangesResponse;
+			expect(body.results).toHaveLength(1);
+			expect(body.results[0].id).toBe(testArticleId);
+			expect(body.results[0].doc).toEqual(testArticle);
+			expect(body.has_more).toBe(false);
+		});
+
 		it("GET /items/:id should return 404 for non-existent item", async () => {
 			mockedAuth.mockResolvedValue({ status: "success", userId: testUserId });
 			const req = new Request("http://worker/items/not-real");
@@ -232,6 +251,49 @@ describe("Worker Integration Tests", () => {
 		});
 	});
 
+	// --- /files Endpoints ---
+	describe("/files", () => {
+		it("PUT /files/:id should store a file that GET /files/:id returns", async () => {
+			mockedAuth.mockResolvedValue({ status: "success", userId: testUserId });
+			await env.SAVED_ITEMS_KV.put(
+				createUserItemKey(testUserId, testArticleId),
+				JSON.stringify(testArticle),
+			);
+
+			const putRes = await worker.fetch(
+				new Request(`http://worker/files/${testArticleId}`, {
+					method: "PUT",
+					headers: { "Content-Type": "application/pdf" },
+					body: "%PDF-1.4",
+				}),
+				env,
+				ctx,
+			);
+			expect(putRes.status).toBe(201);
+
+			const getRes = await worker.fetch(
+				new Request(`http://worker/files/${testArticleId}`),
+				env,
+				ctx,
+			);
+			expect(getRes.status).toBe(200);
+			expect(await getRes.text()).toBe("%PDF-1.4");
+		});
+
+		it("GET /files/:id should return 401 if not authenticated", async () => {
+			mockedAuth.mockResolvedValue({
+				status: "error",
+				response: new Response("Unauthorized", { status: 401 }),
+			});
+			const res = await worker.fetch(
+				new Request(`http://worker/files/${testArticleId}`),
+				env,
+				ctx,
+			);
+			expect(res.status).toBe(401);
+		});
+	});
+
 	// --- /api Endpoints ---
 	describe("/api", () => {
 		const summarizeContent = { content: "Text to summarize" };
@@ -333,6 +395,27 @@ describe("Worker Integration Tests", () => {
 			// expect(mockFetch).not.toHaveBeenCalled(); // MSW handles this now
 		});
 
+		it("POST /api/extract should return 401 if auth fails", async () => {
+			const authErrorResponse = new Response(
+				JSON.stringify({ message: "Auth Failed" }),
+				{ status: 401 },
+			);
+			mockedAuth.mockResolvedValue({
+				status: "error",
+				response: authErrorResponse,
+			});
+			const req = new Request("http://worker/api/extract", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: "Bearer invalid",
+				},
+				body: JSON.stringify({ url: "https://example.com/post" }),
+			});
+			const res = await worker.fetch(req, env, ctx);
+			expect(res).toBe(authErrorResponse);
+		});
+
 		it("POST /api/summarize should return 502 if GCF fetch fails", async () => {
 			mockedAuth.mockResolvedValue({ status: "success", userId: testUserId });
 			// Cannot override MSW handler here due to import constraint.
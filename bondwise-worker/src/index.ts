@@ -2,9 +2,24 @@
 
 import { authenticateRequestWithClerk } from "./auth";
 import { handleChat, handleSummarize } from "./handlers/api";
+import { handleExtract } from "./handlers/extract";
+import {
+	handleListCollections,
+	handlePutCollection,
+} from "./handlers/collections";
+import {
+	handleAbortUpload,
+	handleCompleteUpload,
+	handleCreateUpload,
+	handleDeleteFile,
+	handleGetFile,
+	handlePutFile,
+	handleUploadPart,
+} from "./handlers/files";
 import {
 	handleDeleteItem,
 	handleGetItem,
+	handleListChanges,
 	handleListItems,
 	handlePostItem,
 } from "./handlers/items";
@@ -46,7 +61,16 @@ export default {
 					status: "ok",
 					message: "Bondwise Sync API is running",
 					version: "1.0.1", // Updated version for refactor
-					endpoints: ["/items", "/api/summarize", "/api/chat"],
+					endpoints: [
+						"/items",
+						"/items/changes",
+						"/files/:id",
+						"/files/:id/uploads",
+						"/collections",
+						"/api/summarize",
+						"/api/chat",
+						"/api/extract",
+					],
 				});
 			}
 
@@ -68,6 +92,12 @@ export default {
 					if (request.method === "POST") {
 						return handlePostItem(request, env, ctx, userId);
 					}
+				} else if (
+					pathParts.length === 2 &&
+					pathParts[1] === "changes" &&
+					request.method === "GET"
+				) {
+					return handleListChanges(request, env, userId);
 				} else if (pathParts.length === 2) {
 					const itemId = pathParts[1];
 					if (request.method === "GET") {
@@ -79,6 +109,77 @@ export default {
 				}
 			}
 
+			// --- /files Endpoints ---
+			if (pathParts[0] === "files" && pathParts.length >= 2) {
+				const authResult = await authenticateRequestWithClerk(request, env);
+				if (authResult.status === "error") {
+					return authResult.response;
+				}
+				const userId = authResult.userId;
+				const [, itemId, uploads, uploadId, action, partNumber] = pathParts;
+
+				if (!env.FILES_BUCKET) {
+					console.error("Files bucket is not available");
+					return errorResponse("File storage unavailable", 503);
+				}
+
+				if (pathParts.length === 2) {
+					if (request.method === "GET") {
+						return handleGetFile(request, env, userId, itemId);
+					}
+					if (request.method === "PUT") {
+						return handlePutFile(request, env, userId, itemId);
+					}
+					if (request.method === "DELETE") {
+						return handleDeleteFile(request, env, userId, itemId);
+					}
+				} else if (uploads === "uploads") {
+					if (pathParts.length === 3 && request.method === "POST") {
+						return handleCreateUpload(request, env, userId, itemId);
+					}
+					if (pathParts.length === 4 && request.method === "DELETE") {
+						return handleAbortUpload(request, env, userId, itemId, uploadId);
+					}
+					if (
+						pathParts.length === 5 &&
+						action === "complete" &&
+						request.method === "POST"
+					) {
+						return handleCompleteUpload(request, env, userId, itemId, uploadId);
+					}
+					if (
+						pathParts.length === 6 &&
+						action === "parts" &&
+						request.method === "PUT"
+					) {
+						return handleUploadPart(
+							request,
+							env,
+							userId,
+							itemId,
+							uploadId,
+							partNumber,
+						);
+					}
+				}
+			}
+
+			// --- /collections Endpoints ---
+			if (pathParts[0] === "collections") {
+				const authResult = await authenticateRequestWithClerk(request, env);
+				if (authResult.status === "error") {
+					return authResult.response;
+				}
+				const userId = authResult.userId;
+
+				if (pathParts.length === 1 && request.method === "GET") {
+					return handleListCollections(request, env, userId);
+				}
+				if (pathParts.length === 2 && request.method === "PUT") {
+					return handlePutCollection(request, env, userId, pathParts[1]);
+				}
+			}
+
 			// --- /api Endpoints ---
 			if (pathParts[0] === "api") {
 				if (pathParts[1] === "summarize" && request.method === "POST") {
@@ -87,6 +188,9 @@ export default {
 				if (pathParts[1] === "chat" && request.method === "POST") {
 					return handleChat(request, env); // Auth handled inside
 				}
+				if (pathParts[1] === "extract" && request.method === "POST") {
+					return handleExtract(request, env); // Auth handled inside
+				}
 			}
 
 			// --- Endpoint Not Found ---
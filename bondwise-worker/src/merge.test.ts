@@ -0,0 +1,137 @@
+// bondwise-worker/src/merge.test.ts
+
+import { describe, expect, it } from "vitest";
+import { mergeDocuments, stampChangedFields } from "./merge";
+import type { WorkerArticle } from "./types";
+
+const baseArticle: WorkerArticle = {
+	_id: "article_1",
+	userId: "user_1",
+	url: "http://example.com/1",
+	title: "Article 1",
+	type: "article",
+	savedAt: 1000,
+	isRead: false,
+	favorite: false,
+	status: "inbox",
+	tags: [],
+};
+
+describe("stampChangedFields", () => {
+	it("should stamp only the tracked fields that changed", () => {
+		const next = { ...baseArticle, favorite: true, title: "Renamed" };
+		const stamped = stampChangedFields(baseArticle, next, 5000);
+		expect(stamped.fieldTimestamps).toEqual({ favorite: 5000 });
+	});
+
+	it("should keep earlier timestamps", () => {
+		const previous = { ...baseArticle, fieldTimestamps: { isRead: 2000 } };
+		const stamped = stampChangedFields(
+			previous,
+			{ ...previous, tags: ["tag_1"] },
+			5000,
+		);
+		expect(stamped.fieldTimestamps).toEqual({ isRead: 2000, tags: 5000 });
+	});
+
+	it("should return the document unchanged if nothing tracked changed", () => {
+		const next = { ...baseArticle, title: "Renamed" };
+		expect(stampChangedFields(baseArticle, next, 5000)).toBe(next);
+	});
+});
+
+describe("mergeDocuments", () => {
+	it("should keep changes made to different fields on each side", () => {
+		// Favorited on one device, read on another
+		const deviceA = {
+			...baseArticle,
+			favorite: true,
+			fieldTimestamps: { favorite: 2000 },
+		};
+		const deviceB = {
+			...baseArticle,
+			isRead: true,
+			fieldTimestamps: { isRead: 3000 },
+		};
+
+		const merged = mergeDocuments<WorkerArticle>(deviceA, deviceB);
+
+		expect(merged.favorite).toBe(true);
+		expect(merged.isRead).toBe(true);
+		expect(merged.fieldTimestamps).toEqual({ favorite: 2000, isRead: 3000 });
+	});
+
+	it("should pick the most recent value for the same field", () => {
+		const older = {
+			...baseArticle,
+			status: "later" as const,
+			fieldTimestamps: { status: 2000 },
+		};
+		const newer = {
+			...baseArticle,
+			status: "archived" as const,
+			fieldTimestamps: { status: 3000 },
+		};
+
+		expect(mergeDocuments<WorkerArticle>(older, newer).status).toBe("archived");
+		expect(mergeDocuments<WorkerArticle>(newer, older).status).toBe("archived");
+	});
+
+	it("should be independent of argument order when timestamps tie", () => {
+		const a = { ...baseArticle, tags: ["a"], title: "A" };
+		const b = { ...baseArticle, tags: ["b"], title: "B" };
+
+		expect(mergeDocuments<WorkerArticle>(a, b)).toEqual(
+			mergeDocuments<WorkerArticle>(b, a),
+		);
+	});
+
+	it("should take untracked fields from the most recently changed side", () => {
+		const older = {
+			...baseArticle,
+			title: "Old title",
+			fieldTimestamps: { isRead: 1000 },
+		};
+		const newer = {
+			...baseArticle,
+			title: "New title",
+			excerpt: "Excerpt",
+			fieldTimestamps: { favorite: 2000 },
+		};
+
+		const merged = mergeDocuments<WorkerArticle>(older, newer);
+
+		expect(merged.title).toBe("New title");
+		expect(merged.excerpt).toBe("Excerpt");
+	});
+
+	it("should fill fields missing on the winning side from the other side", () => {
+		const withContent = { ...baseArticle, content: "<p>Body</p>" };
+		const newer = {
+			...baseArticle,
+			isRead: true,
+			fieldTimestamps: { isRead: 2000 },
+		};
+
+		expect(mergeDocuments<WorkerArticle>(withContent, newer).content).toBe(
+			"<p>Body</p>",
+		);
+	});
+
+	it("should keep a progress reset to zero if it is newer", () => {
+		const progressed = {
+			...baseArticle,
+			readingProgress: 80,
+			fieldTimestamps: { readingProgress: 2000 },
+		};
+		const reset = {
+			...baseArticle,
+			readingProgress: 0,
+			fieldTimestamps: { readingProgress: 3000 },
+		};
+
+		expect(
+			mergeDocuments<WorkerArticle>(progressed, reset).readingProgress,
+		).toBe(0);
+	});
+});
@@ -0,0 +1,166 @@
+// bondwise-worker/src/merge.ts
+
+/**
+ * Field-level merge rule for articles.
+ *
+ * This module is shared by the worker (`handlePostItem`) and the client
+ * (`src/services/db/conflicts.ts`), so both sides always pick the same
+ * winners. It must stay free of worker- and browser-specific APIs.
+ */
+
+/**
+ * Mutable article fields that carry their own last-modified timestamp.
+ */
+export const TRACKED_FIELDS = [
+	"status",
+	"isRead",
+	"favorite",
+	"tags",
+	"readingProgress",
+	"scrollPosition",
+	"readingLocation",
+	"bookmarks",
+	"note",
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+/**
+ * Last-modified time (ms since epoch) per tracked field.
+ * A missing entry counts as 0, i.e. older than any recorded change.
+ */
+export type FieldTimestamps = Partial<Record<TrackedField, number>>;
+
+export interface MergeableDocument {
+	fieldTimestamps?: FieldTimestamps;
+}
+
+const serialize = (value: unknown): string => JSON.stringify(value) ?? "";
+
+/**
+ * Orders two candidate values. The newer timestamp wins; equal timestamps
+ * (including documents written before timestamps existed) fall back to
+ * comparing the serialized values, so every replica picks the same winner
+ * regardless of argument order.
+ * @returns A positive number if `a` wins, negative if `b` wins, 0 if identical.
+ */
+function compareCandidates(
+	aTime: number,
+	aValue: string,
+	bTime: number,
+	bValue: string,
+): number {
+	if (aTime !== bTime) return aTime - bTime;
+	if (aValue === bValue) return 0;
+	return aValue > bValue ? 1 : -1;
+}
+
+function latestTimestamp(doc: MergeableDocument): number {
+	return Math.max(0, ...Object.values(doc.fieldTimestamps ?? {}));
+}
+
+// Everything except the revision, tracked fields and their timestamps
+function untrackedFields(
+	doc: Record<string, unknown>,
+): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(doc)) {
+		if (
+			key === "_rev" ||
+			key === "fieldTimestamps" ||
+			(TRACKED_FIELDS as readonly string[]).includes(key)
+		) {
+			continue;
+		}
+		result[key] = value;
+	}
+	return result;
+}
+
+/**
+ * Records the current time for every tracked field whose value differs
+ * between `previous` and `next`.
+ *
+ * @param previous - The document before the change.
+ * @param next - The document after the change.
+ * @param now - The timestamp to record (default: Date.now()).
+ * @returns `next` with updated `fieldTimestamps`.
+ */
+export function stampChangedFields<T extends MergeableDocument>(
+	previous: T,
+	next: T,
+	now = Date.now(),
+): T {
+	const before = previous as Record<string, unknown>;
+	const after = next as Record<string, unknown>;
+	const timestamps: FieldTimestamps = {
+		...previous.fieldTimestamps,
+		...next.fieldTimestamps,
+	};
+	let changed = false;
+	for (const field of TRACKED_FIELDS) {
+		if (serialize(before[field]) !== serialize(after[field])) {
+			timestamps[field] = now;
+			changed = true;
+		}
+	}
+	if (!changed && !previous.fieldTimestamps && !next.fieldTimestamps) {
+		return next;
+	}
+	return { ...next, fieldTimestamps: timestamps };
+}
+
+/**
+ * Merges two versions of the same document.
+ *
+ * Each tracked field is taken from whichever side changed it last. Other
+ * fields come from the side with the most recent change overall, with
+ * gaps filled from the other side. The result is the same whichever
+ * order the arguments are passed in. Revision fields are not handled;
+ * callers set `_rev` on the result.
+ *
+ * @param a - One version of the document.
+ * @param b - The other version of the document.
+ * @returns The merged document.
+ */
+export function mergeDocuments<T extends MergeableDocument>(a: T, b: T): T {
+	const aFields = a as Record<string, unknown>;
+	const bFields = b as Record<string, unknown>;
+
+	// Only serialize whole documents when the timestamps cannot decide
+	const aLatest = latestTimestamp(a);
+	const bLatest = latestTimestamp(b);
+	const aFirst =
+		aLatest !== bLatest
+			? aLatest > bLatest
+			: serialize(untrackedFields(aFields)) >=
+				serialize(untrackedFields(bFields));
+	const [primary, secondary] = aFirst ? [aFields, bFields] : [bFields, aFields];
+
+	const merged = untrackedFields(secondary);
+	for (const [key, value] of Object.entries(untrackedFields(primary))) {
+		if (value !== undefined) merged[key] = value;
+	}
+
+	const timestamps: FieldTimestamps = {};
+	for (const field of TRACKED_FIELDS) {
+		const aTime = a.fieldTimestamps?.[field] ?? 0;
+		const bTime = b.fieldTimestamps?.[field] ?? 0;
+		const winner =
+			compareCandidates(
+				aTime,
+				serialize(aFields[field]),
+				bTime,
+				serialize(bFields[field]),
+			) >= 0
+				? aFields
+				: bFields;
+
+		if (winner[field] !== undefined) merged[field] = winner[field];
+		const time = Math.max(aTime, bTime);
+		if (time > 0) timestamps[field] = time;
+	}
+
+	if (Object.keys(timestamps).length > 0) merged.fieldTimestamps = timestamps;
+	return merged as T;
+}
@@ -0,0 +1,197 @@
+// bondwise-worker/src/metadata.ts
+
+/**
+ * Article metadata from the page head: Open Graph and Twitter card tags,
+ * JSON-LD `Article` data, `<link rel="canonical">` and `<html lang>`.
+ * Shared with the client (src/services/extractors/metadata.ts).
+ */
+
+/**
+ * Reads a `<meta>` value by name or property (for Open Graph tags).
+ */
+function metaContent(document: Document, name: string): string | undefined {
+	const meta = document.querySelector(
+		`meta[name="${name}"], meta[property="${name}"]`,
+	);
+	return meta?.getAttribute("content")?.trim() || undefined;
+}
+
+export interface PageMetadata {
+	publishedDate?: string; // ISO string
+	coverImage?: string; // Absolute http(s) URL
+	language?: string; // Primary language subtag, e.g. "en"
+	canonicalUrl?: string; // Absolute http(s) URL, without fragment
+	author?: string;
+}
+
+// JSON-LD types describing the article itself, not the site or breadcrumbs
+const ARTICLE_TYPE = /(?:Article|BlogPosting|Report)$/;
+
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * The JSON-LD objects on the page, with `@graph` lists and arrays flattened.
+ * Malformed blocks are skipped.
+ */
+function jsonLdNodes(document: Document): JsonLdNode[] {
+	const nodes: JsonLdNode[] = [];
+	const collect = (value: unknown) => {
+		if (Array.isArray(value)) {
+			for (const item of value) collect(item);
+		} else if (value && typeof value === "object") {
+			nodes.push(value as JsonLdNode);
+			collect((value as JsonLdNode)["@graph"]);
+		}
+	};
+	for (const script of document.querySelectorAll(
+		'script[type="application/ld+json"]',
+	)) {
+		try {
+			collect(JSON.parse(script.textContent ?? ""));
+		} catch {
+			// Not valid JSON
+		}
+	}
+	return nodes;
+}
+
+function isArticleNode(node: JsonLdNode): boolean {
+	const types = ([] as unknown[]).concat(node["@type"]);
+	return types.some(
+		(type) => typeof type === "string" && ARTICLE_TYPE.test(type),
+	);
+}
+
+/**
+ * Reads a JSON-LD value that may be a string, an object with `key` (such as
+ * `{ "url": ... }` for images) or a list of either; the first one wins.
+ */
+function jsonLdText(value: unknown, key: string): string | undefined {
+	if (Array.isArray(value)) {
+		for (const item of value) {
+			const text = jsonLdText(item, key);
+			if (text) return text;
+		}
+		return undefined;
+	}
+	if (typeof value === "string") return value.trim() || undefined;
+	if (value && typeof value === "object") {
+		return jsonLdText((value as JsonLdNode)[key], key);
+	}
+	return undefined;
+}
+
+function absoluteUrl(
+	value: string | undefined,
+	pageUrl: URL,
+): string | undefined {
+	if (!value) return undefined;
+	try {
+		const url = new URL(value.trim(), pageUrl);
+		if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+		url.hash = "";
+		return url.href;
+	} catch {
+		return undefined;
+	}
+}
+
+function isoDate(value: string | undefined): string | undefined {
+	if (!value) return undefined;
+	const time = Date.parse(value);
+	return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Reduces a language tag ("en-US", "pt_BR", "zh-Hant") to its primary
+ * subtag, or undefined for anything that isn't one.
+ */
+function primaryLanguage(tag: string | null | undefined): string | undefined {
+	const primary = tag?.trim().split(/[-_]/)[0].toLowerCase();
+	return primary && /^[a-z]{2,3}$/.test(primary) && primary !== "und"
+		? primary
+		: undefined;
+}
+
+// Microdata value: `content` on <meta>, `datetime` on <time>
+function itemprop(document: Document, name: string): string | undefined {
+	const element = document.querySelector(`[itemprop="${name}"]`);
+	return (
+		element?.getAttribute("content") ??
+		element?.getAttribute("datetime") ??
+		undefined
+	);
+}
+
+// <meta http-equiv="Content-Language">, matched case-insensitively
+function contentLanguage(document: Document): string | undefined {
+	const meta = [...document.querySelectorAll("meta[http-equiv]")].find(
+		(element) =>
+			element.getAttribute("http-equiv")?.toLowerCase() === "content-language",
+	);
+	return meta?.getAttribute("content") ?? undefined;
+}
+
+/**
+ * The canonical URL of the page. A canonical link to the site's home page
+ * from an article is a common misconfiguration and is ignored.
+ */
+function canonicalUrl(document: Document, pageUrl: URL): string | undefined {
+	const candidates = [
+		document
+			.querySelector('link[rel~="canonical"][href]')
+			?.getAttribute("href"),
+		metaContent(document, "og:url"),
+	];
+	for (const candidate of candidates) {
+		const url = absoluteUrl(candidate ?? undefined, pageUrl);
+		if (!url) continue;
+		if (new URL(url).pathname === "/" && pageUrl.pathname !== "/") continue;
+		return url;
+	}
+	return undefined;
+}
+
+/**
+ * Reads the article's metadata from a page. Must be read before Readability
+ * or a site rule changes the document.
+ *
+ * @param pageUrl - The URL of the page, for resolving relative URLs.
+ */
+export function readPageMetadata(
+	document: Document,
+	pageUrl: URL,
+): PageMetadata {
+	const nodes = jsonLdNodes(document);
+	const article = nodes.find(isArticleNode) ?? {};
+
+	return {
+		publishedDate: isoDate(
+			jsonLdText(article.datePublished, "@value") ??
+				metaContent(document, "article:published_time") ??
+				itemprop(document, "datePublished") ??
+				metaContent(document, "date") ??
+				jsonLdText(article.dateCreated, "@value"),
+		),
+		coverImage: absoluteUrl(
+			metaContent(document, "og:image:secure_url") ??
+				metaContent(document, "og:image") ??
+				metaContent(document, "og:image:url") ??
+				metaContent(document, "twitter:image") ??
+				metaContent(document, "twitter:image:src") ??
+				jsonLdText(article.image, "url") ??
+				jsonLdText(article.thumbnailUrl, "url"),
+			pageUrl,
+		),
+		language: [
+			document.documentElement.getAttribute("lang"),
+			contentLanguage(document),
+			metaContent(document, "og:locale"),
+			jsonLdText(article.inLanguage, "alternateName"),
+		]
+			.map(primaryLanguage)
+			.find(Boolean),
+		canonicalUrl: canonicalUrl(document, pageUrl),
+		author: jsonLdText(article.author, "name"),
+	};
+}
@@ -0,0 +1,67 @@
+// bondwise-worker/src/pagination.test.ts
+
+import { parseHTML } from "linkedom";
+import { describe, expect, it } from "vitest";
+import { findNextPageUrl } from "./pagination";
+
+const pageUrl = "https://news.example.com/2024/06/long-story";
+
+const nextPageOf = (body: string, url = pageUrl, head = "") =>
+	findNextPageUrl(
+		parseHTML(
+			`<!DOCTYPE html><html><head>${head}</head><body>${body}</body></html>`,
+		).document,
+		url,
+	);
+
+describe("findNextPageUrl", () => {
+	it("should follow rel=next links", () => {
+		expect(
+			nextPageOf("", pageUrl, '<link rel="next" href="long-story?page=2">'),
+		).toBe("https://news.example.com/2024/06/long-story?page=2");
+		expect(nextPageOf('<a rel="next" href="/2024/06/long-story/2">2</a>')).toBe(
+			"https://news.example.com/2024/06/long-story/2",
+		);
+	});
+
+	it("should follow 'Next' links among page links", () => {
+		expect(
+			nextPageOf(
+				'<div class="article-pagination"><a href="/2024/06/long-story/2">Next »</a></div>',
+			),
+		).toBe("https://news.example.com/2024/06/long-story/2");
+		// Not a page link
+		expect(
+			nextPageOf('<div class="related"><a href="/other">Next</a></div>'),
+		).toBeUndefined();
+	});
+
+	it("should follow links to the next page number", () => {
+		expect(nextPageOf('<a href="?page=3">3</a>', `${pageUrl}?page=2`)).toBe(
+			"https://news.example.com/2024/06/long-story?page=3",
+		);
+		expect(nextPageOf('<a href="/2024/06/long-story/page/2/">2</a>')).toBe(
+			"https://news.example.com/2024/06/long-story/page/2/",
+		);
+		// The year in the path is not a page number
+		expect(
+			nextPageOf(
+				'<a href="https://news.example.com/2025">2025</a>',
+				"https://news.example.com/2024",
+			),
+		).toBeUndefined();
+	});
+
+	it("should ignore links to other sites and to the page itself", () => {
+		expect(
+			nextPageOf(
+				"",
+				pageUrl,
+				'<link rel="next" href="https://ads.example.net/">',
+			),
+		).toBeUndefined();
+		expect(
+			nextPageOf("", pageUrl, `<link rel="next" href="${pageUrl}#comments">`),
+		).toBeUndefined();
+	});
+});
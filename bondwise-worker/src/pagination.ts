@@ -0,0 +1,115 @@
+// bondwise-worker/src/pagination.ts
+
+/**
+ * Finds the link to the next page of an article split over several pages.
+ * Shared with the client (src/services/extractors/pagination.ts), which
+ * also joins the pages' content.
+ */
+
+// Link text of "next page" links: "Next", "Next page", "Continue", "»"...
+const NEXT_LINK_TEXT = /^(?:next(?: page)?|continue(?: reading)?)?\s*[›»→>]?$/i;
+// Ancestors that mark a block of page links
+const PAGINATION_BLOCK = /paginat|pager|page-?nav|pagenav/i;
+const PAGE_PARAMS = ["page", "p", "pg"];
+// Larger path numbers are more likely years or IDs than page numbers
+const MAX_PATH_PAGE = 50;
+
+function withoutTrailingSlash(url: URL): string {
+	const copy = new URL(url.href);
+	copy.hash = "";
+	copy.pathname = copy.pathname.replace(/\/+$/, "") || "/";
+	return copy.href;
+}
+
+/**
+ * URLs the page after `url` would have under common numbering schemes:
+ * `?page=2`, `/page/2`, or a page number at the end of the path.
+ */
+function numberedNextUrls(url: URL): Set<string> {
+	const candidates = new Set<string>();
+	const add = (next: URL) => candidates.add(withoutTrailingSlash(next));
+
+	for (const name of PAGE_PARAMS) {
+		const value = url.searchParams.get(name);
+		// Only `page` is tried on first pages: `?p=2` is often a post ID
+		if (value === null ? name !== "page" : !/^\d+$/.test(value)) continue;
+		const next = new URL(url.href);
+		next.searchParams.set(name, String(value === null ? 2 : Number(value) + 1));
+		add(next);
+	}
+
+	const path = url.pathname.replace(/\/+$/, "");
+	const numbered = path.match(/^(.*\/)(\d+)$/);
+	if (numbered && Number(numbered[2]) < MAX_PATH_PAGE) {
+		const next = new URL(url.href);
+		next.pathname = `${numbered[1]}${Number(numbered[2]) + 1}`;
+		add(next);
+	} else if (!numbered) {
+		for (const suffix of ["/2", "/page/2"]) {
+			const next = new URL(url.href);
+			next.pathname = `${path}${suffix}`;
+			add(next);
+		}
+	}
+	return candidates;
+}
+
+function isInPaginationBlock(element: Element): boolean {
+	for (let node = element.parentElement; node; node = node.parentElement) {
+		const label = `${node.getAttribute("class") ?? ""} ${node.getAttribute("id") ?? ""} ${node.getAttribute("aria-label") ?? ""}`;
+		if (PAGINATION_BLOCK.test(label)) return true;
+	}
+	return false;
+}
+
+/**
+ * Finds the link to the next page of a paginated article: a `rel="next"`
+ * link, a "Next" link among page links, or a link to the next page number.
+ * Must be read before Readability changes the document.
+ *
+ * @returns The absolute URL of the next page on the same site, if any.
+ */
+export function findNextPageUrl(
+	document: Document,
+	pageUrl: string,
+): string | undefined {
+	const current = new URL(pageUrl);
+	const currentHref = withoutTrailingSlash(current);
+	const resolve = (href: string | null): string | undefined => {
+		if (!href) return undefined;
+		try {
+			const url = new URL(href, current);
+			url.hash = "";
+			if (url.origin !== current.origin) return undefined;
+			return withoutTrailingSlash(url) === currentHref ? undefined : url.href;
+		} catch {
+			return undefined;
+		}
+	};
+
+	const relNext = document.querySelector(
+		'link[rel~="next"][href], a[rel~="next"][href]',
+	);
+	const fromRel = resolve(relNext?.getAttribute("href") ?? null);
+	if (fromRel) return fromRel;
+
+	const links = [...document.querySelectorAll("a[href]")];
+	for (const link of links) {
+		const text = (link.textContent || link.getAttribute("aria-label") || "")
+			.replace(/\s+/g, " ")
+			.trim();
+		if (text && NEXT_LINK_TEXT.test(text) && isInPaginationBlock(link)) {
+			const next = resolve(link.getAttribute("href"));
+			if (next) return next;
+		}
+	}
+
+	const numbered = numberedNextUrls(current);
+	for (const link of links) {
+		const next = resolve(link.getAttribute("href"));
+		if (next && numbered.has(withoutTrailingSlash(new URL(next)))) {
+			return next;
+		}
+	}
+	return undefined;
+}
@@ -0,0 +1,130 @@
+// bondwise-worker/src/test-utils/bucketMock.ts
+
+/**
+ * In-memory stand-in for an R2 bucket, for tests. Implements the parts of
+ * the R2Bucket API the file handlers use: get/put/delete and multipart
+ * uploads. Multipart parts become visible only once the upload completes.
+ */
+export function createBucketMock() {
+	const objects = new Map<
+		string,
+		{ data: Uint8Array; contentType?: string; etag: string }
+	>();
+	const uploads = new Map<
+		string,
+		{ key: string; contentType?: string; parts: Map<number, Uint8Array> }
+	>();
+	let counter = 0;
+
+	const toBytes = async (value: unknown): Promise<Uint8Array> => {
+		if (typeof value === "string") return new TextEncoder().encode(value);
+		if (value instanceof ArrayBuffer) return new Uint8Array(value.slice(0));
+		if (ArrayBuffer.isView(value)) {
+			return new Uint8Array(
+				value.buffer.slice(
+					value.byteOffset,
+					value.byteOffset + value.byteLength,
+				),
+			);
+		}
+		return new Uint8Array(await new Response(value as BodyInit).arrayBuffer());
+	};
+
+	const toObject = (key: string) => {
+		const stored = objects.get(key);
+		if (!stored) return null;
+		const { data, contentType, etag } = stored;
+		return {
+			key,
+			size: data.byteLength,
+			etag,
+			httpEtag: `"${etag}"`,
+			httpMetadata: { contentType },
+			get body() {
+				return new Response(data.slice().buffer).body;
+			},
+			arrayBuffer: async () => data.slice().buffer,
+			text: async () => new TextDecoder().decode(data),
+		};
+	};
+
+	const multipart = (key: string, uploadId: string) => ({
+		key,
+		uploadId,
+		uploadPart: async (partNumber: number, value: unknown) => {
+			const upload = uploads.get(uploadId);
+			if (!upload || upload.key !== key) throw new Error("No such upload");
+			upload.parts.set(partNumber, await toBytes(value));
+			return { partNumber, etag: `${uploadId}-${partNumber}` };
+		},
+		abort: async () => {
+			uploads.delete(uploadId);
+		},
+		complete: async (parts: { partNumber: number; etag: string }[]) => {
+			const upload = uploads.get(uploadId);
+			if (!upload || upload.key !== key) throw new Error("No such upload");
+			const chunks = parts.map((part) => {
+				const chunk = upload.parts.get(part.partNumber);
+				if (!chunk) throw new Error(`Missing part ${part.partNumber}`);
+				return chunk;
+			});
+			const data = new Uint8Array(
+				chunks.reduce((total, chunk) => total + chunk.byteLength, 0),
+			);
+			let offset = 0;
+			for (const chunk of chunks) {
+				data.set(chunk, offset);
+				offset += chunk.byteLength;
+			}
+			objects.set(key, {
+				data,
+				contentType: upload.contentType,
+				etag: `etag-${++counter}`,
+			});
+			uploads.delete(uploadId);
+			return toObject(key);
+		},
+	});
+
+	const bucket = {
+		_objects: objects, // Exposed so tests can inspect stored files
+		_uploads: uploads,
+		get: async (key: string) => toObject(key),
+		head: async (key: string) => toObject(key),
+		put: async (
+			key: string,
+			value: unknown,
+			options?: R2PutOptions,
+		): Promise<ReturnType<typeof toObject>> => {
+			const httpMetadata = options?.httpMetadata as R2HTTPMetadata | undefined;
+			objects.set(key, {
+				data: await toBytes(value),
+				contentType: httpMetadata?.contentType,
+				etag: `etag-${++counter}`,
+			});
+			return toObject(key);
+		},
+		delete: async (keys: string | string[]) => {
+			for (const key of Array.isArray(keys) ? keys : [keys]) {
+				objects.delete(key);
+			}
+		},
+		createMultipartUpload: async (
+			key: string,
+			options?: R2MultipartOptions,
+		) => {
+			const uploadId = `upload-${++counter}`;
+			const httpMetadata = options?.httpMetadata as R2HTTPMetadata | undefined;
+			uploads.set(uploadId, {
+				key,
+				contentType: httpMetadata?.contentType,
+				parts: new Map(),
+			});
+			return multipart(key, uploadId);
+		},
+		resumeMultipartUpload: (key: string, uploadId: string) =>
+			multipart(key, uploadId),
+	};
+
+	return bucket as typeof bucket & R2Bucket;
+}
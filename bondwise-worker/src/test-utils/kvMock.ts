@@ -0,0 +1,57 @@
+// bondwise-worker/src/test-utils/kvMock.ts
+
+import { vi } from "vitest";
+
+/**
+ * In-memory stand-in for a KV namespace, for tests. Implements get, put,
+ * delete and list; lists return every matching key in one page, in key
+ * order, with its metadata.
+ */
+export function createKvMock() {
+	const store = new Map<string, string>();
+	const metadataStore = new Map<string, unknown>();
+
+	const kv = {
+		_store: store, // Exposed so tests can seed and inspect values
+		get: vi.fn(
+			async (key: string, options?: { type?: string }): Promise<unknown> => {
+				const value = store.get(key);
+				if (value === undefined) return null;
+				if (options?.type !== "json") return value;
+				try {
+					return JSON.parse(value);
+				} catch {
+					return null;
+				}
+			},
+		),
+		put: vi.fn(
+			async (
+				key: string,
+				value: string,
+				options?: KVNamespacePutOptions,
+			): Promise<void> => {
+				store.set(key, value);
+				metadataStore.set(key, options?.metadata);
+			},
+		),
+		delete: vi.fn(async (key: string): Promise<void> => {
+			store.delete(key);
+			metadataStore.delete(key);
+		}),
+		list: vi.fn(
+			async (
+				options?: KVNamespaceListOptions,
+			): Promise<KVNamespaceListResult<unknown>> => {
+				const prefix = options?.prefix ?? "";
+				const keys = [...store.keys()]
+					.filter((key) => key.startsWith(prefix))
+					.sort()
+					.map((name) => ({ name, metadata: metadataStore.get(name) }));
+				return { keys, list_complete: true, cacheStatus: null };
+			},
+		),
+	};
+
+	return kv as unknown as typeof kv & KVNamespace;
+}
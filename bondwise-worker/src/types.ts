@@ -1,11 +1,14 @@
 // bondwise-worker/src/types.ts
 
+import type { FieldTimestamps } from "./merge";
+
 /**
  * Defines the expected environment variables and bindings for the Cloudflare Worker.
  */
 export interface Env {
 	// Bindings
 	SAVED_ITEMS_KV: KVNamespace;
+	FILES_BUCKET: R2Bucket; // PDF and EPUB files, see handlers/files.ts
 
 	// Variables
 	GCF_SUMMARIZE_URL: string;
@@ -31,9 +34,11 @@ export interface WorkerArticle {
 	_rev?: string; // Optional revision marker
 	userId: string;
 	url: string;
+	canonicalUrl?: string;
 	title: string;
 	content?: string; // For HTML articles or placeholders
-	fileData?: string; // For EPUB/PDF base64 content
+	fileData?: string; // Legacy inline EPUB/PDF base64 content, moved to FILES_BUCKET on save
+	fileRef?: FileReference; // The item's EPUB/PDF file in FILES_BUCKET
 	htmlContent?: string; // Raw HTML if needed
 	excerpt?: string;
 	author?: string;
@@ -43,15 +48,108 @@ export interface WorkerArticle {
 	publishedDate?: string;
 	isRead: boolean;
 	favorite: boolean;
+	status?: "inbox" | "later" | "archived";
 	tags?: string[];
 	readingProgress?: number; // 0-100
 	readAt?: number;
 	scrollPosition?: number;
+	readingLocation?: string; // EPUB CFI of the last reading position
+	bookmarks?: { cfi: string; label: string; createdAt: number }[]; // EPUB bookmarks
 	// Add other fields from frontend Article type as needed
 	coverImage?: string;
 	language?: string;
 	pageCount?: number; // For PDF
 	estimatedReadTime?: number;
+	note?: string; // Free-form markdown note about the whole article
+	fieldTimestamps?: FieldTimestamps; // Per-field last-modified times, see merge.ts
+}
+
+/**
+ * Points an item at its file (PDF or EPUB) in FILES_BUCKET. Files are too
+ * large for a KV value, so items only hold this reference.
+ */
+export interface FileReference {
+	key: string; // Object key in FILES_BUCKET
+	size: number; // Bytes
+	contentType: string;
+	uploadedAt: number; // Timestamp (ms since epoch)
+}
+
+/**
+ * A multipart upload of an item's file that hasn't been completed yet.
+ * Kept in KV so an interrupted upload can resume with the missing parts.
+ */
+export interface PendingUpload {
+	uploadId: string; // R2 multipart upload ID
+	size: number; // Total bytes of the file being uploaded
+	contentType: string;
+	partSize: number; // Bytes per part; only the last part may be smaller
+	parts: R2UploadedPart[]; // Parts received so far
+	createdAt: number;
+}
+
+/**
+ * A saved filter+sort combination ("smart collection"), stored per user.
+ * `filter` and `sortCriteria` are opaque to the worker; the client owns
+ * their shape. Deletions are kept as tombstones so other devices see them.
+ */
+export interface WorkerCollection {
+	_id: string;
+	userId: string;
+	name: string;
+	filter: Record<string, unknown>;
+	sortCriteria: Record<string, unknown>;
+	createdAt: number;
+	updatedAt: number; // Last write wins
+	deleted?: boolean;
+}
+
+/**
+ * An article extracted by POST /api/extract. Matches what the client's
+ * `parseArticle` returns, so either can fill in a saved article.
+ */
+export interface ExtractedArticle {
+	title: string;
+	url: string;
+	content: string; // Sanitized HTML
+	excerpt: string;
+	author?: string;
+	publishedDate?: string; // ISO string
+	siteName: string;
+	coverImage?: string; // Absolute URL of the page's preview image
+	language?: string; // As declared by the page, e.g. "en"
+	canonicalUrl?: string;
+	estimatedReadTime: number; // Minutes
+	type: "article";
+	status: "inbox";
+}
+
+/**
+ * Metadata stored on each change-log entry in KV; the sequence is the key.
+ * Each item keeps only the entry for its latest save or delete.
+ */
+export interface ChangeLogMetadata {
+	id: string;
+	deleted: boolean;
+}
+
+/**
+ * A single entry in the GET /items/changes feed.
+ */
+export interface ItemChange {
+	id: string;
+	seq: string;
+	deleted: boolean;
+	doc?: WorkerArticle; // Omitted for deletions
+}
+
+/**
+ * Response body of GET /items/changes.
+ */
+export interface ChangesResponse {
+	results: ItemChange[];
+	last_seq: string | null; // Pass back as `since` to continue
+	has_more: boolean;
 }
 
 /**
@@ -28,6 +28,76 @@ export function parseUserItemKey(
 	};
 }
 
+/**
+ * Creates the change-index key for an item, holding the sequence of its
+ * latest change-log entry. Kept outside the `${userId}:` prefix so item
+ * listings never pick it up.
+ * @param userId - The user's unique identifier.
+ * @param itemId - The item's unique identifier (_id).
+ * @returns A formatted string key (e.g., "changes:user_123:article_abc").
+ */
+export function createChangeIndexKey(userId: string, itemId: string): string {
+	return `changes:${userId}:${itemId}`;
+}
+
+/**
+ * Creates the change-log key for a change sequence. Log keys sort by
+ * sequence, so the changes feed can list from a cursor onwards.
+ * @param userId - The user's unique identifier.
+ * @param seq - The change sequence (see createChangeSeq).
+ * @returns A formatted string key (e.g., "changelog:user_123:0001712345678901-article_abc").
+ */
+export function createChangeLogKey(userId: string, seq: string): string {
+	return `changelog:${userId}:${seq}`;
+}
+
+/**
+ * Creates the key for one of a user's smart collections. Kept outside the
+ * `${userId}:` prefix so item listings never pick it up.
+ * @param userId - The user's unique identifier.
+ * @param collectionId - The collection's unique identifier (_id).
+ * @returns A formatted string key (e.g., "collections:user_123:collection_abc").
+ */
+export function createCollectionKey(
+	userId: string,
+	collectionId: string,
+): string {
+	return `collections:${userId}:${collectionId}`;
+}
+
+/**
+ * Creates the FILES_BUCKET object key for an item's file.
+ * @param userId - The user's unique identifier.
+ * @param itemId - The item's unique identifier (_id).
+ * @returns A formatted object key (e.g., "files/user_123/article_abc").
+ */
+export function createFileKey(userId: string, itemId: string): string {
+	return `files/${userId}/${itemId}`;
+}
+
+/**
+ * Creates the KV key tracking an unfinished upload of an item's file. Kept
+ * outside the `${userId}:` prefix so item listings never pick it up.
+ * @param userId - The user's unique identifier.
+ * @param itemId - The item's unique identifier (_id).
+ * @returns A formatted string key (e.g., "uploads:user_123:article_abc").
+ */
+export function createUploadKey(userId: string, itemId: string): string {
+	return `uploads:${userId}:${itemId}`;
+}
+
+/**
+ * Creates a change sequence for an item write or delete.
+ * Sequences sort lexicographically by time; the item ID breaks ties so
+ * paging by `seq > since` never skips an entry.
+ * @param itemId - The item's unique identifier (_id).
+ * @param now - The timestamp to use (default: Date.now()).
+ * @returns A sequence string (e.g., "0001712345678901-article_abc").
+ */
+export function createChangeSeq(itemId: string, now = Date.now()): string {
+	return `${String(now).padStart(16, "0")}-${itemId}`;
+}
+
 /**
  * Standard CORS headers for API responses.
  */
@@ -12,6 +12,7 @@ export default defineConfig({
 			// Specify bindings, KV namespaces, etc., needed for your tests
 			// These should match your wrangler.toml configuration
 			kvNamespaces: ["SAVED_ITEMS_KV"],
+			r2Buckets: ["FILES_BUCKET"],
 			// Define environment variables needed by the worker handlers
 			vars: {
 				GCF_SUMMARIZE_URL: "http://fake-gcf.test/summarize", // Use .test TLD for mocks
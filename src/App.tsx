@@ -18,6 +18,7 @@ import ProtectedRoute from "./components/ProtectedRoute";
 import { ShortcutsDialog } from "./components/shortcuts-dialog";
 import AddPage from "./pages/AddPage";
 import ArchivePage from "./pages/ArchivePage";
+import CollectionPage from "./pages/CollectionPage";
 import HomePage from "./pages/HomePage";
 import InboxPage from "./pages/InboxPage";
 import LaterPage from "./pages/LaterPage";
@@ -102,6 +103,7 @@ const AppWithRouter = () => (
 						<Route path="/inbox" element={<InboxPage />} />
 						<Route path="/later" element={<LaterPage />} />
 						<Route path="/archive" element={<ArchivePage />} />
+						<Route path="/collection/:id" element={<CollectionPage />} />
 					</Route>
 				</Route>
 
@@ -1,7 +1,8 @@
 /// <reference types="@testing-library/jest-dom" />
 
 import type { Article } from "@/services/db";
-import { render, screen } from "@testing-library/react";
+import { retryContentFetch } from "@/services/fetchQueue";
+import { fireEvent, render, screen } from "@testing-library/react";
 import { BrowserRouter } from "react-router-dom";
 import { describe, expect, it, vi } from "vitest";
 import ArticleCard from "./ArticleCard";
@@ -10,7 +11,13 @@ import ArticleCard from "./ArticleCard";
 vi.mock("@/context/ArticleContext", () => ({
 	useArticles: () => ({
 		updateArticleStatus: vi.fn(),
+		updateArticleTags: vi.fn(),
 		removeArticle: vi.fn(),
+		refreshArticles: vi.fn(),
+		allTags: [
+			{ _id: "tag_1", name: "research", color: "#3B82F6", createdAt: 0 },
+			{ _id: "tag_2", name: "later", color: "#10B981", createdAt: 0 },
+		],
 	}),
 }));
 
@@ -21,6 +28,11 @@ vi.mock("@/hooks/use-toast", () => ({
 	}),
 }));
 
+// Mock the background fetch queue
+vi.mock("@/services/fetchQueue", () => ({
+	retryContentFetch: vi.fn(),
+}));
+
 // Mock the animation hook
 vi.mock("@/hooks/use-synchronized-animation", () => ({
 	useSynchronizedAnimation: () => ({
@@ -198,4 +210,103 @@ describe("ArticleCard", () => {
 		).toBeInTheDocument();
 		expect(screen.getByText("90 min read")).toBeInTheDocument();
 	});
+
+	it("should display chips for known tags only", () => {
+		const taggedArticle: Article = {
+			_id: "article-tagged",
+			title: "Tagged Article",
+			url: "https://example.com/tagged",
+			content: "<p>Test content</p>",
+			excerpt: "Test excerpt",
+			savedAt: Date.now(),
+			status: "inbox",
+			isRead: false,
+			favorite: false,
+			tags: ["tag_1", "tag_deleted"],
+			type: "article",
+			siteName: "Example Website",
+		};
+
+		renderCard(taggedArticle);
+
+		expect(screen.getByText("research")).toBeInTheDocument();
+		expect(screen.queryByText("later")).not.toBeInTheDocument();
+		expect(screen.queryByText("tag_deleted")).not.toBeInTheDocument();
+	});
+
+	it("should show reading progress for a partly read EPUB", () => {
+		const epubArticle: Article = {
+			_id: "epub-progress",
+			title: "Half-read Book",
+			url: "local-epub://book.epub",
+			content: "epub content placeholder",
+			excerpt: "EPUB Book",
+			savedAt: Date.now(),
+			status: "inbox",
+			isRead: false,
+			favorite: false,
+			tags: [],
+			type: "epub",
+			readingProgress: 42,
+		};
+
+		renderCard(epubArticle);
+
+		expect(screen.getByRole("progressbar")).toHaveAttribute(
+			"aria-label",
+			"42% read",
+		);
+	});
+
+	it("should show why fetching content failed and offer a retry", () => {
+		const failedArticle: Article = {
+			_id: "article-failed",
+			title: "https://example.com/gone",
+			url: "https://example.com/gone",
+			content: "<p>Placeholder</p>",
+			excerpt: "",
+			savedAt: Date.now(),
+			status: "inbox",
+			isRead: false,
+			favorite: false,
+			tags: [],
+			type: "article",
+			fetchStatus: "failed",
+			fetchError: "Could not parse article content",
+		};
+
+		renderCard(failedArticle);
+
+		expect(
+			screen.getByText(
+				"Couldn't fetch the article: Could not parse article content",
+			),
+		).toBeInTheDocument();
+		fireEvent.click(screen.getByRole("button", { name: "Retry" }));
+		expect(retryContentFetch).toHaveBeenCalledWith("article-failed");
+	});
+
+	it("should show the cover image, and hide it if it fails to load", () => {
+		const coverArticle: Article = {
+			_id: "article-cover",
+			title: "Illustrated Article",
+			url: "https://example.com/illustrated",
+			content: "<p>Content</p>",
+			excerpt: "With a picture",
+			savedAt: Date.now(),
+			status: "inbox",
+			isRead: false,
+			favorite: false,
+			tags: [],
+			type: "article",
+			coverImage: "https://example.com/cover.jpg",
+		};
+
+		renderCard(coverArticle);
+
+		const cover = screen.getByTestId("article-card-cover");
+		expect(cover).toHaveAttribute("src", "https://example.com/cover.jpg");
+		fireEvent.error(cover);
+		expect(screen.queryByTestId("article-card-cover")).not.toBeInTheDocument();
+	});
 });
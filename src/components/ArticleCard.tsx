@@ -1,37 +1,68 @@
+import { TagBadge } from "@/components/TagBadge";
+import { TagPicker } from "@/components/TagPicker";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
 import {
 	DropdownMenu,
 	DropdownMenuContent,
 	DropdownMenuItem,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Progress } from "@/components/ui/progress";
 import { useArticles } from "@/context/ArticleContext";
 import { useSynchronizedAnimation } from "@/hooks/use-synchronized-animation";
 import { useToast } from "@/hooks/use-toast";
+import { getPercentRead } from "@/lib/articleUtils";
 import type { Article } from "@/services/db";
+import { retryContentFetch } from "@/services/fetchQueue";
 import { formatDistanceToNow } from "date-fns";
 import {
+	AlertCircle,
 	Archive,
 	Bookmark,
 	BookmarkCheck,
 	Clock,
 	MoreHorizontal,
+	Tag as TagIcon,
 	Trash2,
 } from "lucide-react";
 import type React from "react";
 import { useState } from "react";
 import { Link } from "react-router-dom";
 
+// Number of tag chips shown before collapsing the rest into "+N"
+const MAX_VISIBLE_TAGS = 3;
+
 interface ArticleCardProps {
 	article: Article;
 	index?: number;
 }
 
 export default function ArticleCard({ article, index = 0 }: ArticleCardProps) {
-	const { updateArticleStatus, optimisticRemoveArticle } = useArticles(); // Use optimistic remove
+	const {
+		updateArticleStatus,
+		updateArticleTags,
+		optimisticRemoveArticle, // Use optimistic remove
+		allTags,
+		refreshArticles,
+	} = useArticles();
 	const { toast } = useToast();
 	const [isMenuOpen, setIsMenuOpen] = useState(false);
+	const [isTagDialogOpen, setIsTagDialogOpen] = useState(false);
+	// Cover images are hotlinked from the article's site and may be gone
+	const [isCoverBroken, setIsCoverBroken] = useState(false);
+
+	const percentRead = Math.round(getPercentRead(article));
+
+	// Resolve tag IDs to tags, skipping any that no longer exist
+	const articleTags = allTags.filter((tag) => article.tags?.includes(tag._id));
 
 	// Use synchronized animation with staggered delay based on index
 	const cardAnimation = useSynchronizedAnimation({
@@ -67,6 +98,22 @@ export default function ArticleCard({ article, index = 0 }: ArticleCardProps) {
 		}
 	};
 
+	const handleRetryFetch = async (e: React.MouseEvent) => {
+		e.preventDefault();
+		e.stopPropagation();
+		try {
+			await retryContentFetch(article._id);
+			await refreshArticles();
+		} catch (error) {
+			console.error("Error retrying content fetch:", error);
+			toast({
+				title: "Error",
+				description: "Could not retry fetching the article",
+				variant: "destructive",
+			});
+		}
+	};
+
 	// Format the saved date with error handling
 	const getFormattedDate = () => {
 		try {
@@ -108,6 +155,17 @@ export default function ArticleCard({ article, index = 0 }: ArticleCardProps) {
 		>
 			<Link to={`/read/${article._id}`} data-testid="article-card">
 				<CardContent className="p-0">
+					{article.coverImage && !isCoverBroken && (
+						<img
+							src={article.coverImage}
+							alt=""
+							loading="lazy"
+							referrerPolicy="no-referrer"
+							className="h-32 w-full object-cover bg-muted"
+							data-testid="article-card-cover"
+							onError={() => setIsCoverBroken(true)}
+						/>
+					)}
 					<div className="p-4">
 						{article.isRead ? (
 							<div className="flex justify-between items-start mb-2">
@@ -165,6 +223,17 @@ export default function ArticleCard({ article, index = 0 }: ArticleCardProps) {
 												<Archive className="mr-2 h-4 w-4" />
 												<span>Archive</span>
 											</DropdownMenuItem>
+											<DropdownMenuItem
+												onClick={(e) => {
+													e.preventDefault();
+													e.stopPropagation();
+													setIsMenuOpen(false);
+													setIsTagDialogOpen(true);
+												}}
+											>
+												<TagIcon className="mr-2 h-4 w-4" />
+												<span>Edit Tags</span>
+											</DropdownMenuItem>
 											<DropdownMenuItem
 												className="text-destructive focus:text-destructive"
 												onClick={handleDelete}
@@ -234,6 +303,17 @@ export default function ArticleCard({ article, index = 0 }: ArticleCardProps) {
 												<Archive className="mr-2 h-4 w-4" />
 												<span>Archive</span>
 											</DropdownMenuItem>
+											<DropdownMenuItem
+												onClick={(e) => {
+													e.preventDefault();
+													e.stopPropagation();
+													setIsMenuOpen(false);
+													setIsTagDialogOpen(true);
+												}}
+											>
+												<TagIcon className="mr-2 h-4 w-4" />
+												<span>Edit Tags</span>
+											</DropdownMenuItem>
 											<DropdownMenuItem
 												className="text-destructive focus:text-destructive"
 												onClick={handleDelete}
@@ -252,6 +332,45 @@ export default function ArticleCard({ article, index = 0 }: ArticleCardProps) {
 						<p className="text-sm text-muted-foreground line-clamp-2 mb-3">
 							{article.excerpt || "No excerpt available"}
 						</p>
+						{article.fetchStatus === "failed" ? (
+							<div className="flex items-center gap-2 text-xs text-destructive mb-3">
+								<AlertCircle size={14} className="shrink-0" />
+								<span className="line-clamp-1" title={article.fetchError}>
+									Couldn't fetch the article
+									{article.fetchError && `: ${article.fetchError}`}
+								</span>
+								<Button
+									variant="link"
+									size="sm"
+									className="h-auto p-0 text-xs"
+									onClick={handleRetryFetch}
+								>
+									Retry
+								</Button>
+							</div>
+						) : (
+							article.fetchStatus === "pending" &&
+							article.fetchError && (
+								<div className="flex items-center gap-2 text-xs text-muted-foreground mb-3">
+									<AlertCircle size={14} className="shrink-0" />
+									<span className="line-clamp-1" title={article.fetchError}>
+										Will retry fetching: {article.fetchError}
+									</span>
+								</div>
+							)
+						)}
+						{articleTags.length > 0 && (
+							<div className="flex flex-wrap items-center gap-1 mb-3">
+								{articleTags.slice(0, MAX_VISIBLE_TAGS).map((tag) => (
+									<TagBadge key={tag._id} tag={tag} />
+								))}
+								{articleTags.length > MAX_VISIBLE_TAGS && (
+									<span className="text-xs text-muted-foreground">
+										+{articleTags.length - MAX_VISIBLE_TAGS}
+									</span>
+								)}
+							</div>
+						)}
 						<div className="flex items-center justify-between text-xs text-muted-foreground mt-2">
 							<span>
 								{article.type === "pdf" && !article.siteName
@@ -261,13 +380,42 @@ export default function ArticleCard({ article, index = 0 }: ArticleCardProps) {
 										: article.siteName || "Unknown source"}
 							</span>
 							<div className="flex items-center gap-3">
-								<span>{article.estimatedReadTime || "?"} min read</span>
+								{article.fetchStatus === "pending" ? (
+									<span>Fetching content…</span>
+								) : article.fetchStatus === "failed" ? (
+									<span title={article.fetchError}>Content unavailable</span>
+								) : (
+									<span>{article.estimatedReadTime || "?"} min read</span>
+								)}
 								<span>{getFormattedDate()}</span>
 							</div>
 						</div>
 					</div>
+					{/* Reading progress, hidden before starting and once finished */}
+					{!article.isRead && percentRead > 0 && percentRead < 100 && (
+						<Progress
+							value={percentRead}
+							className="h-1 rounded-none"
+							aria-label={`${percentRead}% read`}
+						/>
+					)}
 				</CardContent>
 			</Link>
+			{/* Outside the Link so clicks in the dialog don't open the article */}
+			<Dialog open={isTagDialogOpen} onOpenChange={setIsTagDialogOpen}>
+				<DialogContent className="p-0 gap-0 sm:max-w-sm">
+					<DialogHeader className="p-4 pb-2">
+						<DialogTitle>Edit Tags</DialogTitle>
+						<DialogDescription className="line-clamp-1">
+							{article.title || "Untitled"}
+						</DialogDescription>
+					</DialogHeader>
+					<TagPicker
+						selectedTagIds={article.tags ?? []}
+						onChange={(tagIds) => updateArticleTags(article._id, tagIds)}
+					/>
+				</DialogContent>
+			</Dialog>
 		</Card>
 	);
 }
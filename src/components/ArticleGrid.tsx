@@ -0,0 +1,19 @@
+import ArticleCard from "@/components/ArticleCard";
+import type { Article } from "@/services/db";
+
+interface ArticleGridProps {
+	articles: Article[];
+}
+
+/**
+ * Responsive grid of article cards, shared by the library and collection lists.
+ */
+export default function ArticleGrid({ articles }: ArticleGridProps) {
+	return (
+		<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+			{articles.map((article, index) => (
+				<ArticleCard key={article._id} article={article} index={index} />
+			))}
+		</div>
+	);
+}
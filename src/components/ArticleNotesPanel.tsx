@@ -0,0 +1,89 @@
+import { Textarea } from "@/components/ui/textarea";
+import { compareCfi, isCfi } from "@/lib/epubAnchoring";
+import type { Highlight } from "@/services/db";
+import { Loader2 } from "lucide-react";
+
+interface ArticleNotesPanelProps {
+	highlights: Highlight[];
+	note: string;
+	isSavingNote: boolean;
+	onNoteChange: (note: string) => void;
+	onSelectHighlight: (highlight: Highlight) => void;
+}
+
+/**
+ * Notes tab of the reader sidebar: the article-level note plus every
+ * highlight (with its note) in reading order.
+ */
+export function ArticleNotesPanel({
+	highlights,
+	note,
+	isSavingNote,
+	onNoteChange,
+	onSelectHighlight,
+}: ArticleNotesPanelProps) {
+	// Sort by position so the list follows the text, not creation time
+	const orderedHighlights = [...highlights].sort((a, b) =>
+		isCfi(a.position.start) && isCfi(b.position.start)
+			? compareCfi(a.position.start, b.position.start)
+			: (a.position.pageNumber ?? 0) - (b.position.pageNumber ?? 0) ||
+				Number(a.position.start) - Number(b.position.start),
+	);
+
+	return (
+		<div className="space-y-6">
+			<section className="space-y-2">
+				<div className="flex items-center justify-between">
+					<h3 className="text-sm font-medium">Article note</h3>
+					<span className="flex items-center text-xs text-muted-foreground">
+						{isSavingNote && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+						{isSavingNote ? "Saving..." : "Markdown supported"}
+					</span>
+				</div>
+				<Textarea
+					placeholder="Write your thoughts about this article..."
+					value={note}
+					onChange={(e) => onNoteChange(e.target.value)}
+					rows={6}
+					className="font-mono text-sm"
+				/>
+			</section>
+
+			<section className="space-y-2">
+				<h3 className="text-sm font-medium">
+					Highlights ({orderedHighlights.length})
+				</h3>
+				{orderedHighlights.length === 0 ? (
+					<p className="text-sm text-muted-foreground">
+						Select text in the article to highlight it.
+					</p>
+				) : (
+					<ul className="space-y-2">
+						{orderedHighlights.map((highlight) => (
+							<li key={highlight._id}>
+								<button
+									type="button"
+									onClick={() => onSelectHighlight(highlight)}
+									className="w-full rounded-md border-l-4 bg-muted/50 p-3 text-left hover:bg-muted"
+									style={{ borderLeftColor: highlight.color }}
+								>
+									{highlight.position.pageNumber !== undefined && (
+										<p className="mb-1 text-xs text-muted-foreground">
+											Page {highlight.position.pageNumber}
+										</p>
+									)}
+									<p className="text-sm line-clamp-4">{highlight.text}</p>
+									{highlight.note && (
+										<p className="mt-2 text-xs text-muted-foreground whitespace-pre-wrap">
+											{highlight.note}
+										</p>
+									)}
+								</button>
+							</li>
+						))}
+					</ul>
+				)}
+			</section>
+		</div>
+	);
+}
@@ -1,9 +1,17 @@
+import { ArticleNotesPanel } from "@/components/ArticleNotesPanel";
 import { ReaderContentDisplay } from "@/components/ReaderContentDisplay";
 import { ReaderToolbar } from "@/components/ReaderToolbar";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
 import {
 	Sheet,
 	SheetContent,
@@ -14,19 +22,28 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useArticles } from "@/context/ArticleContext";
+import { useToast } from "@/hooks/use-toast";
 import { useArticleData } from "@/hooks/useArticleData";
+import { useArticleNote } from "@/hooks/useArticleNote";
 import { useChat } from "@/hooks/useChat";
+import { useEpubPosition } from "@/hooks/useEpubPosition";
+import { useHighlights } from "@/hooks/useHighlights";
 import { useSummarize } from "@/hooks/useSummarize";
+import { HIGHLIGHT_MARK_CLASS } from "@/lib/highlightAnchoring";
 import { cn } from "@/lib/utils";
+import type { Article, Highlight } from "@/services/db";
+import { type EpubChapter, getEpubText } from "@/services/epub";
 import { debounce } from "lodash"; // Import debounce
 import { Loader2, Send } from "lucide-react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 
 export default function ArticleReader() {
 	const { id } = useParams<{ id: string }>();
 	const navigate = useNavigate();
-	const { updateArticleStatus, updateReadingProgress } = useArticles();
+	const { updateArticleStatus, updateArticleTags, updateReadingProgress } =
+		useArticles();
+	const { toast } = useToast();
 
 	// --- Core Article Data ---
 	const { article, loading, error, setArticle } = useArticleData(id);
@@ -35,9 +52,70 @@ export default function ArticleReader() {
 	const [fullscreen, setFullscreen] = useState(false);
 	const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 	const [fullTextContent, setFullTextContent] = useState<string | null>(null); // Extracted text for features
+	const [epubChapters, setEpubChapters] = useState<EpubChapter[]>([]);
+	const [epubSectionHref, setEpubSectionHref] = useState<string | null>(null); // Chapter on screen
+	const [aiScope, setAiScope] = useState<"chapter" | "book">("chapter"); // What AI features see of a book
+	const [focusedHighlight, setFocusedHighlight] = useState<Highlight | null>(
+		null,
+	);
 	const contentRef = useRef<HTMLDivElement>(null); // Ref for scroll tracking HTML content
 
 	// --- Feature Hooks ---
+	const { highlights, addHighlight, editHighlight, removeHighlight } =
+		useHighlights(id);
+	const handleNoteSaved = useCallback(
+		(updated: Article) => {
+			setArticle((prev) =>
+				prev?._id === updated._id
+					? {
+							...prev,
+							note: updated.note,
+							_rev: updated._rev,
+							fieldTimestamps: updated.fieldTimestamps,
+						}
+					: prev,
+			);
+		},
+		[setArticle],
+	);
+	const {
+		note,
+		setNote,
+		isSaving: isSavingNote,
+	} = useArticleNote(article, handleNoteSaved);
+	const handleEpubPositionSaved = useCallback(
+		(updated: Article) => {
+			setArticle((prev) =>
+				prev?._id === updated._id
+					? {
+							...prev,
+							readingLocation: updated.readingLocation,
+							bookmarks: updated.bookmarks,
+							_rev: updated._rev,
+							fieldTimestamps: updated.fieldTimestamps,
+						}
+					: prev,
+			);
+		},
+		[setArticle],
+	);
+	const {
+		saveLocation: saveEpubLocation,
+		addBookmark,
+		removeBookmark,
+	} = useEpubPosition(article, handleEpubPositionSaved);
+	// Books can be discussed a chapter at a time or whole; everything else is whole
+	const isEpubText = article?.type === "epub" && epubChapters.length > 0;
+	const aiContent = useMemo(
+		() =>
+			isEpubText
+				? getEpubText(
+						epubChapters,
+						aiScope === "chapter" ? (epubSectionHref ?? undefined) : undefined,
+					)
+				: fullTextContent,
+		[isEpubText, epubChapters, aiScope, epubSectionHref, fullTextContent],
+	);
 	const { summarize, isSummarizing, summary, summaryError } = useSummarize();
 	const {
 		chatHistory,
@@ -47,7 +125,7 @@ export default function ArticleReader() {
 		chatError,
 		handleChatSubmit,
 		chatScrollAreaRef,
-	} = useChat(fullTextContent); // Pass extracted content to chat hook
+	} = useChat(aiContent); // Pass extracted content to chat hook
 
 	// --- Callbacks ---
 	const handleTextExtracted = useCallback((text: string | null) => {
@@ -70,6 +148,15 @@ export default function ArticleReader() {
 		}
 	}, [article, id, updateArticleStatus, setArticle]);
 
+	const changeTags = useCallback(
+		(tagIds: string[]) => {
+			if (!id) return;
+			updateArticleTags(id, tagIds); // Update in DB via context
+			setArticle((prev) => (prev ? { ...prev, tags: tagIds } : null));
+		},
+		[id, updateArticleTags, setArticle],
+	);
+
 	const toggleFullscreen = useCallback(() => {
 		setFullscreen((prev) => !prev);
 	}, []);
@@ -82,6 +169,39 @@ export default function ArticleReader() {
 		setIsSidebarOpen(open);
 	}, []);
 
+	// Close the sidebar and scroll the highlight into view, flashing it briefly
+	const jumpToHighlight = useCallback(
+		(highlight: Highlight) => {
+			if (article?.type === "pdf" || article?.type === "epub") {
+				// Book highlights are drawn by the PDF or EPUB reader, which turns to them
+				setIsSidebarOpen(false);
+				setFocusedHighlight({ ...highlight }); // A new object so the same one can be revisited
+				return;
+			}
+			const marks = contentRef.current?.querySelectorAll<HTMLElement>(
+				`mark[data-highlight-id="${CSS.escape(highlight._id)}"]`,
+			);
+			if (!marks?.length) {
+				toast({
+					title: "Highlight not found",
+					description: "This passage is no longer in the article text.",
+				});
+				return;
+			}
+			setIsSidebarOpen(false);
+			marks[0].scrollIntoView({ behavior: "smooth", block: "center" });
+			for (const mark of marks) {
+				mark.classList.add(`${HIGHLIGHT_MARK_CLASS}-active`);
+			}
+			setTimeout(() => {
+				for (const mark of marks) {
+					mark.classList.remove(`${HIGHLIGHT_MARK_CLASS}-active`);
+				}
+			}, 1500);
+		},
+		[article?.type, toast],
+	);
+
 	// --- Effects ---
 	// Track reading progress for HTML content
 	useEffect(() => {
@@ -118,7 +238,51 @@ export default function ArticleReader() {
 		// Ensure debounce is recreated if dependencies change, though unlikely here
 	}, [article, updateReadingProgress]);
 
+	// Track reading progress for books: PDFs by page number, EPUBs by percentage
+	const debouncedUpdateBookProgress = useMemo(
+		() =>
+			debounce((articleId: string, progress: number, pageCount?: number) => {
+				updateReadingProgress(articleId, progress, pageCount);
+			}, 500),
+		[updateReadingProgress],
+	);
+	useEffect(
+		() => () => debouncedUpdateBookProgress.flush(), // Keep the last position when leaving
+		[debouncedUpdateBookProgress],
+	);
+	const handlePdfPageChange = useCallback(
+		(page: number, pageCount: number) => {
+			if (article?.type === "pdf") {
+				debouncedUpdateBookProgress(article._id, page, pageCount);
+			}
+		},
+		[article?._id, article?.type, debouncedUpdateBookProgress],
+	);
+	const handleEpubProgressChange = useCallback(
+		(percent: number) => {
+			if (article?.type === "epub") {
+				debouncedUpdateBookProgress(article._id, percent);
+			}
+		},
+		[article?._id, article?.type, debouncedUpdateBookProgress],
+	);
+
 	// --- Render Logic ---
+	const aiScopeSelect = isEpubText && (
+		<Select
+			value={aiScope}
+			onValueChange={(value) => setAiScope(value as "chapter" | "book")}
+		>
+			<SelectTrigger aria-label="Content for AI features">
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				<SelectItem value="chapter">Current chapter</SelectItem>
+				<SelectItem value="book">Whole book</SelectItem>
+			</SelectContent>
+		</Select>
+	);
+
 	if (loading) {
 		return (
 			<div className="container py-8">
@@ -156,10 +320,12 @@ export default function ArticleReader() {
 				isFavorite={article.favorite ?? false}
 				isFullscreen={fullscreen}
 				isSidebarOpen={isSidebarOpen}
+				tagIds={article.tags ?? []}
 				onGoBack={goBack}
 				onToggleFavorite={toggleFavorite}
 				onToggleFullscreen={toggleFullscreen}
 				onToggleSidebar={toggleSidebar}
+				onTagsChange={changeTags}
 			/>
 
 			{/* Content Display Area */}
@@ -167,6 +333,18 @@ export default function ArticleReader() {
 				article={article}
 				contentRef={contentRef} // Pass ref for HTML scroll tracking
 				onTextExtracted={handleTextExtracted}
+				onPdfPageChange={handlePdfPageChange}
+				onEpubLocationChange={saveEpubLocation}
+				onEpubProgressChange={handleEpubProgressChange}
+				onEpubSectionChange={setEpubSectionHref}
+				onEpubChaptersExtracted={setEpubChapters}
+				onAddBookmark={addBookmark}
+				onRemoveBookmark={removeBookmark}
+				highlights={highlights}
+				onCreateHighlight={addHighlight}
+				onUpdateHighlight={editHighlight}
+				onDeleteHighlight={removeHighlight}
+				focusedHighlight={focusedHighlight}
 			/>
 
 			{/* Sidebar Sheet */}
@@ -186,21 +364,26 @@ export default function ArticleReader() {
 
 						{/* Summary Tab */}
 						<TabsContent value="summary" className="mt-4 space-y-4">
+							{aiScopeSelect}
 							<Button
 								onClick={() => {
-									if (fullTextContent) {
-										summarize(fullTextContent); // Call hook's mutate function
+									if (aiContent) {
+										summarize(aiContent); // Call hook's mutate function
 									} else {
 										// Handle case where content isn't ready (though button should be disabled)
 										console.warn("Summarize clicked but no content available.");
 									}
 								}}
-								disabled={isSummarizing || !fullTextContent}
+								disabled={isSummarizing || !aiContent}
 							>
 								{isSummarizing ? (
 									<Loader2 className="mr-2 h-4 w-4 animate-spin" />
 								) : null}
-								Summarize Article
+								{!isEpubText
+									? "Summarize Article"
+									: aiScope === "chapter"
+										? "Summarize Chapter"
+										: "Summarize Book"}
 							</Button>
 							{isSummarizing && (
 								<div className="space-y-2">
@@ -227,6 +410,7 @@ export default function ArticleReader() {
 							value="chat"
 							className="mt-4 flex flex-col h-[calc(100vh-200px)]" // Adjust height as needed
 						>
+							{isEpubText && <div className="mb-4">{aiScopeSelect}</div>}
 							<ScrollArea
 								className="flex-1 mb-4 pr-4"
 								ref={chatScrollAreaRef} // Use ref from useChat hook
@@ -266,19 +450,19 @@ export default function ArticleReader() {
 								<Input
 									type="text"
 									placeholder={
-										fullTextContent
+										aiContent
 											? "Ask about the content..."
 											: "Extracting content..."
 									}
 									value={chatInput}
 									onChange={(e) => setChatInput(e.target.value)} // Use setter from useChat hook
-									disabled={isChatting || !fullTextContent}
+									disabled={isChatting || !aiContent}
 									className="flex-1"
 								/>
 								<Button
 									type="submit"
 									size="icon"
-									disabled={isChatting || !chatInput.trim() || !fullTextContent}
+									disabled={isChatting || !chatInput.trim() || !aiContent}
 								>
 									<Send className="h-4 w-4" />
 								</Button>
@@ -287,7 +471,15 @@ export default function ArticleReader() {
 
 						{/* Notes Tab */}
 						<TabsContent value="notes" className="mt-4">
-							<p>Notes functionality to be added.</p>
+							<ScrollArea className="h-[calc(100vh-200px)] pr-4">
+								<ArticleNotesPanel
+									highlights={highlights}
+									note={note}
+									isSavingNote={isSavingNote}
+									onNoteChange={setNote}
+									onSelectHighlight={jumpToHighlight}
+								/>
+							</ScrollArea>
 						</TabsContent>
 
 						{/* Metadata Tab */}
@@ -0,0 +1,210 @@
+import { SearchQueryInput } from "@/components/SearchQueryInput";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useArticles } from "@/context/ArticleContext";
+import { useDebounce } from "@/hooks/useDebounce";
+import { getUniqueSiteNames } from "@/lib/articleUtils";
+import { queryArticles } from "@/lib/searchQuery";
+import type { CollectionInput } from "@/services/db";
+import type {
+	ArticleFilters,
+	ArticleSortField,
+	SortDirection,
+} from "@/types/articles";
+import { useEffect, useMemo, useState } from "react";
+
+const EMPTY_FILTERS: ArticleFilters = {
+	siteNames: [],
+	types: [],
+	tags: [],
+	searchQuery: "",
+};
+
+const SORT_FIELDS: { value: ArticleSortField; label: string }[] = [
+	{ value: "savedAt", label: "Date saved" },
+	{ value: "title", label: "Title" },
+	{ value: "siteName", label: "Site" },
+	{ value: "estimatedReadTime", label: "Read time" },
+];
+
+interface CollectionDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	// Values to start from: the collection being edited, or a search to save
+	initial?: Partial<CollectionInput>;
+	onSave: (input: CollectionInput) => Promise<boolean>;
+}
+
+/**
+ * Dialog for creating or editing a smart collection: a name, a search query
+ * (with the query language's operators) and a sort order. Shows how many
+ * articles currently match while the query is edited.
+ */
+export function CollectionDialog({
+	open,
+	onOpenChange,
+	initial,
+	onSave,
+}: CollectionDialogProps) {
+	const { articles, allTags } = useArticles();
+	const [name, setName] = useState("");
+	const [query, setQuery] = useState("");
+	const [sortField, setSortField] = useState<ArticleSortField>("savedAt");
+	const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+	const [isSaving, setIsSaving] = useState(false);
+	const isEditing = !!initial?.name;
+
+	// Start from the initial values each time the dialog opens
+	useEffect(() => {
+		if (!open) return;
+		setName(initial?.name ?? "");
+		setQuery(initial?.filter?.searchQuery ?? "");
+		setSortField(initial?.sortCriteria?.field ?? "savedAt");
+		setSortDirection(initial?.sortCriteria?.direction ?? "desc");
+	}, [open, initial]);
+
+	const filter = useMemo(
+		() => ({
+			...EMPTY_FILTERS,
+			...initial?.filter,
+			searchQuery: query.trim(),
+		}),
+		[initial?.filter, query],
+	);
+
+	const settledFilter = useDebounce(filter, 300);
+	const matchCount = useMemo(
+		() =>
+			queryArticles(
+				articles,
+				settledFilter,
+				{ field: "savedAt", direction: "desc" },
+				{ tags: allTags, siteNames: getUniqueSiteNames(articles) },
+			).length,
+		[articles, allTags, settledFilter],
+	);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!name.trim()) return;
+		setIsSaving(true);
+		const saved = await onSave({
+			name: name.trim(),
+			filter,
+			sortCriteria: { field: sortField, direction: sortDirection },
+		});
+		setIsSaving(false);
+		if (saved) onOpenChange(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[520px]">
+				<form onSubmit={handleSubmit} className="space-y-4">
+					<DialogHeader>
+						<DialogTitle>
+							{isEditing ? "Edit Collection" : "New Collection"}
+						</DialogTitle>
+						<DialogDescription>
+							Collections keep a search and sort order in the sidebar and update
+							as articles change.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="space-y-2">
+						<Label htmlFor="collection-name">Name</Label>
+						<Input
+							id="collection-name"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+							placeholder="Long reads about AI"
+							autoFocus
+						/>
+					</div>
+
+					<div className="space-y-2">
+						<Label>Search</Label>
+						<SearchQueryInput
+							value={query}
+							onChange={setQuery}
+							placeholder="e.g. is:unread type:pdf saved:this-month"
+						/>
+						<p className="text-xs text-muted-foreground">
+							{matchCount}{" "}
+							{matchCount === 1 ? "article matches" : "articles match"}
+						</p>
+					</div>
+
+					<div className="flex gap-2">
+						<div className="flex-1 space-y-2">
+							<Label>Sort by</Label>
+							<Select
+								value={sortField}
+								onValueChange={(value) =>
+									setSortField(value as ArticleSortField)
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{SORT_FIELDS.map((field) => (
+										<SelectItem key={field.value} value={field.value}>
+											{field.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="w-40 space-y-2">
+							<Label>Order</Label>
+							<Select
+								value={sortDirection}
+								onValueChange={(value) =>
+									setSortDirection(value as SortDirection)
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="desc">Descending</SelectItem>
+									<SelectItem value="asc">Ascending</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={!name.trim() || isSaving}>
+							{isEditing ? "Save Changes" : "Create Collection"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -1,16 +1,95 @@
+import { HighlightColorPicker } from "@/components/HighlightColorPicker";
+import { HighlightEditor } from "@/components/HighlightEditor";
 import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+	Popover,
+	PopoverAnchor,
+	PopoverContent,
+} from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from "@/components/ui/sheet";
+import type { NewHighlight } from "@/hooks/useHighlights";
+import {
+	compareCfi,
+	isCfi,
+	joinCfiRange,
+	splitCfiRange,
+} from "@/lib/epubAnchoring";
+import { cn } from "@/lib/utils";
+import type { Bookmark, Highlight } from "@/services/db";
+import {
+	type EpubChapter,
+	extractEpubChapters,
+	findTocItem,
+	getEpubText,
+} from "@/services/epub";
 // Removed static import: import { base64ToArrayBuffer } from "@/services/epub";
-import type { Book, Rendition } from "epubjs";
+import type { Book, Contents, Location, NavItem, Rendition } from "epubjs";
 import ePub from "epubjs";
-import { ArrowLeft, ArrowRight, Loader2 } from "lucide-react";
-import { useEffect, useRef, useState } from "react"; // Removed useCallback
+import {
+	ArrowLeft,
+	ArrowRight,
+	BookmarkCheck,
+	BookmarkPlus,
+	List,
+	Loader2,
+	TableOfContents,
+	X,
+} from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
 interface EpubReaderProps {
-	fileData: string;
+	fileData: ArrayBuffer; // The EPUB file, as loaded from the article's attachment
 	fileName?: string;
 	onTextExtracted: (text: string | null) => void; // Add callback prop
+	initialLocation?: string; // CFI to open at, e.g. where the reader left off
+	onLocationChange?: (cfi: string) => void;
+	onProgressChange?: (percent: number) => void; // 0-100, once locations are generated
+	onSectionChange?: (href: string) => void; // Spine href of the chapter on screen
+	onChaptersExtracted?: (chapters: EpubChapter[]) => void; // Text of every chapter, for AI features
+	bookKey?: string; // Caches extracted text across visits, e.g. the article ID
+	bookmarks?: Bookmark[];
+	onAddBookmark?: (bookmark: Omit<Bookmark, "createdAt">) => void;
+	onRemoveBookmark?: (cfi: string) => void;
+	highlights?: Highlight[]; // Highlights to draw, anchored by CFI
+	focusedHighlight?: Highlight | null; // Shown whenever this changes
+	onCreateHighlight?: (highlight: NewHighlight) => void;
+	onUpdateHighlight?: (
+		highlight: Highlight,
+		updates: Pick<Highlight, "note" | "color">,
+	) => void;
+	onDeleteHighlight?: (highlight: Highlight) => void;
 }
 
+// Position of a popover anchor inside the reader
+interface PopoverPosition {
+	top: number;
+	left: number;
+}
+
+// Class of the SVG marks epub.js draws for highlights
+const HIGHLIGHT_CLASS = "epub-highlight";
+
+// Characters per generated location; smaller is finer progress but slower to generate
+const LOCATION_CHARS = 1000;
+
+const NO_HIGHLIGHTS: Highlight[] = [];
+const NO_BOOKMARKS: Bookmark[] = [];
+
 // Define missing types for EPUB.js
 interface EpubContents {
 	document: Document;
@@ -46,38 +125,102 @@ export default function EpubReader({
 	fileData,
 	fileName,
 	onTextExtracted, // Destructure the callback
+	initialLocation,
+	onLocationChange,
+	onProgressChange,
+	onSectionChange,
+	onChaptersExtracted,
+	bookKey,
+	bookmarks = NO_BOOKMARKS,
+	onAddBookmark,
+	onRemoveBookmark,
+	highlights = NO_HIGHLIGHTS,
+	focusedHighlight,
+	onCreateHighlight,
+	onUpdateHighlight,
+	onDeleteHighlight,
 }: EpubReaderProps) {
 	const [book, setBook] = useState<ExtendedBook | null>(null); // Use ExtendedBook
+	const [toc, setToc] = useState<NavItem[]>([]);
+	const [isTocOpen, setIsTocOpen] = useState(false);
 	const [rendition, setRendition] = useState<ExtendedRendition | null>(null);
 	const [loading, setLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
 	const viewerRef = useRef<HTMLDivElement>(null);
-	const [currentLocation, setCurrentLocation] = useState<string | null>(null);
+	const containerRef = useRef<HTMLDivElement>(null); // Popovers are positioned in here
+	const [currentLocation, setCurrentLocation] = useState<{
+		start: string;
+		end: string;
+		href: string;
+	} | null>(null);
 	const [contentRendered, setContentRendered] = useState(false);
+	const [pendingSelection, setPendingSelection] = useState<
+		| ({ cfiRange: string; text: string; contents: Contents } & PopoverPosition)
+		| null
+	>(null);
+	const [editing, setEditing] = useState<
+		({ highlight: Highlight } & PopoverPosition) | null
+	>(null);
+	// Highlights currently drawn by epub.js, by highlight ID
+	const appliedHighlightsRef = useRef(
+		new Map<string, { cfiRange: string; color: string }>(),
+	);
+	// Read through refs so the book isn't reloaded when these change
+	const initialLocationRef = useRef(initialLocation);
+	const onLocationChangeRef = useRef(onLocationChange);
+	const onProgressChangeRef = useRef(onProgressChange);
+	const highlightsRef = useRef(highlights);
+	onLocationChangeRef.current = onLocationChange;
+	onProgressChangeRef.current = onProgressChange;
+	const onSectionChangeRef = useRef(onSectionChange);
+	onSectionChangeRef.current = onSectionChange;
+	const onChaptersExtractedRef = useRef(onChaptersExtracted);
+	onChaptersExtractedRef.current = onChaptersExtracted;
+	const bookKeyRef = useRef(bookKey);
+	bookKeyRef.current = bookKey;
+	highlightsRef.current = highlights;
+
+	// Position below a range inside one of the book's iframes, relative to the reader
+	const toPopoverPosition = useCallback(
+		(range: Range): PopoverPosition | null => {
+			const frame =
+				range.startContainer.ownerDocument?.defaultView?.frameElement;
+			const container = containerRef.current;
+			if (!frame || !container) return null;
+			const rect = range.getBoundingClientRect();
+			const frameRect = frame.getBoundingClientRect();
+			const containerRect = container.getBoundingClientRect();
+			return {
+				top: frameRect.top + rect.bottom - containerRect.top,
+				left: frameRect.left + rect.left + rect.width / 2 - containerRect.left,
+			};
+		},
+		[],
+	);
 
 	// Initialize the EPUB book
 	useEffect(() => {
 		if (!fileData || !viewerRef.current) return;
 
 		let epubBook: ExtendedBook | null = null; // Use ExtendedBook
+		let cancelled = false; // Stops background text extraction once the book closes
 
 		const initializeBook = async () => {
 			try {
 				setLoading(true);
 				setContentRendered(false);
 
-				// Dynamically import and convert base64 to ArrayBuffer
-				const { base64ToArrayBuffer } = await import("@/services/epub");
-				const arrayBuffer = base64ToArrayBuffer(fileData);
-
 				// Create EPUB book instance
-				epubBook = ePub(arrayBuffer) as ExtendedBook; // Cast to ExtendedBook
+				epubBook = ePub(fileData) as ExtendedBook; // Cast to ExtendedBook
 				setBook(epubBook);
+				setToc([]);
+				appliedHighlightsRef.current = new Map();
 
 				// Create rendition when book is ready
 				epubBook.ready
 					.then(() => {
 						if (!viewerRef.current || !epubBook) return;
+						setToc(epubBook.navigation?.toc ?? []);
 
 						// Use scrolled-document mode for better scrolling of content
 						const epubRendition = epubBook.renderTo(
@@ -102,8 +245,18 @@ export default function EpubReader({
 							}
 						});
 
-						// Display the book from beginning and apply scrolling to content
-						epubRendition.display().then(() => {
+						// Resume where the reader left off, or start from the beginning
+						const resumeAt = initialLocationRef.current;
+						const displayed = resumeAt
+							? epubRendition.display(resumeAt).catch((displayErr) => {
+									console.warn(
+										`Could not resume EPUB at ${resumeAt}, starting from the beginning:`,
+										displayErr,
+									);
+									return epubRendition.display();
+								})
+							: epubRendition.display();
+						displayed.then(() => {
 							setLoading(false);
 							setContentRendered(true);
 							console.log("EPUB content displayed successfully");
@@ -126,14 +279,79 @@ export default function EpubReader({
 						// Store rendition for navigation
 						setRendition(epubRendition);
 
+						// Progress needs the book's locations, which take a while to generate
+						let locationsReady = false;
+						let lastCfi: string | null = null;
+						const reportProgress = () => {
+							if (!locationsReady || !lastCfi || !epubBook) return;
+							const fraction = epubBook.locations.percentageFromCfi(lastCfi);
+							onProgressChangeRef.current?.(Math.round(fraction * 100));
+						};
+						const locationsGenerated =
+							epubBook.locations.generate(LOCATION_CHARS);
+						locationsGenerated
+							.then(() => {
+								locationsReady = true;
+								reportProgress();
+							})
+							.catch((locationsErr) => {
+								console.warn(
+									"Could not generate EPUB locations:",
+									locationsErr,
+								);
+							});
+
 						// Track location changes
-						epubRendition.on("locationChanged", (loc) => {
-							if (loc?.start) {
-								setCurrentLocation(loc.start.cfi);
-								console.log("EPUB location changed:", loc.start.cfi);
+						epubRendition.on("relocated", (location: Location) => {
+							if (location?.start?.cfi) {
+								setCurrentLocation({
+									start: location.start.cfi,
+									end: location.end?.cfi ?? location.start.cfi,
+									href: location.start.href,
+								});
+								lastCfi = location.start.cfi;
+								onSectionChangeRef.current?.(location.start.href);
+								onLocationChangeRef.current?.(location.start.cfi);
+								reportProgress();
+								console.log("EPUB location changed:", location.start.cfi);
 							}
 						});
 
+						// Offer the color picker when text is selected
+						epubRendition.on(
+							"selected",
+							(cfiRange: string, contents: Contents) => {
+								const range = epubRendition.getRange(cfiRange);
+								const text = range?.toString().trim();
+								const position = range && toPopoverPosition(range);
+								if (text && position) {
+									setEditing(null);
+									setPendingSelection({
+										cfiRange,
+										text,
+										contents,
+										...position,
+									});
+								}
+							},
+						);
+
+						// Open the editor when a highlight is clicked
+						epubRendition.on(
+							"markClicked",
+							(cfiRange: string, data?: { highlightId?: string }) => {
+								const highlight = highlightsRef.current.find(
+									(h) => h._id === data?.highlightId,
+								);
+								const range = epubRendition.getRange(cfiRange);
+								const position = range && toPopoverPosition(range);
+								if (highlight && position) {
+									setPendingSelection(null);
+									setEditing({ highlight, ...position });
+								}
+							},
+						);
+
 						// Add rendering error handler
 						epubRendition.on("rendered", (section) => {
 							console.log(
@@ -143,61 +361,23 @@ export default function EpubReader({
 						});
 
 						// --- Extract Full Text ---
-						epubBook?.ready // Null check
-							.then(() => epubBook?.locations.generate(1000)) // Null check
-							.then(async () => {
-								if (!epubBook) {
-									// Null check
-									onTextExtracted(null);
-									return;
-								}
-								let fullText = "";
-								// Helper to load and extract text from a section
-								const loadSectionText = async (sectionHref: string) => {
-									if (!epubBook) return ""; // Null check
-									try {
-										const section = epubBook.spine.get(sectionHref);
-										if (section) {
-											// Try loading section by passing book's request method
-											if (
-												epubBook.request &&
-												typeof epubBook.request === "function"
-											) {
-												await section.load(epubBook.request); // Pass the book's request function
-												return section.contents?.textContent || "";
-											}
-											console.warn(
-												`epubBook.request method not found or not a function for section ${sectionHref}. Cannot extract text.`,
-											);
-											return "";
-										}
-									} catch (loadErr) {
-										console.warn(
-											`Could not load/extract text from section ${sectionHref}:`,
-											loadErr,
-										);
-									}
-									return "";
-								};
-
-								// Iterate through spine items sequentially
-								if (epubBook?.spine?.items) {
-									for (const section of epubBook.spine.items) {
-										if (section.href) {
-											const sectionText = await loadSectionText(section.href);
-											fullText = `${fullText}${sectionText}\n\n`; // Use template literal
-										}
-									}
-								} else {
-									console.warn(
-										"EPUB spine items not found for text extraction.",
-									);
-								}
+						// After locations, which load every section too, so the two don't compete
+						locationsGenerated
+							.catch(() => undefined)
+							.then(() => {
+								if (!epubBook || cancelled) return [];
+								return extractEpubChapters(epubBook, {
+									bookKey: bookKeyRef.current,
+									isCancelled: () => cancelled,
+								});
+							})
+							.then((chapters) => {
+								if (cancelled) return;
 								console.log(
-									"EPUB Full Text Extracted (first 200 chars):",
-									fullText.substring(0, 200),
+									`EPUB text extracted from ${chapters.length} chapters`,
 								);
-								onTextExtracted(fullText.trim()); // Call callback
+								onChaptersExtractedRef.current?.(chapters);
+								onTextExtracted(getEpubText(chapters)); // Call callback
 							})
 							.catch((textErr) => {
 								console.error("Error extracting EPUB text:", textErr);
@@ -224,6 +404,7 @@ export default function EpubReader({
 
 		// Cleanup function
 		return () => {
+			cancelled = true;
 			if (epubBook) {
 				try {
 					epubBook.destroy();
@@ -232,7 +413,108 @@ export default function EpubReader({
 				}
 			}
 		};
-	}, [fileData, onTextExtracted]); // Add onTextExtracted to dependency array
+	}, [fileData, onTextExtracted, toPopoverPosition]); // Add onTextExtracted to dependency array
+
+	// Draw highlights with epub.js annotations, redrawing only the ones that changed
+	useEffect(() => {
+		if (!rendition) return;
+		const applied = appliedHighlightsRef.current;
+		const current = new Map(highlights.map((h) => [h._id, h]));
+
+		for (const [id, mark] of applied) {
+			const highlight = current.get(id);
+			if (!highlight || highlight.color !== mark.color) {
+				rendition.annotations.remove(mark.cfiRange, "highlight");
+				applied.delete(id);
+			}
+		}
+
+		for (const highlight of highlights) {
+			if (applied.has(highlight._id)) continue;
+			const { start, end } = highlight.position;
+			const cfiRange = isCfi(start) && isCfi(end) && joinCfiRange(start, end);
+			if (!cfiRange) continue; // Not an EPUB highlight
+			rendition.annotations.highlight(
+				cfiRange,
+				{ highlightId: highlight._id },
+				undefined,
+				HIGHLIGHT_CLASS,
+				{
+					fill: highlight.color,
+					"fill-opacity": "0.5",
+					"mix-blend-mode": "multiply",
+				},
+			);
+			applied.set(highlight._id, { cfiRange, color: highlight.color });
+		}
+	}, [rendition, highlights]);
+
+	// Go to a highlight picked elsewhere (e.g. the notes panel)
+	useEffect(() => {
+		const start = focusedHighlight?.position.start;
+		if (rendition && isCfi(start)) {
+			rendition.display(start);
+		}
+	}, [rendition, focusedHighlight]);
+
+	const createHighlight = useCallback(
+		(color: string) => {
+			if (!pendingSelection || !onCreateHighlight) return;
+			const ends = splitCfiRange(pendingSelection.cfiRange);
+			if (!ends) {
+				console.warn(
+					`Cannot highlight across chapters: ${pendingSelection.cfiRange}`,
+				);
+				setPendingSelection(null);
+				return;
+			}
+			onCreateHighlight({
+				text: pendingSelection.text,
+				color,
+				position: { start: ends.start, end: ends.end },
+			});
+			pendingSelection.contents.window.getSelection()?.removeAllRanges();
+			setPendingSelection(null);
+		},
+		[pendingSelection, onCreateHighlight],
+	);
+
+	const currentChapter = currentLocation
+		? findTocItem(toc, currentLocation.href)
+		: undefined;
+	const chapterTitle = currentChapter?.label.trim();
+
+	// Bookmarks within the part of the book on screen
+	const visibleBookmark =
+		currentLocation &&
+		bookmarks.find(
+			(b) =>
+				compareCfi(b.cfi, currentLocation.start) >= 0 &&
+				compareCfi(b.cfi, currentLocation.end) <= 0,
+		);
+
+	const toggleBookmark = () => {
+		if (!currentLocation) return;
+		if (visibleBookmark) {
+			onRemoveBookmark?.(visibleBookmark.cfi);
+			return;
+		}
+		onAddBookmark?.({
+			cfi: currentLocation.start,
+			label: chapterTitle || book?.package?.metadata?.title || "Bookmark",
+		});
+	};
+
+	const goToTocItem = (item: NavItem) => {
+		setIsTocOpen(false);
+		rendition?.display(item.href).catch((navErr) => {
+			console.error(`Could not open EPUB section ${item.href}:`, navErr);
+		});
+	};
+
+	const orderedBookmarks = [...bookmarks].sort((a, b) =>
+		compareCfi(a.cfi, b.cfi),
+	);
 
 	// Navigation handlers
 	const handlePrevPage = () => {
@@ -284,7 +566,7 @@ export default function EpubReader({
 	}
 
 	return (
-		<div className="flex flex-col h-full">
+		<div ref={containerRef} className="relative flex flex-col h-full">
 			<div
 				ref={viewerRef}
 				className="flex-1 overflow-auto"
@@ -322,9 +604,76 @@ export default function EpubReader({
 				</Button>
 
 				{book && currentLocation && (
-					<span className="text-sm text-muted-foreground">
-						{book.package?.metadata?.title || fileName}
-					</span>
+					<div className="flex items-center gap-1 min-w-0">
+						{toc.length > 0 && (
+							<Button
+								variant="ghost"
+								size="icon"
+								onClick={() => setIsTocOpen(true)}
+								title="Table of contents"
+							>
+								<TableOfContents className="h-4 w-4" />
+							</Button>
+						)}
+						<span
+							className="text-sm text-muted-foreground truncate"
+							title={book.package?.metadata?.title || fileName}
+						>
+							{chapterTitle || book.package?.metadata?.title || fileName}
+						</span>
+						{onAddBookmark && (
+							<Button
+								variant="ghost"
+								size="icon"
+								onClick={toggleBookmark}
+								title={
+									visibleBookmark ? "Remove bookmark" : "Bookmark this page"
+								}
+								aria-pressed={!!visibleBookmark}
+							>
+								{visibleBookmark ? (
+									<BookmarkCheck className="h-4 w-4 text-bondwise-500" />
+								) : (
+									<BookmarkPlus className="h-4 w-4" />
+								)}
+							</Button>
+						)}
+						{orderedBookmarks.length > 0 && (
+							<DropdownMenu>
+								<DropdownMenuTrigger asChild>
+									<Button variant="ghost" size="icon" title="Bookmarks">
+										<List className="h-4 w-4" />
+									</Button>
+								</DropdownMenuTrigger>
+								<DropdownMenuContent align="center" className="w-64">
+									<DropdownMenuLabel>Bookmarks</DropdownMenuLabel>
+									<DropdownMenuSeparator />
+									{orderedBookmarks.map((bookmark) => (
+										<DropdownMenuItem
+											key={bookmark.cfi}
+											onSelect={() => rendition?.display(bookmark.cfi)}
+											className="flex items-center justify-between gap-2"
+										>
+											<span className="truncate">{bookmark.label}</span>
+											{onRemoveBookmark && (
+												<button
+													type="button"
+													className="text-muted-foreground hover:text-destructive"
+													title="Remove bookmark"
+													onClick={(e) => {
+														e.stopPropagation(); // Don't jump to it
+														onRemoveBookmark(bookmark.cfi);
+													}}
+												>
+													<X className="h-3 w-3" />
+												</button>
+											)}
+										</DropdownMenuItem>
+									))}
+								</DropdownMenuContent>
+							</DropdownMenu>
+						)}
+					</div>
 				)}
 
 				<Button
@@ -335,6 +684,115 @@ export default function EpubReader({
 					Next <ArrowRight className="h-4 w-4" />
 				</Button>
 			</div>
+
+			{/* Table of contents */}
+			<Sheet open={isTocOpen} onOpenChange={setIsTocOpen}>
+				<SheetContent side="left" className="w-[300px] sm:w-[360px]">
+					<SheetHeader>
+						<SheetTitle>Contents</SheetTitle>
+						<SheetDescription className="line-clamp-2">
+							{book?.package?.metadata?.title || fileName}
+						</SheetDescription>
+					</SheetHeader>
+					<ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-2">
+						<TocList
+							items={toc}
+							currentHref={currentChapter?.href}
+							onSelect={goToTocItem}
+						/>
+					</ScrollArea>
+				</SheetContent>
+			</Sheet>
+
+			{/* Color picker for a new highlight */}
+			<Popover
+				open={!!pendingSelection}
+				onOpenChange={(open) => !open && setPendingSelection(null)}
+			>
+				<PopoverAnchor asChild>
+					<div
+						className="absolute pointer-events-none"
+						style={{
+							top: pendingSelection?.top ?? 0,
+							left: pendingSelection?.left ?? 0,
+						}}
+					/>
+				</PopoverAnchor>
+				<PopoverContent
+					className="w-auto p-2"
+					onOpenAutoFocus={(e) => e.preventDefault()} // Keep the text selection visible
+				>
+					<HighlightColorPicker onSelect={createHighlight} />
+				</PopoverContent>
+			</Popover>
+
+			{/* Note and color editor for an existing highlight */}
+			<Popover
+				open={!!editing}
+				onOpenChange={(open) => !open && setEditing(null)}
+			>
+				<PopoverAnchor asChild>
+					<div
+						className="absolute pointer-events-none"
+						style={{ top: editing?.top ?? 0, left: editing?.left ?? 0 }}
+					/>
+				</PopoverAnchor>
+				<PopoverContent className="w-80">
+					{editing && (
+						<HighlightEditor
+							key={editing.highlight._id}
+							highlight={editing.highlight}
+							onSave={(updates) => {
+								onUpdateHighlight?.(editing.highlight, updates);
+								setEditing(null);
+							}}
+							onDelete={() => {
+								onDeleteHighlight?.(editing.highlight);
+								setEditing(null);
+							}}
+						/>
+					)}
+				</PopoverContent>
+			</Popover>
 		</div>
 	);
 }
+
+/** Nested list of table of contents entries. */
+function TocList({
+	items,
+	currentHref,
+	onSelect,
+}: {
+	items: NavItem[];
+	currentHref?: string;
+	onSelect: (item: NavItem) => void;
+}) {
+	return (
+		<ul className="space-y-1">
+			{items.map((item) => (
+				<li key={item.id || item.href}>
+					<button
+						type="button"
+						onClick={() => onSelect(item)}
+						className={cn(
+							"w-full text-left text-sm rounded px-2 py-1 hover:bg-muted",
+							item.href === currentHref && "font-medium text-bondwise-500",
+						)}
+					>
+						{item.label.trim()}
+					</button>
+					{item.subitems?.length > 0 && (
+						<div className="pl-4">
+							<TocList
+								items={item.subitems}
+								currentHref={currentHref}
+								onSelect={onSelect}
+							/>
+						</div>
+					)}
+				</li>
+			))}
+		</ul>
+	);
+}
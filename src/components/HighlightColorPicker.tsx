@@ -0,0 +1,44 @@
+import { cn } from "@/lib/utils";
+import { Check } from "lucide-react";
+
+// Light tints so highlighted text stays readable in both themes
+export const HIGHLIGHT_COLORS = [
+	{ name: "Yellow", value: "#FEF08A" },
+	{ name: "Green", value: "#BBF7D0" },
+	{ name: "Blue", value: "#BFDBFE" },
+	{ name: "Pink", value: "#FBCFE8" },
+	{ name: "Purple", value: "#E9D5FF" },
+] as const;
+
+export const DEFAULT_HIGHLIGHT_COLOR = HIGHLIGHT_COLORS[0].value;
+
+interface HighlightColorPickerProps {
+	value?: string;
+	onSelect: (color: string) => void;
+}
+
+export function HighlightColorPicker({
+	value,
+	onSelect,
+}: HighlightColorPickerProps) {
+	return (
+		<div className="flex items-center gap-2">
+			{HIGHLIGHT_COLORS.map((color) => (
+				<button
+					key={color.value}
+					type="button"
+					aria-label={`Highlight ${color.name.toLowerCase()}`}
+					title={color.name}
+					onClick={() => onSelect(color.value)}
+					className={cn(
+						"h-7 w-7 rounded-full border flex items-center justify-center transition-transform hover:scale-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+						value === color.value && "ring-2 ring-ring ring-offset-1",
+					)}
+					style={{ backgroundColor: color.value }}
+				>
+					{value === color.value && <Check className="h-4 w-4 text-gray-900" />}
+				</button>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,55 @@
+import { HighlightColorPicker } from "@/components/HighlightColorPicker";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { Highlight } from "@/services/db";
+import { Trash2 } from "lucide-react";
+import { useState } from "react";
+
+interface HighlightEditorProps {
+	highlight: Highlight;
+	onSave: (updates: Pick<Highlight, "note" | "color">) => void;
+	onDelete: () => void;
+}
+
+/**
+ * Edits the note and color of an existing highlight.
+ * Parents should key it by highlight ID so the form resets between highlights.
+ */
+export function HighlightEditor({
+	highlight,
+	onSave,
+	onDelete,
+}: HighlightEditorProps) {
+	const [note, setNote] = useState(highlight.note ?? "");
+	const [color, setColor] = useState(highlight.color);
+
+	return (
+		<div className="space-y-3">
+			<blockquote
+				className="border-l-4 pl-3 text-sm italic line-clamp-3"
+				style={{ borderColor: color }}
+			>
+				{highlight.text}
+			</blockquote>
+			<HighlightColorPicker value={color} onSelect={setColor} />
+			<Textarea
+				placeholder="Add a note..."
+				value={note}
+				onChange={(e) => setNote(e.target.value)}
+				rows={3}
+			/>
+			<div className="flex justify-between">
+				<Button variant="ghost" size="sm" onClick={onDelete}>
+					<Trash2 className="mr-2 h-4 w-4" />
+					Delete
+				</Button>
+				<Button
+					size="sm"
+					onClick={() => onSave({ note: note.trim() || undefined, color })}
+				>
+					Save
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,168 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { authClient } from "@/lib/authClient";
+import { downloadBlob } from "@/lib/utils";
+import {
+	type Tag,
+	getAllArticles,
+	getAllHighlights,
+	getAllTags,
+} from "@/services/db";
+import {
+	HIGHLIGHT_EXPORT_FILES,
+	type HighlightExportFormat,
+	selectHighlightsForExport,
+	toAnkiTsv,
+	toReadwiseCsv,
+} from "@/services/export";
+import { useEffect, useState } from "react";
+
+const ALL_TAGS = "all";
+
+// Date inputs give "YYYY-MM-DD"; the range covers whole local days
+const startOfDay = (value: string) =>
+	value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const endOfDay = (value: string) =>
+	value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+/**
+ * Exports highlights for spaced-repetition review, as a Readwise CSV or an
+ * Anki import file, optionally limited to one tag and a date range.
+ */
+export function HighlightExportPanel() {
+	const { data: session } = authClient.useSession();
+	const userId = session?.user?.id;
+	const { toast } = useToast();
+	const [format, setFormat] = useState<HighlightExportFormat>("readwise");
+	const [tags, setTags] = useState<Tag[]>([]);
+	const [tagId, setTagId] = useState(ALL_TAGS);
+	const [from, setFrom] = useState("");
+	const [to, setTo] = useState("");
+	const [isExporting, setIsExporting] = useState(false);
+
+	useEffect(() => {
+		getAllTags(userId).then(setTags);
+	}, [userId]);
+
+	const exportHighlights = async () => {
+		setIsExporting(true);
+		try {
+			const [highlights, articles] = await Promise.all([
+				getAllHighlights(),
+				getAllArticles(),
+			]);
+			const entries = selectHighlightsForExport(
+				{ highlights, articles, tags },
+				{
+					tagIds: tagId === ALL_TAGS ? undefined : [tagId],
+					from: startOfDay(from),
+					to: endOfDay(to),
+				},
+			);
+			if (entries.length === 0) {
+				toast({
+					title: "Nothing to Export",
+					description: "No highlights match these filters.",
+				});
+				return;
+			}
+
+			const { extension, mimeType } = HIGHLIGHT_EXPORT_FILES[format];
+			const text =
+				format === "anki" ? toAnkiTsv(entries) : toReadwiseCsv(entries);
+			downloadBlob(
+				new Blob([text], { type: `${mimeType};charset=utf-8` }),
+				`read-sync-haven-highlights-${format}-${new Date()
+					.toISOString()
+					.slice(0, 10)}.${extension}`,
+			);
+			toast({
+				title: "Highlights Exported",
+				description: `Exported ${entries.length} highlights.`,
+			});
+		} catch (error) {
+			console.error("Highlight export error:", error);
+			toast({
+				title: "Export Failed",
+				description: "There was an error exporting your highlights.",
+				variant: "destructive",
+			});
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	return (
+		<div className="space-y-3">
+			<div className="grid gap-2 sm:grid-cols-2">
+				<div className="space-y-1">
+					<Label>Format</Label>
+					<Select
+						value={format}
+						onValueChange={(value) => setFormat(value as HighlightExportFormat)}
+					>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="readwise">Readwise (CSV)</SelectItem>
+							<SelectItem value="anki">Anki (tab-separated)</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+				<div className="space-y-1">
+					<Label>Tag</Label>
+					<Select value={tagId} onValueChange={setTagId}>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={ALL_TAGS}>All tags</SelectItem>
+							{tags.map((tag) => (
+								<SelectItem key={tag._id} value={tag._id}>
+									{tag.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="highlight-export-from">Highlighted from</Label>
+					<Input
+						id="highlight-export-from"
+						type="date"
+						value={from}
+						max={to || undefined}
+						onChange={(e) => setFrom(e.target.value)}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="highlight-export-to">Highlighted until</Label>
+					<Input
+						id="highlight-export-to"
+						type="date"
+						value={to}
+						min={from || undefined}
+						onChange={(e) => setTo(e.target.value)}
+					/>
+				</div>
+			</div>
+			<Button
+				variant="outline"
+				onClick={exportHighlights}
+				disabled={isExporting}
+			>
+				{isExporting ? "Exporting..." : "Export Highlights"}
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,158 @@
+import FileUpload from "@/components/FileUpload";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { useArticles } from "@/context/ArticleContext";
+import { useToast } from "@/hooks/use-toast";
+import { authClient } from "@/lib/authClient";
+import {
+	type ContentFetchState,
+	subscribeToContentFetches,
+} from "@/services/fetchQueue";
+import {
+	IMPORT_FORMAT_LABELS,
+	type ImportProgress,
+	type ImportResult,
+	importItems,
+	parseImportFile,
+} from "@/services/import";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+const MAX_IMPORT_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+
+/**
+ * Imports saved links from a Pocket, Instapaper, Omnivore or Readwise
+ * export, or a browser bookmarks file. Shows progress while the articles
+ * are written and then while their content is fetched in the background.
+ */
+export function ImportPanel() {
+	const { data: session } = authClient.useSession();
+	const userId = session?.user?.id;
+	const { refreshArticles } = useArticles();
+	const { toast } = useToast();
+	const [isImporting, setIsImporting] = useState(false);
+	const [progress, setProgress] = useState<ImportProgress | null>(null);
+	const [result, setResult] = useState<
+		(ImportResult & { source: string }) | null
+	>(null);
+	const [fetchState, setFetchState] = useState<ContentFetchState>({
+		queued: 0,
+		active: 0,
+		waiting: 0,
+		finished: 0,
+	});
+
+	// The library itself refreshes as fetched content comes in (ArticleContext)
+	useEffect(() => subscribeToContentFetches(setFetchState), []);
+
+	const handleFileSelect = async (file: File) => {
+		if (!userId) {
+			toast({
+				title: "Sign in required",
+				description: "Please sign in to import articles.",
+				variant: "destructive",
+			});
+			return;
+		}
+
+		setIsImporting(true);
+		setResult(null);
+		setProgress(null);
+		try {
+			const { format, items } = await parseImportFile(file);
+			if (items.length === 0) {
+				throw new Error("No saved links were found in this file.");
+			}
+			const importResult = await importItems(items, {
+				userId,
+				onProgress: setProgress,
+			});
+			setResult({ ...importResult, source: IMPORT_FORMAT_LABELS[format] });
+			await refreshArticles();
+			toast({
+				title: "Import Complete",
+				description: `Imported ${importResult.imported} of ${items.length} links.`,
+			});
+		} catch (error) {
+			console.error("Import error:", error);
+			toast({
+				title: "Import Failed",
+				description:
+					error instanceof Error ? error.message : "Could not import the file.",
+				variant: "destructive",
+			});
+		} finally {
+			setIsImporting(false);
+			setProgress(null);
+		}
+	};
+
+	const pendingFetches =
+		fetchState.queued + fetchState.active + fetchState.waiting;
+
+	return (
+		<div className="space-y-4">
+			<p className="text-sm text-muted-foreground">
+				Bring your saved links from Pocket (HTML or CSV), Instapaper (CSV),
+				Omnivore (JSON or zip), Readwise Reader (CSV) or a browser bookmarks
+				file. Links you already saved are skipped, and article text is fetched
+				in the background.
+			</p>
+			<FileUpload
+				onFileSelect={handleFileSelect}
+				isUploading={isImporting}
+				accept=".html,.htm,.csv,.json,.zip"
+				maxSize={MAX_IMPORT_FILE_SIZE}
+			/>
+
+			{isImporting && (
+				<div className="space-y-2">
+					<p className="text-sm text-muted-foreground">
+						{!progress
+							? "Reading file..."
+							: progress.phase === "tags"
+								? `Creating tags (${progress.done}/${progress.total})...`
+								: `Saving articles (${progress.done}/${progress.total})...`}
+					</p>
+					<Progress
+						value={
+							progress && progress.total > 0
+								? (progress.done / progress.total) * 100
+								: 0
+						}
+					/>
+				</div>
+			)}
+
+			{result && (
+				<Alert>
+					<CheckCircle2 className="h-4 w-4" />
+					<AlertDescription>
+						<p>
+							{result.source}: imported {result.imported}, skipped{" "}
+							{result.duplicates} already saved
+							{result.invalid > 0 && `, ${result.invalid} without a web link`}.
+						</p>
+						{result.failed.length > 0 && (
+							<p className="text-destructive">
+								{result.failed.length} could not be saved.
+							</p>
+						)}
+					</AlertDescription>
+				</Alert>
+			)}
+
+			{pendingFetches > 0 && (
+				<Alert>
+					<AlertCircle className="h-4 w-4" />
+					<AlertDescription>
+						Fetching article content: {pendingFetches} remaining
+						{fetchState.waiting > 0 &&
+							` (${fetchState.waiting} waiting to retry or for a connection)`}
+						.
+					</AlertDescription>
+				</Alert>
+			)}
+		</div>
+	);
+}
@@ -1,97 +1,417 @@
-// Removed static import: import { base64ToArrayBuffer } from "@/services/pdf";
+import { HighlightColorPicker } from "@/components/HighlightColorPicker";
+import { HighlightEditor } from "@/components/HighlightEditor";
 import {
+	Popover,
+	PopoverAnchor,
+	PopoverContent,
+} from "@/components/ui/popover";
+import type { NewHighlight } from "@/hooks/useHighlights";
+import { type TextAnchor, describeRange } from "@/lib/highlightAnchoring";
+import { findHighlightAt, toPageRects } from "@/lib/pdfAnchoring";
+import { cn } from "@/lib/utils";
+import type { Highlight, HighlightRect } from "@/services/db";
+import {
+	extractPdfText,
+	findPdfMatches,
+	loadPdfDocument,
+} from "@/services/pdf";
+import {
+	ChevronDown,
 	ChevronLeft,
 	ChevronRight,
+	ChevronUp,
 	Loader2,
 	Search,
+	X,
 	ZoomIn,
 	ZoomOut,
 } from "lucide-react";
-import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import "pdfjs-dist/web/pdf_viewer.css";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Button } from "./ui/button";
+import { Input } from "./ui/input";
 
-// Note: In a real implementation, you would use a PDF library like react-pdf
-// For now, we'll create a simple viewer that displays the PDF using browser's built-in PDF viewer
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 4;
+const ZOOM_FACTOR = 1.25;
+// Styled by pdf_viewer.css, the same look pdf.js uses for its own search hits
+const SEARCH_MATCH_CLASS = "highlight";
 
 interface PdfReaderProps {
-	fileData: string;
+	fileData: ArrayBuffer; // The PDF file, as loaded from the article's attachment
 	fileName?: string;
+	initialPage?: number; // Page to open at (1-based), e.g. the saved reading progress
 	onTextExtracted: (text: string | null) => void; // Add callback prop
+	onPageChange?: (pageNumber: number, pageCount: number) => void;
+	highlights?: Highlight[]; // Highlights to draw over their pages
+	focusedHighlight?: Highlight | null; // Shown and flashed whenever this changes
+	onCreateHighlight?: (highlight: NewHighlight) => void;
+	onUpdateHighlight?: (
+		highlight: Highlight,
+		updates: Pick<Highlight, "note" | "color">,
+	) => void;
+	onDeleteHighlight?: (highlight: Highlight) => void;
 }
 
+// Where a popover points, as fractions of the page size so zooming keeps it in place
+interface PagePoint {
+	x: number;
+	y: number;
+}
+
+const NO_HIGHLIGHTS: Highlight[] = [];
+
+const clampScale = (scale: number) =>
+	Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const toPercent = (fraction: number) => `${fraction * 100}%`;
+
+// Bottom centre of a highlight's last line, where its popover opens
+const belowRects = (rects: HighlightRect[]): PagePoint => {
+	const last = rects[rects.length - 1];
+	return { x: last.x + last.width / 2, y: last.y + last.height };
+};
+
 export default function PdfReader({
 	fileData,
 	fileName,
+	initialPage,
 	onTextExtracted,
+	onPageChange,
+	highlights = NO_HIGHLIGHTS,
+	focusedHighlight,
+	onCreateHighlight,
+	onUpdateHighlight,
+	onDeleteHighlight,
 }: PdfReaderProps) {
-	// Destructure callback
 	const [isLoading, setIsLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
-	const iframeRef = useRef<HTMLIFrameElement>(null);
-	const [objectUrl, setObjectUrl] = useState<string | null>(null);
+	const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+	const [pageNumber, setPageNumber] = useState(1);
+	const [pageInput, setPageInput] = useState("1");
+	const [scale, setScale] = useState(1);
+	const [pageTexts, setPageTexts] = useState<string[] | null>(null);
+	const [isSearchOpen, setIsSearchOpen] = useState(false);
+	const [query, setQuery] = useState("");
+	// The last search that was run, and the pages it found
+	const [search, setSearch] = useState<{
+		term: string;
+		matches: { pageNumber: number; count: number }[];
+	} | null>(null);
+	const [matchIndex, setMatchIndex] = useState(0);
+	const [pendingSelection, setPendingSelection] = useState<
+		({ anchor: TextAnchor; rects: HighlightRect[] } & PagePoint) | null
+	>(null);
+	const [editing, setEditing] = useState<
+		({ highlight: Highlight } & PagePoint) | null
+	>(null);
+	const [activeHighlightId, setActiveHighlightId] = useState<string | null>(
+		null,
+	);
 
+	const viewerRef = useRef<HTMLDivElement>(null);
+	const pageRef = useRef<HTMLDivElement>(null);
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const textLayerRef = useRef<HTMLDivElement>(null);
+	// Callbacks are read through refs so a new function doesn't reload the file
+	const onTextExtractedRef = useRef(onTextExtracted);
+	const onPageChangeRef = useRef(onPageChange);
+	const initialPageRef = useRef(initialPage);
+	onTextExtractedRef.current = onTextExtracted;
+	onPageChangeRef.current = onPageChange;
+
+	// Open the document, then extract its text in the background
 	useEffect(() => {
-		const loadPdf = async () => {
-			if (!fileData) {
-				setError("No PDF data provided");
-				setIsLoading(false);
-				return;
-			}
+		if (!fileData) {
+			setError("No PDF data provided");
+			setIsLoading(false);
+			return;
+		}
 
-			try {
-				// Dynamically import and convert base64 to ArrayBuffer
-				const { base64ToArrayBuffer } = await import("@/services/pdf");
-				const arrayBuffer = base64ToArrayBuffer(fileData);
+		let cancelled = false;
+		let loaded: PDFDocumentProxy | null = null;
+		setIsLoading(true);
+		setError(null);
+		setPageTexts(null);
 
-				// Create a Blob from the ArrayBuffer
-				const blob = new Blob([arrayBuffer], { type: "application/pdf" });
+		const loadPdf = async () => {
+			try {
+				// pdf.js hands the buffer over to its worker, so give it a copy
+				loaded = await loadPdfDocument(fileData.slice(0));
+				if (cancelled) return;
 
-				// Create an object URL for the Blob
-				const url = URL.createObjectURL(blob);
-				setObjectUrl(url);
+				// Open at the saved page, fitted to the viewer's width
+				const startPage = Math.min(
+					loaded.numPages,
+					Math.max(1, Math.floor(initialPageRef.current ?? 1)),
+				);
+				const firstPage = await loaded.getPage(startPage);
+				const pageWidth = firstPage.getViewport({ scale: 1 }).width;
+				const viewerWidth = viewerRef.current?.clientWidth ?? 0;
+				if (cancelled) return;
+				setScale(
+					viewerWidth > 0 ? clampScale((viewerWidth - 32) / pageWidth) : 1,
+				);
+				setPageNumber(startPage);
+				setPdf(loaded);
 				setIsLoading(false);
 
-				// Clean up the URL when the component unmounts
-				return () => {
-					if (url) URL.revokeObjectURL(url);
-				};
+				const texts = await extractPdfText(loaded, () => cancelled);
+				if (cancelled) return;
+				setPageTexts(texts);
+				const fullText = texts.join("\n\n").trim();
+				// Scanned PDFs have no text layer, so there's nothing for the AI features
+				onTextExtractedRef.current(fullText || null);
+				console.log(
+					`Extracted text from ${texts.length} PDF pages (${fullText.length} characters)`,
+				);
 			} catch (err) {
+				if (cancelled) return;
 				console.error("Error processing PDF:", err);
 				setError("Failed to load PDF file");
 				setIsLoading(false);
-				onTextExtracted(null); // Signal text extraction failure/unsupported
-				return undefined;
+				onTextExtractedRef.current(null); // Signal text extraction failure
 			}
 		};
 
 		loadPdf();
-	}, [fileData, onTextExtracted]); // Add callback to dependencies
-
-	// Handle iframe load event - Signal that text extraction is not supported here
-	const handleIframeLoad = () => {
-		setIsLoading(false);
-		// Since we can't easily extract text from the iframe's sandboxed PDF viewer,
-		// we signal that text is unavailable.
-		onTextExtracted(null);
-		console.log(
-			"PDF iframe loaded, but text extraction is not supported with this viewer.",
+
+		return () => {
+			cancelled = true;
+			setPdf(null);
+			loaded?.destroy();
+		};
+	}, [fileData]);
+
+	// Render the current page: the canvas, plus a transparent text layer for selection and search
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		const textLayerContainer = textLayerRef.current;
+		if (!pdf || !canvas || !textLayerContainer) return;
+
+		let cancelled = false;
+		let renderTask: RenderTask | null = null;
+
+		const renderPage = async () => {
+			try {
+				const page = await pdf.getPage(pageNumber);
+				if (cancelled) return;
+				const viewport = page.getViewport({ scale });
+				const outputScale = window.devicePixelRatio || 1;
+				const context = canvas.getContext("2d");
+				if (!context) return;
+
+				canvas.width = Math.floor(viewport.width * outputScale);
+				canvas.height = Math.floor(viewport.height * outputScale);
+				canvas.style.width = `${Math.floor(viewport.width)}px`;
+				canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+				renderTask = page.render({
+					canvasContext: context,
+					viewport,
+					transform:
+						outputScale !== 1
+							? [outputScale, 0, 0, outputScale, 0, 0]
+							: undefined,
+				});
+				await renderTask.promise;
+				if (cancelled) return;
+
+				const { TextLayer } = await import("pdfjs-dist");
+				textLayerContainer.replaceChildren();
+				const textLayer = new TextLayer({
+					textContentSource: await page.getTextContent(),
+					container: textLayerContainer,
+					viewport,
+				});
+				await textLayer.render();
+				if (cancelled) return;
+
+				const needle = search?.term.toLowerCase();
+				if (needle) {
+					for (const div of textLayer.textDivs) {
+						if (div.textContent?.toLowerCase().includes(needle)) {
+							div.classList.add(SEARCH_MATCH_CLASS);
+						}
+					}
+				}
+			} catch (err) {
+				// Cancelling a render to start the next one rejects the old task
+				if ((err as Error)?.name !== "RenderingCancelledException") {
+					console.error(`Error rendering PDF page ${pageNumber}:`, err);
+				}
+			}
+		};
+
+		renderPage();
+
+		return () => {
+			cancelled = true;
+			renderTask?.cancel();
+		};
+	}, [pdf, pageNumber, scale, search]);
+
+	// Report the page so it can be saved as reading progress
+	useEffect(() => {
+		setPageInput(String(pageNumber));
+		setPendingSelection(null);
+		setEditing(null);
+		if (pdf) onPageChangeRef.current?.(pageNumber, pdf.numPages);
+	}, [pdf, pageNumber]);
+
+	const pageCount = pdf?.numPages ?? 0;
+
+	const goToPage = useCallback(
+		(page: number) => {
+			if (!pageCount) return;
+			setPageNumber(Math.min(pageCount, Math.max(1, page)));
+			viewerRef.current?.scrollTo({ top: 0 });
+		},
+		[pageCount],
+	);
+
+	// Go to a highlight picked elsewhere (e.g. the notes panel) and flash it
+	useEffect(() => {
+		const page = focusedHighlight?.position.pageNumber;
+		const rects = focusedHighlight?.position.rects;
+		if (!focusedHighlight || !page || !rects?.length || !pdf) return;
+
+		setPageNumber(Math.min(pdf.numPages, Math.max(1, page)));
+		setActiveHighlightId(focusedHighlight._id);
+		// Scroll once the page (and with it the overlay) is in place
+		const frame = requestAnimationFrame(() => {
+			const viewer = viewerRef.current;
+			const pageElement = pageRef.current;
+			if (!viewer || !pageElement) return;
+			viewer.scrollTo({
+				top:
+					pageElement.offsetTop +
+					rects[0].y * pageElement.offsetHeight -
+					viewer.clientHeight / 3,
+				behavior: "smooth",
+			});
+		});
+		const timeout = setTimeout(() => setActiveHighlightId(null), 1500);
+		return () => {
+			cancelAnimationFrame(frame);
+			clearTimeout(timeout);
+		};
+	}, [focusedHighlight, pdf]);
+
+	// Offer the color picker once the user finishes selecting text on the page
+	const handleSelectionEnd = useCallback(() => {
+		const selection = window.getSelection();
+		const textLayer = textLayerRef.current;
+		const pageElement = pageRef.current;
+		if (
+			!onCreateHighlight ||
+			!textLayer ||
+			!pageElement ||
+			!selection?.rangeCount ||
+			selection.isCollapsed
+		) {
+			return;
+		}
+		const range = selection.getRangeAt(0);
+		if (!textLayer.contains(range.commonAncestorContainer)) return;
+
+		const anchor = describeRange(textLayer, range);
+		const rects = toPageRects(
+			Array.from(range.getClientRects()),
+			pageElement.getBoundingClientRect(),
 		);
+		if (anchor && rects.length > 0) {
+			setEditing(null);
+			setPendingSelection({ anchor, rects, ...belowRects(rects) });
+		}
+	}, [onCreateHighlight]);
+
+	// Open the editor for a highlight when it is clicked
+	const handlePageClick = useCallback(
+		(event: React.MouseEvent<HTMLDivElement>) => {
+			// A click that ends a selection is handled by handleSelectionEnd
+			if (!window.getSelection()?.isCollapsed || !pageRef.current) return;
+			const box = pageRef.current.getBoundingClientRect();
+			const highlight = findHighlightAt(
+				highlights,
+				pageNumber,
+				(event.clientX - box.left) / box.width,
+				(event.clientY - box.top) / box.height,
+			);
+			const rects = highlight?.position.rects;
+			if (highlight && rects?.length) {
+				setPendingSelection(null);
+				setEditing({ highlight, ...belowRects(rects) });
+			}
+		},
+		[highlights, pageNumber],
+	);
+
+	const createHighlight = useCallback(
+		(color: string) => {
+			if (!pendingSelection || !onCreateHighlight) return;
+			const { anchor, rects } = pendingSelection;
+			onCreateHighlight({
+				text: anchor.text,
+				color,
+				position: {
+					start: anchor.start,
+					end: anchor.end,
+					prefix: anchor.prefix,
+					suffix: anchor.suffix,
+					pageNumber,
+					rects,
+				},
+			});
+			window.getSelection()?.removeAllRanges();
+			setPendingSelection(null);
+		},
+		[pendingSelection, onCreateHighlight, pageNumber],
+	);
+
+	const pageHighlights = highlights.filter(
+		(highlight) =>
+			highlight.position.pageNumber === pageNumber &&
+			highlight.position.rects?.length,
+	);
+
+	const handlePageInputSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		const page = Number.parseInt(pageInput, 10);
+		if (Number.isNaN(page)) {
+			setPageInput(String(pageNumber));
+		} else {
+			goToPage(page);
+		}
 	};
 
-	// Handle iframe error event
-	const handleIframeError = () => {
-		setError("Failed to load PDF viewer");
-		setIsLoading(false);
+	const handleSearch = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!pageTexts || !query.trim()) return;
+		const found = findPdfMatches(pageTexts, query);
+		setSearch({ term: query.trim(), matches: found });
+		// Start from the first match at or after the current page
+		const next = found.findIndex((match) => match.pageNumber >= pageNumber);
+		const index = next === -1 ? 0 : next;
+		setMatchIndex(index);
+		if (found.length > 0) goToPage(found[index].pageNumber);
 	};
 
-	if (isLoading) {
-		return (
-			<div className="flex items-center justify-center h-full">
-				<Loader2 className="h-8 w-8 animate-spin text-bondwise-500" />
-				<span className="ml-2">Loading PDF...</span>
-			</div>
-		);
-	}
+	const matches = search?.matches;
+
+	const stepMatch = (direction: 1 | -1) => {
+		if (!matches?.length) return;
+		const index = (matchIndex + direction + matches.length) % matches.length;
+		setMatchIndex(index);
+		goToPage(matches[index].pageNumber);
+	};
+
+	const closeSearch = () => {
+		setIsSearchOpen(false);
+		setQuery("");
+		setSearch(null);
+	};
 
 	if (error) {
 		return (
@@ -107,40 +427,240 @@ export default function PdfReader({
 	return (
 		<div className="flex flex-col h-full">
 			{/* PDF viewer controls */}
-			<div className="flex items-center justify-between p-2 border-b bg-muted/30">
-				<div className="flex items-center space-x-2">
-					<Button variant="ghost" size="icon" title="Previous page">
+			<div className="flex items-center justify-between gap-2 p-2 border-b bg-muted/30">
+				<div className="flex items-center space-x-1">
+					<Button
+						variant="ghost"
+						size="icon"
+						title="Previous page"
+						onClick={() => goToPage(pageNumber - 1)}
+						disabled={!pdf || pageNumber <= 1}
+					>
 						<ChevronLeft className="h-4 w-4" />
 					</Button>
-					<Button variant="ghost" size="icon" title="Next page">
+					<form
+						onSubmit={handlePageInputSubmit}
+						className="flex items-center gap-1 text-sm"
+					>
+						<Input
+							aria-label="Page number"
+							className="h-8 w-14 text-center"
+							inputMode="numeric"
+							value={pageInput}
+							onChange={(e) => setPageInput(e.target.value)}
+							onBlur={handlePageInputSubmit}
+							disabled={!pdf}
+						/>
+						<span className="text-muted-foreground whitespace-nowrap">
+							of {pageCount || "–"}
+						</span>
+					</form>
+					<Button
+						variant="ghost"
+						size="icon"
+						title="Next page"
+						onClick={() => goToPage(pageNumber + 1)}
+						disabled={!pdf || pageNumber >= pageCount}
+					>
 						<ChevronRight className="h-4 w-4" />
 					</Button>
 				</div>
-				<div className="flex items-center space-x-2">
-					<Button variant="ghost" size="icon" title="Zoom out">
+				<div className="flex items-center space-x-1">
+					<Button
+						variant="ghost"
+						size="icon"
+						title="Zoom out"
+						onClick={() => setScale((s) => clampScale(s / ZOOM_FACTOR))}
+						disabled={!pdf || scale <= MIN_SCALE}
+					>
 						<ZoomOut className="h-4 w-4" />
 					</Button>
-					<Button variant="ghost" size="icon" title="Zoom in">
+					<span className="w-12 text-center text-sm text-muted-foreground">
+						{Math.round(scale * 100)}%
+					</span>
+					<Button
+						variant="ghost"
+						size="icon"
+						title="Zoom in"
+						onClick={() => setScale((s) => clampScale(s * ZOOM_FACTOR))}
+						disabled={!pdf || scale >= MAX_SCALE}
+					>
 						<ZoomIn className="h-4 w-4" />
 					</Button>
-					<Button variant="ghost" size="icon" title="Search">
+					<Button
+						variant={isSearchOpen ? "secondary" : "ghost"}
+						size="icon"
+						title="Search"
+						onClick={() =>
+							isSearchOpen ? closeSearch() : setIsSearchOpen(true)
+						}
+						disabled={!pdf}
+					>
 						<Search className="h-4 w-4" />
 					</Button>
 				</div>
 			</div>
 
-			{/* PDF content */}
-			<div className="flex-1 overflow-hidden">
-				{objectUrl && (
-					<iframe
-						ref={iframeRef}
-						src={objectUrl}
-						className="w-full h-full border-0"
-						title={fileName || "PDF Document"}
-						onLoad={handleIframeLoad}
-						onError={handleIframeError}
+			{isSearchOpen && (
+				<form
+					onSubmit={handleSearch}
+					className="flex items-center gap-2 p-2 border-b bg-muted/30"
+				>
+					<Input
+						autoFocus
+						className="h-8"
+						placeholder={
+							pageTexts ? "Search in document" : "Extracting text..."
+						}
+						value={query}
+						onChange={(e) => {
+							setQuery(e.target.value);
+							setSearch(null);
+						}}
+						onKeyDown={(e) => e.key === "Escape" && closeSearch()}
+						disabled={!pageTexts}
 					/>
+					<span className="text-sm text-muted-foreground whitespace-nowrap">
+						{matches &&
+							(matches.length > 0
+								? `Page ${matchIndex + 1} of ${matches.length} with matches`
+								: "No matches")}
+					</span>
+					<Button
+						type="button"
+						variant="ghost"
+						size="icon"
+						title="Previous match"
+						onClick={() => stepMatch(-1)}
+						disabled={!matches?.length}
+					>
+						<ChevronUp className="h-4 w-4" />
+					</Button>
+					<Button
+						type="button"
+						variant="ghost"
+						size="icon"
+						title="Next match"
+						onClick={() => stepMatch(1)}
+						disabled={!matches?.length}
+					>
+						<ChevronDown className="h-4 w-4" />
+					</Button>
+					<Button
+						type="button"
+						variant="ghost"
+						size="icon"
+						title="Close search"
+						onClick={closeSearch}
+					>
+						<X className="h-4 w-4" />
+					</Button>
+				</form>
+			)}
+
+			{/* PDF content */}
+			<div
+				ref={viewerRef}
+				className="relative flex-1 overflow-auto bg-muted/50 p-4" // Relative so scroll offsets are measured from here
+				title={fileName || "PDF Document"}
+			>
+				{isLoading && (
+					<div className="flex items-center justify-center h-full">
+						<Loader2 className="h-8 w-8 animate-spin text-bondwise-500" />
+						<span className="ml-2">Loading PDF...</span>
+					</div>
 				)}
+				<div
+					ref={pageRef}
+					className="relative mx-auto w-fit shadow-md bg-white"
+					hidden={isLoading}
+					// The text layer sizes itself from this variable
+					style={{ "--scale-factor": scale } as React.CSSProperties}
+					onMouseUp={handleSelectionEnd}
+					onKeyUp={handleSelectionEnd}
+					onClick={handlePageClick}
+				>
+					<canvas ref={canvasRef} className="block" />
+
+					{/* Highlights sit between the page image and the transparent text layer */}
+					<div className="absolute inset-0 pointer-events-none">
+						{pageHighlights.flatMap((highlight) =>
+							(highlight.position.rects ?? []).map((rect) => (
+								<div
+									key={`${highlight._id}:${rect.x}:${rect.y}`}
+									className={cn(
+										"absolute rounded-sm mix-blend-multiply",
+										highlight._id === activeHighlightId &&
+											"ring-2 ring-bondwise-500",
+									)}
+									style={{
+										left: toPercent(rect.x),
+										top: toPercent(rect.y),
+										width: toPercent(rect.width),
+										height: toPercent(rect.height),
+										backgroundColor: highlight.color,
+									}}
+								/>
+							)),
+						)}
+					</div>
+
+					<div ref={textLayerRef} className="textLayer" />
+
+					{/* Color picker for a new highlight */}
+					<Popover
+						open={!!pendingSelection}
+						onOpenChange={(open) => !open && setPendingSelection(null)}
+					>
+						<PopoverAnchor asChild>
+							<div
+								className="absolute pointer-events-none"
+								style={{
+									top: toPercent(pendingSelection?.y ?? 0),
+									left: toPercent(pendingSelection?.x ?? 0),
+								}}
+							/>
+						</PopoverAnchor>
+						<PopoverContent
+							className="w-auto p-2"
+							onOpenAutoFocus={(e) => e.preventDefault()} // Keep the text selection visible
+						>
+							<HighlightColorPicker onSelect={createHighlight} />
+						</PopoverContent>
+					</Popover>
+
+					{/* Note and color editor for an existing highlight */}
+					<Popover
+						open={!!editing}
+						onOpenChange={(open) => !open && setEditing(null)}
+					>
+						<PopoverAnchor asChild>
+							<div
+								className="absolute pointer-events-none"
+								style={{
+									top: toPercent(editing?.y ?? 0),
+									left: toPercent(editing?.x ?? 0),
+								}}
+							/>
+						</PopoverAnchor>
+						<PopoverContent className="w-80">
+							{editing && (
+								<HighlightEditor
+									key={editing.highlight._id}
+									highlight={editing.highlight}
+									onSave={(updates) => {
+										onUpdateHighlight?.(editing.highlight, updates);
+										setEditing(null);
+									}}
+									onDelete={() => {
+										onDeleteHighlight?.(editing.highlight);
+										setEditing(null);
+									}}
+								/>
+							)}
+						</PopoverContent>
+					</Popover>
+				</div>
 			</div>
 		</div>
 	);
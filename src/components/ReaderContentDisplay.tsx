@@ -1,28 +1,122 @@
 import EpubReader from "@/components/EpubReader";
+import { HighlightColorPicker } from "@/components/HighlightColorPicker";
+import { HighlightEditor } from "@/components/HighlightEditor";
 import PdfReader from "@/components/PdfReader";
+import {
+	Popover,
+	PopoverAnchor,
+	PopoverContent,
+} from "@/components/ui/popover";
+import { useArticleFile } from "@/hooks/useArticleFile";
+import type { NewHighlight } from "@/hooks/useHighlights";
+import {
+	type TextAnchor,
+	clearHighlights,
+	describeRange,
+	paintHighlight,
+	resolveAnchor,
+} from "@/lib/highlightAnchoring";
 import { cn } from "@/lib/utils";
-import type { Article } from "@/services/db"; // Use import type
+import {
+	type Article,
+	type Bookmark,
+	type Highlight,
+	hasArticleFile,
+} from "@/services/db";
+import type { EpubChapter } from "@/services/epub";
 import DOMPurify from "dompurify";
 import parse from "html-react-parser";
+import { Loader2 } from "lucide-react";
 import type React from "react"; // Use import type for default
-import { useEffect, useRef } from "react"; // Keep named imports separate
+import {
+	forwardRef,
+	memo,
+	useCallback,
+	useEffect,
+	useRef,
+	useState,
+} from "react"; // Keep named imports separate
 
 interface ReaderContentDisplayProps {
 	article: Article;
 	contentRef: React.RefObject<HTMLDivElement>; // For HTML content scroll tracking
 	onTextExtracted: (text: string | null) => void;
+	onPdfPageChange?: (pageNumber: number, pageCount: number) => void; // PDF progress is a page number
+	onEpubLocationChange?: (cfi: string) => void; // EPUB position is a CFI
+	onEpubProgressChange?: (percent: number) => void;
+	onEpubSectionChange?: (href: string) => void; // Chapter on screen, for chapter-scoped AI features
+	onEpubChaptersExtracted?: (chapters: EpubChapter[]) => void;
+	onAddBookmark?: (bookmark: Omit<Bookmark, "createdAt">) => void;
+	onRemoveBookmark?: (cfi: string) => void;
+	highlights?: Highlight[]; // Highlights to paint over HTML content
+	onCreateHighlight?: (highlight: NewHighlight) => void;
+	onUpdateHighlight?: (
+		highlight: Highlight,
+		updates: Pick<Highlight, "note" | "color">,
+	) => void;
+	onDeleteHighlight?: (highlight: Highlight) => void;
+	focusedHighlight?: Highlight | null; // PDF or EPUB highlight to go to, e.g. from the notes panel
 }
 
+// Position of a popover anchor inside the scroll container
+interface PopoverPosition {
+	top: number;
+	left: number;
+}
+
+// Stable default so the paint effect doesn't re-run on every render
+const NO_HIGHLIGHTS: Highlight[] = [];
+
+/**
+ * Parsed article body. Memoized so React never re-renders it after mount:
+ * highlight marks are painted straight into its DOM and would otherwise be
+ * clobbered (or confuse reconciliation) on the next render.
+ */
+const ArticleBody = memo(
+	forwardRef<HTMLDivElement, { content?: string }>(function ArticleBody(
+		{ content },
+		ref,
+	) {
+		return (
+			<div ref={ref} className="prose max-w-none dark:prose-invert">
+				{/* Ensure content exists before parsing */}
+				{content && parse(DOMPurify.sanitize(content))}
+			</div>
+		);
+	}),
+);
+
 export function ReaderContentDisplay({
 	article,
 	contentRef,
 	onTextExtracted,
+	onPdfPageChange,
+	onEpubLocationChange,
+	onEpubProgressChange,
+	onEpubSectionChange,
+	onEpubChaptersExtracted,
+	onAddBookmark,
+	onRemoveBookmark,
+	highlights = NO_HIGHLIGHTS,
+	onCreateHighlight,
+	onUpdateHighlight,
+	onDeleteHighlight,
+	focusedHighlight,
 }: ReaderContentDisplayProps) {
 	const internalContentRef = useRef<HTMLDivElement | null>(null); // Ref for HTML content div
+	const bodyRef = useRef<HTMLDivElement | null>(null); // Ref for the parsed article body
+	const [pendingSelection, setPendingSelection] = useState<
+		(TextAnchor & PopoverPosition) | null
+	>(null);
+	const [editing, setEditing] = useState<
+		({ highlight: Highlight } & PopoverPosition) | null
+	>(null);
 
 	// Determine article type
-	const isEpub = article.type === "epub" && article.fileData;
-	const isPdf = article.type === "pdf" && article.fileData;
+	const isEpub = article.type === "epub" && hasArticleFile(article);
+	const isPdf = article.type === "pdf" && hasArticleFile(article);
+	// PDF and EPUB files are only loaded once their reader opens
+	const file = useArticleFile(isEpub || isPdf ? article : null);
 
 	// Effect to extract text from HTML content once it's rendered
 	useEffect(() => {
@@ -33,10 +127,122 @@ export function ReaderContentDisplay({
 		// Run only when article type changes or ref becomes available
 	}, [isEpub, isPdf, onTextExtracted]);
 
+	// Paint highlights into the rendered HTML; re-runs whenever they change
+	useEffect(() => {
+		const body = bodyRef.current;
+		if (isEpub || isPdf || !body) return;
+
+		const fullText = body.textContent ?? "";
+		for (const highlight of highlights) {
+			const { start, prefix, suffix } = highlight.position;
+			if (typeof start !== "number") continue; // Not a text-offset anchor
+			const resolved = resolveAnchor(fullText, {
+				text: highlight.text,
+				start,
+				prefix,
+				suffix,
+			});
+			if (!resolved) {
+				console.warn(
+					`Could not anchor highlight ${highlight._id} in article ${article._id}`,
+				);
+				continue;
+			}
+			paintHighlight(
+				body,
+				resolved.start,
+				resolved.end,
+				highlight._id,
+				highlight.color,
+			);
+		}
+
+		return () => clearHighlights(body);
+	}, [highlights, isEpub, isPdf, article._id]);
+
+	// Position of a client rect relative to the scroll container's content
+	const toContainerPosition = useCallback(
+		(rect: DOMRect): PopoverPosition | null => {
+			const container = internalContentRef.current;
+			if (!container) return null;
+			const containerRect = container.getBoundingClientRect();
+			return {
+				top: rect.bottom - containerRect.top + container.scrollTop,
+				left: rect.left + rect.width / 2 - containerRect.left,
+			};
+		},
+		[],
+	);
+
+	// Offer the color picker once the user finishes selecting text
+	const handleSelectionEnd = useCallback(() => {
+		const selection = window.getSelection();
+		if (!onCreateHighlight || !bodyRef.current || !selection?.rangeCount) {
+			return;
+		}
+		const range = selection.getRangeAt(0);
+		const anchor = describeRange(bodyRef.current, range);
+		const position =
+			anchor && toContainerPosition(range.getBoundingClientRect());
+		if (anchor && position) {
+			setEditing(null);
+			setPendingSelection({ ...anchor, ...position });
+		}
+	}, [onCreateHighlight, toContainerPosition]);
+
+	const handleContentClick = useCallback(
+		(event: React.MouseEvent<HTMLDivElement>) => {
+			// A click that ends a selection is handled by handleSelectionEnd
+			if (!window.getSelection()?.isCollapsed) return;
+			const mark = (event.target as HTMLElement).closest<HTMLElement>(
+				"mark[data-highlight-id]",
+			);
+			const highlight = highlights.find(
+				(h) => h._id === mark?.dataset.highlightId,
+			);
+			const position =
+				mark && toContainerPosition(mark.getBoundingClientRect());
+			if (highlight && position) {
+				setPendingSelection(null);
+				setEditing({ highlight, ...position });
+			}
+		},
+		[highlights, toContainerPosition],
+	);
+
+	const createHighlight = useCallback(
+		(color: string) => {
+			if (!pendingSelection || !onCreateHighlight) return;
+			const { text, start, end, prefix, suffix } = pendingSelection;
+			onCreateHighlight({
+				text,
+				color,
+				position: { start, end, prefix, suffix },
+			});
+			window.getSelection()?.removeAllRanges();
+			setPendingSelection(null);
+		},
+		[pendingSelection, onCreateHighlight],
+	);
+
 	// Set text color class (assuming this might be needed later or passed down)
 	const textColorClass = "text-foreground";
 
-	if (isEpub && article.fileData) {
+	// Shown in place of the reader until its file has loaded
+	const fileStatus = (
+		<div className="flex h-full flex-col items-center justify-center gap-2 text-muted-foreground">
+			{file.error ? (
+				<p className="text-red-500">{file.error}</p>
+			) : (
+				<>
+					<Loader2 className="h-8 w-8 animate-spin text-bondwise-500" />
+					<p>Loading file...</p>
+				</>
+			)}
+		</div>
+	);
+
+	if (isEpub) {
 		// Render EPUB Reader
 		return (
 			<div
@@ -57,17 +263,35 @@ export function ReaderContentDisplay({
 					</p>
 				</div>
 				<div className="flex-1 overflow-hidden relative">
-					<EpubReader
-						fileData={article.fileData}
-						fileName={article.fileName}
-						onTextExtracted={onTextExtracted} // Pass callback
-					/>
+					{!file.data ? (
+						fileStatus
+					) : (
+						<EpubReader
+							fileData={file.data}
+							fileName={article.fileName}
+							onTextExtracted={onTextExtracted} // Pass callback
+							initialLocation={article.readingLocation}
+							onLocationChange={onEpubLocationChange}
+							onProgressChange={onEpubProgressChange}
+							onSectionChange={onEpubSectionChange}
+							onChaptersExtracted={onEpubChaptersExtracted}
+							bookKey={article._id}
+							bookmarks={article.bookmarks}
+							onAddBookmark={onAddBookmark}
+							onRemoveBookmark={onRemoveBookmark}
+							highlights={highlights}
+							focusedHighlight={focusedHighlight}
+							onCreateHighlight={onCreateHighlight}
+							onUpdateHighlight={onUpdateHighlight}
+							onDeleteHighlight={onDeleteHighlight}
+						/>
+					)}
 				</div>
 			</div>
 		);
 	}
 
-	if (isPdf && article.fileData) {
+	if (isPdf) {
 		// Render PDF Reader
 		return (
 			<div
@@ -88,11 +312,22 @@ export function ReaderContentDisplay({
 					</p>
 				</div>
 				<div className="flex-1 overflow-hidden relative">
-					<PdfReader
-						fileData={article.fileData}
-						fileName={article.fileName}
-						onTextExtracted={onTextExtracted} // Pass callback
-					/>
+					{!file.data ? (
+						fileStatus
+					) : (
+						<PdfReader
+							fileData={file.data}
+							fileName={article.fileName}
+							initialPage={article.readingProgress}
+							onTextExtracted={onTextExtracted} // Pass callback
+							onPageChange={onPdfPageChange}
+							highlights={highlights}
+							focusedHighlight={focusedHighlight}
+							onCreateHighlight={onCreateHighlight}
+							onUpdateHighlight={onUpdateHighlight}
+							onDeleteHighlight={onDeleteHighlight}
+						/>
+					)}
 				</div>
 			</div>
 		);
@@ -111,9 +346,12 @@ export function ReaderContentDisplay({
 				internalContentRef.current = node;
 			}}
 			className={cn(
-				"flex-1 overflow-y-auto px-4 md:px-8 py-6", // Use regular string
+				"relative flex-1 overflow-y-auto px-4 md:px-8 py-6", // Relative so popover anchors scroll with the text
 				textColorClass,
 			)}
+			onMouseUp={handleSelectionEnd}
+			onKeyUp={handleSelectionEnd}
+			onClick={handleContentClick}
 		>
 			<div className="reader-content">
 				<h1 className="text-3xl font-bold mb-4">{article.title}</h1>
@@ -127,10 +365,11 @@ export function ReaderContentDisplay({
 					)}
 				</p>
 
-				<div className="prose max-w-none dark:prose-invert">
-					{/* Ensure content exists before parsing */}
-					{article.content && parse(DOMPurify.sanitize(article.content))}
-				</div>
+				<ArticleBody
+					key={article._id}
+					ref={bodyRef}
+					content={article.content}
+				/>
 
 				<div className="mt-8 pt-6 border-t">
 					<p className="text-sm text-muted-foreground">
@@ -145,6 +384,54 @@ export function ReaderContentDisplay({
 					</p>
 				</div>
 			</div>
+
+			{/* Color picker for a new highlight */}
+			<Popover
+				open={!!pendingSelection}
+				onOpenChange={(open) => !open && setPendingSelection(null)}
+			>
+				<PopoverAnchor asChild>
+					<div
+						className="absolute pointer-events-none"
+						style={{ top: pendingSelection?.top, left: pendingSelection?.left }}
+					/>
+				</PopoverAnchor>
+				<PopoverContent
+					className="w-auto p-2"
+					onOpenAutoFocus={(e) => e.preventDefault()} // Keep the text selection visible
+				>
+					<HighlightColorPicker onSelect={createHighlight} />
+				</PopoverContent>
+			</Popover>
+
+			{/* Note and color editor for an existing highlight */}
+			<Popover
+				open={!!editing}
+				onOpenChange={(open) => !open && setEditing(null)}
+			>
+				<PopoverAnchor asChild>
+					<div
+						className="absolute pointer-events-none"
+						style={{ top: editing?.top, left: editing?.left }}
+					/>
+				</PopoverAnchor>
+				<PopoverContent className="w-80">
+					{editing && (
+						<HighlightEditor
+							key={editing.highlight._id}
+							highlight={editing.highlight}
+							onSave={(updates) => {
+								onUpdateHighlight?.(editing.highlight, updates);
+								setEditing(null);
+							}}
+							onDelete={() => {
+								onDeleteHighlight?.(editing.highlight);
+								setEditing(null);
+							}}
+						/>
+					)}
+				</PopoverContent>
+			</Popover>
 		</div>
 	);
 }
@@ -1,4 +1,10 @@
+import { TagPicker } from "@/components/TagPicker";
 import { Button } from "@/components/ui/button";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
 import { Sheet, SheetTrigger } from "@/components/ui/sheet"; // Keep SheetTrigger
 import {
 	ArrowLeft,
@@ -7,26 +13,31 @@ import {
 	Maximize2,
 	Minimize2,
 	PanelRightOpen,
+	Tag as TagIcon,
 } from "lucide-react";
 
 interface ReaderToolbarProps {
 	isFavorite: boolean;
 	isFullscreen: boolean;
 	isSidebarOpen: boolean; // Needed for Sheet state if controlled externally
+	tagIds: string[]; // Tags currently on the article
 	onGoBack: () => void;
 	onToggleFavorite: () => void;
 	onToggleFullscreen: () => void;
 	onToggleSidebar: (open: boolean) => void; // Function to change sidebar state
+	onTagsChange: (tagIds: string[]) => void;
 }
 
 export function ReaderToolbar({
 	isFavorite,
 	isFullscreen,
 	isSidebarOpen,
+	tagIds,
 	onGoBack,
 	onToggleFavorite,
 	onToggleFullscreen,
 	onToggleSidebar,
+	onTagsChange,
 }: ReaderToolbarProps) {
 	return (
 		<div className="border-b p-4 flex items-center justify-between">
@@ -41,6 +52,20 @@ export function ReaderToolbar({
 						<Bookmark className="h-5 w-5" />
 					)}
 				</Button>
+				<Popover>
+					<PopoverTrigger asChild>
+						<Button variant="ghost" size="icon" aria-label="Edit tags">
+							<TagIcon
+								className={
+									tagIds.length > 0 ? "h-5 w-5 text-bondwise-500" : "h-5 w-5"
+								}
+							/>
+						</Button>
+					</PopoverTrigger>
+					<PopoverContent className="w-64 p-0" align="end">
+						<TagPicker selectedTagIds={tagIds} onChange={onTagsChange} />
+					</PopoverContent>
+				</Popover>
 				<Button variant="ghost" size="icon" onClick={onToggleFullscreen}>
 					{isFullscreen ? (
 						<Minimize2 className="h-5 w-5" />
@@ -0,0 +1,221 @@
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useArticles } from "@/context/ArticleContext";
+import { useToast } from "@/hooks/use-toast";
+import { authClient } from "@/lib/authClient";
+import {
+	type RestoreMode,
+	type RestoreResult,
+	restoreBackup,
+	validateBackup,
+} from "@/services/db";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import { useRef, useState } from "react";
+
+// Failures listed individually before the rest are summarized
+const MAX_LISTED_FAILURES = 10;
+
+interface PendingRestore {
+	fileName: string;
+	data: unknown;
+	counts: { articles: number; highlights: number; tags: number };
+}
+
+/**
+ * Restores a JSON backup made with "Export Data", either merged into the
+ * local library or replacing it. Replacing asks for confirmation first.
+ */
+export function RestoreBackupPanel() {
+	const { data: session } = authClient.useSession();
+	const { refreshArticles } = useArticles();
+	const { toast } = useToast();
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [mode, setMode] = useState<RestoreMode>("merge");
+	const [pending, setPending] = useState<PendingRestore | null>(null);
+	const [isRestoring, setIsRestoring] = useState(false);
+	const [result, setResult] = useState<RestoreResult | null>(null);
+
+	const runRestore = async (restore: PendingRestore) => {
+		setPending(null);
+		setIsRestoring(true);
+		try {
+			const restoreResult = await restoreBackup(restore.data, {
+				mode,
+				userId: session?.user?.id,
+			});
+			setResult(restoreResult);
+			await refreshArticles();
+			toast({
+				title: "Restore Complete",
+				description: restoreResult.failures.length
+					? `${restoreResult.failures.length} items could not be restored.`
+					: "Your backup has been restored.",
+				variant: restoreResult.failures.length ? "destructive" : "default",
+			});
+		} catch (error) {
+			console.error("Restore error:", error);
+			toast({
+				title: "Restore Failed",
+				description:
+					error instanceof Error
+						? error.message
+						: "There was an error restoring your data.",
+				variant: "destructive",
+			});
+		} finally {
+			setIsRestoring(false);
+		}
+	};
+
+	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+		setResult(null);
+
+		let restore: PendingRestore;
+		try {
+			const data = JSON.parse(await file.text());
+			const backup = validateBackup(data);
+			restore = {
+				fileName: file.name,
+				data,
+				counts: {
+					articles: backup.articles.length,
+					highlights: backup.highlights.length,
+					tags: backup.tags.length,
+				},
+			};
+		} catch (error) {
+			toast({
+				title: "Invalid Backup",
+				description:
+					error instanceof SyntaxError
+						? "This file isn't valid JSON."
+						: error instanceof Error
+							? error.message
+							: "This file can't be restored.",
+				variant: "destructive",
+			});
+			return;
+		}
+
+		if (mode === "replace") {
+			setPending(restore); // Confirmed in the dialog
+		} else {
+			await runRestore(restore);
+		}
+	};
+
+	const summarize = (label: string, counts: RestoreResult["articles"]) =>
+		`${counts.restored} ${label} restored, ${counts.unchanged} unchanged${
+			counts.removed ? `, ${counts.removed} removed` : ""
+		}`;
+
+	return (
+		<div className="space-y-3">
+			<div className="flex items-end gap-2">
+				<div className="w-56 space-y-1">
+					<Label>Restore mode</Label>
+					<Select
+						value={mode}
+						onValueChange={(value) => setMode(value as RestoreMode)}
+						disabled={isRestoring}
+					>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="merge">Merge with my library</SelectItem>
+							<SelectItem value="replace">Replace my library</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept=".json,application/json"
+					className="hidden"
+					onChange={handleFileChange}
+				/>
+				<Button
+					variant="outline"
+					onClick={() => fileInputRef.current?.click()}
+					disabled={isRestoring}
+				>
+					{isRestoring ? "Restoring..." : "Choose Backup File"}
+				</Button>
+			</div>
+
+			{result && (
+				<Alert variant={result.failures.length ? "destructive" : "default"}>
+					{result.failures.length ? (
+						<AlertCircle className="h-4 w-4" />
+					) : (
+						<CheckCircle2 className="h-4 w-4" />
+					)}
+					<AlertDescription className="space-y-1">
+						<p>{summarize("articles", result.articles)}.</p>
+						<p>{summarize("highlights", result.highlights)}.</p>
+						<p>{summarize("tags", result.tags)}.</p>
+						{result.failures.length > 0 && (
+							<ul className="list-disc pl-4 text-xs">
+								{result.failures
+									.slice(0, MAX_LISTED_FAILURES)
+									.map((failure) => (
+										<li key={`${failure.collection}:${failure.id}`}>
+											{failure.collection} {failure.id}: {failure.message}
+										</li>
+									))}
+								{result.failures.length > MAX_LISTED_FAILURES && (
+									<li>
+										and {result.failures.length - MAX_LISTED_FAILURES} more
+									</li>
+								)}
+							</ul>
+						)}
+					</AlertDescription>
+				</Alert>
+			)}
+
+			<AlertDialog
+				open={!!pending}
+				onOpenChange={(open) => !open && setPending(null)}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Replace your library?</AlertDialogTitle>
+						<AlertDialogDescription>
+							{pending &&
+								`Everything on this device will be replaced by ${pending.fileName} (${pending.counts.articles} articles, ${pending.counts.highlights} highlights, ${pending.counts.tags} tags). Articles, highlights and tags that aren't in the backup will be deleted.`}
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancel</AlertDialogCancel>
+						<AlertDialogAction onClick={() => pending && runRestore(pending)}>
+							Replace
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
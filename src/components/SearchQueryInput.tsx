@@ -0,0 +1,143 @@
+import { Input } from "@/components/ui/input";
+import { useArticles } from "@/context/ArticleContext";
+import { useDebounce } from "@/hooks/useDebounce";
+import { getUniqueSiteNames } from "@/lib/articleUtils";
+import {
+	type QuerySuggestion,
+	compileSearchQuery,
+	getQuerySuggestions,
+} from "@/lib/searchQuery";
+import { cn } from "@/lib/utils";
+import { Search } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+
+interface SearchQueryInputProps {
+	value: string;
+	onChange: (value: string) => void;
+	placeholder?: string;
+	className?: string;
+}
+
+/**
+ * Search box for the query language, with completions for operators and
+ * tag and site names. Operator values it can't understand are listed below.
+ */
+export function SearchQueryInput({
+	value,
+	onChange,
+	placeholder = "Search... (try tag:, site:, is:unread)",
+	className,
+}: SearchQueryInputProps) {
+	const { allTags, articles } = useArticles();
+	const siteNames = useMemo(() => getUniqueSiteNames(articles), [articles]);
+	const inputRef = useRef<HTMLInputElement>(null);
+	const [caret, setCaret] = useState(0);
+	const [isFocused, setIsFocused] = useState(false);
+	const [isDismissed, setIsDismissed] = useState(false);
+	const [activeIndex, setActiveIndex] = useState(0);
+
+	const { start, end, suggestions } = useMemo(
+		() => getQuerySuggestions(value, caret, { tags: allTags, siteNames }),
+		[value, caret, allTags, siteNames],
+	);
+	const isOpen = isFocused && !isDismissed && suggestions.length > 0;
+
+	// Wait for a pause in typing so half-typed operators aren't reported
+	const settledValue = useDebounce(value, 600);
+	const errors = useMemo(
+		() => compileSearchQuery(settledValue, { tags: allTags, siteNames }).errors,
+		[settledValue, allTags, siteNames],
+	);
+
+	const updateCaret = () => {
+		setCaret(inputRef.current?.selectionStart ?? value.length);
+	};
+
+	const applySuggestion = (suggestion: QuerySuggestion) => {
+		const nextValue =
+			value.slice(0, start) + suggestion.value + value.slice(end);
+		const nextCaret = start + suggestion.value.length;
+		onChange(nextValue);
+		setCaret(nextCaret);
+		setActiveIndex(0);
+		requestAnimationFrame(() => {
+			inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+		});
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (!isOpen) return;
+		switch (e.key) {
+			case "ArrowDown":
+				e.preventDefault();
+				setActiveIndex((index) => (index + 1) % suggestions.length);
+				break;
+			case "ArrowUp":
+				e.preventDefault();
+				setActiveIndex(
+					(index) => (index - 1 + suggestions.length) % suggestions.length,
+				);
+				break;
+			case "Enter":
+			case "Tab":
+				e.preventDefault();
+				applySuggestion(
+					suggestions[Math.min(activeIndex, suggestions.length - 1)],
+				);
+				break;
+			case "Escape":
+				e.preventDefault();
+				setIsDismissed(true);
+				break;
+		}
+	};
+
+	return (
+		<div className={cn("relative", className)}>
+			<Search className="absolute left-3 top-5 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+			<Input
+				ref={inputRef}
+				value={value}
+				placeholder={placeholder}
+				className="pl-10"
+				aria-label="Search"
+				aria-autocomplete="list"
+				aria-expanded={isOpen}
+				onChange={(e) => {
+					onChange(e.target.value);
+					setCaret(e.target.selectionStart ?? e.target.value.length);
+					setIsDismissed(false);
+					setActiveIndex(0);
+				}}
+				onSelect={updateCaret}
+				onKeyDown={handleKeyDown}
+				onFocus={() => setIsFocused(true)}
+				onBlur={() => setIsFocused(false)}
+			/>
+			{isOpen && (
+				<div className="absolute z-20 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+					{suggestions.map((suggestion, index) => (
+						<button
+							key={suggestion.value}
+							type="button"
+							className={cn(
+								"flex w-full rounded-sm px-2 py-1.5 text-left text-sm",
+								index === activeIndex
+									? "bg-accent text-accent-foreground"
+									: "hover:bg-accent/50",
+							)}
+							// Keep focus in the input while picking
+							onMouseDown={(e) => e.preventDefault()}
+							onClick={() => applySuggestion(suggestion)}
+						>
+							{suggestion.label}
+						</button>
+					))}
+				</div>
+			)}
+			{errors.length > 0 && (
+				<p className="mt-1 text-xs text-destructive">{errors.join(" · ")}</p>
+			)}
+		</div>
+	);
+}
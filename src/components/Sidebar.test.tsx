@@ -29,6 +29,7 @@ vi.mock("@/context/ArticleContext", async (importOriginal) => {
 		...actual,
 		useArticles: vi.fn(() => ({
 			articles: [],
+			allTags: [],
 			isLoading: false,
 			isRefreshing: false,
 			error: null,
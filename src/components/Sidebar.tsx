@@ -1,3 +1,4 @@
+import { CollectionDialog } from "@/components/CollectionDialog";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import {
@@ -16,11 +17,16 @@ import { useAnimation } from "@/context/AnimationContext";
 import { useArticles } from "@/context/ArticleContext";
 import { useTheme } from "@/context/ThemeContext";
 import { useSynchronizedAnimation } from "@/hooks/use-synchronized-animation";
+import { useCollections } from "@/hooks/useCollections";
+import { getUniqueSiteNames } from "@/lib/articleUtils";
 import { authClient } from "@/lib/authClient"; // Import authClient
+import { queryArticles } from "@/lib/searchQuery";
+import type { CollectionInput } from "@/services/db";
 import { cn } from "@/lib/utils";
 import {
 	ChevronLeft,
 	Home,
+	Layers,
 	Library,
 	LogIn,
 	LogOut, // Added for Sign Out button
@@ -30,7 +36,7 @@ import {
 	Settings,
 	Sun,
 } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 
 // New UserMenu component to replace Clerk's UserButton
@@ -106,11 +112,35 @@ export default function Sidebar() {
 	const [collapsed, setCollapsed] = useState(false);
 	const location = useLocation();
 	const navigate = useNavigate();
-	const { setCurrentView } = useArticles();
+	const { setCurrentView, articles, allTags } = useArticles();
 	const { theme, setTheme } = useTheme();
 	const { synchronizeAnimations } = useAnimation();
 	const { data: session } = authClient.useSession(); // Use session data
 	const [isDarkMode, setIsDarkMode] = useState(false);
+	const { collections, createCollection } = useCollections();
+	const [isCreatingCollection, setIsCreatingCollection] = useState(false);
+
+	// Live article count for each collection
+	const collectionCounts = useMemo(() => {
+		const context = { tags: allTags, siteNames: getUniqueSiteNames(articles) };
+		return new Map(
+			collections.map((collection) => [
+				collection._id,
+				queryArticles(
+					articles,
+					collection.filter,
+					collection.sortCriteria,
+					context,
+				).length,
+			]),
+		);
+	}, [articles, allTags, collections]);
+
+	const handleCreateCollection = async (input: CollectionInput) => {
+		const collection = await createCollection(input);
+		if (collection) navigate(`/collection/${collection._id}`);
+		return !!collection;
+	};
 
 	// Create synchronized animations for the sidebar
 	const sidebarAnimation = useSynchronizedAnimation({
@@ -255,6 +285,64 @@ export default function Sidebar() {
 					</TransitionItem>
 				</TransitionGroup>
 
+				<div className="mt-8 px-3">
+					{!collapsed && (
+						<div className="flex items-center mb-2">
+							<h3
+								className="flex-1 text-sm font-medium transition-opacity duration-200"
+								style={styles.navLabel}
+							>
+								Collections
+							</h3>
+							<Button
+								variant="ghost"
+								size="icon"
+								className="h-6 w-6"
+								aria-label="New collection"
+								onClick={() => setIsCreatingCollection(true)}
+								style={styles.navLabel}
+							>
+								<Plus size={14} />
+							</Button>
+						</div>
+					)}
+					<div className="space-y-1">
+						{collections.map((collection) => {
+							const path = `/collection/${collection._id}`;
+							return (
+								<Button
+									key={collection._id}
+									variant="ghost"
+									className="w-full flex items-center justify-start gap-3 py-2 transition-all duration-200"
+									onClick={() => navigate(path)}
+									style={isActive(path) ? styles.activeLink : styles.link}
+									title={collapsed ? collection.name : undefined}
+								>
+									<Layers size={20} />
+									{!collapsed && (
+										<>
+											<span className="flex-1 truncate text-left transition-opacity duration-200">
+												{collection.name}
+											</span>
+											<span
+												className="text-xs tabular-nums"
+												style={styles.navLabel}
+											>
+												{collectionCounts.get(collection._id) ?? 0}
+											</span>
+										</>
+									)}
+								</Button>
+							);
+						})}
+						{!collapsed && collections.length === 0 && (
+							<p className="px-1 text-xs" style={styles.navLabel}>
+								Save a search to keep it here.
+							</p>
+						)}
+					</div>
+				</div>
+
 				<div className="mt-8 px-3">
 					{!collapsed && (
 						<h3
@@ -331,6 +419,12 @@ export default function Sidebar() {
 				</div>
 			</div>
 
+			<CollectionDialog
+				open={isCreatingCollection}
+				onOpenChange={setIsCreatingCollection}
+				onSave={handleCreateCollection}
+			/>
+
 			{!!session && ( // Check !!session instead of isSignedIn
 				<div
 					className="p-4 border-t"
@@ -0,0 +1,51 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { Tag } from "@/services/db";
+import { X } from "lucide-react";
+
+// Palette offered when creating or recoloring a tag
+export const TAG_COLORS = [
+	"#3B82F6", // blue
+	"#10B981", // emerald
+	"#F59E0B", // amber
+	"#EF4444", // red
+	"#8B5CF6", // violet
+	"#EC4899", // pink
+	"#14B8A6", // teal
+	"#6B7280", // gray
+] as const;
+
+interface TagBadgeProps {
+	tag: Tag;
+	className?: string;
+	onRemove?: () => void;
+}
+
+export function TagBadge({ tag, className, onRemove }: TagBadgeProps) {
+	return (
+		<Badge
+			variant="outline"
+			className={cn("gap-1.5 font-normal max-w-[10rem]", className)}
+		>
+			<span
+				className="h-2 w-2 shrink-0 rounded-full"
+				style={{ backgroundColor: tag.color }}
+			/>
+			<span className="truncate">{tag.name}</span>
+			{onRemove && (
+				<button
+					type="button"
+					aria-label={`Remove tag ${tag.name}`}
+					className="-mr-1 rounded-full hover:text-destructive"
+					onClick={(e) => {
+						e.preventDefault();
+						e.stopPropagation();
+						onRemove();
+					}}
+				>
+					<X className="h-3 w-3" />
+				</button>
+			)}
+		</Badge>
+	);
+}
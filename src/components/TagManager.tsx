@@ -0,0 +1,313 @@
+import { TAG_COLORS } from "@/components/TagBadge";
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useArticles } from "@/context/ArticleContext";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { type Tag, deleteTag, mergeTags, updateTag } from "@/services/db";
+import { Check, Merge, Pencil, Trash2 } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+
+/**
+ * Settings section for renaming, recoloring, merging and deleting tags.
+ */
+export function TagManager() {
+	const { allTags, articles, refreshTags, refreshArticles } = useArticles();
+	const { toast } = useToast();
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [editingName, setEditingName] = useState("");
+	const [selectedIds, setSelectedIds] = useState<string[]>([]);
+	const [mergeTargetId, setMergeTargetId] = useState<string>("");
+	const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
+	const [isWorking, setIsWorking] = useState(false);
+	// Set by Escape so the blur that follows discards the rename
+	const cancelRenameRef = useRef(false);
+
+	// Number of articles using each tag
+	const usageCounts = useMemo(() => {
+		const counts = new Map<string, number>();
+		for (const article of articles) {
+			for (const tagId of article.tags ?? []) {
+				counts.set(tagId, (counts.get(tagId) ?? 0) + 1);
+			}
+		}
+		return counts;
+	}, [articles]);
+
+	// Runs a tag operation, then reloads tags (and articles when they changed)
+	const runAction = async (
+		action: () => Promise<unknown>,
+		failureMessage: string,
+		articlesChanged = false,
+	) => {
+		setIsWorking(true);
+		try {
+			await action();
+			await refreshTags();
+			if (articlesChanged) {
+				await refreshArticles();
+			}
+		} catch (error) {
+			console.error(failureMessage, error);
+			toast({
+				title: "Tag Update Failed",
+				description: error instanceof Error ? error.message : failureMessage,
+				variant: "destructive",
+			});
+		} finally {
+			setIsWorking(false);
+		}
+	};
+
+	// Renames are committed on blur; Enter and Escape just blur the input
+	const saveName = async (tag: Tag) => {
+		const name = editingName.trim();
+		setEditingId(null);
+		if (cancelRenameRef.current) {
+			cancelRenameRef.current = false;
+			return;
+		}
+		if (!name || name === tag.name || !tag._rev) return;
+		const duplicate = allTags.find(
+			(other) =>
+				other._id !== tag._id &&
+				other.name.toLowerCase() === name.toLowerCase(),
+		);
+		if (duplicate) {
+			toast({
+				title: "Tag Already Exists",
+				description: `Select both tags and merge them instead of renaming to "${duplicate.name}".`,
+				variant: "destructive",
+			});
+			return;
+		}
+		const rev = tag._rev;
+		await runAction(
+			() => updateTag({ _id: tag._id, _rev: rev, name }),
+			"Could not rename the tag.",
+		);
+	};
+
+	const saveColor = async (tag: Tag, color: string) => {
+		if (color === tag.color || !tag._rev) return;
+		const rev = tag._rev;
+		await runAction(
+			() => updateTag({ _id: tag._id, _rev: rev, color }),
+			"Could not change the tag color.",
+		);
+	};
+
+	const toggleSelected = (tagId: string, checked: boolean) => {
+		setSelectedIds((prev) =>
+			checked ? [...prev, tagId] : prev.filter((id) => id !== tagId),
+		);
+		if (!checked && mergeTargetId === tagId) {
+			setMergeTargetId("");
+		}
+	};
+
+	const mergeSelected = async () => {
+		if (!mergeTargetId) return;
+		await runAction(
+			() => mergeTags(selectedIds, mergeTargetId),
+			"Could not merge the tags.",
+			true,
+		);
+		setSelectedIds([]);
+		setMergeTargetId("");
+	};
+
+	const confirmDelete = async () => {
+		const tag = tagToDelete;
+		setTagToDelete(null);
+		if (!tag?._rev) return;
+		const rev = tag._rev;
+		await runAction(
+			() => deleteTag(tag._id, rev),
+			"Could not delete the tag.",
+			true,
+		);
+		setSelectedIds((prev) => prev.filter((id) => id !== tag._id));
+	};
+
+	const selectedTags = allTags.filter((tag) => selectedIds.includes(tag._id));
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Tags</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{allTags.length === 0 ? (
+					<p className="text-sm text-muted-foreground">
+						No tags yet. Add tags to articles from their menu or the reader
+						toolbar.
+					</p>
+				) : (
+					<ul className="divide-y">
+						{allTags.map((tag) => (
+							<li key={tag._id} className="flex items-center gap-3 py-2">
+								<Checkbox
+									aria-label={`Select ${tag.name}`}
+									checked={selectedIds.includes(tag._id)}
+									onCheckedChange={(checked) =>
+										toggleSelected(tag._id, checked === true)
+									}
+									disabled={isWorking}
+								/>
+								<Popover>
+									<PopoverTrigger asChild>
+										<button
+											type="button"
+											aria-label={`Change color of ${tag.name}`}
+											className="h-5 w-5 shrink-0 rounded-full border"
+											style={{ backgroundColor: tag.color }}
+											disabled={isWorking}
+										/>
+									</PopoverTrigger>
+									<PopoverContent className="w-auto p-2">
+										<div className="grid grid-cols-4 gap-2">
+											{TAG_COLORS.map((color) => (
+												<button
+													key={color}
+													type="button"
+													aria-label={`Use color ${color}`}
+													className={cn(
+														"h-6 w-6 rounded-full border flex items-center justify-center",
+														color === tag.color && "ring-2 ring-ring",
+													)}
+													style={{ backgroundColor: color }}
+													onClick={() => saveColor(tag, color)}
+												>
+													{color === tag.color && (
+														<Check className="h-3 w-3 text-white" />
+													)}
+												</button>
+											))}
+										</div>
+									</PopoverContent>
+								</Popover>
+								{editingId === tag._id ? (
+									<Input
+										autoFocus
+										value={editingName}
+										onChange={(e) => setEditingName(e.target.value)}
+										onBlur={() => saveName(tag)}
+										onKeyDown={(e) => {
+											if (e.key === "Escape") cancelRenameRef.current = true;
+											if (e.key === "Enter" || e.key === "Escape") {
+												e.currentTarget.blur();
+											}
+										}}
+										className="h-8 flex-1"
+									/>
+								) : (
+									<span className="flex-1 truncate text-sm">{tag.name}</span>
+								)}
+								<span className="text-xs text-muted-foreground">
+									{usageCounts.get(tag._id) ?? 0} articles
+								</span>
+								<Button
+									variant="ghost"
+									size="icon"
+									className="h-8 w-8"
+									aria-label={`Rename ${tag.name}`}
+									disabled={isWorking}
+									onClick={() => {
+										setEditingId(tag._id);
+										setEditingName(tag.name);
+									}}
+								>
+									<Pencil className="h-4 w-4" />
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									className="h-8 w-8 text-destructive"
+									aria-label={`Delete ${tag.name}`}
+									disabled={isWorking}
+									onClick={() => setTagToDelete(tag)}
+								>
+									<Trash2 className="h-4 w-4" />
+								</Button>
+							</li>
+						))}
+					</ul>
+				)}
+
+				{selectedTags.length >= 2 && (
+					<div className="flex flex-wrap items-center gap-2 rounded-md border p-3">
+						<span className="text-sm">
+							Merge {selectedTags.length} tags into
+						</span>
+						<Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+							<SelectTrigger className="h-8 w-44">
+								<SelectValue placeholder="Choose a tag" />
+							</SelectTrigger>
+							<SelectContent>
+								{selectedTags.map((tag) => (
+									<SelectItem key={tag._id} value={tag._id}>
+										{tag.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button
+							size="sm"
+							onClick={mergeSelected}
+							disabled={!mergeTargetId || isWorking}
+						>
+							<Merge className="mr-2 h-4 w-4" />
+							Merge
+						</Button>
+					</div>
+				)}
+			</CardContent>
+
+			<AlertDialog
+				open={!!tagToDelete}
+				onOpenChange={(open) => !open && setTagToDelete(null)}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Delete "{tagToDelete?.name}"?</AlertDialogTitle>
+						<AlertDialogDescription>
+							The tag will be removed from every article and highlight that uses
+							it. This cannot be undone.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancel</AlertDialogCancel>
+						<AlertDialogAction onClick={confirmDelete}>
+							Delete
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</Card>
+	);
+}
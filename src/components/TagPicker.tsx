@@ -0,0 +1,98 @@
+import { TAG_COLORS } from "@/components/TagBadge";
+import {
+	Command,
+	CommandEmpty,
+	CommandGroup,
+	CommandInput,
+	CommandItem,
+	CommandList,
+} from "@/components/ui/command";
+import { useArticles } from "@/context/ArticleContext";
+import { cn } from "@/lib/utils";
+import { Check, Plus } from "lucide-react";
+import { useState } from "react";
+
+interface TagPickerProps {
+	selectedTagIds: string[];
+	onChange: (tagIds: string[]) => void;
+}
+
+/**
+ * Searchable tag list with toggles for the given selection.
+ * Typing a name that doesn't exist yet offers to create it.
+ */
+export function TagPicker({ selectedTagIds, onChange }: TagPickerProps) {
+	const { allTags, createTag } = useArticles();
+	const [search, setSearch] = useState("");
+	const trimmedSearch = search.trim();
+	const exactMatch = allTags.some(
+		(tag) => tag.name.toLowerCase() === trimmedSearch.toLowerCase(),
+	);
+
+	const toggleTag = (tagId: string) => {
+		onChange(
+			selectedTagIds.includes(tagId)
+				? selectedTagIds.filter((id) => id !== tagId)
+				: [...selectedTagIds, tagId],
+		);
+	};
+
+	const handleCreate = async () => {
+		// Cycle through the palette so new tags are easy to tell apart
+		const color = TAG_COLORS[allTags.length % TAG_COLORS.length];
+		const tag = await createTag(trimmedSearch, color);
+		if (tag) {
+			onChange([...selectedTagIds, tag._id]);
+			setSearch("");
+		}
+	};
+
+	return (
+		<Command>
+			<CommandInput
+				placeholder="Search or create tag..."
+				value={search}
+				onValueChange={setSearch}
+			/>
+			<CommandList>
+				<CommandEmpty>No matching tags.</CommandEmpty>
+				<CommandGroup>
+					{allTags.map((tag) => {
+						const isSelected = selectedTagIds.includes(tag._id);
+						return (
+							<CommandItem
+								key={tag._id}
+								value={`${tag.name} ${tag._id}`}
+								onSelect={() => toggleTag(tag._id)}
+							>
+								<Check
+									className={cn(
+										"mr-2 h-4 w-4",
+										isSelected ? "opacity-100" : "opacity-0",
+									)}
+								/>
+								<span
+									className="mr-2 h-2 w-2 rounded-full"
+									style={{ backgroundColor: tag.color }}
+								/>
+								<span className="truncate">{tag.name}</span>
+							</CommandItem>
+						);
+					})}
+				</CommandGroup>
+				{trimmedSearch && !exactMatch && (
+					<CommandGroup forceMount>
+						<CommandItem
+							forceMount
+							value={`create ${trimmedSearch}`}
+							onSelect={handleCreate}
+						>
+							<Plus className="mr-2 h-4 w-4" />
+							Create "{trimmedSearch}"
+						</CommandItem>
+					</CommandGroup>
+				)}
+			</CommandList>
+		</Command>
+	);
+}
@@ -3,8 +3,12 @@ import { useArticleActions } from "@/hooks/useArticleActions";
 import { useArticleSync } from "@/hooks/useArticleSync";
 import { type ArticleView, useArticleView } from "@/hooks/useArticleView";
 import { useDatabaseInit } from "@/hooks/useDatabaseInit";
-import { filterArticles, sortArticles } from "@/lib/articleUtils"; // Import utils
-import { type Article, type Tag, getAllTags } from "@/services/db"; // Import Tag and getAllTags
+import { getUniqueSiteNames } from "@/lib/articleUtils"; // Import utils
+import { authClient } from "@/lib/authClient";
+import { queryArticles } from "@/lib/searchQuery";
+import { debounce } from "@/lib/utils";
+import { type Article, type Tag, getAllTags, saveTag } from "@/services/db"; // Import Tag and tag helpers
+import { subscribeToContentFetches } from "@/services/fetchQueue";
 import type {
 	ArticleFilters,
 	ArticleSortField,
@@ -58,8 +62,15 @@ interface ArticleContextType {
 			status?: "inbox" | "later" | "archived";
 		},
 	) => Promise<void>;
+	updateArticleTags: (id: string, tagIds: string[]) => Promise<void>;
 	optimisticRemoveArticle: (id: string) => Promise<void>; // Renamed for clarity
-	updateReadingProgress: (id: string, progress: number) => Promise<void>;
+	updateReadingProgress: (
+		id: string,
+		progress: number,
+		pageCount?: number,
+	) => Promise<void>;
+	refreshTags: () => Promise<void>;
+	createTag: (name: string, color?: string) => Promise<Tag | null>;
 }
 
 // Create the context
@@ -70,6 +81,7 @@ export const ArticleProvider: React.FC<{ children: React.ReactNode }> = ({
 	children,
 }) => {
 	const { toast } = useToast(); // Add toast hook back
+	const { data: session } = authClient.useSession(); // Tags are created for the signed-in user
 
 	// 1. Initialize Database
 	const { isInitialized: isDbInitialized, dbError } = useDatabaseInit();
@@ -114,6 +126,7 @@ export const ArticleProvider: React.FC<{ children: React.ReactNode }> = ({
 		addArticleByUrl,
 		addArticleByFile,
 		updateArticleStatus,
+		updateArticleTags,
 		removeArticle,
 		updateReadingProgress,
 	} = useArticleActions(async () => {
@@ -122,6 +135,17 @@ export const ArticleProvider: React.FC<{ children: React.ReactNode }> = ({
 
 	// --- Derived State & Effects ---
 
+	// Show fetched content (or fetch errors) of pending articles as it comes
+	// in, batching refreshes while a large import is being fetched
+	useEffect(() => {
+		const refresh = debounce(() => syncRefreshArticles(), 1000);
+		let lastFinished: number | null = null;
+		return subscribeToContentFetches((state) => {
+			if (lastFinished !== null && state.finished > lastFinished) refresh();
+			lastFinished = state.finished;
+		});
+	}, [syncRefreshArticles]);
+
 	// Fetch all tags once DB is initialized
 	useEffect(() => {
 		let isMounted = true;
@@ -140,6 +164,35 @@ export const ArticleProvider: React.FC<{ children: React.ReactNode }> = ({
 		};
 	}, [isDbInitialized]);
 
+	// Reload tags after they are created, renamed, merged or deleted
+	const refreshTags = useCallback(async () => {
+		try {
+			setAllTags(await getAllTags());
+		} catch (err) {
+			console.error("Failed to refresh tags:", err);
+		}
+	}, []);
+
+	const createTag = useCallback(
+		async (name: string, color?: string): Promise<Tag | null> => {
+			try {
+				const tag = await saveTag(name, color, session?.user?.id);
+				await refreshTags();
+				return tag;
+			} catch (err) {
+				console.error("Failed to create tag:", err);
+				toast({
+					title: "Failed to create tag",
+					description:
+						err instanceof Error ? err.message : "Could not create the tag.",
+					variant: "destructive",
+				});
+				return null;
+			}
+		},
+		[session?.user?.id, refreshTags, toast],
+	);
+
 	// Combine loading and error states
 	const isLoading = !isDbInitialized || (isDbInitialized && isSyncLoading);
 	const error = dbError || syncError;
@@ -150,11 +203,12 @@ export const ArticleProvider: React.FC<{ children: React.ReactNode }> = ({
 		const visibleArticles = articles.filter(
 			(a) => !hidingArticleIds.has(a._id),
 		);
-		// Apply user filters
-		const filtered = filterArticles(visibleArticles, filters);
-		// Then apply sorting
-		return sortArticles(filtered, sortCriteria);
-	}, [articles, filters, sortCriteria, hidingArticleIds]); // Add hidingArticleIds dependency
+		// Apply user filters and any operators in the search query, then sort
+		return queryArticles(visibleArticles, filters, sortCriteria, {
+			tags: allTags,
+			siteNames: getUniqueSiteNames(articles),
+		});
+	}, [articles, allTags, filters, sortCriteria, hidingArticleIds]); // Add hidingArticleIds dependency
 
 	// --- Context Value & Helper Functions ---
 
@@ -244,8 +298,11 @@ export const ArticleProvider: React.FC<{ children: React.ReactNode }> = ({
 			addArticleByUrl,
 			addArticleByFile,
 			updateArticleStatus,
+			updateArticleTags,
 			optimisticRemoveArticle, // Provide the optimistic remove function
 			updateReadingProgress,
+			refreshTags,
+			createTag,
 		}),
 		[
 			// Dependencies: Recalculate when these change
@@ -270,8 +327,11 @@ export const ArticleProvider: React.FC<{ children: React.ReactNode }> = ({
 			addArticleByUrl, // Stable function reference
 			addArticleByFile, // Stable function reference
 			updateArticleStatus, // Stable function reference
+			updateArticleTags, // Stable function reference
 			optimisticRemoveArticle, // Add optimistic function to dependencies
 			updateReadingProgress, // Stable function reference
+			refreshTags, // Stable function reference
+			createTag,
 		],
 	);
 
@@ -41,14 +41,26 @@ vi.mock("@/services/db", () => ({
 	updateArticle: vi.fn(),
 	deleteArticle: vi.fn(),
 	getArticle: vi.fn(),
+	isOffline: vi.fn(),
+	isTransientError: vi.fn(),
 	removeDuplicateArticles: vi.fn(),
+	FILE_CONTENT_TYPES: { pdf: "application/pdf", epub: "application/epub+zip" },
+	fileAttachment: vi.fn((data, contentType) => ({
+		file: { content_type: contentType, data },
+	})),
 }));
 
 // Mock the parser service
 vi.mock("@/services/parser", () => ({
+	isValidUrl: vi.fn().mockReturnValue(true),
 	parseArticle: vi.fn(),
 }));
 
+// Mock the background fetch queue
+vi.mock("@/services/fetchQueue", () => ({
+	enqueueContentFetch: vi.fn(),
+}));
+
 // Mock toast hook
 vi.mock("@/hooks/use-toast", () => ({
 	useToast: () => ({
@@ -76,11 +88,16 @@ const mockUseSession = authClient.useSession as ReturnType<typeof vi.fn>;
 import * as db from "@/services/db"; // Import the mocked db module
 // Import the mocked modules AFTER mocks are set up
 import * as epubService from "@/services/epub";
+import { enqueueContentFetch } from "@/services/fetchQueue";
+import { parseArticle } from "@/services/parser";
 import * as pdfService from "@/services/pdf";
 
 // Constants
 const MOCK_USER_ID = "test-user-id";
-const MOCK_SESSION = { user: { id: MOCK_USER_ID } };
+const MOCK_SESSION = {
+	user: { id: MOCK_USER_ID },
+	session: { token: "test-session-token" },
+};
 
 describe("useArticleActions", () => {
 	const refreshArticlesMock = vi.fn().mockResolvedValue(undefined);
@@ -94,6 +111,59 @@ describe("useArticleActions", () => {
 			error: null,
 			refetch: vi.fn(),
 		});
+		vi.mocked(db.isOffline).mockReturnValue(false);
+		vi.mocked(db.isTransientError).mockReturnValue(false);
+	});
+
+	it("should save a pending placeholder without fetching while offline", async () => {
+		vi.mocked(db.isOffline).mockReturnValue(true);
+		const url = "https://example.com/post?a=1&b=2";
+
+		const { result } = renderHook(() => useArticleActions(refreshArticlesMock));
+		const savedArticle = await result.current.addArticleByUrl(url);
+
+		expect(parseArticle).not.toHaveBeenCalled();
+		expect(savedArticle).toMatchObject({
+			url,
+			title: url,
+			siteName: "example.com",
+			fetchStatus: "pending",
+			userId: MOCK_USER_ID,
+		});
+		expect(savedArticle?.content).toContain(
+			'href="https://example.com/post?a=1&amp;b=2"',
+		);
+		expect(enqueueContentFetch).toHaveBeenCalledWith(["mock-id"]);
+	});
+
+	it("should queue the article when the page can't be reached", async () => {
+		vi.mocked(parseArticle).mockRejectedValue(
+			new Error("All CORS proxies failed. Unable to fetch article content."),
+		);
+		vi.mocked(db.isTransientError).mockReturnValue(true);
+
+		const { result } = renderHook(() => useArticleActions(refreshArticlesMock));
+		const savedArticle = await result.current.addArticleByUrl(
+			"https://example.com/post",
+		);
+
+		expect(savedArticle?.fetchStatus).toBe("pending");
+		expect(enqueueContentFetch).toHaveBeenCalledWith(["mock-id"]);
+	});
+
+	it("should not save the article when parsing fails for good", async () => {
+		vi.mocked(parseArticle).mockRejectedValue(
+			new Error("Could not parse article content"),
+		);
+
+		const { result } = renderHook(() => useArticleActions(refreshArticlesMock));
+		const savedArticle = await result.current.addArticleByUrl(
+			"https://example.com/post",
+		);
+
+		expect(savedArticle).toBeNull();
+		expect(db.saveArticle).not.toHaveBeenCalled();
+		expect(enqueueContentFetch).not.toHaveBeenCalled();
 	});
 
 	it("should add PDF file with proper siteName and estimatedReadTime", async () => {
@@ -114,6 +184,10 @@ describe("useArticleActions", () => {
 		if (savedArticle) {
 			expect(savedArticle.type).toBe("pdf");
 			expect(savedArticle.userId).toBe(MOCK_USER_ID); // Check userId from mock session
+			expect(savedArticle._attachments?.file.content_type).toBe(
+				"application/pdf",
+			);
+			expect(savedArticle.fileData).toBeUndefined();
 			expect(savedArticle.fileName).toBeDefined();
 			expect(savedArticle.fileSize).toBeDefined();
 			expect(savedArticle.siteName).toBeDefined();
@@ -1,4 +1,5 @@
 import { useToast } from "@/hooks/use-toast";
+import { getPercentRead } from "@/lib/articleUtils";
 import { authClient } from "@/lib/authClient"; // Import authClient
 import { debounce } from "@/lib/utils"; // Import debounce
 import {
@@ -8,15 +9,46 @@ import {
 } from "@/services/cloudSync"; // Import cloud save and delete
 import {
 	type Article,
+	FILE_CONTENT_TYPES,
 	deleteArticle,
+	fileAttachment,
 	getArticle,
+	isOffline,
+	isTransientError,
 	removeDuplicateArticles, // Import the new function
 	saveArticle,
 	updateArticle,
 } from "@/services/db";
-import { parseArticle } from "@/services/parser";
+import { enqueueContentFetch } from "@/services/fetchQueue";
+import { isValidUrl, parseArticle } from "@/services/parser";
 import { useCallback, useMemo } from "react"; // Import useMemo
 
+type ParsedArticle = Awaited<ReturnType<typeof parseArticle>>;
+
+/**
+ * Stand-in for a parsed article, saved when the page can't be fetched yet.
+ * The fetch queue replaces the content once it can.
+ */
+function pendingArticle(url: string): ParsedArticle {
+	const href = url.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+	let siteName = "";
+	try {
+		siteName = new URL(url).hostname.replace(/^www\./, "");
+	} catch {
+		// Only valid URLs get here; keep the default just in case
+	}
+	return {
+		title: url,
+		url,
+		content: `<p>This article will be fetched once the page can be reached. <a href="${href}">Open the original</a>.</p>`,
+		excerpt: "",
+		siteName,
+		status: "inbox",
+		type: "article",
+		fetchStatus: "pending",
+	};
+}
+
 /**
  * Hook providing functions to perform actions on articles (add, update, delete).
  *
@@ -36,7 +68,7 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 					console.warn("Debounced sync skipped: User not authenticated.");
 					return;
 				}
-				saveItemToCloud(articleToSync)
+				saveItemToCloud(articleToSync, session.session.token)
 					.then((status: CloudSyncStatus) => {
 						if (status !== "success") {
 							console.warn(
@@ -68,13 +100,25 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 			}
 
 			try {
-				const parsedArticle = await parseArticle(url);
+				// Offline, or the page can't be reached right now: save the link
+				// anyway and let the fetch queue get the content later
+				let parsedArticle: ParsedArticle | null = null;
+				if (isOffline()) {
+					if (!isValidUrl(url)) throw new Error("Invalid URL");
+				} else {
+					try {
+						parsedArticle = await parseArticle(url);
+					} catch (parseError) {
+						if (!isTransientError(parseError)) throw parseError;
+						console.warn(`Could not fetch ${url}, queueing it:`, parseError);
+					}
+				}
 
 				const articleWithUser: Omit<Article, "_id" | "_rev"> & {
 					_id?: string;
 					_rev?: string;
 				} = {
-					...parsedArticle,
+					...(parsedArticle ?? pendingArticle(url)),
 					userId, // Use derived userId
 					savedAt: Date.now(),
 					status: "inbox",
@@ -86,10 +130,19 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 
 				const savedArticle = await saveArticle(articleWithUser);
 
-				toast({
-					title: "Article saved",
-					description: `"${parsedArticle.title}" has been saved.`,
-				});
+				if (parsedArticle) {
+					toast({
+						title: "Article saved",
+						description: `"${parsedArticle.title}" has been saved.`,
+					});
+				} else {
+					await enqueueContentFetch([savedArticle._id]);
+					toast({
+						title: "Saved for later",
+						description:
+							"The article's content will be fetched when the connection is back.",
+					});
+				}
 
 				await refreshArticles();
 
@@ -135,7 +188,6 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 					fileType = "epub";
 					const fileBuffer = await file.arrayBuffer();
 					const metadata = await epubModule.extractEpubMetadata(fileBuffer);
-					const base64Content = epubModule.arrayBufferToBase64(fileBuffer);
 					const estimatedReadingTime = await epubModule.getEstimatedReadingTime(
 						fileBuffer.byteLength,
 					);
@@ -144,8 +196,11 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 						userId, // Use derived userId
 						title: metadata.title || file.name.replace(/\.epub$/i, ""),
 						type: "epub",
-						fileData: base64Content,
-						content: "EPUB content is stored in fileData.",
+						_attachments: fileAttachment(
+							new Blob([fileBuffer], { type: FILE_CONTENT_TYPES.epub }),
+							FILE_CONTENT_TYPES.epub,
+						),
+						content: "EPUB content is stored as an attachment.",
 						url: `local-epub://${file.name}`,
 						savedAt: Date.now(),
 						status: "inbox",
@@ -170,7 +225,6 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 							file,
 							fileBuffer,
 						);
-						const base64Content = pdfModule.arrayBufferToBase64(fileBuffer);
 						const estimatedReadingTime =
 							await pdfModule.getEstimatedReadingTime(
 								fileBuffer.byteLength,
@@ -181,7 +235,11 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 							userId, // Use derived userId
 							title: metadata.title || file.name.replace(/\.pdf$/i, ""),
 							type: "pdf",
-							content: base64Content, // For PDFs, content might still be used? Revisit if fileData preferred.
+							_attachments: fileAttachment(
+								new Blob([fileBuffer], { type: FILE_CONTENT_TYPES.pdf }),
+								FILE_CONTENT_TYPES.pdf,
+							),
+							content: "PDF content is stored as an attachment.",
 							url: `local-pdf://${file.name}`,
 							savedAt: Date.now(),
 							status: "inbox",
@@ -207,7 +265,7 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 
 				const savedArticle = await saveArticle(articleToSave);
 
-				saveItemToCloud(savedArticle)
+				saveItemToCloud(savedArticle, session.session.token)
 					.then((status: CloudSyncStatus) => {
 						if (status === "success") {
 							console.log(
@@ -317,7 +375,7 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 
 				const updatedArticle = await updateArticle(updatePayload);
 
-				saveItemToCloud(updatedArticle)
+				saveItemToCloud(updatedArticle, session.session.token)
 					.then((status: CloudSyncStatus) => {
 						if (status === "success") {
 							console.log(
@@ -354,9 +412,67 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 		[toast, session, userId, refreshArticles], // Updated dependencies
 	);
 
-	// Update reading progress
+	// Replace the set of tag IDs on an article
+	const updateArticleTags = useCallback(
+		async (id: string, tagIds: string[]) => {
+			if (!session || !userId) {
+				toast({
+					title: "Authentication Required",
+					description: "Please sign in to tag articles.",
+					variant: "destructive",
+				});
+				return;
+			}
+
+			try {
+				const fetchedArticle = await getArticle(id);
+				if (!fetchedArticle || !fetchedArticle._rev) {
+					throw new Error(
+						"Could not retrieve article details for update. It might have been deleted.",
+					);
+				}
+				if (fetchedArticle.userId !== userId) {
+					throw new Error("Permission denied to update this article.");
+				}
+
+				const updatedArticle = await updateArticle({
+					_id: id,
+					_rev: fetchedArticle._rev,
+					tags: Array.from(new Set(tagIds)),
+				});
+
+				saveItemToCloud(updatedArticle, session.session.token)
+					.then((status: CloudSyncStatus) => {
+						if (status !== "success") {
+							console.warn(
+								`Sync for tag update ${id} failed with status: ${status}`,
+							);
+						}
+					})
+					.catch((err) => {
+						console.error(`Error syncing tag update for ${id}:`, err);
+					});
+
+				await refreshArticles();
+			} catch (err) {
+				console.error("Failed to update article tags:", err);
+				toast({
+					title: "Failed to update tags",
+					description:
+						err instanceof Error
+							? err.message
+							: "An error occurred while updating the article's tags.",
+					variant: "destructive",
+				});
+			}
+		},
+		[toast, session, userId, refreshArticles],
+	);
+
+	// Update reading progress: a percentage, or for PDFs the current page number.
+	// PDF readers also pass the real page count, which replaces any stored estimate.
 	const updateReadingProgress = useCallback(
-		async (id: string, progress: number) => {
+		async (id: string, progress: number, pageCount?: number) => {
 			// Check session and derived userId first
 			if (!session || !userId) return; // Silently fail if not signed in
 
@@ -378,7 +494,13 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 				}
 
 				const currentProgress = fetchedArticle.readingProgress ?? 0;
-				if (Math.abs(progress - currentProgress) < 1 && progress !== 100) {
+				const pageCountChanged =
+					pageCount !== undefined && pageCount !== fetchedArticle.pageCount;
+				if (
+					Math.abs(progress - currentProgress) < 1 &&
+					progress !== 100 &&
+					!pageCountChanged
+				) {
 					return;
 				}
 
@@ -387,8 +509,15 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 					_rev: fetchedArticle._rev,
 					readingProgress: progress,
 				};
+				if (pageCountChanged) {
+					updates.pageCount = pageCount;
+				}
 
-				if (progress >= 90 && !fetchedArticle.isRead) {
+				const percentRead = getPercentRead(
+					{ ...fetchedArticle, readingProgress: progress },
+					pageCount ?? fetchedArticle.pageCount,
+				);
+				if (percentRead >= 90 && !fetchedArticle.isRead) {
 					updates.isRead = true;
 					updates.readAt = Date.now();
 				}
@@ -439,7 +568,7 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 					description: "The article has been removed.",
 				});
 
-				deleteItemFromCloud(id)
+				deleteItemFromCloud(id, session.session.token)
 					.then((status: CloudSyncStatus) => {
 						if (status === "success") {
 							console.log(`Successfully triggered cloud deletion for ${id}.`);
@@ -520,6 +649,7 @@ export function useArticleActions(refreshArticles: () => Promise<void>) {
 		addArticleByUrl,
 		addArticleByFile,
 		updateArticleStatus,
+		updateArticleTags,
 		updateReadingProgress,
 		removeArticle,
 		removeDuplicateLocalArticles,
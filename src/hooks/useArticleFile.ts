@@ -0,0 +1,67 @@
+import {
+	type Article,
+	getArticleFile,
+	getArticleFileDigest,
+} from "@/services/db";
+import { base64ToArrayBuffer } from "@/services/pdf";
+import { useEffect, useState } from "react";
+
+/**
+ * Custom hook to load the binary file (PDF or EPUB) of an article for a
+ * reader. Files live in an attachment that article lists never load, so they
+ * are only read here, when a reader opens. Articles not migrated yet still
+ * carry the file as base64 `fileData`, which is decoded instead.
+ *
+ * @param article The article to load the file of, or null to load nothing.
+ * @returns The file contents (null until loaded), whether it is loading, and
+ *          the error if it could not be loaded.
+ */
+export function useArticleFile(article: Article | null) {
+	const [data, setData] = useState<ArrayBuffer | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const articleId = article?._id;
+	const legacyFileData = article?.fileData;
+	// Reload whenever the stored file itself changes, e.g. once sync downloads it
+	const digest = article ? getArticleFileDigest(article) : undefined;
+
+	useEffect(() => {
+		setData(null);
+		setError(null);
+		if (!articleId || (!digest && !legacyFileData)) {
+			setLoading(false);
+			return;
+		}
+
+		let cancelled = false;
+		setLoading(true);
+
+		const loadFile = async () => {
+			try {
+				let buffer: ArrayBuffer;
+				if (digest) {
+					const file = await getArticleFile(articleId);
+					if (!file) throw new Error("File attachment not found");
+					buffer = await file.arrayBuffer();
+				} else {
+					buffer = base64ToArrayBuffer(legacyFileData as string);
+				}
+				if (!cancelled) setData(buffer);
+			} catch (err) {
+				console.error(`Failed to load file of article ${articleId}:`, err);
+				if (!cancelled) setError("Failed to load the file for this item");
+			} finally {
+				if (!cancelled) setLoading(false);
+			}
+		};
+
+		loadFile();
+
+		return () => {
+			cancelled = true;
+		};
+	}, [articleId, digest, legacyFileData]);
+
+	return { data, loading, error };
+}
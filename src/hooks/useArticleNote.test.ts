@@ -0,0 +1,83 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useArticleNote } from "./useArticleNote";
+
+vi.mock("@/services/db", () => ({
+	getArticle: vi.fn(),
+	updateArticle: vi.fn(),
+}));
+
+const mockToast = vi.hoisted(() => vi.fn());
+vi.mock("@/hooks/use-toast", () => ({
+	useToast: () => ({
+		toast: mockToast,
+	}),
+}));
+
+import * as db from "@/services/db";
+import type { Article } from "@/services/db";
+
+const article: Article = {
+	_id: "article_1",
+	_rev: "1-abc",
+	title: "Article",
+	url: "https://example.com",
+	content: "<p>Content</p>",
+	excerpt: "",
+	savedAt: 1000,
+	isRead: false,
+	favorite: false,
+	tags: [],
+	type: "article",
+	status: "inbox",
+	note: "Stored note",
+};
+
+describe("useArticleNote", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.clearAllMocks();
+		// A progress update bumped the revision since the reader loaded
+		vi.mocked(db.getArticle).mockResolvedValue({ ...article, _rev: "2-def" });
+		vi.mocked(db.updateArticle).mockImplementation(async (update) => ({
+			...article,
+			...update,
+			_rev: "3-ghi",
+		}));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should show the stored note until it is edited", () => {
+		const { result } = renderHook(() => useArticleNote(article, vi.fn()));
+		expect(result.current.note).toBe("Stored note");
+
+		act(() => result.current.setNote("Draft"));
+		expect(result.current.note).toBe("Draft");
+	});
+
+	it("should save the latest edit against the latest revision", async () => {
+		const onSaved = vi.fn();
+		const { result } = renderHook(() => useArticleNote(article, onSaved));
+
+		act(() => {
+			result.current.setNote("First");
+			result.current.setNote("Second");
+		});
+		await act(async () => {
+			await vi.runAllTimersAsync();
+		});
+
+		expect(db.updateArticle).toHaveBeenCalledTimes(1);
+		expect(db.updateArticle).toHaveBeenCalledWith({
+			_id: "article_1",
+			_rev: "2-def",
+			note: "Second",
+		});
+		expect(onSaved).toHaveBeenCalledWith(
+			expect.objectContaining({ note: "Second", _rev: "3-ghi" }),
+		);
+	});
+});
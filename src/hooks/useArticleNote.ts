@@ -0,0 +1,78 @@
+import { useToast } from "@/hooks/use-toast";
+import { type Article, getArticle, updateArticle } from "@/services/db";
+import { debounce } from "lodash";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+/**
+ * Custom hook to edit an article's free-form note.
+ * Edits are kept in local state and saved to the database after a short pause;
+ * any pending save is flushed when the article changes or the reader closes.
+ *
+ * @param article The article the note belongs to.
+ * @param onSaved Called with the updated article after each successful save.
+ */
+export function useArticleNote(
+	article: Article | null,
+	onSaved: (updated: Article) => void,
+) {
+	const { toast } = useToast();
+	const articleId = article?._id;
+	// Unsaved draft; null means "show what is stored on the article"
+	const [draft, setDraft] = useState<string | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+	// Read through a ref so a new callback identity doesn't restart the debounce
+	const onSavedRef = useRef(onSaved);
+	onSavedRef.current = onSaved;
+
+	const saveNote = useMemo(
+		() =>
+			debounce(async (value: string) => {
+				if (!articleId) return;
+				setIsSaving(true);
+				try {
+					// Re-read the article so progress updates made meanwhile don't conflict
+					const latest = await getArticle(articleId);
+					if (!latest?._rev) {
+						throw new Error("Article not found");
+					}
+					if ((latest.note ?? "") !== value) {
+						const updated = await updateArticle({
+							_id: latest._id,
+							_rev: latest._rev,
+							note: value,
+						});
+						onSavedRef.current(updated);
+					}
+				} catch (error) {
+					console.error(`Failed to save note for article ${articleId}:`, error);
+					toast({
+						title: "Note Not Saved",
+						description: "Could not save your note. Please try again.",
+						variant: "destructive",
+					});
+				} finally {
+					setIsSaving(false);
+				}
+			}, 800),
+		[articleId, toast],
+	);
+
+	// Flush pending edits instead of dropping them
+	useEffect(() => () => void saveNote.flush(), [saveNote]);
+
+	// Start the next article from its stored note
+	useEffect(() => {
+		if (!articleId) return undefined;
+		return () => setDraft(null);
+	}, [articleId]);
+
+	const setNote = useCallback(
+		(value: string) => {
+			setDraft(value);
+			saveNote(value);
+		},
+		[saveNote],
+	);
+
+	return { note: draft ?? article?.note ?? "", setNote, isSaving };
+}
@@ -1,7 +1,7 @@
 import { authClient } from "@/lib/authClient"; // Import the actual client
-import * as cloudSync from "@/services/cloudSync";
 import type { Article } from "@/services/db"; // Import Article type
 import * as db from "@/services/db";
+import * as syncEngine from "@/services/syncEngine";
 import { renderHook, waitFor } from "@testing-library/react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { useArticleSync } from "./useArticleSync";
@@ -27,21 +27,44 @@ const mockUseSession = authClient.useSession as ReturnType<typeof vi.fn>;
 // Mock services
 vi.mock("@/services/db", () => ({
 	getAllArticles: vi.fn(),
-	saveArticle: vi.fn((article) => Promise.resolve(article)),
 }));
 
-vi.mock("@/services/cloudSync", () => ({
-	fetchCloudItems: vi.fn(),
+vi.mock("@/services/syncEngine", () => ({
+	createCloudRemote: vi.fn(() => ({})),
+	syncArticles: vi.fn(),
 }));
 
+vi.mock("@/services/collectionSync", () => ({
+	createCloudCollectionRemote: vi.fn(() => ({})),
+	syncCollections: vi.fn().mockResolvedValue({
+		pulled: 0,
+		pushed: 0,
+		failed: 0,
+	}),
+}));
+
+const EMPTY_SYNC_RESULT = {
+	pushed: 0,
+	pushedDeletes: 0,
+	pulled: 0,
+	deletedLocally: 0,
+	filesUploaded: 0,
+	filesDownloaded: 0,
+	conflictsResolved: 0,
+	conflicted: [],
+	failed: 0,
+};
+
 // Mock articleUtils (if still needed, seems unused now)
 // vi.mock("@/lib/articleUtils", () => ({ /* ... */ }));
 
 // Constants
 const MOCK_USER_ID = "test-user-id";
 const MOCK_USER_EMAIL = "test@example.com";
+const MOCK_SESSION_TOKEN = "test-session-token";
 const MOCK_SESSION = {
 	user: { id: MOCK_USER_ID, email: MOCK_USER_EMAIL /* other fields */ },
+	session: { token: MOCK_SESSION_TOKEN },
 };
 
 describe("useArticleSync", () => {
@@ -86,7 +109,7 @@ describe("useArticleSync", () => {
 			refetch: vi.fn(),
 		});
 		vi.mocked(db.getAllArticles).mockResolvedValue([]);
-		vi.mocked(cloudSync.fetchCloudItems).mockResolvedValue([]);
+		vi.mocked(syncEngine.syncArticles).mockResolvedValue(EMPTY_SYNC_RESULT);
 	});
 
 	it("should deduplicate articles that have the same ID but different savedAt", async () => {
@@ -156,7 +179,11 @@ describe("useArticleSync", () => {
 				tags: [],
 			},
 		];
-		vi.mocked(cloudSync.fetchCloudItems).mockResolvedValue(cloudArticles);
+		// The engine writes the cloud articles locally; the hook only re-reads them
+		vi.mocked(syncEngine.syncArticles).mockResolvedValue({
+			...EMPTY_SYNC_RESULT,
+			pulled: cloudArticles.length,
+		});
 
 		// Mock the second getAllArticles call after sync + save
 		const combinedArticles: Article[] = [
@@ -174,10 +201,11 @@ describe("useArticleSync", () => {
 
 		await waitFor(() => {
 			// Wait for both cache load and cloud sync to finish
-			expect(vi.mocked(cloudSync.fetchCloudItems)).toHaveBeenCalledTimes(1);
-			expect(vi.mocked(db.saveArticle)).toHaveBeenCalledTimes(
-				cloudArticles.length,
-			); // Ensure cloud articles were saved
+			expect(vi.mocked(syncEngine.syncArticles)).toHaveBeenCalledTimes(1);
+			expect(vi.mocked(syncEngine.createCloudRemote)).toHaveBeenCalledWith(
+				MOCK_SESSION_TOKEN,
+				MOCK_USER_EMAIL,
+			);
 			expect(vi.mocked(db.getAllArticles)).toHaveBeenCalledTimes(2); // Initial load + load after sync
 			expect(result.current.isLoading).toBe(false);
 			expect(result.current.isRefreshing).toBe(false); // Refresh should complete
@@ -211,13 +239,13 @@ describe("useArticleSync", () => {
 		});
 
 		expect(vi.mocked(db.getAllArticles)).not.toHaveBeenCalled(); // Shouldn't load cache if not signed in
-		expect(vi.mocked(cloudSync.fetchCloudItems)).not.toHaveBeenCalled(); // Shouldn't sync if not signed in
+		expect(vi.mocked(syncEngine.syncArticles)).not.toHaveBeenCalled(); // Shouldn't sync if not signed in
 		expect(result.current.articles).toEqual([]); // Articles should be empty
 	});
 
 	it("should handle error during cloud sync", async () => {
 		const syncError = new Error("Cloud sync failed!");
-		vi.mocked(cloudSync.fetchCloudItems).mockRejectedValue(syncError);
+		vi.mocked(syncEngine.syncArticles).mockRejectedValue(syncError);
 		vi.mocked(db.getAllArticles).mockResolvedValueOnce(mockArticles); // Load from cache successfully
 
 		const { result } = renderHook(() => useArticleSync(true));
@@ -231,6 +259,6 @@ describe("useArticleSync", () => {
 		});
 
 		expect(vi.mocked(db.getAllArticles)).toHaveBeenCalledTimes(1); // Only initial cache load
-		expect(vi.mocked(cloudSync.fetchCloudItems)).toHaveBeenCalledTimes(1);
+		expect(vi.mocked(syncEngine.syncArticles)).toHaveBeenCalledTimes(1);
 	});
 });
@@ -1,7 +1,11 @@
 import { useToast } from "@/hooks/use-toast";
 import { authClient } from "@/lib/authClient"; // Import authClient
-import { fetchCloudItems } from "@/services/cloudSync"; // Assuming this service uses authClient.$fetch internally now
-import { type Article, getAllArticles, saveArticle } from "@/services/db";
+import {
+	createCloudCollectionRemote,
+	syncCollections,
+} from "@/services/collectionSync";
+import { type Article, getAllArticles } from "@/services/db";
+import { createCloudRemote, syncArticles } from "@/services/syncEngine";
 import { useCallback, useEffect, useRef, useState } from "react";
 
 // Deduplicates articles based on _id, keeping the one with the latest savedAt timestamp.
@@ -44,6 +48,7 @@ export function useArticleSync(isInitialized: boolean) {
 
 	const userId = session?.user?.id; // Derive userId from session
 	const userEmail = session?.user?.email; // Derive email from session
+	const sessionToken = session?.session?.token; // Sent to the worker API as the Bearer token
 
 	// --- Internal Core Logic Functions (Wrapped in useCallback) ---
 
@@ -136,75 +141,43 @@ export function useArticleSync(isInitialized: boolean) {
 
 			try {
 				console.log("Sync Hook: Starting sync with cloud...");
-				// No need to get token explicitly if fetchCloudItems uses authClient.$fetch
-				// const token = await authClient.getAccessToken(); // Removed
-				// if (!token) { // Removed
-				// 	throw new Error("Could not retrieve authentication token for sync."); // Removed
-				// } // Removed
-
-				// Ensure userEmail is available before syncing
-				if (!userEmail) {
-					throw new Error("User email is not available for cloud sync.");
+				// Ensure the session token is available before syncing
+				if (!sessionToken) {
+					throw new Error("Session token is not available for cloud sync.");
 				}
-				// Pass derived userEmail
-				const fetchedArticles = await fetchCloudItems(userEmail);
+				// Push local changes, then pull remote ones
+				const syncResult = await syncArticles({
+					userId,
+					remote: createCloudRemote(sessionToken, userEmail),
+				});
+				// Smart collections ride along; their failure doesn't fail the round
+				await syncCollections({
+					userId,
+					remote: createCloudCollectionRemote(sessionToken),
+				}).catch((collectionErr) =>
+					console.error(
+						"Sync Hook: Failed to sync collections:",
+						collectionErr,
+					),
+				);
 				syncInProgress = false;
 				if (syncTimeoutId) clearTimeout(syncTimeoutId);
 
 				console.log(
-					`Sync Hook: Synced ${fetchedArticles.length} articles from cloud for user ${userId} / ${userEmail}`,
+					`Sync Hook: Synced with cloud for user ${userId} / ${userEmail}: pushed ${syncResult.pushed}, pulled ${syncResult.pulled}, deleted ${syncResult.deletedLocally} locally`,
 				);
-
-				const completeArticles = fetchedArticles.filter((article) => {
-					const hasEssentialFields =
-						article.title && article.url && article.content;
-					if (!hasEssentialFields) {
-						console.warn(
-							`Sync Hook: Skipping save for incomplete article ${article._id} (missing title, url, or content)`,
-						);
-					}
-					return hasEssentialFields;
-				});
-
-				if (completeArticles.length > 0) {
-					console.log(
-						`Sync Hook: Attempting to save/update ${completeArticles.length} complete synced articles locally...`,
+				if (syncResult.conflicted.length > 0) {
+					console.warn(
+						"Sync Hook: Articles with unresolved conflicts:",
+						syncResult.conflicted,
 					);
-					for (const article of completeArticles) {
-						try {
-							const articleToSave = { ...article, userId };
-
-							if (articleToSave.type === "epub") {
-								if (
-									!articleToSave.fileData &&
-									articleToSave.content &&
-									articleToSave.content.length > 100
-								) {
-									console.warn(
-										`Sync Hook: Migrating EPUB ${articleToSave._id} from content to fileData during cloud sync.`,
-									);
-									articleToSave.fileData = articleToSave.content;
-									articleToSave.content =
-										"EPUB content migrated from content field.";
-								} else if (articleToSave.fileData) {
-									articleToSave.content = "EPUB content is stored in fileData.";
-								} else {
-									console.warn(
-										`Sync Hook: EPUB ${articleToSave._id} from cloud is missing fileData.`,
-									);
-								}
-							}
-							await saveArticle(articleToSave);
-						} catch (saveErr) {
-							console.warn(
-								`Sync Hook: Failed to save/update synced article ${article._id} locally:`,
-								saveErr,
-							);
-						}
+					if (isMounted) {
+						toast({
+							title: "Sync Conflicts",
+							description: `${syncResult.conflicted.length} article(s) have conflicting edits that could not be merged. They will be retried on the next sync.`,
+							variant: "destructive",
+						});
 					}
-					console.log(
-						"Sync Hook: Finished saving/updating synced articles locally.",
-					);
 				}
 
 				console.log(
@@ -267,7 +240,7 @@ export function useArticleSync(isInitialized: boolean) {
 				}
 			}
 		},
-		[session, userId, userEmail, toast], // Removed explicit token dependency
+		[session, userId, userEmail, sessionToken, toast],
 	);
 
 	// --- Main Load and Sync Effect ---
@@ -1,7 +1,15 @@
 import { authClient } from "@/lib/authClient"; // Import authClient
+import {
+	MAX_AI_CONTENT_CHARS,
+	chunkText,
+	pickRelevantChunks,
+} from "@/lib/textChunks";
 import { useMutation } from "@tanstack/react-query";
 import { useCallback, useEffect, useRef, useState } from "react";
 
+// Size of the parts of long content to choose from; small enough that several fit
+const CHAT_CHUNK_CHARS = MAX_AI_CONTENT_CHARS / 10;
+
 export type ChatMessage = {
 	sender: "user" | "ai";
 	text: string;
@@ -41,7 +49,14 @@ export function useChat(fullTextContent: string | null) {
 			const response = await authClient.$fetch(chatApiUrl, {
 				method: "POST",
 				body: {
-					content: fullTextContent,
+					// Too long to send whole (e.g. a book): send the parts about the question
+					content:
+						fullTextContent.length > MAX_AI_CONTENT_CHARS
+							? pickRelevantChunks(
+									chunkText(fullTextContent, CHAT_CHUNK_CHARS),
+									userMessage,
+								)
+							: fullTextContent,
 					message: userMessage,
 				},
 				// $fetch handles auth headers
@@ -0,0 +1,138 @@
+import { useToast } from "@/hooks/use-toast";
+import { authClient } from "@/lib/authClient";
+import { saveCollectionToCloud } from "@/services/cloudSync";
+import {
+	type CollectionInput,
+	type SmartCollection,
+	collectionsDb,
+	deleteCollection,
+	getAllCollections,
+	saveCollection,
+	updateCollection,
+} from "@/services/db";
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Custom hook to load and manage smart collections.
+ * The list follows the collections database, so edits made elsewhere (another
+ * component, or a sync round) show up without a reload. Local edits are pushed
+ * to the cloud right away when signed in; the next sync round retries failures.
+ */
+export function useCollections() {
+	const { toast } = useToast();
+	const { data: session } = authClient.useSession();
+	const userId = session?.user?.id;
+	const userEmail = session?.user?.email;
+	const [collections, setCollections] = useState<SmartCollection[]>([]);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		let cancelled = false;
+		const loadCollections = async () => {
+			const loaded = await getAllCollections();
+			if (!cancelled) {
+				setCollections(loaded);
+				setLoading(false);
+			}
+		};
+		loadCollections();
+
+		const changes = collectionsDb
+			.changes({ since: "now", live: true })
+			.on("change", () => {
+				loadCollections();
+			})
+			.on("error", (err) => {
+				console.error("Collections changes feed failed:", err);
+			});
+		return () => {
+			cancelled = true;
+			changes.cancel();
+		};
+	}, []);
+
+	// Best effort; the worker API takes the email as token
+	const pushToCloud = useCallback(
+		(collection: SmartCollection) => {
+			if (!userEmail) return;
+			saveCollectionToCloud(collection, userEmail).catch((error) => {
+				console.error(`Failed to push collection ${collection._id}:`, error);
+			});
+		},
+		[userEmail],
+	);
+
+	const createCollection = useCallback(
+		async (input: CollectionInput): Promise<SmartCollection | null> => {
+			try {
+				const saved = await saveCollection(input, userId);
+				pushToCloud(saved);
+				return saved;
+			} catch (error) {
+				console.error("Failed to save collection:", error);
+				toast({
+					title: "Failed to save collection",
+					description:
+						error instanceof Error
+							? error.message
+							: "Could not save the collection.",
+					variant: "destructive",
+				});
+				return null;
+			}
+		},
+		[userId, pushToCloud, toast],
+	);
+
+	const editCollection = useCallback(
+		async (
+			id: string,
+			updates: Partial<CollectionInput>,
+		): Promise<SmartCollection | null> => {
+			try {
+				const updated = await updateCollection(id, updates);
+				pushToCloud(updated);
+				return updated;
+			} catch (error) {
+				console.error("Failed to update collection:", error);
+				toast({
+					title: "Failed to update collection",
+					description:
+						error instanceof Error
+							? error.message
+							: "Could not update the collection.",
+					variant: "destructive",
+				});
+				return null;
+			}
+		},
+		[pushToCloud, toast],
+	);
+
+	const removeCollection = useCallback(
+		async (id: string): Promise<boolean> => {
+			try {
+				const tombstone = await deleteCollection(id);
+				pushToCloud(tombstone);
+				return true;
+			} catch (error) {
+				console.error("Failed to delete collection:", error);
+				toast({
+					title: "Failed to delete collection",
+					description: "Could not delete the collection.",
+					variant: "destructive",
+				});
+				return false;
+			}
+		},
+		[pushToCloud, toast],
+	);
+
+	return {
+		collections,
+		loading,
+		createCollection,
+		editCollection,
+		removeCollection,
+	};
+}
@@ -1,7 +1,33 @@
 import { useToast } from "@/hooks/use-toast";
-import { initializeDatabase } from "@/services/db";
+import {
+	initializeDatabase,
+	migrateFileDataToAttachments,
+	resolveAllArticleConflicts,
+} from "@/services/db";
+import { resumePendingContentFetches } from "@/services/fetchQueue";
+import { startSearchIndex } from "@/services/search";
 import { useEffect, useState } from "react";
 
+/**
+ * Runs the background jobs that follow database initialization. The file
+ * migration rewrites articles, so it finishes before the jobs that also
+ * write to the articles database start.
+ */
+async function runStartupJobs() {
+	// Move files saved by older versions out of the article documents
+	await migrateFileDataToAttachments().catch((migrationError) =>
+		console.error("Failed to move file data into attachments:", migrationError),
+	);
+	// Bring the search index up to date in the background
+	startSearchIndex();
+	// Finish fetching content for articles imported in an earlier session
+	void resumePendingContentFetches();
+	// Merge conflicting revisions left by other tabs or earlier sessions
+	resolveAllArticleConflicts().catch((conflictError) =>
+		console.error("Failed to resolve article conflicts:", conflictError),
+	);
+}
+
 /**
  * Hook to handle database initialization.
  * Returns the initialization status and any initialization error.
@@ -24,6 +50,8 @@ export function useDatabaseInit() {
 				const result = await initializeDatabase();
 				console.log("Database initialization result:", result);
 
+				void runStartupJobs();
+
 				if (isMounted) {
 					setIsInitialized(true);
 					setDbError(null); // Clear any previous error
@@ -0,0 +1,116 @@
+import { useToast } from "@/hooks/use-toast";
+import {
+	type Article,
+	type Bookmark,
+	getArticle,
+	updateArticle,
+} from "@/services/db";
+import { debounce } from "lodash";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+
+/**
+ * Custom hook to keep an EPUB's reading position and bookmarks on the article.
+ * The position is saved after the reader settles on a location, so the book
+ * reopens where it was left; pending saves are flushed when the reader closes.
+ *
+ * @param article The EPUB article.
+ * @param onSaved Called with the updated article after each successful save.
+ */
+export function useEpubPosition(
+	article: Article | null,
+	onSaved: (updated: Article) => void,
+) {
+	const { toast } = useToast();
+	const articleId = article?._id;
+	// Read through a ref so a new callback identity doesn't restart the debounce
+	const onSavedRef = useRef(onSaved);
+	onSavedRef.current = onSaved;
+
+	// Re-reads the article so edits made meanwhile (progress, notes) don't conflict
+	const saveChanges = useCallback(
+		async (
+			changes: (
+				latest: Article,
+			) => Partial<Pick<Article, "readingLocation" | "bookmarks">> | null,
+		) => {
+			if (!articleId) return;
+			const latest = await getArticle(articleId);
+			if (!latest?._rev) {
+				throw new Error("Article not found");
+			}
+			const updates = changes(latest);
+			if (!updates) return;
+			const updated = await updateArticle({
+				_id: latest._id,
+				_rev: latest._rev,
+				...updates,
+			});
+			onSavedRef.current(updated);
+		},
+		[articleId],
+	);
+
+	const saveLocation = useMemo(
+		() =>
+			debounce(async (cfi: string) => {
+				try {
+					await saveChanges((latest) =>
+						latest.readingLocation === cfi ? null : { readingLocation: cfi },
+					);
+				} catch (error) {
+					// Not worth interrupting reading for; the next page turn retries
+					console.error(
+						`Failed to save reading position for article ${articleId}:`,
+						error,
+					);
+				}
+			}, 1000),
+		[articleId, saveChanges],
+	);
+
+	// Flush the last position instead of dropping it
+	useEffect(() => () => void saveLocation.flush(), [saveLocation]);
+
+	const saveBookmarks = useCallback(
+		async (update: (bookmarks: Bookmark[]) => Bookmark[]) => {
+			try {
+				await saveChanges((latest) => ({
+					bookmarks: update(latest.bookmarks ?? []),
+				}));
+			} catch (error) {
+				console.error(
+					`Failed to save bookmarks for article ${articleId}:`,
+					error,
+				);
+				toast({
+					title: "Bookmark Not Saved",
+					description: "Could not update your bookmarks. Please try again.",
+					variant: "destructive",
+				});
+			}
+		},
+		[articleId, saveChanges, toast],
+	);
+
+	const addBookmark = useCallback(
+		(bookmark: Omit<Bookmark, "createdAt">) =>
+			saveBookmarks((bookmarks) => [
+				...bookmarks.filter((b) => b.cfi !== bookmark.cfi),
+				{ ...bookmark, createdAt: Date.now() },
+			]),
+		[saveBookmarks],
+	);
+
+	const removeBookmark = useCallback(
+		(cfi: string) =>
+			saveBookmarks((bookmarks) => bookmarks.filter((b) => b.cfi !== cfi)),
+		[saveBookmarks],
+	);
+
+	return {
+		bookmarks: article?.bookmarks ?? [],
+		saveLocation,
+		addBookmark,
+		removeBookmark,
+	};
+}
@@ -0,0 +1,103 @@
+import { authClient } from "@/lib/authClient";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useHighlights } from "./useHighlights";
+
+vi.mock("@/services/db", () => ({
+	getHighlightsByArticle: vi.fn(),
+	saveHighlight: vi.fn(),
+	updateHighlight: vi.fn(),
+	deleteHighlight: vi.fn(),
+}));
+
+vi.mock("@/hooks/use-toast", () => ({
+	useToast: () => ({
+		toast: vi.fn(),
+	}),
+}));
+
+vi.mock("@/lib/authClient", () => ({
+	authClient: {
+		useSession: vi.fn(),
+	},
+}));
+
+import * as db from "@/services/db";
+import { createHighlight } from "@/test-utils/dbFixtures";
+
+const mockUseSession = authClient.useSession as ReturnType<typeof vi.fn>;
+
+describe("useHighlights", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockUseSession.mockReturnValue({ data: { user: { id: "test-user" } } });
+		vi.mocked(db.getHighlightsByArticle).mockResolvedValue([
+			createHighlight("highlight_2", { _rev: "1-abc", createdAt: 2000 }),
+			createHighlight("highlight_1", { _rev: "1-abc", createdAt: 1000 }),
+		]);
+	});
+
+	it("should load highlights oldest first", async () => {
+		const { result } = renderHook(() => useHighlights("article_1"));
+
+		await waitFor(() => expect(result.current.loading).toBe(false));
+		expect(result.current.highlights.map((h) => h._id)).toEqual([
+			"highlight_1",
+			"highlight_2",
+		]);
+	});
+
+	it("should save a new highlight for the article and user", async () => {
+		const saved = createHighlight("highlight_3", {
+			_rev: "1-abc",
+			createdAt: 3000,
+		});
+		vi.mocked(db.saveHighlight).mockResolvedValue(saved);
+		const { result } = renderHook(() => useHighlights("article_1"));
+		await waitFor(() => expect(result.current.loading).toBe(false));
+
+		await act(async () => {
+			await result.current.addHighlight({
+				text: saved.text,
+				color: saved.color,
+				position: { start: 0, end: 6, prefix: "", suffix: " more" },
+			});
+		});
+
+		expect(db.saveHighlight).toHaveBeenCalledWith(
+			expect.objectContaining({
+				articleId: "article_1",
+				userId: "test-user",
+				tags: [],
+			}),
+		);
+		expect(result.current.highlights).toHaveLength(3);
+	});
+
+	it("should update and remove highlights in local state", async () => {
+		const { result } = renderHook(() => useHighlights("article_1"));
+		await waitFor(() => expect(result.current.loading).toBe(false));
+		const [first, second] = result.current.highlights;
+		vi.mocked(db.updateHighlight).mockResolvedValue({
+			...first,
+			_rev: "2-def",
+			note: "A note",
+		});
+		vi.mocked(db.deleteHighlight).mockResolvedValue(true);
+
+		await act(async () => {
+			await result.current.editHighlight(first, { note: "A note" });
+			await result.current.removeHighlight(second);
+		});
+
+		expect(db.updateHighlight).toHaveBeenCalledWith({
+			_id: first._id,
+			_rev: first._rev,
+			note: "A note",
+		});
+		expect(db.deleteHighlight).toHaveBeenCalledWith(second._id, second._rev);
+		expect(result.current.highlights).toEqual([
+			expect.objectContaining({ _id: first._id, note: "A note" }),
+		]);
+	});
+});
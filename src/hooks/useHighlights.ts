@@ -0,0 +1,133 @@
+import { useToast } from "@/hooks/use-toast";
+import { authClient } from "@/lib/authClient";
+import {
+	type Highlight,
+	deleteHighlight,
+	getHighlightsByArticle,
+	saveHighlight,
+	updateHighlight,
+} from "@/services/db";
+import { useCallback, useEffect, useState } from "react";
+
+/** Data needed to create a highlight; the hook fills in article, user and tags. */
+export type NewHighlight = Pick<Highlight, "text" | "color" | "position"> & {
+	note?: string;
+};
+
+/**
+ * Custom hook to load and manage the highlights of a single article.
+ * Keeps a local list in sync with the highlights database.
+ *
+ * @param articleId The ID of the article whose highlights are managed.
+ */
+export function useHighlights(articleId: string | undefined) {
+	const { toast } = useToast();
+	const { data: session } = authClient.useSession();
+	const userId = session?.user?.id;
+	const [highlights, setHighlights] = useState<Highlight[]>([]);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		let cancelled = false;
+		const loadHighlights = async () => {
+			if (!articleId) {
+				setHighlights([]);
+				setLoading(false);
+				return;
+			}
+			setLoading(true);
+			const loaded = await getHighlightsByArticle(articleId);
+			if (!cancelled) {
+				// Oldest first so lists read in the order they were made
+				setHighlights(loaded.sort((a, b) => a.createdAt - b.createdAt));
+				setLoading(false);
+			}
+		};
+		loadHighlights();
+		return () => {
+			cancelled = true;
+		};
+	}, [articleId]);
+
+	const addHighlight = useCallback(
+		async (data: NewHighlight): Promise<Highlight | null> => {
+			if (!articleId) return null;
+			try {
+				const saved = await saveHighlight({
+					...data,
+					articleId,
+					tags: [],
+					userId,
+				});
+				setHighlights((prev) => [...prev, saved]);
+				return saved;
+			} catch (error) {
+				console.error("Failed to save highlight:", error);
+				toast({
+					title: "Highlight Failed",
+					description: "Could not save the highlight.",
+					variant: "destructive",
+				});
+				return null;
+			}
+		},
+		[articleId, userId, toast],
+	);
+
+	const editHighlight = useCallback(
+		async (
+			highlight: Highlight,
+			updates: Partial<Pick<Highlight, "note" | "color">>,
+		): Promise<Highlight | null> => {
+			if (!highlight._rev) return null;
+			try {
+				const updated = await updateHighlight({
+					...updates,
+					_id: highlight._id,
+					_rev: highlight._rev,
+				});
+				setHighlights((prev) =>
+					prev.map((h) => (h._id === updated._id ? updated : h)),
+				);
+				return updated;
+			} catch (error) {
+				console.error(`Failed to update highlight ${highlight._id}:`, error);
+				toast({
+					title: "Update Failed",
+					description: "Could not update the highlight.",
+					variant: "destructive",
+				});
+				return null;
+			}
+		},
+		[toast],
+	);
+
+	const removeHighlight = useCallback(
+		async (highlight: Highlight): Promise<boolean> => {
+			if (!highlight._rev) return false;
+			try {
+				await deleteHighlight(highlight._id, highlight._rev);
+				setHighlights((prev) => prev.filter((h) => h._id !== highlight._id));
+				return true;
+			} catch (error) {
+				console.error(`Failed to delete highlight ${highlight._id}:`, error);
+				toast({
+					title: "Delete Failed",
+					description: "Could not delete the highlight.",
+					variant: "destructive",
+				});
+				return false;
+			}
+		},
+		[toast],
+	);
+
+	return {
+		highlights,
+		loading,
+		addHighlight,
+		editHighlight,
+		removeHighlight,
+	};
+}
@@ -131,6 +131,31 @@ describe("useSummarize Hook", () => {
 		);
 	});
 
+	it("should summarize content too long for one request in parts", async () => {
+		const { result } = renderHook(() => useSummarize(), { wrapper });
+		const paragraph = "A long paragraph of the book. ".repeat(1000).trim();
+		const bookText = Array(3).fill(paragraph).join("\n\n"); // Over the request limit
+		mockFetch
+			.mockResolvedValueOnce({ summary: "Part one." })
+			.mockResolvedValueOnce({ summary: "Part two." })
+			.mockResolvedValueOnce({ summary: MOCK_SUMMARY });
+
+		act(() => {
+			result.current.summarize(bookText);
+		});
+
+		await waitFor(() => {
+			expect(result.current.summary).toBe(MOCK_SUMMARY);
+		});
+		expect(mockFetch).toHaveBeenCalledTimes(3);
+		expect(mockFetch).toHaveBeenLastCalledWith(
+			"/api/summarize",
+			expect.objectContaining({
+				body: { content: "Part one.\n\nPart two." },
+			}),
+		);
+	});
+
 	it("should handle API error from $fetch", async () => {
 		const mockError = new Error("Mock API Error");
 		mockFetch.mockRejectedValue(mockError); // Simulate fetch failure
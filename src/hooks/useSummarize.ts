@@ -1,7 +1,53 @@
 import { authClient } from "@/lib/authClient"; // Import authClient
+import { chunkText } from "@/lib/textChunks";
 import { useMutation } from "@tanstack/react-query";
 import { useState } from "react";
 
+/**
+ * Summarizes content with a single request to the worker's summarize endpoint.
+ */
+async function requestSummary(fullTextContent: string): Promise<string> {
+	console.log("Calling Cloudflare Worker proxy for summarize...");
+
+	// Use authClient.$fetch - it should handle auth automatically
+	const response = await authClient.$fetch(
+		// URL should be relative to the baseURL configured in authClient
+		// Assuming baseURL is "https://bondwise-sync-api.vikione.workers.dev"
+		"/api/summarize",
+		{
+			method: "POST",
+			body: { content: fullTextContent }, // Send content in body
+			// $fetch handles headers like Content-Type and Authorization
+		},
+	);
+
+	// $fetch likely throws on error, but check response just in case
+	// Depending on $fetch config, 'response' might already be the parsed JSON data
+	let data: { summary?: string; message?: string; error?: string };
+	if (response instanceof Response) {
+		// If $fetch returned the raw Response object
+		data = await response.json();
+		if (!response.ok) {
+			throw new Error(
+				data?.message ||
+					data?.error ||
+					`Request failed with status ${response.status}`,
+			);
+		}
+	} else {
+		// If $fetch returned parsed data directly
+		data = response as any; // Assume structure matches
+	}
+
+	if (!data.summary) {
+		throw new Error(
+			"Invalid response from summarization service (missing summary).",
+		);
+	}
+
+	return data.summary;
+}
+
 /**
  * Custom hook to handle article summarization via API calls.
  * Manages loading state, error handling, and the resulting summary.
@@ -22,45 +68,19 @@ export function useSummarize() {
 				throw new Error("Article content not available for summarization.");
 			}
 
-			console.log("Calling Cloudflare Worker proxy for summarize...");
-
-			// Use authClient.$fetch - it should handle auth automatically
-			const response = await authClient.$fetch(
-				// URL should be relative to the baseURL configured in authClient
-				// Assuming baseURL is "https://bondwise-sync-api.vikione.workers.dev"
-				"/api/summarize",
-				{
-					method: "POST",
-					body: { content: fullTextContent }, // Send content in body
-					// $fetch handles headers like Content-Type and Authorization
-				},
-			);
-
-			// $fetch likely throws on error, but check response just in case
-			// Depending on $fetch config, 'response' might already be the parsed JSON data
-			let data: { summary?: string; message?: string; error?: string };
-			if (response instanceof Response) {
-				// If $fetch returned the raw Response object
-				data = await response.json();
-				if (!response.ok) {
-					throw new Error(
-						data?.message ||
-							data?.error ||
-							`Request failed with status ${response.status}`,
-					);
-				}
-			} else {
-				// If $fetch returned parsed data directly
-				data = response as any; // Assume structure matches
+			const chunks = chunkText(fullTextContent);
+			if (chunks.length <= 1) {
+				return requestSummary(fullTextContent);
 			}
 
-			if (!data.summary) {
-				throw new Error(
-					"Invalid response from summarization service (missing summary).",
-				);
+			// Too long for one request (e.g. a whole book): summarize each part,
+			// then summarize the summaries
+			console.log(`Summarizing long content in ${chunks.length} parts...`);
+			const partSummaries: string[] = [];
+			for (const chunk of chunks) {
+				partSummaries.push(await requestSummary(chunk));
 			}
-
-			return data.summary;
+			return requestSummary(partSummaries.join("\n\n"));
 		},
 		onMutate: () => {
 			setIsSummarizing(true);
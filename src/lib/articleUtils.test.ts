@@ -3,6 +3,7 @@ import type { ArticleFilters, SortCriteria } from "@/types/articles";
 import { describe, expect, it } from "vitest";
 import {
 	filterArticles,
+	getPercentRead,
 	getUniqueArticleTypes,
 	getUniqueSiteNames,
 	sortArticles,
@@ -385,4 +386,21 @@ describe("articleUtils", () => {
 			expect(result).toEqual([]);
 		});
 	});
+
+	describe("getPercentRead", () => {
+		it("should read progress as a percentage for articles and EPUBs", () => {
+			expect(getPercentRead({ type: "epub", readingProgress: 42 })).toBe(42);
+			expect(getPercentRead({ type: "article", readingProgress: 120 })).toBe(
+				100,
+			);
+			expect(getPercentRead({ type: "article" })).toBe(0);
+		});
+
+		it("should read PDF progress as a page of the page count", () => {
+			const pdf = { type: "pdf" as const, readingProgress: 5, pageCount: 20 };
+			expect(getPercentRead(pdf)).toBe(25);
+			expect(getPercentRead(pdf, 10)).toBe(50);
+			expect(getPercentRead({ type: "pdf", readingProgress: 5 })).toBe(0);
+		});
+	});
 });
@@ -1,6 +1,20 @@
 import type { Article } from "@/services/db";
 import type { ArticleFilters, SortCriteria } from "@/types/articles";
 
+/**
+ * Splits a search query into words, keeping double-quoted phrases whole.
+ * @param query - The search query.
+ * @returns The non-empty words and phrases, without quotes.
+ */
+export function splitSearchTerms(query: string): string[] {
+	const terms: string[] = [];
+	for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+		const term = (match[1] ?? match[2]).trim();
+		if (term) terms.push(term);
+	}
+	return terms;
+}
+
 /**
  * Filters an array of articles based on the provided criteria.
  * @param articles - The array of articles to filter.
@@ -12,14 +26,15 @@ export function filterArticles(
 	filters: ArticleFilters,
 ): Article[] {
 	const { siteNames, types, tags, searchQuery } = filters;
-	const query = searchQuery.toLowerCase().trim();
+	const terms = splitSearchTerms(searchQuery.toLowerCase());
 
 	return articles.filter((article) => {
-		// Filter by search query (title, excerpt, siteName)
-		if (query) {
-			const titleMatch = article.title?.toLowerCase().includes(query);
-			const excerptMatch = article.excerpt?.toLowerCase().includes(query);
-			const siteNameMatch = article.siteName?.toLowerCase().includes(query);
+		// Filter by search query: every word or quoted phrase must appear in
+		// the title, excerpt or siteName
+		for (const term of terms) {
+			const titleMatch = article.title?.toLowerCase().includes(term);
+			const excerptMatch = article.excerpt?.toLowerCase().includes(term);
+			const siteNameMatch = article.siteName?.toLowerCase().includes(term);
 			if (!titleMatch && !excerptMatch && !siteNameMatch) {
 				return false;
 			}
@@ -95,6 +110,54 @@ export function sortArticles(
 	return sortedArticles;
 }
 
+/**
+ * Checks whether a URL is the identifier of an uploaded PDF or EPUB
+ * (`local-pdf://name.pdf`), which doesn't point anywhere on the web.
+ * @param url - The article's URL.
+ * @returns True for local file identifiers.
+ */
+export function isLocalFileUrl(url: string): boolean {
+	return /^local-(pdf|epub):\/\//.test(url);
+}
+
+/**
+ * Reduces a URL to the form used for duplicate detection: no fragment, no
+ * `www.`, no trailing slash and no tracking parameters.
+ */
+export function getUrlKey(url: string): string {
+	try {
+		const parsed = new URL(url.trim());
+		parsed.hash = "";
+		parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, "");
+		for (const param of Array.from(parsed.searchParams.keys())) {
+			if (/^(utm_|fbclid$|gclid$|mc_)/i.test(param)) {
+				parsed.searchParams.delete(param);
+			}
+		}
+		const path = parsed.pathname.replace(/\/+$/, "");
+		return `${parsed.protocol}//${parsed.host}${path}${parsed.search}`;
+	} catch {
+		return url.trim();
+	}
+}
+
+/**
+ * The keys an article is found under when looking for duplicates: its URL
+ * and, when the page declared one, its canonical URL.
+ * @param article - The article.
+ * @returns One or two keys, as made by getUrlKey.
+ */
+export function getArticleUrlKeys(
+	article: Pick<Article, "url" | "canonicalUrl">,
+): string[] {
+	const keys = [getUrlKey(article.url)];
+	if (article.canonicalUrl) {
+		const canonical = getUrlKey(article.canonicalUrl);
+		if (canonical !== keys[0]) keys.push(canonical);
+	}
+	return keys;
+}
+
 /**
  * Extracts unique site names from a list of articles.
  * @param articles - The array of articles.
@@ -127,3 +190,23 @@ export function getUniqueArticleTypes(articles: Article[]): Article["type"][] {
 		(a, b) => typeOrder.indexOf(a) - typeOrder.indexOf(b),
 	);
 }
+
+/**
+ * How much of an article has been read, as a percentage. PDFs store the
+ * current page as their progress; everything else stores a percentage.
+ * @param article - The article.
+ * @param pageCount - The PDF's page count, if newer than the stored one.
+ * @returns The percentage read, from 0 to 100.
+ */
+export function getPercentRead(
+	article: Pick<Article, "type" | "readingProgress" | "pageCount">,
+	pageCount = article.pageCount,
+): number {
+	const progress = article.readingProgress ?? 0;
+	if (article.type !== "pdf") {
+		return Math.min(100, Math.max(0, progress));
+	}
+	if (!pageCount) return 0;
+	// Reaching the last page counts as having read the whole PDF
+	return Math.min(100, Math.max(0, (progress / pageCount) * 100));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+	compareCfi,
+	isCfi,
+	joinCfiRange,
+	splitCfiRange,
+} from "./epubAnchoring";
+
+describe("lib/epubAnchoring", () => {
+	it("should recognise CFIs", () => {
+		expect(isCfi("epubcfi(/6/4!/4/2/1:0)")).toBe(true);
+		expect(isCfi(12)).toBe(false);
+		expect(isCfi("/6/4")).toBe(false);
+	});
+
+	describe("splitCfiRange and joinCfiRange", () => {
+		it("should round-trip a range through its two ends", () => {
+			const range = "epubcfi(/6/4[chap01]!/4/2,/1:12,/3:5)";
+
+			const ends = splitCfiRange(range);
+
+			expect(ends).toEqual({
+				start: "epubcfi(/6/4[chap01]!/4/2/1:12)",
+				end: "epubcfi(/6/4[chap01]!/4/2/3:5)",
+			});
+			expect(ends && joinCfiRange(ends.start, ends.end)).toBe(range);
+		});
+
+		it("should join points in different paragraphs of a chapter", () => {
+			expect(
+				joinCfiRange("epubcfi(/6/8!/4/2/1:3)", "epubcfi(/6/8!/4/6/1:9)"),
+			).toBe("epubcfi(/6/8!/4,/2/1:3,/6/1:9)");
+		});
+
+		it("should refuse ranges across chapters and non-ranges", () => {
+			expect(
+				joinCfiRange("epubcfi(/6/4!/4/2/1:0)", "epubcfi(/6/6!/4/2/1:0)"),
+			).toBeNull();
+			expect(splitCfiRange("epubcfi(/6/4!/4/2/1:0)")).toBeNull();
+		});
+	});
+
+	describe("compareCfi", () => {
+		it("should order by position in the book, not alphabetically", () => {
+			const cfis = [
+				"epubcfi(/6/10!/4/2/1:0)",
+				"epubcfi(/6/8!/4/2/1:30)",
+				"epubcfi(/6/8!/4,/2/1:5,/2/1:9)",
+			];
+
+			expect([...cfis].sort(compareCfi)).toEqual([
+				"epubcfi(/6/8!/4,/2/1:5,/2/1:9)",
+				"epubcfi(/6/8!/4/2/1:30)",
+				"epubcfi(/6/10!/4/2/1:0)",
+			]);
+		});
+	});
+});
@@ -0,0 +1,92 @@
+/**
+ * Anchoring for highlights in EPUBs.
+ *
+ * Positions in a book are EPUB CFIs (Canonical Fragment Identifiers), e.g.
+ * `epubcfi(/6/4!/4/2/1:12)`: a path of element steps through the package
+ * and the chapter document, ending in a character offset. A highlight
+ * stores the CFIs of both ends of its text in `position.start` and
+ * `position.end`; epub.js wants the two combined into a range CFI such as
+ * `epubcfi(/6/4!/4/2,/1:12,/3:5)` to draw it.
+ */
+
+const CFI_PREFIX = "epubcfi(";
+
+/** Whether a stored position is an EPUB CFI. */
+export function isCfi(value: unknown): value is string {
+	return typeof value === "string" && value.startsWith(CFI_PREFIX);
+}
+
+// The part between "epubcfi(" and ")"
+const unwrap = (cfi: string) => cfi.slice(CFI_PREFIX.length, -1);
+
+// Splits a CFI path into its steps, e.g. "/6/4!/4/1:0" -> ["/6", "/4!", "/4", "/1:0"]
+const toSteps = (path: string) => path.match(/\/[^/]*/g) ?? [];
+
+/**
+ * Splits a range CFI into the CFIs of its start and end.
+ *
+ * @returns The two ends, or null if `range` isn't a range CFI.
+ */
+export function splitCfiRange(
+	range: string,
+): { start: string; end: string } | null {
+	if (!isCfi(range)) return null;
+	const parts = unwrap(range).split(",");
+	if (parts.length !== 3) return null;
+	const [base, start, end] = parts;
+	return {
+		start: `${CFI_PREFIX}${base}${start})`,
+		end: `${CFI_PREFIX}${base}${end})`,
+	};
+}
+
+/**
+ * Combines the CFIs of two points in the same chapter into a range CFI.
+ *
+ * @returns The range, or null if the points aren't in the same chapter.
+ */
+export function joinCfiRange(start: string, end: string): string | null {
+	if (!isCfi(start) || !isCfi(end)) return null;
+	const startSteps = toSteps(unwrap(start));
+	const endSteps = toSteps(unwrap(end));
+
+	// The shared parent, leaving at least the last step on each side
+	let common = 0;
+	while (
+		common < startSteps.length - 1 &&
+		common < endSteps.length - 1 &&
+		startSteps[common] === endSteps[common]
+	) {
+		common++;
+	}
+	const base = startSteps.slice(0, common).join("");
+	// Ranges can't cross from one chapter document ("!") into another
+	if (!base.includes("!")) return null;
+
+	return `${CFI_PREFIX}${base},${startSteps.slice(common).join("")},${endSteps
+		.slice(common)
+		.join("")})`;
+}
+
+// Numbers along a CFI path (steps and offsets), for ordering
+function toSortKey(cfi: string): number[] {
+	const point = splitCfiRange(cfi)?.start ?? cfi;
+	return toSteps(unwrap(point)).flatMap((step) => {
+		const [, index, offset] = step.match(/^\/(\d+)[^:]*(?::(\d+))?/) ?? [];
+		return [Number(index ?? 0), ...(offset ? [Number(offset)] : [])];
+	});
+}
+
+/**
+ * Orders two CFIs by their position in the book (ranges by their start).
+ *
+ * @returns A negative number if `a` comes first, positive if `b` does, 0 if equal.
+ */
+export function compareCfi(a: string, b: string): number {
+	const keyA = toSortKey(a);
+	const keyB = toSortKey(b);
+	for (let i = 0; i < Math.min(keyA.length, keyB.length); i++) {
+		if (keyA[i] !== keyB[i]) return keyA[i] - keyB[i];
+	}
+	return keyA.length - keyB.length;
+}
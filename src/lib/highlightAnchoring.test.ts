@@ -0,0 +1,97 @@
+/** @vitest-environment jsdom */
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+	HIGHLIGHT_MARK_CLASS,
+	clearHighlights,
+	describeRange,
+	paintHighlight,
+	resolveAnchor,
+} from "./highlightAnchoring";
+
+describe("lib/highlightAnchoring", () => {
+	let root: HTMLDivElement;
+
+	beforeEach(() => {
+		root = document.createElement("div");
+		root.innerHTML =
+			"<p>The quick <em>brown</em> fox.</p><p>The quick brown dog.</p>";
+		document.body.replaceChildren(root);
+	});
+
+	describe("describeRange", () => {
+		it("should describe a range spanning several elements", () => {
+			const range = document.createRange();
+			const firstParagraph = root.querySelector("p") as HTMLElement;
+			range.setStart(firstParagraph.firstChild as Text, 4); // "quick "
+			range.setEnd(firstParagraph.querySelector("em")?.firstChild as Text, 5);
+
+			const anchor = describeRange(root, range);
+
+			expect(anchor).toEqual({
+				text: "quick brown",
+				start: 4,
+				end: 15,
+				prefix: "The ",
+				suffix: " fox.The quick brown dog.",
+			});
+		});
+
+		it("should return null for a collapsed or whitespace-only range", () => {
+			const range = document.createRange();
+			const text = root.querySelector("p")?.firstChild as Text;
+			range.setStart(text, 3);
+			range.setEnd(text, 3);
+			expect(describeRange(root, range)).toBeNull();
+
+			range.setEnd(text, 4); // " "
+			expect(describeRange(root, range)).toBeNull();
+		});
+	});
+
+	describe("resolveAnchor", () => {
+		const fullText = "The quick brown fox.The quick brown dog.";
+
+		it("should use the stored offsets when they still match", () => {
+			expect(
+				resolveAnchor(fullText, { text: "quick brown", start: 24 }),
+			).toEqual({ start: 24, end: 35 });
+		});
+
+		it("should use the quote context when the offsets have moved", () => {
+			const edited = `Intro. ${fullText}`;
+			const anchor = {
+				text: "quick brown",
+				start: 24,
+				prefix: "fox.The ",
+				suffix: " dog.",
+			};
+			expect(resolveAnchor(edited, anchor)).toEqual({ start: 31, end: 42 });
+		});
+
+		it("should return null when the quote no longer exists", () => {
+			expect(
+				resolveAnchor(fullText, { text: "lazy cat", start: 0 }),
+			).toBeNull();
+		});
+	});
+
+	describe("paintHighlight and clearHighlights", () => {
+		it("should wrap a range across elements and restore it afterwards", () => {
+			const originalHtml = root.innerHTML;
+
+			const marks = paintHighlight(root, 4, 15, "highlight_1", "#FEF08A");
+
+			expect(marks).toHaveLength(2);
+			expect(marks.map((mark) => mark.textContent).join("")).toBe(
+				"quick brown",
+			);
+			expect(marks[0].dataset.highlightId).toBe("highlight_1");
+			expect(root.textContent).toBe("The quick brown fox.The quick brown dog.");
+
+			clearHighlights(root);
+
+			expect(root.querySelector(`.${HIGHLIGHT_MARK_CLASS}`)).toBeNull();
+			expect(root.innerHTML).toBe(originalHtml);
+		});
+	});
+});
@@ -0,0 +1,211 @@
+/**
+ * Text anchoring for highlights in HTML content.
+ *
+ * A highlight is stored with two selectors:
+ * - a text-position selector (`start`/`end` character offsets into the
+ *   text content of the article body), which is fast and exact, and
+ * - a text-quote selector (the highlighted text plus some `prefix`/`suffix`
+ *   context), which lets the highlight be found again when the content is
+ *   re-parsed and the offsets no longer line up.
+ */
+
+/** Number of context characters stored before and after a quote. */
+const CONTEXT_LENGTH = 32;
+
+/** Class added to every painted highlight element. */
+export const HIGHLIGHT_MARK_CLASS = "reader-highlight";
+
+export interface TextAnchor {
+	text: string;
+	start: number;
+	end: number;
+	prefix: string;
+	suffix: string;
+}
+
+// Text nodes under root, in document order
+function getTextNodes(root: Node): Text[] {
+	const walker = root.ownerDocument?.createTreeWalker(
+		root,
+		NodeFilter.SHOW_TEXT,
+	);
+	const nodes: Text[] = [];
+	if (!walker) return nodes;
+	let current = walker.nextNode();
+	while (current) {
+		nodes.push(current as Text);
+		current = walker.nextNode();
+	}
+	return nodes;
+}
+
+// Converts a DOM boundary point into a character offset in root's text
+function getTextOffset(root: Node, container: Node, offset: number): number {
+	const range = root.ownerDocument?.createRange();
+	if (!range) return 0;
+	range.setStart(root, 0);
+	range.setEnd(container, offset);
+	return range.toString().length;
+}
+
+/**
+ * Describes a DOM range as a text anchor relative to `root`.
+ *
+ * @param root - The element whose text content the offsets refer to.
+ * @param range - The selected range. Must lie inside `root`.
+ * @returns The anchor, or null if the range is empty or outside `root`.
+ */
+export function describeRange(root: Node, range: Range): TextAnchor | null {
+	if (
+		range.collapsed ||
+		!root.contains(range.startContainer) ||
+		!root.contains(range.endContainer)
+	) {
+		return null;
+	}
+	const fullText = root.textContent ?? "";
+	const start = getTextOffset(root, range.startContainer, range.startOffset);
+	const end = getTextOffset(root, range.endContainer, range.endOffset);
+	const text = fullText.slice(start, end);
+	if (!text.trim()) return null;
+
+	return {
+		text,
+		start,
+		end,
+		prefix: fullText.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+		suffix: fullText.slice(end, end + CONTEXT_LENGTH),
+	};
+}
+
+// Length of the common suffix of a and b
+function commonSuffixLength(a: string, b: string): number {
+	let length = 0;
+	while (
+		length < a.length &&
+		length < b.length &&
+		a[a.length - 1 - length] === b[b.length - 1 - length]
+	) {
+		length++;
+	}
+	return length;
+}
+
+// Length of the common prefix of a and b
+function commonPrefixLength(a: string, b: string): number {
+	let length = 0;
+	while (length < a.length && length < b.length && a[length] === b[length]) {
+		length++;
+	}
+	return length;
+}
+
+/**
+ * Finds where an anchor currently sits in `fullText`.
+ * The stored offsets are used when they still match; otherwise every
+ * occurrence of the quote is scored by how much of its stored context
+ * matches, with ties going to the occurrence closest to the old position.
+ *
+ * @param fullText - The current text content of the article body.
+ * @param anchor - The stored anchor.
+ * @returns The current offsets, or null if the quote no longer exists.
+ */
+export function resolveAnchor(
+	fullText: string,
+	anchor: Pick<TextAnchor, "text" | "start"> &
+		Partial<Pick<TextAnchor, "end" | "prefix" | "suffix">>,
+): { start: number; end: number } | null {
+	const { text, start } = anchor;
+	if (!text) return null;
+	if (fullText.slice(start, start + text.length) === text) {
+		return { start, end: start + text.length };
+	}
+
+	let best: { start: number; score: number; distance: number } | null = null;
+	let index = fullText.indexOf(text);
+	while (index !== -1) {
+		const score =
+			commonSuffixLength(fullText.slice(0, index), anchor.prefix ?? "") +
+			commonPrefixLength(
+				fullText.slice(index + text.length),
+				anchor.suffix ?? "",
+			);
+		const distance = Math.abs(index - start);
+		if (
+			!best ||
+			score > best.score ||
+			(score === best.score && distance < best.distance)
+		) {
+			best = { start: index, score, distance };
+		}
+		index = fullText.indexOf(text, index + 1);
+	}
+	return best ? { start: best.start, end: best.start + text.length } : null;
+}
+
+/**
+ * Wraps the text between two offsets in highlight marks.
+ * Text nodes are split at the boundaries; whitespace-only pieces are
+ * skipped so no marks end up between table rows or list items.
+ *
+ * @param root - The element the offsets refer to.
+ * @param start - Start offset in root's text content.
+ * @param end - End offset in root's text content.
+ * @param highlightId - Stored on each mark as `data-highlight-id`.
+ * @param color - Background color of the marks.
+ * @returns The created mark elements.
+ */
+export function paintHighlight(
+	root: Node,
+	start: number,
+	end: number,
+	highlightId: string,
+	color: string,
+): HTMLElement[] {
+	const doc = root.ownerDocument;
+	if (!doc || start >= end) return [];
+
+	const marks: HTMLElement[] = [];
+	let offset = 0;
+	for (const node of getTextNodes(root)) {
+		const nodeStart = offset;
+		const nodeEnd = offset + node.data.length;
+		offset = nodeEnd;
+		if (nodeEnd <= start || nodeStart >= end) continue;
+
+		let target = node;
+		const from = Math.max(start, nodeStart) - nodeStart;
+		const to = Math.min(end, nodeEnd) - nodeStart;
+		if (to < target.data.length) target.splitText(to);
+		if (from > 0) target = target.splitText(from);
+		if (!target.data.trim()) continue;
+
+		const mark = doc.createElement("mark");
+		mark.className = HIGHLIGHT_MARK_CLASS;
+		mark.dataset.highlightId = highlightId;
+		mark.style.backgroundColor = color;
+		target.parentNode?.insertBefore(mark, target);
+		mark.appendChild(target);
+		marks.push(mark);
+	}
+	return marks;
+}
+
+/**
+ * Removes all highlight marks under `root`, restoring the original text nodes.
+ *
+ * @param root - The element to clean up.
+ */
+export function clearHighlights(root: Element): void {
+	for (const mark of Array.from(
+		root.querySelectorAll(`mark.${HIGHLIGHT_MARK_CLASS}`),
+	)) {
+		const parent = mark.parentNode;
+		if (!parent) continue;
+		while (mark.firstChild) {
+			parent.insertBefore(mark.firstChild, mark);
+		}
+		parent.removeChild(mark);
+		parent.normalize();
+	}
+}
@@ -0,0 +1,81 @@
+import { createHighlight } from "@/test-utils/dbFixtures";
+import { describe, expect, it } from "vitest";
+import { findHighlightAt, toPageRects } from "./pdfAnchoring";
+
+const page = { left: 100, top: 50, width: 400, height: 800 };
+
+describe("lib/pdfAnchoring", () => {
+	describe("toPageRects", () => {
+		it("should convert client rects to page fractions, one per line", () => {
+			const rects = toPageRects(
+				[
+					// Two words on the first line, with a space between them
+					{ left: 140, top: 90, width: 60, height: 16 },
+					{ left: 204, top: 91, width: 40, height: 14 },
+					// Second line
+					{ left: 140, top: 110, width: 100, height: 16 },
+					// Empty rect from a line break
+					{ left: 140, top: 130, width: 0, height: 16 },
+				],
+				page,
+			);
+
+			expect(rects).toHaveLength(2);
+			const [first, second] = rects;
+			expect(first.x).toBeCloseTo(0.1);
+			expect(first.y).toBeCloseTo(0.05);
+			expect(first.width).toBeCloseTo(0.26);
+			expect(first.height).toBeCloseTo(0.02);
+			expect(second).toMatchObject({ x: 0.1, y: 0.075, width: 0.25 });
+		});
+
+		it("should keep separate columns apart", () => {
+			const rects = toPageRects(
+				[
+					{ left: 120, top: 100, width: 150, height: 16 },
+					{ left: 320, top: 100, width: 150, height: 16 },
+				],
+				page,
+			);
+
+			expect(rects.map((rect) => rect.x)).toEqual([0.05, 0.55]);
+		});
+
+		it("should clip rects to the page", () => {
+			const rects = toPageRects(
+				[{ left: 80, top: 40, width: 40, height: 20 }],
+				page,
+			);
+
+			expect(rects).toEqual([{ x: 0, y: 0, width: 0.05, height: 10 / 800 }]);
+		});
+	});
+
+	describe("findHighlightAt", () => {
+		const older = createHighlight("older", {
+			createdAt: 1,
+			position: {
+				start: 0,
+				end: 1,
+				pageNumber: 2,
+				rects: [{ x: 0.1, y: 0.1, width: 0.5, height: 0.02 }],
+			},
+		});
+		const newer = createHighlight("newer", {
+			createdAt: 2,
+			position: {
+				start: 0,
+				end: 1,
+				pageNumber: 2,
+				rects: [{ x: 0.3, y: 0.1, width: 0.5, height: 0.02 }],
+			},
+		});
+
+		it("should find the topmost highlight on the page", () => {
+			expect(findHighlightAt([older, newer], 2, 0.2, 0.11)?._id).toBe("older");
+			expect(findHighlightAt([older, newer], 2, 0.4, 0.11)?._id).toBe("newer");
+			expect(findHighlightAt([older, newer], 2, 0.4, 0.5)).toBeUndefined();
+			expect(findHighlightAt([older, newer], 3, 0.4, 0.11)).toBeUndefined();
+		});
+	});
+});
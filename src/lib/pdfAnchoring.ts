@@ -0,0 +1,126 @@
+/**
+ * Anchoring for highlights in PDFs.
+ *
+ * A PDF highlight is stored with its page number and the areas it covers
+ * on that page. Areas are fractions of the page size rather than pixels,
+ * so they can be drawn over the page at any zoom level. The highlight also
+ * keeps text offsets into the page's text layer, which give it a stable
+ * order within the page.
+ */
+
+import type { Highlight, HighlightRect } from "@/services/db";
+
+// Rects whose vertical extents overlap by at least this much share a line
+const SAME_LINE_OVERLAP = 0.5;
+
+interface Box {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Converts the client rects of a selection into page-relative rects.
+ * Empty rects and the parts outside the page are dropped, and rects that
+ * touch on the same line are merged so each line is one area.
+ *
+ * @param clientRects - The rects of the selected range, in viewport pixels.
+ * @param page - The page element's bounding rect, in viewport pixels.
+ * @returns The areas as fractions of the page size, top to bottom.
+ */
+export function toPageRects(
+	clientRects: Iterable<Box>,
+	page: Box,
+): HighlightRect[] {
+	if (page.width <= 0 || page.height <= 0) return [];
+
+	const clipped: HighlightRect[] = [];
+	for (const rect of clientRects) {
+		const left = Math.max(rect.left, page.left);
+		const top = Math.max(rect.top, page.top);
+		const right = Math.min(rect.left + rect.width, page.left + page.width);
+		const bottom = Math.min(rect.top + rect.height, page.top + page.height);
+		if (right - left < 1 || bottom - top < 1) continue;
+		clipped.push({
+			x: left - page.left,
+			y: top - page.top,
+			width: right - left,
+			height: bottom - top,
+		});
+	}
+
+	return mergeLineRects(clipped).map((rect) => ({
+		x: rect.x / page.width,
+		y: rect.y / page.height,
+		width: rect.width / page.width,
+		height: rect.height / page.height,
+	}));
+}
+
+// Vertical overlap of two rects as a share of the shorter one
+function lineOverlap(a: HighlightRect, b: HighlightRect): number {
+	const overlap = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+	return overlap / Math.min(a.height, b.height);
+}
+
+/**
+ * Merges pixel rects that sit on the same line and touch or overlap.
+ * Text layers often produce one rect per word or even per glyph run.
+ * Gaps up to a line's height (about a space) are bridged; wider ones,
+ * such as between columns, are not.
+ */
+function mergeLineRects(rects: HighlightRect[]): HighlightRect[] {
+	const sorted = [...rects].sort((a, b) => a.y - b.y || a.x - b.x);
+	const merged: HighlightRect[] = [];
+	for (const rect of sorted) {
+		const line = merged.find(
+			(existing) =>
+				lineOverlap(existing, rect) >= SAME_LINE_OVERLAP &&
+				rect.x <= existing.x + existing.width + rect.height &&
+				rect.x + rect.width >= existing.x - rect.height,
+		);
+		if (!line) {
+			merged.push({ ...rect });
+			continue;
+		}
+		const right = Math.max(line.x + line.width, rect.x + rect.width);
+		const bottom = Math.max(line.y + line.height, rect.y + rect.height);
+		line.x = Math.min(line.x, rect.x);
+		line.y = Math.min(line.y, rect.y);
+		line.width = right - line.x;
+		line.height = bottom - line.y;
+	}
+	return merged;
+}
+
+/**
+ * Finds the highlight drawn at a point on a page. When highlights overlap,
+ * the most recent one wins, as it is drawn on top.
+ *
+ * @param highlights - Highlights of the document.
+ * @param pageNumber - The page the point is on.
+ * @param x - Horizontal position as a fraction of the page width.
+ * @param y - Vertical position as a fraction of the page height.
+ * @returns The highlight, or undefined if there is none at that point.
+ */
+export function findHighlightAt(
+	highlights: Highlight[],
+	pageNumber: number,
+	x: number,
+	y: number,
+): Highlight | undefined {
+	return [...highlights]
+		.sort((a, b) => b.createdAt - a.createdAt)
+		.find(
+			(highlight) =>
+				highlight.position.pageNumber === pageNumber &&
+				highlight.position.rects?.some(
+					(rect) =>
+						x >= rect.x &&
+						x <= rect.x + rect.width &&
+						y >= rect.y &&
+						y <= rect.y + rect.height,
+				),
+		);
+}
@@ -0,0 +1,146 @@
+import { createArticle, createTag } from "@/test-utils/dbFixtures";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	applySearchQuery,
+	compileSearchQuery,
+	getQuerySuggestions,
+} from "./searchQuery";
+
+const tags = [
+	createTag("tag_research", "research"),
+	createTag("tag_ml", "machine learning"),
+];
+const savedAt = new Date(2025, 0, 15).getTime();
+
+const context = { tags, siteNames: ["The New York Times", "Hacker News"] };
+
+const articles = [
+	createArticle("1", {
+		url: "https://www.nytimes.com/2025/01/story.html",
+		siteName: "The New York Times",
+		tags: ["tag_research"],
+		savedAt,
+		estimatedReadTime: 8,
+	}),
+	createArticle("2", {
+		type: "pdf",
+		isRead: true,
+		tags: ["tag_ml"],
+		savedAt: new Date(2024, 11, 31).getTime(),
+		estimatedReadTime: 25,
+	}),
+	createArticle("3", {
+		title: "Draft about excluded things",
+		favorite: true,
+		status: "later",
+		savedAt,
+	}),
+];
+
+const search = (query: string) =>
+	applySearchQuery(articles, compileSearchQuery(query, context)).map(
+		(article) => article._id,
+	);
+
+describe("searchQuery", () => {
+	describe("compileSearchQuery", () => {
+		it("should compile tag, site and type operators to filters", () => {
+			const query = compileSearchQuery(
+				'tag:"Machine Learning" site:"the new york times" type:pdf "exact phrase" words',
+				context,
+			);
+
+			expect(query.filters).toEqual({
+				tags: ["tag_ml"],
+				siteNames: ["The New York Times"],
+				types: ["pdf"],
+				searchQuery: '"exact phrase" words',
+			});
+			expect(query.text).toBe('"exact phrase" words');
+			expect(query.errors).toEqual([]);
+		});
+
+		it("should match domains and their subdomains", () => {
+			expect(search("site:nytimes.com")).toEqual(["1"]);
+			expect(search("-site:nytimes.com")).toEqual(["2", "3"]);
+		});
+
+		it("should filter by state, dates and read time", () => {
+			expect(search("is:unread")).toEqual(["1", "3"]);
+			expect(search("is:favorite is:later")).toEqual(["3"]);
+			expect(search("saved:>2024-12-31")).toEqual(["1", "3"]);
+			expect(search("saved:2024")).toEqual(["2"]);
+			expect(search("saved:2024-12..2025-01")).toEqual(["1", "2", "3"]);
+			expect(search("time:<10")).toEqual(["1"]);
+			expect(search("time:>=25")).toEqual(["2"]);
+		});
+
+		describe("relative dates", () => {
+			afterEach(() => {
+				vi.useRealTimers();
+			});
+
+			it("should match periods relative to now", () => {
+				vi.useFakeTimers();
+				vi.setSystemTime(new Date(2025, 0, 20, 12)); // A Monday
+
+				expect(search("saved:this-month")).toEqual(["1", "3"]);
+				expect(search("saved:this-year")).toEqual(["1", "3"]);
+				expect(search("saved:this-week")).toEqual([]);
+				expect(search("saved:<this-month")).toEqual(["2"]);
+
+				vi.setSystemTime(new Date(2025, 0, 15, 18));
+				expect(search("saved:today is:unread")).toEqual(["1", "3"]);
+			});
+		});
+
+		it("should exclude words and negated operators", () => {
+			expect(search("-excluded")).toEqual(["1", "2"]);
+			expect(search("-tag:research -type:pdf")).toEqual(["3"]);
+		});
+
+		it("should report values it can't understand and match nothing for unknown tags", () => {
+			const query = compileSearchQuery(
+				"tag:missing type:video saved:yesterday",
+				context,
+			);
+
+			expect(query.errors).toEqual([
+				'Unknown tag "missing"',
+				'Unknown type "video" (use article, pdf, epub, note)',
+				'Invalid value "yesterday" for saved:',
+			]);
+			expect(applySearchQuery(articles, query)).toEqual([]);
+		});
+
+		it("should keep unknown prefixes such as URLs as text", () => {
+			const query = compileSearchQuery("https://example.com", context);
+
+			expect(query.text).toBe("https://example.com");
+			expect(query.predicates).toEqual([]);
+		});
+	});
+
+	describe("getQuerySuggestions", () => {
+		it("should complete operator names", () => {
+			const result = getQuerySuggestions("research ta", 11, context);
+
+			expect(result).toEqual({
+				start: 9,
+				end: 11,
+				suggestions: [{ label: "tag:", value: "tag:" }],
+			});
+		});
+
+		it("should complete tag and site names, quoting names with spaces", () => {
+			expect(getQuerySuggestions("-tag:mach", 9, context).suggestions).toEqual([
+				{ label: "machine learning", value: '-tag:"machine learning" ' },
+			]);
+			expect(
+				getQuerySuggestions("site:", 5, context).suggestions.map(
+					(suggestion) => suggestion.label,
+				),
+			).toEqual(["The New York Times", "Hacker News"]);
+		});
+	});
+});
@@ -0,0 +1,516 @@
+import { filterArticles, sortArticles } from "@/lib/articleUtils";
+import type { Article, Tag } from "@/services/db";
+import type { ArticleFilters, SortCriteria } from "@/types/articles";
+
+/**
+ * Search query language shared by the search page and the article lists.
+ *
+ * Plain words and "quoted phrases" are matched as text. Field operators narrow
+ * the results, and a leading "-" excludes a word, phrase or operator:
+ *
+ *   tag:research site:nytimes.com type:pdf is:unread saved:>2025-01-01
+ *   time:<10 published:2024 "exact phrase" -excluded -tag:done
+ *
+ * Dates can also name a period relative to now (saved:this-month), so saved
+ * queries such as smart collections stay current.
+ */
+
+export type ArticlePredicate = (article: Article) => boolean;
+
+export interface CompiledSearchQuery {
+	text: string; // Words and quoted phrases left for text matching
+	filters: ArticleFilters; // Positive tag, site and type operators; searchQuery is `text`
+	predicates: ArticlePredicate[]; // Everything ArticleFilters can't express
+	errors: string[]; // Operators that couldn't be understood and were ignored
+}
+
+export interface SearchQueryContext {
+	tags: Tag[]; // Used to resolve tag names to IDs
+	siteNames: string[]; // Known site names, matched case-insensitively
+}
+
+export interface QuerySuggestion {
+	label: string;
+	value: string; // Replacement text for the token being typed
+}
+
+export interface QuerySuggestions {
+	start: number; // Range of the input the suggestions replace
+	end: number;
+	suggestions: QuerySuggestion[];
+}
+
+export const SEARCH_OPERATORS = [
+	"tag",
+	"site",
+	"type",
+	"is",
+	"saved",
+	"published",
+	"time",
+] as const;
+
+type SearchOperator = (typeof SEARCH_OPERATORS)[number];
+
+const TYPE_VALUES: Article["type"][] = ["article", "pdf", "epub", "note"];
+
+const IS_VALUES: Record<string, ArticlePredicate> = {
+	unread: (article) => !article.isRead,
+	read: (article) => article.isRead,
+	favorite: (article) => article.favorite,
+	inbox: (article) => article.status === "inbox",
+	later: (article) => article.status === "later",
+	archived: (article) => article.status === "archived",
+};
+
+// Periods relative to the current local time, as [start, end) timestamps
+const RELATIVE_DATES: Record<string, (now: Date) => [number, number]> = {
+	today: (now) => {
+		const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+		return [start.getTime(), start.getTime() + DAY_MS];
+	},
+	"this-week": (now) => {
+		// Weeks start on Monday
+		const daysSinceMonday = (now.getDay() + 6) % 7;
+		const start = new Date(
+			now.getFullYear(),
+			now.getMonth(),
+			now.getDate() - daysSinceMonday,
+		);
+		const end = new Date(
+			start.getFullYear(),
+			start.getMonth(),
+			start.getDate() + 7,
+		);
+		return [start.getTime(), end.getTime()];
+	},
+	"this-month": (now) => [
+		new Date(now.getFullYear(), now.getMonth(), 1).getTime(),
+		new Date(now.getFullYear(), now.getMonth() + 1, 1).getTime(),
+	],
+	"this-year": (now) => [
+		new Date(now.getFullYear(), 0, 1).getTime(),
+		new Date(now.getFullYear() + 1, 0, 1).getTime(),
+	],
+};
+
+const MAX_SUGGESTIONS = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Matches an optional "-", an optional "operator:" and a quoted or bare value.
+// The value may be empty so "tag:" can be completed while it's typed.
+const TOKEN_PATTERN = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S*))/gi;
+
+interface QueryToken {
+	raw: string;
+	negated: boolean;
+	operator?: SearchOperator;
+	value: string;
+	quoted: boolean;
+	start: number;
+	end: number;
+}
+
+// Splits a query into tokens; unknown "name:" prefixes stay part of the word
+function tokenizeQuery(input: string): QueryToken[] {
+	const tokens: QueryToken[] = [];
+	for (const match of input.matchAll(TOKEN_PATTERN)) {
+		const [raw, negation, name, quotedValue, bareValue] = match;
+		if (!raw) continue;
+		const start = match.index ?? 0;
+		const operator = SEARCH_OPERATORS.find(
+			(known) => known === name?.toLowerCase(),
+		);
+		const value = quotedValue ?? bareValue ?? "";
+		if (name && !operator) {
+			// Not an operator (e.g. a URL): treat the whole token as text
+			tokens.push({
+				raw,
+				negated: !!negation,
+				value: raw.slice(negation ? 1 : 0),
+				quoted: false,
+				start,
+				end: start + raw.length,
+			});
+			continue;
+		}
+		tokens.push({
+			raw,
+			negated: !!negation,
+			operator,
+			value,
+			quoted: quotedValue !== undefined,
+			start,
+			end: start + raw.length,
+		});
+	}
+	return tokens;
+}
+
+// Parses "2025", "2025-03", "2025-03-14" or a relative period such as
+// "this-month" into the local-time range it covers
+function parseDateRange(value: string): [number, number] | null {
+	const relative = RELATIVE_DATES[value.toLowerCase()];
+	if (relative) return relative(new Date());
+	const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+	if (!match) return null;
+	const year = Number(match[1]);
+	const month = match[2] ? Number(match[2]) - 1 : undefined;
+	const day = match[3] ? Number(match[3]) : undefined;
+	if (month !== undefined && (month < 0 || month > 11)) return null;
+	if (day !== undefined && (day < 1 || day > 31)) return null;
+
+	const start = new Date(year, month ?? 0, day ?? 1).getTime();
+	const end =
+		day !== undefined
+			? start + DAY_MS
+			: month !== undefined
+				? new Date(year, month + 1, 1).getTime()
+				: new Date(year + 1, 0, 1).getTime();
+	return [start, end];
+}
+
+/**
+ * Builds a test for a numeric or date comparison such as ">5", "<=2025-01-01",
+ * "2025-03" or "5..10". Dates compare against the whole period they name.
+ */
+function parseComparison(
+	value: string,
+	parseRange: (value: string) => [number, number] | null,
+): ((target: number) => boolean) | null {
+	const range = /^(.+)\.\.(.+)$/.exec(value);
+	if (range) {
+		const from = parseRange(range[1]);
+		const to = parseRange(range[2]);
+		if (!from || !to) return null;
+		return (target) => target >= from[0] && target < to[1];
+	}
+
+	const comparison = /^(>=|<=|>|<|=)?(.+)$/.exec(value);
+	if (!comparison) return null;
+	const [, operator = "=", operand] = comparison;
+	const bounds = parseRange(operand);
+	if (!bounds) return null;
+	const [start, end] = bounds;
+	switch (operator) {
+		case ">":
+			return (target) => target >= end;
+		case ">=":
+			return (target) => target >= start;
+		case "<":
+			return (target) => target < start;
+		case "<=":
+			return (target) => target < end;
+		default:
+			return (target) => target >= start && target < end;
+	}
+}
+
+// Whole minutes cover [n, n + 1) so "time:5" matches 5-minute reads
+const parseMinutes = (value: string): [number, number] | null => {
+	if (!/^\d+$/.test(value)) return null;
+	const minutes = Number(value);
+	return [minutes, minutes + 1];
+};
+
+const getHostname = (url: string): string => {
+	try {
+		return new URL(url).hostname.toLowerCase();
+	} catch {
+		return "";
+	}
+};
+
+// Site operators match the site name, or the URL's domain and its subdomains
+const matchesSite = (article: Article, site: string): boolean => {
+	const hostname = getHostname(article.url);
+	return (
+		article.siteName?.toLowerCase() === site ||
+		hostname === site ||
+		hostname.endsWith(`.${site}`)
+	);
+};
+
+const matchesText = (article: Article, text: string): boolean =>
+	[article.title, article.excerpt, article.siteName, article.content].some(
+		(field) => field?.toLowerCase().includes(text),
+	);
+
+/**
+ * Compiles a search query into article filters and predicates.
+ * Multiple tag, site or type operators match any of their values, like the
+ * filter menus; every other operator must match.
+ *
+ * @param input - The query as typed.
+ * @param context - Known tags and site names.
+ * @returns The compiled query. Unknown operator values are reported in `errors`.
+ */
+export function compileSearchQuery(
+	input: string,
+	context: SearchQueryContext,
+): CompiledSearchQuery {
+	const filters: ArticleFilters = {
+		siteNames: [],
+		types: [],
+		tags: [],
+		searchQuery: "",
+	};
+	const predicates: ArticlePredicate[] = [];
+	const errors: string[] = [];
+	const textParts: string[] = [];
+	const siteValues: string[] = [];
+
+	for (const token of tokenizeQuery(input)) {
+		const value = token.value.trim();
+		const lowerValue = value.toLowerCase();
+
+		if (!token.operator) {
+			if (!value) continue;
+			if (token.negated) {
+				predicates.push((article) => !matchesText(article, lowerValue));
+			} else {
+				textParts.push(token.quoted ? `"${value}"` : value);
+			}
+			continue;
+		}
+
+		if (!value) {
+			errors.push(`Missing value for ${token.operator}:`);
+			continue;
+		}
+
+		let predicate: ArticlePredicate | null = null;
+		switch (token.operator) {
+			case "tag": {
+				const tag = context.tags.find(
+					(candidate) => candidate.name.toLowerCase() === lowerValue,
+				);
+				if (!tag) {
+					errors.push(`Unknown tag "${value}"`);
+					// An unknown tag matches nothing, so excluding it matches everything
+					if (!token.negated) predicates.push(() => false);
+					continue;
+				}
+				if (!token.negated) {
+					filters.tags.push(tag._id);
+					continue;
+				}
+				predicate = (article) => article.tags?.includes(tag._id) ?? false;
+				break;
+			}
+			case "site": {
+				const siteName = context.siteNames.find(
+					(name) => name.toLowerCase() === lowerValue,
+				);
+				if (!token.negated) {
+					// Known site names use the site filter; domains need a predicate
+					if (siteName) {
+						filters.siteNames.push(siteName);
+					} else {
+						siteValues.push(lowerValue);
+					}
+					continue;
+				}
+				predicate = (article) => matchesSite(article, lowerValue);
+				break;
+			}
+			case "type": {
+				const type = TYPE_VALUES.find((candidate) => candidate === lowerValue);
+				if (!type) {
+					errors.push(
+						`Unknown type "${value}" (use ${TYPE_VALUES.join(", ")})`,
+					);
+					continue;
+				}
+				if (!token.negated) {
+					filters.types.push(type);
+					continue;
+				}
+				predicate = (article) => article.type === type;
+				break;
+			}
+			case "is": {
+				predicate =
+					IS_VALUES[lowerValue === "favorites" ? "favorite" : lowerValue] ??
+					null;
+				if (!predicate) {
+					errors.push(
+						`Unknown state "${value}" (use ${Object.keys(IS_VALUES).join(", ")})`,
+					);
+					continue;
+				}
+				break;
+			}
+			case "saved": {
+				const test = parseComparison(value, parseDateRange);
+				if (test) predicate = (article) => test(article.savedAt);
+				break;
+			}
+			case "published": {
+				const test = parseComparison(value, parseDateRange);
+				if (test) {
+					predicate = (article) => {
+						const published = article.publishedDate
+							? Date.parse(article.publishedDate)
+							: Number.NaN;
+						return !Number.isNaN(published) && test(published);
+					};
+				}
+				break;
+			}
+			case "time": {
+				const test = parseComparison(value, parseMinutes);
+				if (test) {
+					predicate = (article) =>
+						article.estimatedReadTime !== undefined &&
+						test(article.estimatedReadTime);
+				}
+				break;
+			}
+		}
+
+		if (!predicate) {
+			errors.push(`Invalid value "${value}" for ${token.operator}:`);
+			continue;
+		}
+		const test = predicate;
+		predicates.push(token.negated ? (article) => !test(article) : test);
+	}
+
+	// Sites that aren't known site names still match by domain
+	if (siteValues.length > 0) {
+		const knownSites = [...filters.siteNames];
+		filters.siteNames = [];
+		predicates.push(
+			(article) =>
+				knownSites.includes(article.siteName ?? "") ||
+				siteValues.some((site) => matchesSite(article, site)),
+		);
+	}
+
+	const text = textParts.join(" ");
+	filters.searchQuery = text;
+	return { text, filters, predicates, errors };
+}
+
+/**
+ * Applies a compiled query to a list of articles.
+ *
+ * @param articles - The articles to filter.
+ * @param query - The compiled query.
+ * @param matchText - Whether to match the free text too; false when the text
+ *   has already been matched by the full-text index.
+ * @returns The matching articles, in their original order.
+ */
+export function applySearchQuery(
+	articles: Article[],
+	query: CompiledSearchQuery,
+	matchText = true,
+): Article[] {
+	const filtered = filterArticles(
+		articles,
+		matchText ? query.filters : { ...query.filters, searchQuery: "" },
+	);
+	if (query.predicates.length === 0) return filtered;
+	return filtered.filter((article) =>
+		query.predicates.every((predicate) => predicate(article)),
+	);
+}
+
+/**
+ * Applies filters, including any operators in their search query, then sorts.
+ * Used by the article lists and by smart collections.
+ *
+ * @param articles - The articles to filter.
+ * @param filters - The filters to apply.
+ * @param sortCriteria - The order of the result.
+ * @param context - Known tags and site names.
+ * @returns The matching articles, sorted.
+ */
+export function queryArticles(
+	articles: Article[],
+	filters: ArticleFilters,
+	sortCriteria: SortCriteria,
+	context: SearchQueryContext,
+): Article[] {
+	const filtered = applySearchQuery(
+		filterArticles(articles, { ...filters, searchQuery: "" }),
+		compileSearchQuery(filters.searchQuery, context),
+	);
+	return sortArticles(filtered, sortCriteria);
+}
+
+// Quotes values containing spaces so they stay a single token
+const formatValue = (value: string) =>
+	/\s/.test(value) ? `"${value}"` : value;
+
+/**
+ * Suggests completions for the query token at the caret: operator names,
+ * tag and site names, the fixed values of type: and is:, and relative dates.
+ *
+ * @param input - The query as typed.
+ * @param caret - The caret position in the input.
+ * @param context - Known tags and site names.
+ * @returns The suggestions and the input range they replace.
+ */
+export function getQuerySuggestions(
+	input: string,
+	caret: number,
+	context: SearchQueryContext,
+): QuerySuggestions {
+	const token = tokenizeQuery(input).find(
+		(candidate) => candidate.start < caret && candidate.end >= caret,
+	);
+	const empty = { start: caret, end: caret, suggestions: [] };
+	if (!token) return empty;
+
+	const negation = token.negated ? "-" : "";
+	const typed = token.value.toLowerCase();
+	const range = { start: token.start, end: token.end };
+
+	if (!token.operator) {
+		// Complete operator names while typing a bare word
+		if (!typed) return empty;
+		const suggestions = SEARCH_OPERATORS.filter(
+			(operator) => operator.startsWith(typed) && operator !== typed,
+		).map((operator) => ({
+			label: `${operator}:`,
+			value: `${negation}${operator}:`,
+		}));
+		return { ...range, suggestions };
+	}
+
+	let values: string[] = [];
+	switch (token.operator) {
+		case "tag":
+			values = context.tags.map((tag) => tag.name);
+			break;
+		case "site":
+			values = context.siteNames;
+			break;
+		case "type":
+			values = TYPE_VALUES;
+			break;
+		case "is":
+			values = Object.keys(IS_VALUES);
+			break;
+		case "saved":
+		case "published":
+			values = Object.keys(RELATIVE_DATES);
+			break;
+		default:
+			return empty;
+	}
+
+	const suggestions = values
+		.filter(
+			(value) =>
+				value.toLowerCase().startsWith(typed) && value.toLowerCase() !== typed,
+		)
+		.slice(0, MAX_SUGGESTIONS)
+		.map((value) => ({
+			label: value,
+			value: `${negation}${token.operator}:${formatValue(value)} `,
+		}));
+	return { ...range, suggestions };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { chunkText, pickRelevantChunks } from "./textChunks";
+
+describe("lib/textChunks", () => {
+	describe("chunkText", () => {
+		it("should keep text that fits in one chunk", () => {
+			expect(chunkText("  Short text.  ", 100)).toEqual(["Short text."]);
+			expect(chunkText("   ", 100)).toEqual([]);
+		});
+
+		it("should break between paragraphs", () => {
+			const text = "First paragraph.\n\nSecond paragraph.\n\nThird one.";
+
+			expect(chunkText(text, 40)).toEqual([
+				"First paragraph.\n\nSecond paragraph.",
+				"Third one.",
+			]);
+		});
+
+		it("should split paragraphs longer than a chunk by sentence", () => {
+			const chunks = chunkText(
+				"One sentence here. Another sentence. And a third!",
+				20,
+			);
+
+			expect(chunks).toEqual([
+				"One sentence here.",
+				"Another sentence.",
+				"And a third!",
+			]);
+			expect(chunks.every((chunk) => chunk.length <= 20)).toBe(true);
+		});
+	});
+
+	describe("pickRelevantChunks", () => {
+		it("should keep the chunks that mention the question, in order", () => {
+			const chunks = [
+				"Chapter one is about whales.",
+				"Chapter two is about ships and sailing.",
+				"Chapter three returns to whales and harpoons.",
+			];
+
+			expect(
+				pickRelevantChunks(chunks, "Tell me everything on whales", 80),
+			).toBe(
+				"Chapter one is about whales.\n\nChapter three returns to whales and harpoons.",
+			);
+		});
+	});
+});
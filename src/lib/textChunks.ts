@@ -0,0 +1,101 @@
+/**
+ * Splitting long texts (such as whole books) into pieces small enough to
+ * send to the AI endpoints in one request.
+ */
+
+/** Most characters of content sent with a single summarize or chat request. */
+export const MAX_AI_CONTENT_CHARS = 60_000;
+
+// Words too short to say much about what a question is about
+const MIN_QUERY_WORD_LENGTH = 4;
+
+/**
+ * Splits text into chunks of at most `maxChars` characters. Chunks break
+ * between paragraphs where possible, then between sentences, and only cut
+ * through a sentence that is longer than a whole chunk.
+ *
+ * @param text - The text to split.
+ * @param maxChars - Largest chunk size, in characters.
+ * @returns The chunks in order; a single chunk if the text already fits.
+ */
+export function chunkText(
+	text: string,
+	maxChars = MAX_AI_CONTENT_CHARS,
+): string[] {
+	const trimmed = text.trim();
+	if (trimmed.length <= maxChars) return trimmed ? [trimmed] : [];
+
+	const chunks: string[] = [];
+	let current = "";
+	const push = (piece: string, separator: string) => {
+		if (
+			current &&
+			current.length + separator.length + piece.length > maxChars
+		) {
+			chunks.push(current);
+			current = "";
+		}
+		current = current ? `${current}${separator}${piece}` : piece;
+	};
+
+	for (const paragraph of trimmed.split(/\n\s*\n/)) {
+		if (paragraph.length <= maxChars) {
+			push(paragraph, "\n\n");
+			continue;
+		}
+		// A paragraph longer than a chunk is split by sentence
+		for (const sentence of paragraph.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? []) {
+			for (let i = 0; i < sentence.length; i += maxChars) {
+				push(sentence.slice(i, i + maxChars).trim(), " ");
+			}
+		}
+	}
+	if (current) chunks.push(current);
+	return chunks;
+}
+
+/**
+ * Picks the chunks that best match a question, for chatting about a text
+ * too long to send whole. Chunks are scored by how often they mention the
+ * question's words, and kept in their original order.
+ *
+ * @param chunks - The text's chunks, as returned by `chunkText`.
+ * @param query - The question.
+ * @param maxChars - Most characters to return.
+ * @returns The chosen chunks joined by blank lines.
+ */
+export function pickRelevantChunks(
+	chunks: string[],
+	query: string,
+	maxChars = MAX_AI_CONTENT_CHARS,
+): string {
+	const words = new Set(
+		query
+			.toLowerCase()
+			.split(/\W+/)
+			.filter((word) => word.length >= MIN_QUERY_WORD_LENGTH),
+	);
+	const scored = chunks.map((chunk, index) => {
+		const lower = chunk.toLowerCase();
+		let score = 0;
+		for (const word of words) {
+			score += lower.split(word).length - 1;
+		}
+		return { chunk, index, score };
+	});
+
+	// Best first; ties go to the earlier chunk, e.g. the introduction
+	scored.sort((a, b) => b.score - a.score || a.index - b.index);
+	const picked: typeof scored = [];
+	let length = 0;
+	for (const entry of scored) {
+		if (length + entry.chunk.length > maxChars) continue;
+		picked.push(entry);
+		length += entry.chunk.length + 2;
+	}
+
+	return picked
+		.sort((a, b) => a.index - b.index)
+		.map((entry) => entry.chunk)
+		.join("\n\n");
+}
@@ -59,3 +59,15 @@ export function debounce<T extends (...args: any[]) => void>(
 		}, wait);
 	};
 }
+
+// Starts a browser download of a blob under the given file name
+export function downloadBlob(blob: Blob, fileName: string): void {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+	URL.revokeObjectURL(url);
+}
@@ -1,11 +1,12 @@
 import FileUpload from "@/components/FileUpload";
+import { ImportPanel } from "@/components/ImportPanel";
 import UrlInput from "@/components/UrlInput";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useArticles } from "@/context/ArticleContext";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, BookOpen, FileText, Globe } from "lucide-react";
+import { ArrowLeft, BookOpen, FileText, Globe, Import } from "lucide-react";
 import { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 
@@ -52,10 +53,11 @@ export default function AddPage() {
 			</div>
 
 			<Tabs defaultValue="article" className="w-full">
-				<TabsList className="grid grid-cols-3 mb-6">
+				<TabsList className="grid grid-cols-4 mb-6">
 					<TabsTrigger value="article">Web Article</TabsTrigger>
 					<TabsTrigger value="epub">EPUB File</TabsTrigger>
 					<TabsTrigger value="pdf">PDF File</TabsTrigger>
+					<TabsTrigger value="import">Import</TabsTrigger>
 				</TabsList>
 
 				<TabsContent value="article">
@@ -117,6 +119,18 @@ export default function AddPage() {
 						</CardContent>
 					</Card>
 				</TabsContent>
+
+				<TabsContent value="import">
+					<Card>
+						<CardHeader className="flex flex-row items-center gap-2">
+							<Import className="h-5 w-5" />
+							<CardTitle>Import from Other Services</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<ImportPanel />
+						</CardContent>
+					</Card>
+				</TabsContent>
 			</Tabs>
 		</div>
 	);
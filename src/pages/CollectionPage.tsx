@@ -0,0 +1,169 @@
+import ArticleGrid from "@/components/ArticleGrid";
+import { CollectionDialog } from "@/components/CollectionDialog";
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useArticles } from "@/context/ArticleContext";
+import { useCollections } from "@/hooks/useCollections";
+import { getUniqueSiteNames } from "@/lib/articleUtils";
+import { queryArticles } from "@/lib/searchQuery";
+import type { CollectionInput } from "@/services/db";
+import { Pencil, RefreshCw, Trash2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+
+/**
+ * Lists the articles in a smart collection, using the same card grid as the
+ * library. The list is recomputed from the collection's filter and sort
+ * order whenever articles, tags or the collection change.
+ */
+export default function CollectionPage() {
+	const { id } = useParams<{ id: string }>();
+	const navigate = useNavigate();
+	const { articles, allTags, isLoading, error, retryLoading } = useArticles();
+	const {
+		collections,
+		loading: collectionsLoading,
+		editCollection,
+		removeCollection,
+	} = useCollections();
+	const [isEditing, setIsEditing] = useState(false);
+	const [isDeleting, setIsDeleting] = useState(false);
+
+	const collection = collections.find((candidate) => candidate._id === id);
+
+	const collectionArticles = useMemo(
+		() =>
+			collection
+				? queryArticles(articles, collection.filter, collection.sortCriteria, {
+						tags: allTags,
+						siteNames: getUniqueSiteNames(articles),
+					})
+				: [],
+		[articles, allTags, collection],
+	);
+
+	const handleSave = async (input: CollectionInput) => {
+		if (!collection) return false;
+		return !!(await editCollection(collection._id, input));
+	};
+
+	const confirmDelete = async () => {
+		if (!collection) return;
+		if (await removeCollection(collection._id)) {
+			navigate("/inbox");
+		}
+	};
+
+	if (collectionsLoading) {
+		return (
+			<div className="flex items-center justify-center h-64">
+				<p className="text-muted-foreground">Loading collection...</p>
+			</div>
+		);
+	}
+
+	if (!collection) {
+		return (
+			<div className="flex flex-col items-center justify-center h-64 space-y-4">
+				<p className="text-muted-foreground">This collection doesn't exist.</p>
+				<Button variant="outline" onClick={() => navigate("/inbox")}>
+					Back to Library
+				</Button>
+			</div>
+		);
+	}
+
+	return (
+		<div className="h-full flex flex-col bg-background">
+			<div className="flex items-center gap-2 border-b px-4 py-3">
+				<div className="min-w-0 flex-1">
+					<h1 className="truncate text-lg font-semibold">{collection.name}</h1>
+					<p className="truncate text-xs text-muted-foreground">
+						{collectionArticles.length}{" "}
+						{collectionArticles.length === 1 ? "article" : "articles"}
+						{collection.filter.searchQuery &&
+							` · ${collection.filter.searchQuery}`}
+					</p>
+				</div>
+				<Button
+					variant="ghost"
+					size="icon"
+					aria-label="Edit collection"
+					onClick={() => setIsEditing(true)}
+				>
+					<Pencil className="h-4 w-4" />
+				</Button>
+				<Button
+					variant="ghost"
+					size="icon"
+					aria-label="Delete collection"
+					onClick={() => setIsDeleting(true)}
+				>
+					<Trash2 className="h-4 w-4" />
+				</Button>
+			</div>
+
+			<div className="flex-1 overflow-y-auto p-4">
+				{isLoading ? (
+					<div className="flex items-center justify-center h-64">
+						<p className="text-muted-foreground">Loading articles...</p>
+					</div>
+				) : error ? (
+					<div className="flex flex-col items-center justify-center h-64 space-y-4">
+						<p className="text-muted-foreground">
+							{error.message || "Error loading articles"}
+						</p>
+						<Button onClick={retryLoading}>
+							<RefreshCw className="mr-2 h-4 w-4" />
+							Retry Loading
+						</Button>
+					</div>
+				) : collectionArticles.length === 0 ? (
+					<div className="flex flex-col items-center justify-center h-64 space-y-4">
+						<p className="text-muted-foreground">
+							No articles match this collection yet.
+						</p>
+						<Button variant="outline" onClick={() => setIsEditing(true)}>
+							Edit Collection
+						</Button>
+					</div>
+				) : (
+					<ArticleGrid articles={collectionArticles} />
+				)}
+			</div>
+
+			<CollectionDialog
+				open={isEditing}
+				onOpenChange={setIsEditing}
+				initial={collection}
+				onSave={handleSave}
+			/>
+
+			<AlertDialog open={isDeleting} onOpenChange={setIsDeleting}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Delete "{collection.name}"?</AlertDialogTitle>
+						<AlertDialogDescription>
+							Only the collection is deleted; its articles stay in your library.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancel</AlertDialogCancel>
+						<AlertDialogAction onClick={confirmDelete}>
+							Delete
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
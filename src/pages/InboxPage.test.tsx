@@ -432,6 +432,9 @@ const MockArticleProvider: React.FC<{ children: React.ReactNode }> = ({
 			refreshArticles: vi.fn().mockResolvedValue(mockRawArticles),
 			retryLoading: vi.fn(),
 			optimisticRemoveArticle: vi.fn().mockResolvedValue(undefined), // Add mock function
+			updateArticleTags: vi.fn().mockResolvedValue(undefined),
+			createTag: vi.fn().mockResolvedValue(null),
+			refreshTags: vi.fn().mockResolvedValue(undefined),
 		}),
 		[
 			// Only include values that actually change and affect the output
@@ -1,4 +1,6 @@
-import ArticleCard from "@/components/ArticleCard";
+import ArticleGrid from "@/components/ArticleGrid";
+import { CollectionDialog } from "@/components/CollectionDialog";
+import { SearchQueryInput } from "@/components/SearchQueryInput";
 import TopBar from "@/components/TopBar"; // Import the new TopBar component
 import { Button } from "@/components/ui/button";
 // Removed unused Checkbox import
@@ -9,16 +11,18 @@ import {
 } from "@/components/ui/transition-group";
 import { useAnimation } from "@/context/AnimationContext";
 import { useArticles } from "@/context/ArticleContext";
+import { useCollections } from "@/hooks/useCollections";
 import { useDebounce } from "@/hooks/useDebounce"; // Import debounce hook
 import { createAnimationFrame } from "@/lib/animation";
 // Removed unused article utils import
 import {
 	// Removed unused icons: ArrowDownUp, ChevronDown, PanelLeft
+	Layers,
 	Plus,
 	RefreshCw,
 } from "lucide-react"; // Import icons
-import { useEffect, useRef, useState } from "react"; // Removed unused useMemo import
-import { Link } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
 
 export default function InboxPage() {
 	const {
@@ -32,8 +36,11 @@ export default function InboxPage() {
 		filters,
 		setFilters,
 		setSearchQuery,
-		// Removed unused sort variables: sortCriteria, setSortField, toggleSortDirection
+		sortCriteria,
 	} = useArticles();
+	const { createCollection } = useCollections();
+	const navigate = useNavigate();
+	const [isSavingSearch, setIsSavingSearch] = useState(false);
 	const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
 	const { synchronizeAnimations } = useAnimation();
 	const animationFrameRef = useRef(createAnimationFrame());
@@ -47,6 +54,15 @@ export default function InboxPage() {
 		setSearchQuery(debouncedSearchQuery);
 	}, [debouncedSearchQuery, setSearchQuery]);
 
+	// The current search and sort, as a starting point for a new collection
+	const searchToSave = useMemo(
+		() => ({
+			filter: { ...filters, searchQuery: localSearchQuery.trim() },
+			sortCriteria,
+		}),
+		[filters, localSearchQuery, sortCriteria],
+	);
+
 	// Reference to track if cards should animate
 	const shouldAnimateCards = useRef(true);
 
@@ -115,6 +131,30 @@ export default function InboxPage() {
 			{/* Added bg-background */}
 			<TopBar /> {/* Add the TopBar component here */}
 			{/* Remove the old placeholder div for the top bar */}
+			<div className="flex items-start gap-2 px-4 pt-4">
+				<SearchQueryInput
+					className="flex-1"
+					value={localSearchQuery}
+					onChange={setLocalSearchQuery}
+					placeholder='Search inbox... (try tag:, site:, is:unread, "phrase")'
+				/>
+				{localSearchQuery.trim() && (
+					<Button variant="outline" onClick={() => setIsSavingSearch(true)}>
+						<Layers className="mr-2 h-4 w-4" />
+						Save as Collection
+					</Button>
+				)}
+			</div>
+			<CollectionDialog
+				open={isSavingSearch}
+				onOpenChange={setIsSavingSearch}
+				initial={searchToSave}
+				onSave={async (input) => {
+					const collection = await createCollection(input);
+					if (collection) navigate(`/collection/${collection._id}`);
+					return !!collection;
+				}}
+			/>
 			<div className="flex-1 overflow-y-auto p-4">
 				{isLoading && !hasLoadedOnce ? (
 					<div className="flex items-center justify-center h-64">
@@ -185,18 +225,12 @@ export default function InboxPage() {
 						</TransitionItem>
 					</TransitionGroup>
 				) : (
-					<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-						{/* Filter processedArticles to show only 'inbox' status */}
-						{processedArticles
-							.filter((article) => article.status === "inbox")
-							.map((article, index) => (
-								<ArticleCard
-									key={article._id}
-									article={article}
-									index={index}
-								/>
-							))}
-					</div>
+					// Filter processedArticles to show only 'inbox' status
+					<ArticleGrid
+						articles={processedArticles.filter(
+							(article) => article.status === "inbox",
+						)}
+					/>
 				)}
 			</div>
 		</div>
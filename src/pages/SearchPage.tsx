@@ -1,94 +1,137 @@
 import ArticleCard from "@/components/ArticleCard";
+import { SearchQueryInput } from "@/components/SearchQueryInput";
 import { Button } from "@/components/ui/button";
-
-import { Input } from "@/components/ui/input";
 import { useArticles } from "@/context/ArticleContext";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Search } from "lucide-react";
-import { useMemo, useState } from "react";
+import { getUniqueSiteNames, sortArticles } from "@/lib/articleUtils";
+import { applySearchQuery, compileSearchQuery } from "@/lib/searchQuery";
+import {
+	type SearchHit,
+	type SnippetSegment,
+	searchArticles,
+} from "@/services/search";
+import { ArrowLeft } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
 
-// Simple fuzzy matching helper function
-function fuzzyMatch(text: string, query: string): boolean {
-	// If there's no query, don't match anything
-	if (!query.trim()) return false;
-
-	// Convert both to lowercase for case-insensitive matching
-	const lowerText = text.toLowerCase();
-	const lowerQuery = query.toLowerCase();
-
-	// Exact match is an automatic success
-	if (lowerText.includes(lowerQuery)) return true;
-
-	// For very short queries (1-2 chars), require exact match
-	if (lowerQuery.length <= 2) return lowerText.includes(lowerQuery);
+// Wait for a pause in typing before querying the index
+const SEARCH_DELAY_MS = 200;
+const RESULT_LIMIT = 100;
 
-	// For longer queries, implement simple fuzzy matching
-	let queryIndex = 0;
-	for (let i = 0; i < lowerText.length && queryIndex < lowerQuery.length; i++) {
-		if (lowerText[i] === lowerQuery[queryIndex]) {
-			queryIndex++;
-		}
-	}
-
-	// Match is successful if we found all query characters in sequence
-	return queryIndex === lowerQuery.length;
+// Renders a result snippet with the matched words highlighted
+function SearchSnippet({ segments }: { segments: SnippetSegment[] }) {
+	if (segments.length === 0) return null;
+	// Key each match by its offset in the snippet
+	let offset = 0;
+	return (
+		<p className="text-sm text-muted-foreground line-clamp-3 px-1">
+			{segments.map((segment) => {
+				const start = offset;
+				offset += segment.text.length;
+				return segment.match ? (
+					<mark
+						key={start}
+						className="bg-yellow-200 text-foreground rounded-sm px-0.5"
+					>
+						{segment.text}
+					</mark>
+				) : (
+					segment.text
+				);
+			})}
+		</p>
+	);
 }
 
 export default function SearchPage() {
 	const [searchTerm, setSearchTerm] = useState("");
-	const { articles } = useArticles();
+	const { articles, allTags } = useArticles();
 	const { toast } = useToast();
 	const [isSearching, setIsSearching] = useState(false);
+	const [hits, setHits] = useState<SearchHit[]>([]);
+	const [total, setTotal] = useState(0);
 
-	// Enhanced search functionality with content searching and fuzzy matching
-	const filteredArticles = useMemo(() => {
-		if (!searchTerm.trim()) return [];
+	const siteNames = useMemo(() => getUniqueSiteNames(articles), [articles]);
+	const compiledQuery = useMemo(
+		() => compileSearchQuery(searchTerm, { tags: allTags, siteNames }),
+		[searchTerm, allTags, siteNames],
+	);
+	// Articles allowed by the query's operators; the index matches the text
+	const matchingArticles = useMemo(
+		() => applySearchQuery(articles, compiledQuery, false),
+		[articles, compiledQuery],
+	);
 
-		setIsSearching(true);
+	// Query the full-text index over content, highlights and notes
+	useEffect(() => {
+		if (!searchTerm.trim()) {
+			setHits([]);
+			setTotal(0);
+			setIsSearching(false);
+			return undefined;
+		}
 
-		try {
-			// Start with simple matches for speed
-			const term = searchTerm.toLowerCase();
-			const exactMatches = articles.filter(
-				(article) =>
-					article.title.toLowerCase().includes(term) ||
-					article.excerpt.toLowerCase().includes(term) ||
-					(article.author?.toLowerCase().includes(term) ?? false) ||
-					(article.siteName?.toLowerCase().includes(term) ?? false),
+		// Operators only: list every match, newest first
+		if (!compiledQuery.text) {
+			const sorted = sortArticles(matchingArticles, {
+				field: "savedAt",
+				direction: "desc",
+			});
+			setHits(
+				sorted.slice(0, RESULT_LIMIT).map((article) => ({
+					articleId: article._id,
+					score: 0,
+					snippet: [],
+				})),
 			);
-
-			// Then try content matches if we don't have many results
-			let contentMatches: typeof articles = [];
-			if (exactMatches.length < 5) {
-				contentMatches = articles.filter(
-					(article) =>
-						!exactMatches.includes(article) && // Avoid duplicates
-						article.content?.toLowerCase().includes(term),
-				);
-			}
-
-			// Finally, try fuzzy matches if we still don't have many results
-			let fuzzyMatches: typeof articles = [];
-			if (exactMatches.length + contentMatches.length < 3 && term.length > 2) {
-				fuzzyMatches = articles.filter(
-					(article) =>
-						!exactMatches.includes(article) &&
-						!contentMatches.includes(article) && // Avoid duplicates
-						(fuzzyMatch(article.title, term) ||
-							fuzzyMatch(article.excerpt, term) ||
-							(article.author && fuzzyMatch(article.author, term)) ||
-							(article.siteName && fuzzyMatch(article.siteName, term)) ||
-							(article.content && fuzzyMatch(article.content, term))),
-				);
-			}
-
-			// Combine all matches
-			return [...exactMatches, ...contentMatches, ...fuzzyMatches];
-		} finally {
+			setTotal(sorted.length);
 			setIsSearching(false);
+			return undefined;
 		}
-	}, [articles, searchTerm]);
+
+		let cancelled = false;
+		setIsSearching(true);
+		const allowedIds = new Set(matchingArticles.map((article) => article._id));
+		const timeoutId = setTimeout(async () => {
+			try {
+				const results = await searchArticles(compiledQuery.text, {
+					limit: RESULT_LIMIT,
+					filter: (articleId) => allowedIds.has(articleId),
+				});
+				if (cancelled) return;
+				setHits(results.hits);
+				setTotal(results.total);
+			} catch (error) {
+				console.error("Search failed:", error);
+				if (cancelled) return;
+				setHits([]);
+				setTotal(0);
+				toast({
+					title: "Search Failed",
+					description: "Could not search your library. Please try again.",
+					variant: "destructive",
+				});
+			} finally {
+				if (!cancelled) setIsSearching(false);
+			}
+		}, SEARCH_DELAY_MS);
+
+		return () => {
+			cancelled = true;
+			clearTimeout(timeoutId);
+		};
+	}, [searchTerm, compiledQuery, matchingArticles, toast]);
+
+	// Only show hits for articles the current user can see
+	const results = useMemo(() => {
+		const articlesById = new Map(
+			articles.map((article) => [article._id, article]),
+		);
+		return hits.flatMap((hit) => {
+			const article = articlesById.get(hit.articleId);
+			return article ? [{ article, snippet: hit.snippet }] : [];
+		});
+	}, [articles, hits]);
 
 	const handleSearch = (e: React.FormEvent) => {
 		e.preventDefault();
@@ -114,15 +157,11 @@ export default function SearchPage() {
 
 			<div className="p-4">
 				<form onSubmit={handleSearch}>
-					<div className="relative">
-						<Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-						<Input
-							placeholder="Search articles..."
-							value={searchTerm}
-							onChange={(e) => setSearchTerm(e.target.value)}
-							className="pl-10"
-						/>
-					</div>
+					<SearchQueryInput
+						value={searchTerm}
+						onChange={setSearchTerm}
+						placeholder='Search articles, highlights and notes... (try "phrase", tag:, site:, is:unread)'
+					/>
 				</form>
 			</div>
 
@@ -137,7 +176,7 @@ export default function SearchPage() {
 							Enter search terms to find articles
 						</p>
 					</div>
-				) : filteredArticles.length === 0 ? (
+				) : results.length === 0 ? (
 					<div className="flex flex-col items-center justify-center h-64">
 						<p className="text-muted-foreground mb-2">
 							No articles found for "{searchTerm}"
@@ -149,13 +188,17 @@ export default function SearchPage() {
 				) : (
 					<div>
 						<p className="text-sm text-muted-foreground mb-4">
-							Found {filteredArticles.length}{" "}
-							{filteredArticles.length === 1 ? "result" : "results"} for "
-							{searchTerm}"
+							{total > results.length
+								? `Showing ${results.length} of ${total} results`
+								: `Found ${total} ${total === 1 ? "result" : "results"}`}{" "}
+							for "{searchTerm}"
 						</p>
 						<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-							{filteredArticles.map((article) => (
-								<ArticleCard key={article._id} article={article} />
+							{results.map(({ article, snippet }) => (
+								<div key={article._id} className="space-y-2">
+									<ArticleCard article={article} />
+									<SearchSnippet segments={snippet} />
+								</div>
 							))}
 						</div>
 					</div>
@@ -47,6 +47,27 @@ vi.mock("@/components/UserProfileSection", () => ({
 		<div data-testid="mock-user-profile-section">Mock User Profile Section</div>
 	),
 }));
+vi.mock("@/components/HighlightExportPanel", () => ({
+	HighlightExportPanel: () => (
+		<div data-testid="mock-highlight-export-panel">
+			Mock Highlight Export Panel
+		</div>
+	),
+}));
+
+vi.mock("@/components/ImportPanel", () => ({
+	ImportPanel: () => (
+		<div data-testid="mock-import-panel">Mock Import Panel</div>
+	),
+}));
+vi.mock("@/components/RestoreBackupPanel", () => ({
+	RestoreBackupPanel: () => (
+		<div data-testid="mock-restore-backup-panel">Mock Restore Backup Panel</div>
+	),
+}));
+vi.mock("@/components/TagManager", () => ({
+	TagManager: () => <div data-testid="mock-tag-manager">Mock Tag Manager</div>,
+}));
 vi.mock("@/components/keyboard-shortcuts-tab", () => ({
 	KeyboardShortcutsTab: () => (
 		<div data-testid="mock-shortcuts-tab">Mock Shortcuts Tab</div>
@@ -1,3 +1,7 @@
+import { HighlightExportPanel } from "@/components/HighlightExportPanel";
+import { ImportPanel } from "@/components/ImportPanel";
+import { RestoreBackupPanel } from "@/components/RestoreBackupPanel";
+import { TagManager } from "@/components/TagManager";
 import UserProfileSection from "@/components/UserProfileSection";
 import { KeyboardShortcutsTab } from "@/components/keyboard-shortcuts-tab";
 import { Button } from "@/components/ui/button";
@@ -14,16 +18,17 @@ import type { TextSize } from "@/context/ThemeContext"; // Import TextSize type
 import { useTheme } from "@/context/ThemeContext";
 import { useToast } from "@/hooks/use-toast";
 import { useArticleActions } from "@/hooks/useArticleActions";
+import { downloadBlob } from "@/lib/utils";
+import { createBackup, updateMissingMetadata } from "@/services/db";
+import { createMarkdownExport } from "@/services/export";
 import {
-	type Article,
-	type Highlight,
-	type Tag,
-	articlesDb,
-	highlightsDb,
-	tagsDb,
-	updateMissingMetadata,
-} from "@/services/db"; // Import specific DBs and types
-import { ArrowLeft, Database, Keyboard, Palette, User } from "lucide-react";
+	ArrowLeft,
+	Database,
+	Keyboard,
+	Palette,
+	Tag as TagIcon,
+	User,
+} from "lucide-react";
 import { useState } from "react";
 import { Link } from "react-router-dom";
 
@@ -31,6 +36,7 @@ export default function SettingsPage() {
 	const { toast } = useToast();
 	const { textSize, setTextSize } = useTheme(); // Get textSize and setTextSize
 	const [isExportingData, setIsExportingData] = useState(false);
+	const [isExportingMarkdown, setIsExportingMarkdown] = useState(false);
 	const [isCleaningDuplicates, setIsCleaningDuplicates] = useState(false);
 	const [isUpdatingMetadata, setIsUpdatingMetadata] = useState(false); // Add state for metadata update button
 	const [activeTab, setActiveTab] = useState("profile");
@@ -46,50 +52,16 @@ export default function SettingsPage() {
 	const exportData = async () => {
 		setIsExportingData(true);
 		try {
-			// Get all data from PouchDB using specific DB instances
-			const articles = await articlesDb.allDocs<Article>({
-				include_docs: true,
-			});
-			const highlights = await highlightsDb.allDocs<Highlight>({
-				include_docs: true,
-			});
-			const tags = await tagsDb.allDocs<Tag>({ include_docs: true });
-
-			// Create a JSON object with all data, adding explicit types to map parameters
-			const exportData = {
-				articles: articles.rows.map(
-					(row: PouchDB.Core.AllDocsResponse<Article>["rows"][number]) =>
-						row.doc,
-				),
-				highlights: highlights.rows.map(
-					(row: PouchDB.Core.AllDocsResponse<Highlight>["rows"][number]) =>
-						row.doc,
-				),
-				tags: tags.rows.map(
-					(row: PouchDB.Core.AllDocsResponse<Tag>["rows"][number]) => row.doc,
-				),
-				exportDate: new Date().toISOString(),
-			};
-
-			// Convert to JSON string
-			const dataStr = JSON.stringify(exportData, null, 2);
+			// Articles (with their notes), highlights and tags; see services/db/backup.ts
+			const exportData = await createBackup();
 
-			// Create a download link
-			const dataBlob = new Blob([dataStr], { type: "application/json" });
-			const url = URL.createObjectURL(dataBlob);
-			const link = document.createElement("a");
-			link.href = url;
-			link.download = `read-sync-haven-export-${
-				new Date().toISOString().split("T")[0]
-			}.json`;
-			document.body.appendChild(link);
-
-			// Trigger download
-			link.click();
-
-			// Clean up
-			document.body.removeChild(link);
-			URL.revokeObjectURL(url);
+			const dataBlob = new Blob([JSON.stringify(exportData, null, 2)], {
+				type: "application/json",
+			});
+			downloadBlob(
+				dataBlob,
+				`read-sync-haven-export-${new Date().toISOString().split("T")[0]}.json`,
+			);
 
 			toast({
 				title: "Export Complete",
@@ -107,6 +79,32 @@ export default function SettingsPage() {
 		}
 	};
 
+	const exportMarkdown = async () => {
+		setIsExportingMarkdown(true);
+		try {
+			const zip = await createMarkdownExport(
+				await createBackup({ attachments: false }),
+			);
+			downloadBlob(
+				zip,
+				`read-sync-haven-markdown-${new Date().toISOString().split("T")[0]}.zip`,
+			);
+			toast({
+				title: "Export Complete",
+				description: "Your articles have been exported as Markdown.",
+			});
+		} catch (error) {
+			console.error("Markdown export error:", error);
+			toast({
+				title: "Export Failed",
+				description: "There was an error exporting your articles.",
+				variant: "destructive",
+			});
+		} finally {
+			setIsExportingMarkdown(false);
+		}
+	};
+
 	// Function to handle duplicate cleanup
 	const handleCleanDuplicates = async () => {
 		setIsCleaningDuplicates(true);
@@ -162,7 +160,7 @@ export default function SettingsPage() {
 				onValueChange={setActiveTab}
 				className="space-y-6"
 			>
-				<TabsList className="grid grid-cols-4 mb-4">
+				<TabsList className="grid grid-cols-5 mb-4">
 					<TabsTrigger value="profile" className="flex items-center gap-1">
 						<User className="h-4 w-4" />
 						<span>Profile</span>
@@ -171,6 +169,10 @@ export default function SettingsPage() {
 						<Palette className="h-4 w-4" />
 						<span>Appearance</span>
 					</TabsTrigger>
+					<TabsTrigger value="tags" className="flex items-center gap-1">
+						<TagIcon className="h-4 w-4" />
+						<span>Tags</span>
+					</TabsTrigger>
 					<TabsTrigger value="data" className="flex items-center gap-1">
 						<Database className="h-4 w-4" />
 						<span>Data</span>
@@ -230,6 +232,14 @@ export default function SettingsPage() {
 					</ScrollArea>
 				</TabsContent>
 
+				<TabsContent value="tags" className="space-y-6">
+					<ScrollArea className="h-[70vh]">
+						<div className="pr-4">
+							<TagManager />
+						</div>
+					</ScrollArea>
+				</TabsContent>
+
 				<TabsContent value="data" className="space-y-6">
 					<ScrollArea className="h-[70vh]">
 						<div className="pr-4 space-y-6">
@@ -259,6 +269,48 @@ export default function SettingsPage() {
 											{isExportingData ? "Exporting..." : "Export Data"}
 										</Button>
 									</div>
+									<Separator />
+									<div className="space-y-2">
+										<h3 className="text-sm font-medium">Export as Markdown</h3>
+										<p className="text-sm text-muted-foreground">
+											Download a zip with one Markdown file per article,
+											including highlights and notes, ready to drop into an
+											Obsidian or Logseq vault
+										</p>
+										<Button
+											variant="outline"
+											onClick={exportMarkdown}
+											disabled={isExportingMarkdown}
+										>
+											{isExportingMarkdown ? "Exporting..." : "Export Markdown"}
+										</Button>
+									</div>
+									<Separator />
+									<div className="space-y-2">
+										<h3 className="text-sm font-medium">Export Highlights</h3>
+										<p className="text-sm text-muted-foreground">
+											Download your highlights as a Readwise CSV or as Anki
+											cards, with the highlight on the front and your note and
+											the source on the back
+										</p>
+										<HighlightExportPanel />
+									</div>
+									<Separator />
+									<div className="space-y-2">
+										<h3 className="text-sm font-medium">
+											Import from Other Services
+										</h3>
+										<ImportPanel />
+									</div>
+									<Separator />
+									<div className="space-y-2">
+										<h3 className="text-sm font-medium">Restore Backup</h3>
+										<p className="text-sm text-muted-foreground">
+											Restore articles, highlights and tags from a file made
+											with Export Data
+										</p>
+										<RestoreBackupPanel />
+									</div>
 									<Separator /> {/* Add separator */}
 									{/* Duplicate Cleanup Section */}
 									<div className="space-y-2">
@@ -1,6 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { fetchCloudItems } from "./cloudSync";
-// import type { Article } from "./db"; // No longer needed for these tests
+import {
+	fetchCloudChanges,
+	fetchCloudItems,
+	fetchFileFromCloud,
+	uploadFileToCloud,
+} from "./cloudSync";
+import type { Article } from "./db";
 
 // Mock the global fetch function
 // We will mock fetch inside each test case using vi.fn()
@@ -127,5 +132,205 @@ describe("services/cloudSync", () => {
 		});
 	});
 
+	describe("fetchCloudChanges", () => {
+		const doc = (id: string) => ({
+			_id: id,
+			url: `http://example.com/${id}`,
+			title: `Article ${id}`,
+			content: "Content",
+			savedAt: 1000,
+			type: "article",
+			userId: "user-abc",
+		});
+
+		it("should follow pages until has_more is false", async () => {
+			global.fetch = vi
+				.fn()
+				.mockResolvedValueOnce({
+					ok: true,
+					status: 200,
+					json: async () => ({
+						results: [{ id: "a1", seq: "s1", deleted: false, doc: doc("a1") }],
+						last_seq: "s1",
+						has_more: true,
+					}),
+				} as Response)
+				.mockResolvedValueOnce({
+					ok: true,
+					status: 200,
+					json: async () => ({
+						results: [{ id: "a2", seq: "s2", deleted: true }],
+						last_seq: "s2",
+						has_more: false,
+					}),
+				} as Response);
+
+			const result = await fetchCloudChanges("mock-token", "s0");
+
+			expect(global.fetch).toHaveBeenCalledTimes(2);
+			expect(vi.mocked(global.fetch).mock.calls[0][0]).toContain("since=s0");
+			expect(vi.mocked(global.fetch).mock.calls[1][0]).toContain("since=s1");
+			expect(result.items.map((item) => item._id)).toEqual(["a1"]);
+			expect(result.items[0].tags).toEqual([]); // Default value
+			expect(result.deletedIds).toEqual(["a2"]);
+			expect(result.lastSeq).toBe("s2");
+		});
+
+		it("should keep only the latest change for an item sent twice", async () => {
+			global.fetch = vi
+				.fn()
+				.mockResolvedValueOnce({
+					ok: true,
+					status: 200,
+					json: async () => ({
+						results: [
+							{ id: "a1", seq: "s1", deleted: false, doc: doc("a1") },
+							{ id: "a2", seq: "s2", deleted: false, doc: doc("a2") },
+						],
+						last_seq: "s2",
+						has_more: true,
+					}),
+				} as Response)
+				.mockResolvedValueOnce({
+					ok: true,
+					status: 200,
+					json: async () => ({
+						results: [{ id: "a1", seq: "s3", deleted: true }],
+						last_seq: "s3",
+						has_more: false,
+					}),
+				} as Response);
+
+			const result = await fetchCloudChanges("mock-token", "s0");
+
+			expect(result.items.map((item) => item._id)).toEqual(["a2"]);
+			expect(result.deletedIds).toEqual(["a1"]);
+		});
+
+		it("should omit since on a first pull and keep the cursor when nothing changed", async () => {
+			global.fetch = vi.fn().mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => ({ results: [], last_seq: null, has_more: false }),
+			} as Response);
+
+			const result = await fetchCloudChanges("mock-token", null);
+
+			expect(vi.mocked(global.fetch).mock.calls[0][0]).not.toContain("since=");
+			expect(result).toEqual({ items: [], deletedIds: [], lastSeq: null });
+		});
+
+		it("should throw an authentication error on 401 response", async () => {
+			global.fetch = vi.fn().mockResolvedValue({
+				ok: false,
+				status: 401,
+				statusText: "Unauthorized",
+			} as Response);
+
+			await expect(fetchCloudChanges("mock-token", "s1")).rejects.toThrow(
+				"Authentication failed. Please sign in again.",
+			);
+		});
+	});
+
+	describe("uploadFileToCloud", () => {
+		const pdf: Article = {
+			_id: "pdf1",
+			url: "local-pdf://paper.pdf",
+			title: "Paper",
+			content: "PDF content is stored as an attachment.",
+			excerpt: "",
+			tags: [],
+			savedAt: 1000,
+			status: "inbox",
+			isRead: false,
+			favorite: false,
+			type: "pdf",
+			userId: "user-abc",
+		};
+
+		it("should PUT small files in a single request", async () => {
+			global.fetch = vi.fn().mockResolvedValue({
+				ok: true,
+				status: 201,
+			} as Response);
+			const file = new Blob(["%PDF-1.4"]);
+
+			const status = await uploadFileToCloud(pdf, file, "mock-token");
+
+			expect(status).toBe("success");
+			expect(global.fetch).toHaveBeenCalledTimes(1);
+			const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+			expect(url).toMatch(/\/files\/pdf1$/);
+			expect(init?.method).toBe("PUT");
+			expect(init?.body).toBe(file);
+			expect(init?.headers).toMatchObject({
+				"Content-Type": "application/pdf",
+				Authorization: "Bearer mock-token",
+			});
+		});
+
+		it("should upload large files in parts, skipping parts the worker has", async () => {
+			const partSize = 8 * 1024 * 1024;
+			global.fetch = vi
+				.fn()
+				.mockResolvedValueOnce({
+					ok: true,
+					status: 200,
+					json: async () => ({
+						uploadId: "up1",
+						partSize,
+						partCount: 2,
+						uploadedParts: [1],
+					}),
+				} as Response)
+				.mockResolvedValue({ ok: true, status: 201 } as Response);
+			const file = new Blob([new Uint8Array(partSize + 2)]);
+
+			const status = await uploadFileToCloud(pdf, file, "mock-token");
+
+			expect(status).toBe("success");
+			const calls = vi.mocked(global.fetch).mock.calls;
+			expect(calls.map(([url, init]) => [init?.method, url])).toEqual([
+				["POST", expect.stringMatching(/\/files\/pdf1\/uploads$/)],
+				["PUT", expect.stringMatching(/\/uploads\/up1\/parts\/2$/)],
+				["POST", expect.stringMatching(/\/uploads\/up1\/complete$/)],
+			]);
+			expect((calls[1][1]?.body as Blob).size).toBe(2);
+		});
+
+		it("should report an error when the article isn't in the cloud yet", async () => {
+			global.fetch = vi.fn().mockResolvedValue({
+				ok: false,
+				status: 404,
+				text: async () => "Item not found",
+			} as Response);
+
+			const status = await uploadFileToCloud(
+				pdf,
+				new Blob(["%PDF"]),
+				"mock-token",
+			);
+
+			expect(status).toBe("error");
+		});
+	});
+
+	describe("fetchFileFromCloud", () => {
+		it("should return null when the file doesn't exist remotely", async () => {
+			global.fetch = vi.fn().mockResolvedValue({
+				ok: false,
+				status: 404,
+			} as Response);
+
+			await expect(fetchFileFromCloud("pdf1", "mock-token")).resolves.toBe(
+				null,
+			);
+			expect(vi.mocked(global.fetch).mock.calls[0][0]).toMatch(
+				/\/files\/pdf1$/,
+			);
+		});
+	});
+
 	// TODO: Add tests for saveItemToCloud if needed
 });
@@ -1,4 +1,4 @@
-import type { Article } from "./db"; // Use type-only import
+import { type Article, FILE_CONTENT_TYPES, type SmartCollection } from "./db";
 
 // Define possible outcomes for cloud operations
 export type CloudSyncStatus =
@@ -79,11 +79,97 @@ export async function fetchCloudItems(
 	}
 }
 
+// Result of following the worker's changes feed to the end
+export interface CloudChanges {
+	items: Article[];
+	deletedIds: string[];
+	lastSeq: string | null; // Pass back as `since` on the next pull
+}
+
+/**
+ * Fetches items changed or deleted since `since` from the worker's
+ * /items/changes feed, following pages until the feed is exhausted.
+ * Pass `null` to fetch everything.
+ */
+export async function fetchCloudChanges(
+	token: string,
+	since: string | null,
+	email?: string | null,
+): Promise<CloudChanges> {
+	const changes: CloudChanges = { items: [], deletedIds: [], lastSeq: since };
+	if (!token) {
+		console.error("Cannot fetch cloud changes: No token provided.");
+		return changes;
+	}
+	try {
+		const latest = new Map<string, Article | null>(); // null for deletions
+		let hasMore = true;
+		while (hasMore) {
+			const params = new URLSearchParams();
+			if (changes.lastSeq) params.set("since", changes.lastSeq);
+			if (email) params.set("email", email);
+			const query = params.toString();
+			const fetchUrl = `https://bondwise-sync-api.vikione.workers.dev/items/changes${query ? `?${query}` : ""}`;
+			console.log(`Fetching cloud changes from: ${fetchUrl}`);
+
+			const response = await fetch(fetchUrl, {
+				headers: {
+					Authorization: `Bearer ${token}`,
+				},
+			});
+
+			if (!response.ok) {
+				if (response.status === 401) {
+					console.error("Authentication failed when fetching cloud changes.");
+					throw new Error("Authentication failed. Please sign in again.");
+				}
+				throw new Error(`API error: ${response.status} ${response.statusText}`);
+			}
+
+			const page = await response.json();
+			for (const change of page.results ?? []) {
+				// Recent changes are sent again until they settle; keep the latest
+				latest.delete(change.id);
+				if (change.deleted) {
+					latest.set(change.id, null);
+				} else if (change.doc) {
+					latest.set(change.id, {
+						...change.doc,
+						_id: change.doc._id ?? change.id,
+						savedAt: change.doc.savedAt || Date.now(),
+						isRead: change.doc.isRead ?? false,
+						favorite: change.doc.favorite ?? false,
+						tags: change.doc.tags || [],
+					});
+				}
+			}
+			// Stop if the cursor did not move, to avoid looping on a bad response
+			hasMore = !!page.has_more && page.last_seq !== changes.lastSeq;
+			changes.lastSeq = page.last_seq ?? changes.lastSeq;
+		}
+		for (const [id, item] of latest) {
+			if (item) {
+				changes.items.push(item);
+			} else {
+				changes.deletedIds.push(id);
+			}
+		}
+		console.log(
+			`Retrieved ${changes.items.length} changed and ${changes.deletedIds.length} deleted items from cloud`,
+		);
+		return changes;
+	} catch (error) {
+		console.error("Error fetching cloud changes:", error);
+		throw error;
+	}
+}
+
 /**
  * Saves an article to the Cloudflare Worker
  */
 export async function saveItemToCloud(
 	article: Article,
+	token: string,
 ): Promise<CloudSyncStatus> {
 	if (!article.userId) {
 		console.error("Cannot save to cloud: article has no userId", article._id);
@@ -91,16 +177,19 @@ export async function saveItemToCloud(
 	}
 
 	try {
+		// Attachments are local to PouchDB; files go up through uploadFileToCloud
+		const { _attachments, ...item } = article;
 		const response = await fetch(
 			"https://bondwise-sync-api.vikione.workers.dev/items",
 			{
 				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
+					Authorization: `Bearer ${token}`,
 				},
-				// Send the entire Article object. The worker now expects fields
-				// like _id, savedAt (as number), fileData, and the correct type directly.
-				body: JSON.stringify(article),
+				// Send the rest of the Article object. The worker expects fields
+				// like _id, savedAt (as number) and the correct type directly.
+				body: JSON.stringify(item),
 			},
 		);
 
@@ -126,11 +215,154 @@ export async function saveItemToCloud(
 	}
 }
 
+// Files up to this size are uploaded in one request; larger ones in parts.
+// Matches the part size of the worker's /files API.
+const FILE_UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+
+// Multipart upload as described by the worker, including the parts it already has
+interface FileUpload {
+	uploadId: string;
+	partSize: number;
+	partCount: number;
+	uploadedParts: number[];
+}
+
+const fileUrl = (articleId: string) =>
+	`https://bondwise-sync-api.vikione.workers.dev/files/${encodeURIComponent(
+		articleId,
+	)}`;
+
+/**
+ * Sends a file as a multipart upload. Starting an upload of a file the worker
+ * is already receiving returns the parts it has, so a retry after a dropped
+ * connection only sends the rest. Parts are sent one at a time.
+ *
+ * @returns The first failed response, or the response completing the upload.
+ */
+async function uploadFileInParts(
+	url: string,
+	file: Blob,
+	contentType: string,
+	token: string,
+): Promise<Response> {
+	const headers = { Authorization: `Bearer ${token}` };
+	const createResponse = await fetch(`${url}/uploads`, {
+		method: "POST",
+		headers: { ...headers, "Content-Type": "application/json" },
+		body: JSON.stringify({ size: file.size, contentType }),
+	});
+	if (!createResponse.ok) return createResponse;
+
+	const upload = (await createResponse.json()) as FileUpload;
+	const uploadUrl = `${url}/uploads/${encodeURIComponent(upload.uploadId)}`;
+	const uploaded = new Set(upload.uploadedParts);
+	for (let partNumber = 1; partNumber <= upload.partCount; partNumber++) {
+		if (uploaded.has(partNumber)) continue;
+		const start = (partNumber - 1) * upload.partSize;
+		const partResponse = await fetch(`${uploadUrl}/parts/${partNumber}`, {
+			method: "PUT",
+			headers,
+			body: file.slice(start, start + upload.partSize),
+		});
+		if (!partResponse.ok) return partResponse;
+	}
+
+	return fetch(`${uploadUrl}/complete`, { method: "POST", headers });
+}
+
+/**
+ * Uploads the binary file (PDF or EPUB) of an article to the Cloudflare
+ * Worker's /files API. The article must have been saved to the cloud first.
+ * Large files are uploaded in resumable parts.
+ */
+export async function uploadFileToCloud(
+	article: Article,
+	file: Blob,
+	token: string,
+): Promise<CloudSyncStatus> {
+	if (!article.userId) {
+		console.error("Cannot upload file: article has no userId", article._id);
+		return "no_user_id";
+	}
+
+	const contentType =
+		file.type ||
+		(article.type === "pdf" || article.type === "epub"
+			? FILE_CONTENT_TYPES[article.type]
+			: "application/octet-stream");
+
+	try {
+		const url = fileUrl(article._id);
+		const response =
+			file.size <= FILE_UPLOAD_PART_SIZE
+				? await fetch(url, {
+						method: "PUT",
+						headers: {
+							"Content-Type": contentType,
+							Authorization: `Bearer ${token}`,
+						},
+						body: file,
+					})
+				: await uploadFileInParts(url, file, contentType, token);
+
+		if (response.ok) {
+			return "success";
+		}
+		if (response.status === 401) {
+			console.error(
+				`Unauthorized: Failed to upload file of ${article._id} to cloud.`,
+			);
+			return "unauthorized";
+		}
+		// A 404 means the article itself isn't in the cloud yet, which is an
+		// error here (unlike deletions), so the upload is retried
+		const errorBody = await response.text();
+		console.error(
+			`Error uploading file of ${article._id} to cloud. Status: ${response.status}, Body: ${errorBody}`,
+		);
+		return "error";
+	} catch (error) {
+		console.error(`Error uploading file of ${article._id} to cloud:`, error);
+		return "error";
+	}
+}
+
+/**
+ * Downloads the binary file (PDF or EPUB) of an article from the Cloudflare
+ * Worker's /files API.
+ *
+ * @returns The file, or null if the item or its file doesn't exist remotely.
+ * @throws Error if the request fails.
+ */
+export async function fetchFileFromCloud(
+	articleId: string,
+	token: string,
+): Promise<Blob | null> {
+	const response = await fetch(fileUrl(articleId), {
+		headers: {
+			Authorization: `Bearer ${token}`,
+		},
+	});
+
+	if (response.status === 404) {
+		return null;
+	}
+	if (!response.ok) {
+		if (response.status === 401) {
+			throw new Error("Authentication failed. Please sign in again.");
+		}
+		throw new Error(`API error: ${response.status} ${response.statusText}`);
+	}
+
+	return response.blob();
+}
+
 /**
  * Deletes an article from the Cloudflare Worker
  */
 export async function deleteItemFromCloud(
 	articleId: string,
+	token: string,
 ): Promise<CloudSyncStatus> {
 	if (!articleId) {
 		console.error("Cannot delete from cloud: articleId is missing.");
@@ -149,9 +381,7 @@ export async function deleteItemFromCloud(
 		const response = await fetch(deleteUrl, {
 			method: "DELETE",
 			headers: {
-				// Add authentication headers if required by the worker
-				// Assuming the worker uses the same auth as fetch/save
-				// If not, this needs adjustment based on worker requirements
+				Authorization: `Bearer ${token}`,
 			},
 		});
 
@@ -188,3 +418,93 @@ export async function deleteItemFromCloud(
 
 // Removed unused mapItemType function
 // Removed mapArticleType as we now send the original type directly
+
+/**
+ * Fetches the authenticated user's smart collections, including tombstones
+ * for deleted ones.
+ */
+export async function fetchCloudCollections(
+	token: string,
+): Promise<SmartCollection[]> {
+	if (!token) {
+		console.error("Cannot fetch cloud collections: No token provided.");
+		return [];
+	}
+	try {
+		const response = await fetch(
+			"https://bondwise-sync-api.vikione.workers.dev/collections",
+			{
+				headers: {
+					Authorization: `Bearer ${token}`,
+				},
+			},
+		);
+
+		if (!response.ok) {
+			if (response.status === 401) {
+				console.error("Authentication failed when fetching cloud collections.");
+				throw new Error("Authentication failed. Please sign in again.");
+			}
+			throw new Error(`API error: ${response.status} ${response.statusText}`);
+		}
+
+		const collections: SmartCollection[] = await response.json();
+		console.log(`Retrieved ${collections.length} collections from cloud`);
+		return collections;
+	} catch (error) {
+		console.error("Error fetching cloud collections:", error);
+		throw error;
+	}
+}
+
+/**
+ * Saves a smart collection (or its tombstone) to the Cloudflare Worker.
+ * The worker keeps whichever copy has the newest `updatedAt`.
+ */
+export async function saveCollectionToCloud(
+	collection: SmartCollection,
+	token: string,
+): Promise<CloudSyncStatus> {
+	if (!collection.userId) {
+		console.error(
+			"Cannot save to cloud: collection has no userId",
+			collection._id,
+		);
+		return "no_user_id";
+	}
+
+	try {
+		const { _rev, ...body } = collection; // Revisions are local to PouchDB
+		const response = await fetch(
+			`https://bondwise-sync-api.vikione.workers.dev/collections/${encodeURIComponent(
+				collection._id,
+			)}`,
+			{
+				method: "PUT",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${token}`,
+				},
+				body: JSON.stringify(body),
+			},
+		);
+
+		if (response.ok) {
+			return "success";
+		}
+		if (response.status === 401) {
+			console.error(
+				`Unauthorized: Failed to save collection ${collection._id} to cloud.`,
+			);
+			return "unauthorized";
+		}
+		const errorBody = await response.text();
+		console.error(
+			`Error saving collection ${collection._id} to cloud. Status: ${response.status}, Body: ${errorBody}`,
+		);
+		return "error";
+	} catch (error) {
+		console.error(`Error saving collection ${collection._id} to cloud:`, error);
+		return "error";
+	}
+}
@@ -0,0 +1,120 @@
+// src/services/collectionSync.test.ts
+
+import { beforeEach, describe, expect, it } from "vitest";
+import type { CloudSyncStatus } from "./cloudSync";
+import { type CollectionRemote, syncCollections } from "./collectionSync";
+import {
+	type SmartCollection,
+	collectionsDb,
+	deleteCollection,
+	getAllCollections,
+	getCollection,
+	saveCollection,
+	updateCollection,
+} from "./db";
+
+const USER_ID = "test-user";
+
+const filter = {
+	siteNames: [],
+	types: [],
+	tags: [],
+	searchQuery: "is:unread type:pdf saved:this-month",
+};
+const sortCriteria = { field: "savedAt", direction: "desc" } as const;
+
+/**
+ * In-memory stand-in for the worker's collection store.
+ * Like the worker, it keeps whichever copy has the newest `updatedAt`.
+ */
+class MemoryCollectionRemote implements CollectionRemote {
+	store = new Map<string, SmartCollection>();
+
+	async list(): Promise<SmartCollection[]> {
+		return Array.from(this.store.values());
+	}
+
+	async push(collection: SmartCollection): Promise<CloudSyncStatus> {
+		const existing = this.store.get(collection._id);
+		if (!existing || existing.updatedAt <= collection.updatedAt) {
+			const { _rev, ...stored } = collection;
+			this.store.set(collection._id, stored);
+		}
+		return "success";
+	}
+}
+
+describe("syncCollections", () => {
+	let remote: MemoryCollectionRemote;
+
+	beforeEach(async () => {
+		const allDocs = await collectionsDb.allDocs();
+		await Promise.all(
+			allDocs.rows.map((row) => collectionsDb.remove(row.id, row.value.rev)),
+		);
+		remote = new MemoryCollectionRemote();
+	});
+
+	it("should push new local collections and claim them for the user", async () => {
+		const saved = await saveCollection({
+			name: " Unread PDFs from this month ",
+			filter,
+			sortCriteria,
+		});
+
+		const result = await syncCollections({ userId: USER_ID, remote });
+
+		expect(result).toEqual({ pulled: 0, pushed: 1, failed: 0 });
+		expect(remote.store.get(saved._id)).toMatchObject({
+			name: "Unread PDFs from this month",
+			userId: USER_ID,
+			filter,
+		});
+		// Nothing changed, so nothing is pushed again
+		expect(await syncCollections({ userId: USER_ID, remote })).toEqual({
+			pulled: 0,
+			pushed: 0,
+			failed: 0,
+		});
+	});
+
+	it("should keep the most recently edited copy on both sides", async () => {
+		const saved = await saveCollection(
+			{ name: "Long reads", filter, sortCriteria },
+			USER_ID,
+		);
+		await syncCollections({ userId: USER_ID, remote });
+
+		// Another device renames it later
+		remote.store.set(saved._id, {
+			...saved,
+			name: "Long reads about AI",
+			updatedAt: saved.updatedAt + 1000,
+		});
+		const result = await syncCollections({ userId: USER_ID, remote });
+		expect(result.pulled).toBe(1);
+		expect((await getCollection(saved._id))?.name).toBe("Long reads about AI");
+
+		// A local edit made after that wins the next round
+		await updateCollection(saved._id, { name: "AI" });
+		const local = await collectionsDb.get(saved._id);
+		await collectionsDb.put({ ...local, updatedAt: saved.updatedAt + 2000 });
+		await syncCollections({ userId: USER_ID, remote });
+		expect(remote.store.get(saved._id)?.name).toBe("AI");
+	});
+
+	it("should sync deletions as tombstones", async () => {
+		const saved = await saveCollection(
+			{ name: "Old", filter, sortCriteria },
+			USER_ID,
+		);
+		await syncCollections({ userId: USER_ID, remote });
+
+		await deleteCollection(saved._id);
+		expect(await getAllCollections()).toEqual([]);
+		expect(await getCollection(saved._id)).toBeNull();
+
+		await syncCollections({ userId: USER_ID, remote });
+		expect(remote.store.get(saved._id)?.deleted).toBe(true);
+	});
+});
@@ -0,0 +1,90 @@
+// src/services/collectionSync.ts
+/**
+ * Sync of smart collections between `collectionsDb` and the sync worker.
+ *
+ * Collections are small and few, so every round pulls the full remote set
+ * and pushes any local collection that is newer than its remote copy.
+ * Conflicts are settled by `updatedAt` (last write wins) on both sides, and
+ * deletions travel as tombstones.
+ */
+import {
+	type CloudSyncStatus,
+	fetchCloudCollections,
+	saveCollectionToCloud,
+} from "./cloudSync";
+import {
+	type SmartCollection,
+	applyRemoteCollections,
+	getAllCollections,
+} from "./db";
+
+/**
+ * Transport used to talk to the remote collection store.
+ * Tests can provide an in-memory stand-in for `createCloudCollectionRemote`.
+ */
+export interface CollectionRemote {
+	list(): Promise<SmartCollection[]>;
+	push(collection: SmartCollection): Promise<CloudSyncStatus>;
+}
+
+/**
+ * Summary of a completed collection sync round.
+ */
+export interface CollectionSyncResult {
+	pulled: number;
+	pushed: number;
+	failed: number;
+}
+
+/**
+ * Pulls remote collections, then pushes local ones the remote hasn't seen.
+ * Collections created while signed out are claimed by `userId`.
+ */
+export async function syncCollections({
+	userId,
+	remote,
+}: {
+	userId: string;
+	remote: CollectionRemote;
+}): Promise<CollectionSyncResult> {
+	const result: CollectionSyncResult = { pulled: 0, pushed: 0, failed: 0 };
+
+	const remoteCollections = await remote.list();
+	result.pulled = await applyRemoteCollections(remoteCollections);
+
+	const remoteUpdatedAt = new Map(
+		remoteCollections.map((collection) => [
+			collection._id,
+			collection.updatedAt,
+		]),
+	);
+	const local = await getAllCollections({ includeDeleted: true });
+	for (const collection of local) {
+		if (collection.userId && collection.userId !== userId) continue;
+		const seen = remoteUpdatedAt.get(collection._id);
+		if (seen !== undefined && seen >= collection.updatedAt) continue;
+
+		const status = await remote.push({ ...collection, userId });
+		if (status === "success") {
+			result.pushed++;
+		} else {
+			console.warn(
+				`Collection sync: Failed to push ${collection._id} (${status})`,
+			);
+			result.failed++;
+		}
+	}
+
+	console.log("Collection sync: Round complete:", result);
+	return result;
+}
+
+/**
+ * Creates a `CollectionRemote` backed by the sync worker's /collections API.
+ */
+export function createCloudCollectionRemote(token: string): CollectionRemote {
+	return {
+		list: () => fetchCloudCollections(token),
+		push: (collection) => saveCollectionToCloud(collection, token),
+	};
+}
@@ -16,6 +16,7 @@ import {
 	getAllArticles,
 	removeDuplicateArticles,
 	saveArticle,
+	updateArticle,
 } from "./articles"; // Import the function to test and helpers
 import { articlesDb, initializeDatabase } from "./config"; // Import articlesDb as well
 import type { Article } from "./types";
@@ -247,8 +248,109 @@ describe("removeDuplicateArticles", () => {
 		consoleWarnSpy.mockRestore();
 	});
 
+	it("should treat URLs that differ only in tracking parameters or a canonical URL as duplicates", async () => {
+		await saveArticle(
+			createArticleData(1, "https://example.com/post", "Original"),
+		);
+		await saveArticle(
+			createArticleData(
+				2,
+				"https://www.example.com/post/?utm_source=feed",
+				"From a feed",
+			),
+		);
+		await saveArticle({
+			...createArticleData(3, "https://m.example.com/p/123", "Mobile link"),
+			canonicalUrl: "https://example.com/post",
+		});
+		await saveArticle(
+			createArticleData(4, "https://example.com/other", "Other"),
+		);
+
+		const removedCount = await removeDuplicateArticles();
+		const remainingArticles = await getAllArticles();
+
+		expect(removedCount).toBe(2);
+		expect(remainingArticles.map((a) => a._id).sort()).toEqual([
+			"article_1",
+			"article_4",
+		]);
+	});
+
 	it("should return 0 if the database is empty", async () => {
 		const removedCount = await removeDuplicateArticles();
 		expect(removedCount).toBe(0);
 	});
 });
+
+describe("field-level merging", () => {
+	beforeAll(async () => {
+		await initializeDatabase();
+	});
+
+	beforeEach(async () => {
+		const allDocs = await articlesDb.allDocs();
+		if (allDocs.rows.length > 0) {
+			await articlesDb.bulkDocs(
+				allDocs.rows.map((row) => ({
+					_id: row.id,
+					_rev: row.value.rev,
+					_deleted: true,
+				})) as any[], // Cast needed for deletion stubs
+			);
+		}
+	});
+
+	it("should stamp the tracked fields changed by updateArticle", async () => {
+		const saved = await saveArticle(
+			createArticleData(1, "http://stamp.com", "Stamp Test"),
+		);
+
+		const updated = await updateArticle({
+			_id: saved._id,
+			_rev: saved._rev as string,
+			favorite: true,
+			title: "Renamed",
+		});
+
+		expect(updated.fieldTimestamps?.favorite).toBeGreaterThan(0);
+		expect(Object.keys(updated.fieldTimestamps ?? {})).toEqual(["favorite"]);
+	});
+
+	it("should merge field by field when saving over an existing article", async () => {
+		const local = await saveArticle({
+			...createArticleData(1, "http://merge.com", "Merge Test"),
+			favorite: true,
+			fieldTimestamps: { favorite: 2000 },
+		});
+
+		// Same article from another device, without a local _rev
+		const merged = await saveArticle({
+			...createArticleData(1, "http://merge.com", "Merge Test"),
+			isRead: true,
+			fieldTimestamps: { isRead: 3000 },
+		});
+
+		expect(merged._rev).not.toBe(local._rev);
+		expect(merged.favorite).toBe(true);
+		expect(merged.isRead).toBe(true);
+		expect(merged.fieldTimestamps).toEqual({ favorite: 2000, isRead: 3000 });
+	});
+	it("should keep edits made on an outdated revision when saving", async () => {
+		const original = await saveArticle(
+			createArticleData(1, "http://stale.com", "Stale Test"),
+		);
+		// Changed elsewhere (another tab) after this copy was loaded
+		await updateArticle({
+			_id: original._id,
+			_rev: original._rev as string,
+			favorite: true,
+		});
+
+		const saved = await saveArticle({ ...original, isRead: true });
+
+		expect(saved.favorite).toBe(true);
+		expect(saved.isRead).toBe(true);
+		expect(saved.fieldTimestamps?.isRead).toBeGreaterThan(0);
+	});
+});
@@ -1,6 +1,8 @@
 // src/services/db/articles.ts
 
+import { getArticleUrlKeys } from "@/lib/articleUtils";
 import { v4 as uuidv4 } from "uuid";
+import { TRACKED_FIELDS, mergeArticles, stampChangedFields } from "./conflicts";
 import { articlesDb } from "./config"; // Import the initialized DB instance
 import type { Article } from "./types";
 import { executeWithRetry } from "./utils";
@@ -71,51 +73,27 @@ export async function saveArticle(
 				try {
 					// Fetch the latest revision
 					const latestDoc = await articlesDb.get(docId);
-					// Merge changes onto the latest revision
-					// Be careful here: naive merge might overwrite intermediate changes.
-					// A more robust strategy might involve comparing fields or using a merge function.
-					// Refined merge strategy: Prioritize incoming content, preserve local state.
-					const latestArticle = latestDoc as Article; // Cast for type safety
-					const docToRetry: Article = {
-						// Base fields from latestDoc
-						_id: latestArticle._id, // Use ID from latest doc (should match docId)
-						_rev: latestArticle._rev, // CRITICAL: Use latest rev
-						userId: latestArticle.userId, // Keep existing userId from local doc
-
-						// Fields primarily from incoming 'article' (source of truth for content)
-						// Use nullish coalescing (??) to fall back to latestDoc value if incoming is null/undefined
-						title: article.title ?? latestArticle.title,
-						url: article.url ?? latestArticle.url,
-						// Content should exist due to filtering in useArticleSync, but fallback just in case
-						content: article.content ?? latestArticle.content,
-						excerpt: article.excerpt ?? latestArticle.excerpt,
-						htmlContent: article.htmlContent ?? latestArticle.htmlContent,
-						type: article.type ?? latestArticle.type,
-						savedAt: article.savedAt ?? latestArticle.savedAt, // Usually from cloud
-
-						// Fields primarily from 'latestDoc' (local state) unless overridden by incoming 'article'
-						status: article.status ?? latestArticle.status ?? "inbox", // Add status merge logic
-						isRead: article.isRead ?? latestArticle.isRead,
-						favorite: article.favorite ?? latestArticle.favorite,
-						tags: article.tags ?? latestArticle.tags,
-						readAt: article.readAt ?? latestArticle.readAt,
-						scrollPosition:
-							article.scrollPosition ?? latestArticle.scrollPosition,
-
-						// Other optional fields, prioritize incoming if present
-						siteName: article.siteName ?? latestArticle.siteName,
-						author: article.author ?? latestArticle.author,
-						publishedDate: article.publishedDate ?? latestArticle.publishedDate, // Corrected typo
-						estimatedReadTime:
-							article.estimatedReadTime ?? latestArticle.estimatedReadTime,
-						coverImage: article.coverImage ?? latestArticle.coverImage,
-						language: article.language ?? latestArticle.language,
-						// Ensure file-related fields are preserved if they exist on latestArticle
-						fileData: article.fileData ?? latestArticle.fileData,
-						fileName: article.fileName ?? latestArticle.fileName,
-						fileSize: article.fileSize ?? latestArticle.fileSize,
-						pageCount: article.pageCount ?? latestArticle.pageCount,
-					};
+					// Stamp the caller's edits so they aren't lost to older changes in
+					// the merge. The caller's revision is usually compacted away, but
+					// fields whose timestamp hasn't moved since still hold its value.
+					// Saves without a _rev carry their own timestamps.
+					const incoming = isUpdate
+						? stampChangedFields(
+								{
+									...docToSave,
+									...Object.fromEntries(
+										TRACKED_FIELDS.filter(
+											(field) =>
+												(latestDoc.fieldTimestamps?.[field] ?? 0) ===
+												(docToSave.fieldTimestamps?.[field] ?? 0),
+										).map((field) => [field, latestDoc[field]]),
+									),
+								},
+								docToSave,
+							)
+						: docToSave;
+					// Merge field by field onto the latest revision (see conflicts.ts)
+					const docToRetry = mergeArticles(latestDoc, incoming);
 					const retryResponse = await articlesDb.put(docToRetry);
 					if (retryResponse.ok) {
 						console.log(
@@ -130,7 +108,7 @@ export async function saveArticle(
 					);
 				} catch (retryError) {
 					// Log the original conflict warning ONLY if the retry fails
-					+console.warn(
+					console.warn(
 						`Conflict saving article ${docId}. Initial error:`,
 						error,
 					);
@@ -149,6 +127,57 @@ export async function saveArticle(
 	}); // executeWithRetry handles transient errors
 }
 
+/**
+ * Creates many new articles in a single bulk write, e.g. for imports.
+ * Unlike `saveArticle` this never updates existing documents; each article
+ * gets a fresh `_id` unless one is provided.
+ *
+ * @param articles - The articles to create. Each needs a title, url and content.
+ * @returns The created articles and the per-article errors for those that failed.
+ * @throws Error if the bulk write itself fails after retries.
+ */
+export async function saveArticles(
+	articles: (Omit<Article, "_id" | "_rev"> & { _id?: string })[],
+): Promise<{ saved: Article[]; errors: { url: string; message: string }[] }> {
+	const errors: { url: string; message: string }[] = [];
+	const docsToSave: Article[] = [];
+	for (const article of articles) {
+		if (!article.title || !article.url || !article.content) {
+			errors.push({
+				url: article.url,
+				message: "Missing title, url, or content.",
+			});
+			continue;
+		}
+		docsToSave.push({
+			...article,
+			_id: article._id || `article_${uuidv4()}`,
+			savedAt: article.savedAt || Date.now(),
+			tags: article.tags || [],
+			type: article.type || "article",
+		});
+	}
+	if (docsToSave.length === 0) return { saved: [], errors };
+
+	return executeWithRetry(async () => {
+		console.log(`Creating ${docsToSave.length} articles locally...`);
+		const response = await articlesDb.bulkDocs(docsToSave);
+		const saved: Article[] = [];
+		response.forEach((res, index) => {
+			const doc = docsToSave[index];
+			if ("error" in res && res.error) {
+				const message = res.message || res.reason || "Unknown error";
+				console.error(`Failed to create article ${doc._id}: ${message}`);
+				errors.push({ url: doc.url, message });
+			} else if ("rev" in res) {
+				saved.push({ ...doc, _rev: res.rev });
+			}
+		});
+		console.log(`Created ${saved.length} of ${docsToSave.length} articles.`);
+		return { saved, errors };
+	});
+}
+
 /**
  * Retrieves a single article by its ID.
  * @param id - The _id of the article to retrieve.
@@ -195,14 +224,15 @@ export async function updateArticle(
 				rev: articleUpdate._rev,
 			});
 
-			// Merge the updates onto the existing document
-			const updatedArticle: Article = {
+			// Merge the updates onto the existing document, recording which
+			// tracked fields changed so sync merges can pick per-field winners
+			const updatedArticle: Article = stampChangedFields(existingArticle, {
 				...existingArticle,
 				...articleUpdate,
 				// Ensure _id and _rev from the update object are used for the put operation
 				_id: articleUpdate._id,
 				_rev: articleUpdate._rev,
-			};
+			});
 
 			const response = await articlesDb.put(updatedArticle);
 
@@ -397,6 +427,7 @@ export async function getAllArticles(options?: {
 
 /**
  * Identifies and removes duplicate articles based on their URL, keeping the one with the lowest _id.
+ * URLs are compared as getUrlKey reduces them, and an article's canonical URL also matches.
  * @returns The number of duplicate articles removed.
  * @throws Error if fetching or deleting fails.
  */
@@ -417,17 +448,25 @@ export async function removeDuplicateArticles(): Promise<number> {
 				`Fetched ${articles.length} articles to check for duplicates.`,
 			);
 
-			// 2. Group articles by URL
+			// 2. Group articles by URL, counting an article's canonical URL as
+			// its URL too (see getArticleUrlKeys)
 			const articlesByUrl: Record<string, Article[]> = {};
+			const groupKeys = new Map<string, string>(); // URL key -> group
 			for (const article of articles) {
 				if (!article.url) {
 					console.warn(`Article ${article._id} missing URL, skipping.`);
 					continue; // Skip articles without a URL
 				}
-				if (!articlesByUrl[article.url]) {
-					articlesByUrl[article.url] = [];
+				const keys = getArticleUrlKeys(article);
+				const url =
+					keys.map((key) => groupKeys.get(key)).find(Boolean) ?? keys[0];
+				for (const key of keys) {
+					if (!groupKeys.has(key)) groupKeys.set(key, url);
+				}
+				if (!articlesByUrl[url]) {
+					articlesByUrl[url] = [];
 				}
-				articlesByUrl[article.url].push(article);
+				articlesByUrl[url].push(article);
 			}
 
 			// 3. Identify duplicates and prepare for deletion
@@ -0,0 +1,231 @@
+// src/services/db/backup.test.ts
+
+import PouchDBAdapterMemory from "pouchdb-adapter-memory";
+import PouchDB from "pouchdb-browser";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+	clearDb,
+	createArticle,
+	createHighlight,
+	createTag,
+} from "../../test-utils/dbFixtures";
+import { createBackup, restoreBackup, validateBackup } from "./backup";
+import { articlesDb, highlightsDb, initializeDatabase, tagsDb } from "./config";
+import type { Article } from "./types";
+
+// config.ts uses the memory adapter under vitest
+if (typeof PouchDB.plugin === "function") {
+	PouchDB.plugin(PouchDBAdapterMemory);
+}
+
+const ids = async (db: PouchDB.Database) =>
+	(await db.allDocs()).rows
+		.map((row) => row.id)
+		.filter((id) => !id.startsWith("_design/"))
+		.sort();
+
+describe("backup", () => {
+	beforeAll(async () => {
+		await initializeDatabase();
+	});
+
+	beforeEach(async () => {
+		await clearDb(articlesDb);
+		await clearDb(highlightsDb);
+		await clearDb(tagsDb);
+	});
+
+	describe("validateBackup", () => {
+		it("should reject data that isn't a backup", () => {
+			expect(() => validateBackup({ items: [] })).toThrow("isn't a backup");
+			expect(() => validateBackup(null)).toThrow("isn't a backup");
+		});
+
+		it("should report invalid documents and skip index design docs", () => {
+			const backup = validateBackup({
+				articles: [
+					{ ...createArticle("article_1"), _rev: "3-abc" },
+					{ _id: "article_2", title: "No url" },
+					{ _id: "_design/idx-123", views: {} },
+				],
+				highlights: ["not a document"],
+				tags: [],
+				exportDate: "2026-01-01T00:00:00.000Z",
+			});
+
+			expect(backup.articles).toEqual([createArticle("article_1")]);
+			expect(backup.highlights).toEqual([]);
+			expect(backup.invalid).toEqual([
+				expect.objectContaining({ collection: "articles", id: "article_2" }),
+				expect.objectContaining({ collection: "highlights", id: "#1" }),
+			]);
+		});
+	});
+
+	describe("restoreBackup", () => {
+		it("should round-trip an export into an empty database", async () => {
+			await articlesDb.put(createArticle("article_1", { note: "My note" }));
+			await highlightsDb.put(
+				createHighlight("highlight_1", { articleId: "article_1" }),
+			);
+			await tagsDb.put(createTag("tag_1", "work"));
+			const backup = JSON.parse(JSON.stringify(await createBackup()));
+			expect(backup.articles.map((a: Article) => a._id)).toEqual(["article_1"]);
+
+			await clearDb(articlesDb);
+			await clearDb(highlightsDb);
+			await clearDb(tagsDb);
+
+			const result = await restoreBackup(backup, { mode: "merge" });
+
+			expect(result.failures).toEqual([]);
+			expect(result.articles).toEqual({
+				restored: 1,
+				unchanged: 0,
+				removed: 0,
+			});
+			expect(await articlesDb.get("article_1")).toMatchObject({
+				note: "My note",
+			});
+			expect(await ids(highlightsDb)).toEqual(["highlight_1"]);
+			expect(await ids(tagsDb)).toEqual(["tag_1"]);
+			// The find indexes still work after the restore
+			const found = await tagsDb.find({ selector: { name: "work" } });
+			expect(found.docs).toHaveLength(1);
+		});
+
+		it("should keep PDF files, moving old inline file data into attachments", async () => {
+			await articlesDb.put(
+				createArticle("article_pdf", {
+					type: "pdf",
+					_attachments: {
+						file: { content_type: "application/pdf", data: btoa("%PDF-new") },
+					},
+				}),
+			);
+			const backup = JSON.parse(JSON.stringify(await createBackup()));
+			// A PDF exported before files were stored as attachments
+			backup.articles.push(
+				createArticle("article_old_pdf", {
+					type: "pdf",
+					fileData: btoa("%PDF-old"),
+				}),
+			);
+			await clearDb(articlesDb);
+
+			const result = await restoreBackup(backup, { mode: "merge" });
+
+			expect(result.failures).toEqual([]);
+			for (const [id, contents] of [
+				["article_pdf", "%PDF-new"],
+				["article_old_pdf", "%PDF-old"],
+			]) {
+				const file = await articlesDb.getAttachment(id, "file");
+				expect(file.toString()).toBe(contents);
+				expect((await articlesDb.get(id)).fileData).toBeUndefined();
+			}
+		});
+
+		it("should leave the files out when asked", async () => {
+			await articlesDb.put(
+				createArticle("article_pdf", {
+					type: "pdf",
+					_attachments: {
+						file: { content_type: "application/pdf", data: btoa("%PDF") },
+					},
+				}),
+			);
+
+			const backup = await createBackup({ attachments: false });
+
+			const file = backup.articles[0]._attachments?.file;
+			expect(file && "stub" in file && file.stub).toBe(true);
+			expect(file && "data" in file).toBe(false);
+		});
+
+		it("should merge onto current revisions without conflicts", async () => {
+			await articlesDb.put(createArticle("article_1"));
+			const local = await articlesDb.get("article_1");
+			// Edited locally after the backup was made
+			await articlesDb.put({
+				...local,
+				note: "Local note",
+				fieldTimestamps: { note: 5000 },
+			});
+			await tagsDb.put(createTag("tag_1", "local name"));
+
+			const result = await restoreBackup(
+				{
+					articles: [
+						{
+							...createArticle("article_1", {
+								favorite: true,
+								note: "Backup note",
+								fieldTimestamps: { favorite: 4000, note: 1000 },
+							}),
+							_rev: "9-stale",
+						},
+						createArticle("article_2"),
+					],
+					highlights: [],
+					tags: [createTag("tag_1", "backup name")],
+				},
+				{ mode: "merge" },
+			);
+
+			expect(result.failures).toEqual([]);
+			expect(result.articles.restored).toBe(2);
+			expect(result.tags.unchanged).toBe(1);
+			expect(await articlesDb.get("article_1")).toMatchObject({
+				note: "Local note",
+				favorite: true,
+			});
+			expect((await tagsDb.get("tag_1")).name).toBe("local name");
+			expect(await ids(articlesDb)).toEqual(["article_1", "article_2"]);
+		});
+
+		it("should make the database match the backup in replace mode", async () => {
+			await articlesDb.put(createArticle("article_1", { title: "Local" }));
+			await articlesDb.put(createArticle("article_local_only"));
+			await highlightsDb.put(
+				createHighlight("highlight_1", { articleId: "article_1" }),
+			);
+
+			const result = await restoreBackup(
+				{
+					articles: [createArticle("article_1", { title: "From backup" })],
+					highlights: [],
+					tags: [],
+				},
+				{ mode: "replace" },
+			);
+
+			expect(result.articles).toEqual({
+				restored: 1,
+				unchanged: 0,
+				removed: 1,
+			});
+			expect(result.highlights.removed).toBe(1);
+			expect(await ids(articlesDb)).toEqual(["article_1"]);
+			expect((await articlesDb.get("article_1")).title).toBe("From backup");
+			expect(await ids(highlightsDb)).toEqual([]);
+		});
+
+		it("should restore documents that were deleted locally and claim unowned ones", async () => {
+			const { rev } = await articlesDb.put(createArticle("article_1"));
+			await articlesDb.remove("article_1", rev);
+
+			const result = await restoreBackup(
+				{
+					articles: [createArticle("article_1", { userId: undefined })],
+					highlights: [],
+					tags: [],
+				},
+				{ mode: "merge", userId: "restoring-user" },
+			);
+
+			expect(result.failures).toEqual([]);
+			expect((await articlesDb.get("article_1")).userId).toBe("restoring-user");
+		});
+	});
+});
@@ -0,0 +1,369 @@
+// src/services/db/backup.ts
+
+import { z } from "zod";
+import { articlesDb, highlightsDb, recreateDbIndexes, tagsDb } from "./config";
+import { mergeArticles } from "./conflicts";
+import { migrateFileDataToAttachments } from "./migrations";
+import type { Article, Highlight, Tag } from "./types";
+import { executeWithRetry } from "./utils";
+
+/**
+ * The JSON backup written by the Settings page export and read back by
+ * `restoreBackup`.
+ */
+export interface BackupData {
+	articles: Article[];
+	highlights: Highlight[];
+	tags: Tag[];
+	exportDate: string; // ISO timestamp of the export
+}
+
+export type BackupCollection = "articles" | "highlights" | "tags";
+
+/**
+ * How a backup is applied:
+ * - `merge` keeps local data and adds what the backup has on top. Articles
+ *   saved on both sides are merged field by field (see conflicts.ts); for
+ *   highlights and tags the local copy wins and the backup only fills gaps.
+ * - `replace` makes the local data match the backup exactly, deleting
+ *   anything the backup doesn't contain.
+ */
+export type RestoreMode = "merge" | "replace";
+
+export interface RestoreFailure {
+	collection: BackupCollection;
+	id: string;
+	message: string;
+}
+
+export interface RestoreCounts {
+	restored: number; // Created or updated
+	unchanged: number; // Already identical locally
+	removed: number; // Deleted because the backup doesn't have them (replace only)
+}
+
+export interface RestoreResult {
+	articles: RestoreCounts;
+	highlights: RestoreCounts;
+	tags: RestoreCounts;
+	failures: RestoreFailure[];
+}
+
+// Only the fields the app can't work without are checked; everything else
+// (including fields added in later versions) is kept as it is.
+const docSchema = z.object({ _id: z.string().min(1) }).passthrough();
+
+const articleSchema = docSchema.extend({
+	title: z.string(),
+	url: z.string().min(1),
+	content: z.string(),
+	savedAt: z.number(),
+	type: z.enum(["article", "pdf", "note", "epub"]),
+	tags: z.array(z.string()).default([]),
+	isRead: z.boolean().default(false),
+	favorite: z.boolean().default(false),
+	status: z.enum(["inbox", "later", "archived"]).default("inbox"),
+	excerpt: z.string().default(""),
+});
+
+const highlightSchema = docSchema.extend({
+	articleId: z.string().min(1),
+	text: z.string(),
+	color: z.string(),
+	createdAt: z.number(),
+	position: z
+		.object({
+			start: z.union([z.number(), z.string()]),
+			end: z.union([z.number(), z.string()]),
+		})
+		.passthrough(),
+	tags: z.array(z.string()).default([]),
+});
+
+const tagSchema = docSchema.extend({
+	name: z.string().min(1),
+	color: z.string(),
+	createdAt: z.number(),
+});
+
+const backupSchema = z.object({
+	articles: z.array(z.unknown()),
+	highlights: z.array(z.unknown()),
+	tags: z.array(z.unknown()),
+	exportDate: z.string().optional(),
+});
+
+const DOC_SCHEMAS = {
+	articles: articleSchema,
+	highlights: highlightSchema,
+	tags: tagSchema,
+} as const;
+
+export interface ValidatedBackup {
+	articles: Article[];
+	highlights: Highlight[];
+	tags: Tag[];
+	exportDate?: string;
+	invalid: RestoreFailure[]; // Documents that failed validation
+}
+
+/**
+ * Checks that parsed JSON is a backup and validates every document in it.
+ * Invalid documents are reported instead of failing the whole backup, and
+ * index design documents (present in older exports) are left out.
+ *
+ * @param raw - The parsed contents of a backup file.
+ * @returns The valid documents, without `_rev`, and the invalid ones.
+ * @throws Error if the data isn't a backup at all.
+ */
+export function validateBackup(raw: unknown): ValidatedBackup {
+	const parsed = backupSchema.safeParse(raw);
+	if (!parsed.success) {
+		throw new Error(
+			"This file isn't a backup. Expected articles, highlights and tags lists.",
+		);
+	}
+
+	const invalid: RestoreFailure[] = [];
+	const validate = <T>(collection: BackupCollection): T[] => {
+		const docs: T[] = [];
+		parsed.data[collection].forEach((doc, index) => {
+			const id =
+				typeof doc === "object" && doc && "_id" in doc
+					? String(doc._id)
+					: `#${index + 1}`;
+			if (id.startsWith("_design/")) return;
+			const result = DOC_SCHEMAS[collection].safeParse(doc);
+			if (result.success) {
+				// Revisions belong to the database the backup came from
+				const { _rev, ...rest } = result.data;
+				docs.push(rest as T);
+			} else {
+				const issue = result.error.issues[0];
+				invalid.push({
+					collection,
+					id,
+					message: `Invalid ${issue.path.join(".") || "document"}: ${issue.message}`,
+				});
+			}
+		});
+		return docs;
+	};
+
+	return {
+		articles: validate<Article>("articles"),
+		highlights: validate<Highlight>("highlights"),
+		tags: validate<Tag>("tags"),
+		exportDate: parsed.data.exportDate,
+		invalid,
+	};
+}
+
+/**
+ * Reads every article, highlight and tag into a backup object.
+ * Index design documents are not included; PDF and EPUB files are, as
+ * base64 attachment data.
+ *
+ * @param options.attachments - Set to false to leave the files out (only
+ * attachment stubs are read), for exports that don't need them.
+ * @returns The backup, ready to be serialized as JSON.
+ */
+export async function createBackup(
+	options: { attachments?: boolean } = {},
+): Promise<BackupData> {
+	const { attachments = true } = options;
+	const readAll = async <T extends {}>(db: PouchDB.Database<T>) =>
+		(await db.allDocs<T>({ include_docs: true, attachments })).rows
+			.filter((row) => !!row.doc && !row.id.startsWith("_design/"))
+			.map((row) => row.doc as PouchDB.Core.ExistingDocument<T>);
+
+	return {
+		articles: await readAll(articlesDb),
+		highlights: await readAll(highlightsDb),
+		tags: await readAll(tagsDb),
+		exportDate: new Date().toISOString(),
+	};
+}
+
+// Compares two versions of a document field by field, ignoring `_rev`
+function isSameDoc(a: object, b: object): boolean {
+	const docA = a as Record<string, unknown>;
+	const docB = b as Record<string, unknown>;
+	const keys = new Set([...Object.keys(docA), ...Object.keys(docB)]);
+	keys.delete("_rev");
+	for (const key of keys) {
+		if (JSON.stringify(docA[key]) !== JSON.stringify(docB[key])) return false;
+	}
+	return true;
+}
+
+/**
+ * Writes the backup's documents for one database. Each document is written
+ * on top of the current local revision, so revisions from the backed-up
+ * database never cause conflicts; a document that changes while the
+ * restore runs is read and written again.
+ */
+async function restoreDocs<T extends { _id: string; _rev?: string }>(
+	db: PouchDB.Database<T>,
+	collection: BackupCollection,
+	docs: T[],
+	mode: RestoreMode,
+	merge: (current: T, incoming: T) => T,
+	failures: RestoreFailure[],
+): Promise<RestoreCounts> {
+	const counts: RestoreCounts = { restored: 0, unchanged: 0, removed: 0 };
+	const MAX_ATTEMPTS = 3;
+	const docsById = new Map(docs.map((doc) => [doc._id, doc]));
+	let pending = docs;
+
+	for (
+		let attempt = 1;
+		attempt <= MAX_ATTEMPTS && pending.length > 0;
+		attempt++
+	) {
+		const existing = await db.allDocs<T>({
+			keys: pending.map((doc) => doc._id),
+			include_docs: true,
+		});
+		const toWrite: T[] = [];
+		pending.forEach((incoming, index) => {
+			const row = existing.rows[index];
+			const current = row && "doc" in row && row.doc ? (row.doc as T) : null;
+			if (!current) {
+				toWrite.push(incoming);
+				return;
+			}
+			const next =
+				mode === "replace"
+					? { ...incoming, _rev: current._rev }
+					: { ...merge(current, incoming), _rev: current._rev };
+			if (isSameDoc(current, next)) {
+				counts.unchanged++;
+			} else {
+				toWrite.push(next);
+			}
+		});
+		if (toWrite.length === 0) break;
+
+		const response = await executeWithRetry(() => db.bulkDocs(toWrite));
+		const conflicted: T[] = [];
+		response.forEach((res, index) => {
+			const doc = toWrite[index];
+			if (!("error" in res && res.error)) {
+				counts.restored++;
+			} else if (res.name === "conflict" && attempt < MAX_ATTEMPTS) {
+				// Changed locally since it was read; try again on the new revision
+				conflicted.push(docsById.get(doc._id) as T);
+			} else {
+				failures.push({
+					collection,
+					id: doc._id,
+					message: res.message || res.reason || "Unknown error",
+				});
+			}
+		});
+		pending = conflicted;
+	}
+
+	if (mode === "replace") {
+		const keep = new Set(docs.map((doc) => doc._id));
+		const all = await db.allDocs();
+		const toRemove = all.rows
+			.filter((row) => !row.id.startsWith("_design/") && !keep.has(row.id))
+			.map((row) => ({ _id: row.id, _rev: row.value.rev, _deleted: true }));
+		if (toRemove.length > 0) {
+			const response = await executeWithRetry(() =>
+				db.bulkDocs(toRemove as unknown as T[]),
+			);
+			response.forEach((res, index) => {
+				if ("error" in res && res.error) {
+					failures.push({
+						collection,
+						id: toRemove[index]._id,
+						message: `Could not remove: ${res.message || res.reason || "Unknown error"}`,
+					});
+				} else {
+					counts.removed++;
+				}
+			});
+		}
+	}
+
+	return counts;
+}
+
+/**
+ * Restores a backup made by the Settings page export.
+ *
+ * Documents are validated first; invalid ones are reported as failures and
+ * skipped. The rest are written in bulk, and every document that can't be
+ * written is reported individually rather than aborting the restore. The
+ * database indexes are created again afterwards, and files from backups
+ * made before they became attachments are moved into attachments.
+ *
+ * @param raw - The parsed contents of the backup file.
+ * @param options.mode - Whether to merge with or replace the local data.
+ * @param options.userId - Assigned to restored documents that have no user.
+ * @returns Counts per database and the documents that failed.
+ * @throws Error if the data isn't a backup at all.
+ */
+export async function restoreBackup(
+	raw: unknown,
+	options: { mode: RestoreMode; userId?: string },
+): Promise<RestoreResult> {
+	const { mode, userId } = options;
+	const backup = validateBackup(raw);
+	const failures: RestoreFailure[] = [...backup.invalid];
+	const claim = <T extends { userId?: string }>(docs: T[]) =>
+		userId
+			? docs.map((doc) => ({ ...doc, userId: doc.userId ?? userId }))
+			: docs;
+
+	console.log(
+		`Restoring backup from ${backup.exportDate ?? "unknown date"} (${mode}): ${backup.articles.length} articles, ${backup.highlights.length} highlights, ${backup.tags.length} tags`,
+	);
+
+	// Local copies win for highlights and tags; the backup fills missing fields
+	const keepLocal = <T>(current: T, incoming: T): T => ({
+		...incoming,
+		...current,
+	});
+
+	// Tags first so restored articles never point at missing tags
+	const tags = await restoreDocs(
+		tagsDb,
+		"tags",
+		claim(backup.tags),
+		mode,
+		keepLocal,
+		failures,
+	);
+	const articles = await restoreDocs(
+		articlesDb,
+		"articles",
+		claim(backup.articles),
+		mode,
+		mergeArticles,
+		failures,
+	);
+	const highlights = await restoreDocs(
+		highlightsDb,
+		"highlights",
+		claim(backup.highlights),
+		mode,
+		keepLocal,
+		failures,
+	);
+
+	await recreateDbIndexes();
+	await migrateFileDataToAttachments().catch((error) =>
+		console.error("Failed to move restored file data into attachments:", error),
+	);
+
+	console.log(`Backup restore finished with ${failures.length} failures`, {
+		articles,
+		highlights,
+		tags,
+	});
+	return { articles, highlights, tags, failures };
+}
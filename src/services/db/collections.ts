@@ -0,0 +1,211 @@
+// src/services/db/collections.ts
+
+import { v4 as uuidv4 } from "uuid";
+import { collectionsDb } from "./config";
+import type { SmartCollection } from "./types";
+import { executeWithRetry } from "./utils";
+
+export type CollectionInput = Pick<
+	SmartCollection,
+	"name" | "filter" | "sortCriteria"
+>;
+
+/**
+ * Saves a new smart collection.
+ *
+ * @param input - The collection's name, filter and sort order.
+ * @param userId - Optional user ID if collections are user-specific.
+ * @returns The saved collection document.
+ * @throws Error if the name is empty or saving fails.
+ */
+export async function saveCollection(
+	input: CollectionInput,
+	userId?: string,
+): Promise<SmartCollection> {
+	return executeWithRetry(async () => {
+		const name = input.name.trim();
+		if (!name) {
+			throw new Error("Collection name cannot be empty.");
+		}
+
+		const now = Date.now();
+		const collection: SmartCollection = {
+			_id: `collection_${uuidv4()}`,
+			name,
+			filter: input.filter,
+			sortCriteria: input.sortCriteria,
+			createdAt: now,
+			updatedAt: now,
+			...(userId && { userId }),
+		};
+
+		console.log(`Attempting to save new collection "${name}"`);
+		const response = await collectionsDb.put(collection);
+		console.log(
+			`Collection "${name}" saved successfully with id ${response.id}`,
+		);
+		return { ...collection, _rev: response.rev };
+	});
+}
+
+/**
+ * Retrieves all smart collections, sorted by name.
+ *
+ * @param options - Optional user ID filter, and whether to include tombstones
+ *   (needed when pushing deletions to the cloud).
+ * @returns An array of collection documents. Returns empty array on error.
+ */
+export async function getAllCollections(
+	options: { userId?: string; includeDeleted?: boolean } = {},
+): Promise<SmartCollection[]> {
+	return executeWithRetry(async () => {
+		try {
+			const result = await collectionsDb.allDocs<SmartCollection>({
+				include_docs: true,
+			});
+			const collections = result.rows
+				.map((row) => row.doc)
+				.filter(
+					(doc): doc is PouchDB.Core.ExistingDocument<SmartCollection> =>
+						!!doc &&
+						(options.includeDeleted || !doc.deleted) &&
+						(!options.userId || doc.userId === options.userId),
+				);
+
+			collections.sort((a, b) =>
+				a.name.toLowerCase().localeCompare(b.name.toLowerCase()),
+			);
+			console.log(`Found ${collections.length} collections`);
+			return collections;
+		} catch (error) {
+			console.error("Error getting all collections:", error);
+			return [];
+		}
+	});
+}
+
+/**
+ * Retrieves a single smart collection.
+ *
+ * @param id - The _id of the collection.
+ * @returns The collection, or null if it does not exist or was deleted.
+ * @throws Error for failures other than the document not existing.
+ */
+export async function getCollection(
+	id: string,
+): Promise<SmartCollection | null> {
+	return executeWithRetry(async () => {
+		try {
+			const collection = await collectionsDb.get(id);
+			return collection.deleted ? null : collection;
+		} catch (error: any) {
+			if (error.status === 404) {
+				console.log(`Collection ${id} not found`);
+				return null;
+			}
+			console.error(`Error getting collection ${id}:`, error);
+			throw error;
+		}
+	});
+}
+
+/**
+ * Updates the name, filter or sort order of a smart collection.
+ *
+ * @param id - The _id of the collection to update.
+ * @param updates - The fields to change.
+ * @returns The updated collection document.
+ * @throws Error if the collection does not exist or saving fails.
+ */
+export async function updateCollection(
+	id: string,
+	updates: Partial<CollectionInput>,
+): Promise<SmartCollection> {
+	return executeWithRetry(async () => {
+		const existing = await collectionsDb.get(id);
+		const name = updates.name?.trim() ?? existing.name;
+		if (!name) {
+			throw new Error("Collection name cannot be empty.");
+		}
+
+		const updated: SmartCollection = {
+			...existing,
+			...updates,
+			name,
+			updatedAt: Date.now(),
+		};
+		const response = await collectionsDb.put(updated);
+		console.log(`Collection ${id} updated successfully`);
+		return { ...updated, _rev: response.rev };
+	});
+}
+
+/**
+ * Deletes a smart collection. The document is kept as a tombstone so the
+ * deletion can be pushed to the cloud on the next sync.
+ *
+ * @param id - The _id of the collection to delete.
+ * @returns The tombstone document.
+ * @throws Error if the collection does not exist or saving fails.
+ */
+export async function deleteCollection(id: string): Promise<SmartCollection> {
+	return executeWithRetry(async () => {
+		const existing = await collectionsDb.get(id);
+		const tombstone: SmartCollection = {
+			...existing,
+			deleted: true,
+			updatedAt: Date.now(),
+		};
+		const response = await collectionsDb.put(tombstone);
+		console.log(`Collection ${id} deleted`);
+		return { ...tombstone, _rev: response.rev };
+	});
+}
+
+/**
+ * Stores collections received from the cloud. A remote copy replaces the
+ * local one only if it was edited more recently (last write wins).
+ *
+ * @param remote - Collections from the cloud, including tombstones.
+ * @returns The number of local collections created or replaced.
+ * @throws Error if any document fails to save.
+ */
+export async function applyRemoteCollections(
+	remote: SmartCollection[],
+): Promise<number> {
+	if (remote.length === 0) return 0;
+	return executeWithRetry(async () => {
+		const local = await collectionsDb.allDocs<SmartCollection>({
+			keys: remote.map((collection) => collection._id),
+			include_docs: true,
+		});
+		const localById = new Map<string, SmartCollection>();
+		for (const row of local.rows) {
+			if ("doc" in row && row.doc) localById.set(row.id, row.doc);
+		}
+
+		const updates: SmartCollection[] = [];
+		for (const { _rev, ...collection } of remote) {
+			const existing = localById.get(collection._id);
+			if (existing && existing.updatedAt >= collection.updatedAt) continue;
+			updates.push(
+				existing ? { ...collection, _rev: existing._rev } : collection,
+			);
+		}
+		if (updates.length === 0) return 0;
+
+		const results = await collectionsDb.bulkDocs(updates);
+		const errors = results.filter(
+			(res): res is PouchDB.Core.Error => "error" in res && !!res.error,
+		);
+		if (errors.length > 0) {
+			throw new Error(
+				`Failed to apply ${errors.length} remote collection(s): ${errors
+					.map((err) => `${err.id}: ${err.message}`)
+					.join(", ")}`,
+			);
+		}
+		console.log(`Applied ${updates.length} remote collections`);
+		return updates.length;
+	});
+}
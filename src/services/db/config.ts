@@ -3,7 +3,14 @@
 import PouchDBAdapterMemory from "pouchdb-adapter-memory"; // Import memory adapter
 import PouchDB from "pouchdb-browser";
 import PouchDBFind from "pouchdb-find";
-import type { Article, Highlight, Tag } from "./types";
+import type {
+	Article,
+	FetchJob,
+	Highlight,
+	SearchIndexEntry,
+	SmartCollection,
+	Tag,
+} from "./types";
 import { executeWithRetry } from "./utils";
 
 // Register PouchDB plugins
@@ -29,6 +36,9 @@ const DB_PREFIX = "readsync_"; // Using a more specific prefix
 const ARTICLES_DB_NAME = `${DB_PREFIX}articles`;
 const HIGHLIGHTS_DB_NAME = `${DB_PREFIX}highlights`;
 const TAGS_DB_NAME = `${DB_PREFIX}tags`;
+const SEARCH_INDEX_DB_NAME = `${DB_PREFIX}search_index`;
+const COLLECTIONS_DB_NAME = `${DB_PREFIX}collections`;
+const FETCH_JOBS_DB_NAME = `${DB_PREFIX}fetch_jobs`;
 
 // Default options for PouchDB instances
 const defaultDbOptions: PouchDB.Configuration.DatabaseConfiguration = {
@@ -102,6 +112,11 @@ function createDbInstance<T extends object>(
 export let articlesDb = createDbInstance<Article>(ARTICLES_DB_NAME);
 export let highlightsDb = createDbInstance<Highlight>(HIGHLIGHTS_DB_NAME);
 export let tagsDb = createDbInstance<Tag>(TAGS_DB_NAME);
+export let searchIndexDb =
+	createDbInstance<SearchIndexEntry>(SEARCH_INDEX_DB_NAME);
+export let collectionsDb =
+	createDbInstance<SmartCollection>(COLLECTIONS_DB_NAME);
+export let fetchJobsDb = createDbInstance<FetchJob>(FETCH_JOBS_DB_NAME);
 
 // Re-assign exported variables for the test environment *after* declaration
 // This ensures PouchDB uses the memory adapter specifically for tests.
@@ -110,6 +125,9 @@ if (import.meta.vitest) {
 	articlesDb = createDbInstance<Article>(ARTICLES_DB_NAME);
 	highlightsDb = createDbInstance<Highlight>(HIGHLIGHTS_DB_NAME);
 	tagsDb = createDbInstance<Tag>(TAGS_DB_NAME);
+	searchIndexDb = createDbInstance<SearchIndexEntry>(SEARCH_INDEX_DB_NAME);
+	collectionsDb = createDbInstance<SmartCollection>(COLLECTIONS_DB_NAME);
+	fetchJobsDb = createDbInstance<FetchJob>(FETCH_JOBS_DB_NAME);
 }
 
 // --- Index Management ---
@@ -184,6 +202,15 @@ async function createDbIndexes(): Promise<void> {
 	}
 }
 
+/**
+ * Creates the indexes again, even if they were created earlier in this
+ * session. Used after a backup restore rewrote the databases.
+ */
+export async function recreateDbIndexes(): Promise<void> {
+	indexesCreated = false;
+	await createDbIndexes();
+}
+
 // --- Database Initialization ---
 
 let isInitializing = false;
@@ -237,6 +264,15 @@ export async function initializeDatabase(): Promise<boolean> {
 					adapter: "memory",
 				});
 				tagsDb = new PouchDB<Tag>(TAGS_DB_NAME, { adapter: "memory" });
+				searchIndexDb = new PouchDB<SearchIndexEntry>(SEARCH_INDEX_DB_NAME, {
+					adapter: "memory",
+				});
+				collectionsDb = new PouchDB<SmartCollection>(COLLECTIONS_DB_NAME, {
+					adapter: "memory",
+				});
+				fetchJobsDb = new PouchDB<FetchJob>(FETCH_JOBS_DB_NAME, {
+					adapter: "memory",
+				});
 
 				// Test memory connections
 				await Promise.all([
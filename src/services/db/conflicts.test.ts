@@ -0,0 +1,114 @@
+// src/services/db/conflicts.test.ts
+
+import PouchDBAdapterMemory from "pouchdb-adapter-memory";
+import PouchDB from "pouchdb-browser";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	getConflictedArticleIds,
+	mergeArticles,
+	resolveAllArticleConflicts,
+	resolveArticleConflicts,
+} from "./conflicts";
+import type { Article } from "./types";
+
+if (typeof PouchDB.plugin === "function") {
+	PouchDB.plugin(PouchDBAdapterMemory);
+}
+
+const baseArticle: Article = {
+	_id: "article_1",
+	userId: "test-user",
+	url: "https://example.com/1",
+	title: "Article 1",
+	content: "Content",
+	excerpt: "Excerpt",
+	savedAt: 1000,
+	status: "inbox",
+	isRead: false,
+	favorite: false,
+	tags: [],
+	type: "article",
+};
+
+let dbCounter = 0;
+
+describe("conflicts", () => {
+	let db: PouchDB.Database<Article>;
+
+	// Writes two sibling revisions of the same article, as replication would
+	const createConflict = async (left: Article, right: Article) => {
+		await db.bulkDocs(
+			[
+				{ ...left, _rev: "2-aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa" },
+				{ ...right, _rev: "2-bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb" },
+			],
+			{ new_edits: false },
+		);
+	};
+
+	beforeEach(() => {
+		dbCounter++;
+		db = new PouchDB<Article>(`conflicts_test_${dbCounter}`, {
+			adapter: "memory",
+		});
+	});
+
+	afterEach(async () => {
+		await db.destroy();
+	});
+
+	describe("mergeArticles", () => {
+		it("should keep the local _rev and userId", () => {
+			const merged = mergeArticles(
+				{ ...baseArticle, _rev: "3-local" },
+				{ ...baseArticle, _rev: "9-remote", userId: undefined },
+			);
+			expect(merged._rev).toBe("3-local");
+			expect(merged.userId).toBe("test-user");
+		});
+	});
+
+	describe("resolveArticleConflicts", () => {
+		it("should merge conflicting revisions field by field", async () => {
+			await createConflict(
+				{ ...baseArticle, favorite: true, fieldTimestamps: { favorite: 2000 } },
+				{ ...baseArticle, isRead: true, fieldTimestamps: { isRead: 3000 } },
+			);
+			expect(await getConflictedArticleIds(db)).toEqual(["article_1"]);
+
+			const resolved = await resolveArticleConflicts("article_1", db);
+
+			expect(resolved?.favorite).toBe(true);
+			expect(resolved?.isRead).toBe(true);
+			const stored = await db.get("article_1", { conflicts: true });
+			expect(stored._conflicts).toBeUndefined();
+			expect(stored.favorite).toBe(true);
+			expect(stored.isRead).toBe(true);
+		});
+
+		it("should return null for an article without conflicts", async () => {
+			await db.put(baseArticle);
+			expect(await resolveArticleConflicts("article_1", db)).toBeNull();
+		});
+	});
+
+	describe("resolveAllArticleConflicts", () => {
+		it("should resolve every conflicted article", async () => {
+			await createConflict(
+				{ ...baseArticle, status: "later", fieldTimestamps: { status: 2000 } },
+				{
+					...baseArticle,
+					status: "archived",
+					fieldTimestamps: { status: 3000 },
+				},
+			);
+			await db.put({ ...baseArticle, _id: "article_2" });
+
+			const resolvedIds = await resolveAllArticleConflicts(db);
+
+			expect(resolvedIds).toEqual(["article_1"]);
+			expect((await db.get("article_1")).status).toBe("archived");
+			expect(await getConflictedArticleIds(db)).toEqual([]);
+		});
+	});
+});
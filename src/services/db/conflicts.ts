@@ -0,0 +1,146 @@
+// src/services/db/conflicts.ts
+
+// The merge rule lives in the worker so the client and server share one copy
+import { mergeDocuments } from "../../../bondwise-worker/src/merge";
+import { articlesDb } from "./config";
+import type { Article } from "./types";
+import { executeWithRetry, isNotFoundError } from "./utils";
+
+export {
+	TRACKED_FIELDS,
+	stampChangedFields,
+} from "../../../bondwise-worker/src/merge";
+
+/**
+ * Merges an incoming version of an article onto the current local version
+ * using the shared per-field rule.
+ * Keeps the local `_id`, `_rev` and `userId` so the result can be saved directly.
+ *
+ * @param current - The local article document.
+ * @param incoming - The other version (from the cloud or a conflicting revision).
+ * @returns The merged article.
+ */
+export function mergeArticles(current: Article, incoming: Article): Article {
+	const merged = mergeDocuments(current, incoming);
+	return {
+		...merged,
+		_id: current._id,
+		_rev: current._rev,
+		userId: current.userId ?? incoming.userId,
+	};
+}
+
+/**
+ * Lists articles that have unresolved PouchDB conflicts.
+ *
+ * @param db - The database to check (defaults to the articles database).
+ * @returns The IDs of conflicted articles.
+ */
+export async function getConflictedArticleIds(
+	db: PouchDB.Database<Article> = articlesDb,
+): Promise<string[]> {
+	const result = await db.allDocs({ include_docs: true, conflicts: true });
+	return result.rows
+		.filter(
+			(row) => !row.id.startsWith("_design/") && !!row.doc?._conflicts?.length,
+		)
+		.map((row) => row.id);
+}
+
+/**
+ * Resolves all conflicting revisions of an article by merging them into the
+ * winning revision and deleting the losing ones in a single bulk write.
+ *
+ * @param articleId - The _id of the article.
+ * @param db - The database to use (defaults to the articles database).
+ * @returns The merged article, or null if it had no conflicts.
+ * @throws Error if the merged document cannot be saved.
+ */
+export async function resolveArticleConflicts(
+	articleId: string,
+	db: PouchDB.Database<Article> = articlesDb,
+): Promise<Article | null> {
+	return executeWithRetry(async () => {
+		try {
+			const { _conflicts: conflictRevs = [], ...winner } = await db.get(
+				articleId,
+				{ conflicts: true },
+			);
+			if (conflictRevs.length === 0) {
+				return null;
+			}
+			console.warn(
+				`Resolving ${conflictRevs.length} conflicting revision(s) of article ${articleId}`,
+			);
+
+			let merged: Article = winner;
+			for (const rev of conflictRevs) {
+				const loser = await db.get(articleId, { rev });
+				merged = mergeArticles(merged, loser);
+			}
+
+			const results = await db.bulkDocs([
+				merged,
+				...conflictRevs.map((rev) => ({
+					_id: articleId,
+					_rev: rev,
+					_deleted: true,
+				})),
+			] as Article[]);
+			const errors = results.filter(
+				(res): res is PouchDB.Core.Error => "error" in res && !!res.error,
+			);
+			if (errors.length > 0) {
+				throw new Error(
+					`Failed to resolve conflicts for article ${articleId}: ${errors
+						.map((err) => err.message)
+						.join(", ")}`,
+				);
+			}
+
+			const saved = results[0] as PouchDB.Core.Response;
+			console.log(
+				`Resolved conflicts for article ${articleId}, new rev ${saved.rev}`,
+			);
+			return { ...merged, _rev: saved.rev };
+		} catch (error) {
+			if (isNotFoundError(error)) {
+				return null;
+			}
+			console.error(
+				`Error resolving conflicts for article ${articleId}:`,
+				error,
+			);
+			throw error;
+		}
+	});
+}
+
+/**
+ * Finds and resolves every conflicted article.
+ * Failures are logged and skipped so one bad document does not block the rest.
+ *
+ * @param db - The database to use (defaults to the articles database).
+ * @returns The IDs of the articles that were resolved.
+ */
+export async function resolveAllArticleConflicts(
+	db: PouchDB.Database<Article> = articlesDb,
+): Promise<string[]> {
+	const conflictedIds = await getConflictedArticleIds(db);
+	if (conflictedIds.length === 0) {
+		return [];
+	}
+	console.warn(`Found ${conflictedIds.length} conflicted article(s)`);
+
+	const resolvedIds: string[] = [];
+	for (const articleId of conflictedIds) {
+		try {
+			if (await resolveArticleConflicts(articleId, db)) {
+				resolvedIds.push(articleId);
+			}
+		} catch {
+			// Already logged in resolveArticleConflicts; leave it for the next run
+		}
+	}
+	return resolvedIds;
+}
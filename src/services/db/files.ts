@@ -0,0 +1,109 @@
+// src/services/db/files.ts
+
+import { articlesDb } from "./config";
+import type { Article } from "./types";
+import { executeWithRetry, isNotFoundError } from "./utils";
+
+/**
+ * Name of the attachment holding an article's binary file (PDF or EPUB).
+ * Attachments are left out of `allDocs`/`get` results unless asked for, so
+ * listing articles never loads the files; readers fetch them on demand.
+ */
+export const FILE_ATTACHMENT = "file";
+
+/** MIME type of the file behind each binary article type. */
+export const FILE_CONTENT_TYPES = {
+	pdf: "application/pdf",
+	epub: "application/epub+zip",
+} as const;
+
+/**
+ * Whether an article has a binary file, either as an attachment or (for
+ * documents not migrated yet) as base64 `fileData`.
+ */
+export function hasArticleFile(article: Article): boolean {
+	return !!article._attachments?.[FILE_ATTACHMENT] || !!article.fileData;
+}
+
+/**
+ * Digest of an article's file attachment, which changes whenever the file does.
+ * @returns The digest, or undefined if the article has no file attachment.
+ */
+export function getArticleFileDigest(article: Article): string | undefined {
+	return article._attachments?.[FILE_ATTACHMENT]?.digest;
+}
+
+/**
+ * Builds the `_attachments` entry for a new article's file, to be saved
+ * together with the article.
+ *
+ * @param data - The file contents, as a Blob or base64 string.
+ * @param contentType - The file's MIME type.
+ */
+export function fileAttachment(
+	data: Blob | string,
+	contentType: string,
+): PouchDB.Core.Attachments {
+	return { [FILE_ATTACHMENT]: { content_type: contentType, data } };
+}
+
+/**
+ * Loads an article's binary file.
+ *
+ * @param articleId - The _id of the article.
+ * @param db - The database to use (defaults to the articles database).
+ * @returns The file, or null if the article has no file attachment.
+ * @throws Error if reading fails for another reason.
+ */
+export async function getArticleFile(
+	articleId: string,
+	db: PouchDB.Database<Article> = articlesDb,
+): Promise<Blob | null> {
+	try {
+		return await executeWithRetry(async () => {
+			const data = await db.getAttachment(articleId, FILE_ATTACHMENT);
+			// Node-based adapters return Buffers rather than Blobs
+			return data instanceof Blob ? data : new Blob([data]);
+		});
+	} catch (error) {
+		if (isNotFoundError(error)) {
+			console.log(`Article ${articleId} has no file attachment.`);
+			return null;
+		}
+		console.error(`Error loading file of article ${articleId}:`, error);
+		throw error;
+	}
+}
+
+/**
+ * Stores (or replaces) an article's binary file as an attachment.
+ *
+ * @param articleId - The _id of the article.
+ * @param file - The file contents.
+ * @param contentType - The file's MIME type.
+ * @param db - The database to use (defaults to the articles database).
+ * @returns The new revision of the article.
+ * @throws Error if the article doesn't exist or writing fails.
+ */
+export async function putArticleFile(
+	articleId: string,
+	file: Blob,
+	contentType: string,
+	db: PouchDB.Database<Article> = articlesDb,
+): Promise<string> {
+	return executeWithRetry(async () => {
+		// Read the latest revision each attempt so a concurrent edit doesn't conflict
+		const { _rev } = await db.get(articleId);
+		const response = await db.putAttachment(
+			articleId,
+			FILE_ATTACHMENT,
+			_rev,
+			file,
+			contentType,
+		);
+		console.log(
+			`Stored file for article ${articleId} (${file.size} bytes) at rev ${response.rev}`,
+		);
+		return response.rev;
+	});
+}
@@ -88,6 +88,34 @@ export async function getHighlightsByArticle(
 	});
 }
 
+/**
+ * Retrieves every highlight, oldest first.
+ * Used for exports, where reading per article would scan the database each time.
+ *
+ * @returns An array of all highlight documents. Returns empty array on error.
+ */
+export async function getAllHighlights(): Promise<Highlight[]> {
+	return executeWithRetry(async () => {
+		try {
+			console.log("Getting all highlights");
+			const allHighlights = await highlightsDb.allDocs<Highlight>({
+				include_docs: true,
+			});
+
+			const highlights = allHighlights.rows
+				.filter((row) => !!row.doc && !row.id.startsWith("_design/"))
+				.map((row) => row.doc as Highlight)
+				.sort((a, b) => a.createdAt - b.createdAt);
+
+			console.log(`Found ${highlights.length} highlights`);
+			return highlights;
+		} catch (error) {
+			console.error("Error getting all highlights:", error);
+			return []; // Return empty array on error
+		}
+	});
+}
+
 /**
  * Updates specific fields of an existing highlight.
  * Requires the highlight's _id and latest _rev.
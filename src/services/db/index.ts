@@ -3,19 +3,40 @@
 // --- Core Initialization & Config ---
 export {
 	articlesDb,
+	collectionsDb,
+	fetchJobsDb,
 	highlightsDb,
 	initializeDatabase,
+	searchIndexDb,
 	tagsDb,
 } from "./config";
 
 // --- Types ---
-export type { Article, Highlight, Tag } from "./types";
+export type {
+	Article,
+	Bookmark,
+	FetchJob,
+	Highlight,
+	HighlightRect,
+	SearchIndexEntry,
+	SmartCollection,
+	Tag,
+} from "./types";
+export type { CollectionInput } from "./collections";
+export type {
+	BackupData,
+	RestoreFailure,
+	RestoreMode,
+	RestoreResult,
+} from "./backup";
 
 // --- Utilities ---
 export {
 	arrayBufferToBase64,
 	executeWithRetry,
+	isNotFoundError,
 	isOffline,
+	isTransientError,
 	registerOfflineListeners,
 } from "./utils";
 
@@ -26,23 +47,63 @@ export {
 	getArticle,
 	removeDuplicateArticles,
 	saveArticle,
+	saveArticles,
 	updateArticle,
 } from "./articles";
 
+// --- File Attachments ---
+export {
+	FILE_ATTACHMENT,
+	FILE_CONTENT_TYPES,
+	fileAttachment,
+	getArticleFile,
+	getArticleFileDigest,
+	hasArticleFile,
+	putArticleFile,
+} from "./files";
+
+// --- Conflict Resolution ---
+export {
+	getConflictedArticleIds,
+	mergeArticles,
+	resolveAllArticleConflicts,
+	resolveArticleConflicts,
+} from "./conflicts";
+
 // --- Highlight Operations ---
 export {
 	deleteHighlight,
+	getAllHighlights,
 	getHighlightsByArticle,
 	saveHighlight,
 	updateHighlight,
 } from "./highlights";
 
 // --- Tag Operations ---
-export { deleteTag, getAllTags, saveTag, updateTag } from "./tags";
+export {
+	deleteTag,
+	getAllTags,
+	mergeTags,
+	saveTag,
+	updateTag,
+} from "./tags";
+
+// --- Smart Collection Operations ---
+export {
+	applyRemoteCollections,
+	deleteCollection,
+	getAllCollections,
+	getCollection,
+	saveCollection,
+	updateCollection,
+} from "./collections";
 
 // --- Sync Functionality Placeholder ---
 // --- Migrations ---
-export { updateMissingMetadata } from "./migrations";
+export {
+	migrateFileDataToAttachments,
+	updateMissingMetadata,
+} from "./migrations";
 
 // Re-exporting the placeholder from the original file,
 // but this should eventually be implemented properly or removed.
@@ -55,3 +116,6 @@ export function setupSync() {
 	// If sync is needed in the future, use a more secure approach than the
 	// deprecated request library that has vulnerabilities
 }
+
+// --- Backup & Restore ---
+export { createBackup, restoreBackup, validateBackup } from "./backup";
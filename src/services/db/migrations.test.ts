@@ -1,7 +1,10 @@
 /// <reference types="@testing-library/jest-dom" />
 
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { updateMissingMetadata } from "./migrations";
+import {
+	migrateFileDataToAttachments,
+	updateMissingMetadata,
+} from "./migrations";
 
 // Mock the articlesDb
 vi.mock("./config", () => ({
@@ -197,4 +200,86 @@ describe("Database migrations", () => {
 		expect(articlesDb.allDocs).toHaveBeenCalledTimes(1);
 		expect(articlesDb.bulkDocs).toHaveBeenCalledTimes(1);
 	});
+
+	describe("migrateFileDataToAttachments", () => {
+		it("should move fileData into a file attachment", async () => {
+			vi.mocked(articlesDb.allDocs).mockResolvedValue({
+				rows: [
+					{
+						doc: {
+							_id: "article_pdf1",
+							_rev: "1-abc123",
+							type: "pdf",
+							content: "PDF content is stored in fileData.",
+							fileData: "data:application/pdf;base64,JVBERi0x",
+						},
+					},
+					{
+						doc: {
+							_id: "article_web1",
+							_rev: "1-def456",
+							type: "article",
+							content: "<p>Hello</p>",
+						},
+					},
+				],
+			} as any);
+			vi.mocked(articlesDb.bulkDocs).mockResolvedValue([
+				{ ok: true, id: "article_pdf1", rev: "2-xyz456" },
+			] as any);
+
+			const migratedCount = await migrateFileDataToAttachments();
+
+			expect(migratedCount).toBe(1);
+			const bulkDocsArg = vi.mocked(articlesDb.bulkDocs).mock.calls[0][0];
+			expect(bulkDocsArg).toEqual([
+				{
+					_id: "article_pdf1",
+					_rev: "1-abc123",
+					type: "pdf",
+					content: "PDF content is stored as an attachment.",
+					_attachments: {
+						file: { content_type: "application/pdf", data: "JVBERi0x" },
+					},
+				},
+			]);
+		});
+
+		it("should not write anything when no documents have fileData", async () => {
+			vi.mocked(articlesDb.allDocs).mockResolvedValue({
+				rows: [{ doc: { _id: "article_web1", _rev: "1-a", type: "article" } }],
+			} as any);
+
+			expect(await migrateFileDataToAttachments()).toBe(0);
+			expect(articlesDb.bulkDocs).not.toHaveBeenCalled();
+		});
+
+		it("should read and write the articles one page at a time", async () => {
+			const pdfRow = (id: string) => ({
+				id,
+				doc: { _id: id, _rev: "1-a", type: "pdf", fileData: "JVBERi0x" },
+			});
+			const firstPage = Array.from({ length: 50 }, (_, i) =>
+				pdfRow(`article_${String(i).padStart(2, "0")}`),
+			);
+			vi.mocked(articlesDb.allDocs)
+				.mockResolvedValueOnce({ rows: firstPage } as any)
+				.mockResolvedValueOnce({ rows: [pdfRow("article_50")] } as any);
+			vi.mocked(articlesDb.bulkDocs).mockImplementation(
+				async (docs: any[]) =>
+					docs.map((doc) => ({ ok: true, id: doc._id, rev: "2-b" })) as any,
+			);
+
+			expect(await migrateFileDataToAttachments()).toBe(51);
+			expect(articlesDb.allDocs).toHaveBeenCalledTimes(2);
+			expect(vi.mocked(articlesDb.allDocs).mock.calls[1][0]).toMatchObject({
+				limit: 50,
+				startkey: "article_49",
+				skip: 1,
+			});
+			expect(articlesDb.bulkDocs).toHaveBeenCalledTimes(2);
+			expect(vi.mocked(articlesDb.bulkDocs).mock.calls[0][0]).toHaveLength(50);
+			expect(vi.mocked(articlesDb.bulkDocs).mock.calls[1][0]).toHaveLength(1);
+		});
+	});
 });
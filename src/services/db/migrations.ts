@@ -5,6 +5,7 @@
 // import { getEstimatedReadingTime as getEpubReadingTime } from "@/services/epub";
 // import { getEstimatedReadingTime as getPdfReadingTime } from "@/services/pdf";
 import { articlesDb } from "./config";
+import { FILE_CONTENT_TYPES, fileAttachment } from "./files";
 import type { Article } from "./types";
 import { executeWithRetry } from "./utils";
 
@@ -152,3 +153,100 @@ export async function updateMissingMetadata(): Promise<number> {
 		}
 	});
 }
+
+// Articles read per page, so a library full of inline files is never loaded at once
+const FILE_MIGRATION_PAGE_SIZE = 50;
+
+// Builds the attachment version of an article that still carries fileData
+function toAttachmentDoc(doc: Article): Article {
+	const { fileData, ...rest } = doc;
+	// Older imports may have kept the data URL prefix
+	const data = (fileData as string).replace(/^data:[^,]*,/, "");
+	const label = doc.type === "pdf" ? "PDF" : "EPUB";
+	return {
+		...rest,
+		content: `${label} content is stored as an attachment.`,
+		_attachments: {
+			...rest._attachments,
+			...fileAttachment(
+				data,
+				FILE_CONTENT_TYPES[doc.type === "pdf" ? "pdf" : "epub"],
+			),
+		},
+	};
+}
+
+/**
+ * Moves the base64 `fileData` of PDF and EPUB documents into a "file"
+ * attachment, so the files are only loaded when a reader opens them instead
+ * of with every article list. Articles are read and written one page at a
+ * time.
+ *
+ * @returns The number of articles migrated
+ */
+export async function migrateFileDataToAttachments(): Promise<number> {
+	console.log("Starting migration of file data to attachments...");
+	let migrated = 0;
+	let failed = 0;
+	let startkey: string | undefined;
+
+	try {
+		while (true) {
+			const page = await executeWithRetry(() =>
+				articlesDb.allDocs<Article>({
+					include_docs: true,
+					limit: FILE_MIGRATION_PAGE_SIZE,
+					...(startkey !== undefined && { startkey, skip: 1 }),
+				}),
+			);
+
+			const migratedDocs = page.rows
+				.map((row) => row.doc as Article | undefined)
+				.filter(
+					(doc): doc is Article =>
+						!!doc && typeof doc.fileData === "string" && !!doc._rev,
+				)
+				.map(toAttachmentDoc);
+
+			if (migratedDocs.length > 0) {
+				console.log(
+					`Moving file data of ${migratedDocs.length} documents into attachments...`,
+				);
+				const bulkResponse = await executeWithRetry(() =>
+					articlesDb.bulkDocs(migratedDocs),
+				);
+
+				const errors = bulkResponse.filter(
+					(res): res is PouchDB.Core.Error => "error" in res && !!res.error,
+				);
+				for (const err of errors) {
+					const message = err.message || err.reason || "Unknown error";
+					console.error(`Failed to migrate ${err.id}: ${message}`);
+				}
+				migrated += migratedDocs.length - errors.length;
+				failed += errors.length;
+			}
+
+			if (page.rows.length < FILE_MIGRATION_PAGE_SIZE) break;
+			startkey = page.rows[page.rows.length - 1].id;
+		}
+	} catch (error) {
+		console.error("Error during file data migration:", error);
+		throw error;
+	}
+
+	if (failed > 0) {
+		throw new Error(
+			`Failed to migrate ${failed} out of ${migrated + failed} documents. Check logs for details.`,
+		);
+	}
+	if (migrated === 0) {
+		console.log("No documents have file data to migrate.");
+		return 0;
+	}
+
+	console.log(
+		`Successfully moved file data of ${migrated} documents into attachments.`,
+	);
+	return migrated;
+}
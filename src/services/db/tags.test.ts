@@ -0,0 +1,78 @@
+// src/services/db/tags.test.ts
+
+import PouchDBAdapterMemory from "pouchdb-adapter-memory";
+import PouchDB from "pouchdb-browser";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+	clearDb,
+	createArticle,
+	createHighlight,
+} from "../../test-utils/dbFixtures";
+import { articlesDb, highlightsDb, initializeDatabase, tagsDb } from "./config";
+import { deleteTag, getAllTags, mergeTags, saveTag } from "./tags";
+
+// config.ts uses the memory adapter under vitest
+if (typeof PouchDB.plugin === "function") {
+	PouchDB.plugin(PouchDBAdapterMemory);
+}
+
+describe("tags", () => {
+	beforeAll(async () => {
+		await initializeDatabase();
+	});
+
+	beforeEach(async () => {
+		await clearDb(articlesDb);
+		await clearDb(highlightsDb);
+		await clearDb(tagsDb);
+	});
+
+	describe("deleteTag", () => {
+		it("should remove the tag ID from articles and highlights", async () => {
+			const tag = await saveTag("reading");
+			const other = await saveTag("work");
+			await articlesDb.bulkDocs([
+				createArticle("article_1", { tags: [tag._id, other._id] }),
+				createArticle("article_2", { tags: [other._id] }),
+			]);
+			await highlightsDb.put(
+				createHighlight("highlight_1", { tags: [tag._id] }),
+			);
+
+			await deleteTag(tag._id, tag._rev as string);
+
+			const article1 = await articlesDb.get("article_1");
+			expect(article1.tags).toEqual([other._id]);
+			expect(article1.fieldTimestamps?.tags).toBeDefined();
+			// Untouched documents are not rewritten
+			const article2 = await articlesDb.get("article_2");
+			expect(article2._rev).toMatch(/^1-/);
+			expect((await highlightsDb.get("highlight_1")).tags).toEqual([]);
+			expect((await getAllTags()).map((t) => t.name)).toEqual(["work"]);
+		});
+	});
+
+	describe("mergeTags", () => {
+		it("should retag documents with the target and delete the sources", async () => {
+			const target = await saveTag("ml");
+			const source1 = await saveTag("machine-learning");
+			const source2 = await saveTag("ML stuff");
+			await articlesDb.bulkDocs([
+				createArticle("article_1", { tags: [source1._id, target._id] }),
+				createArticle("article_2", { tags: [source2._id] }),
+			]);
+			await highlightsDb.put(
+				createHighlight("highlight_1", { tags: [source1._id] }),
+			);
+
+			await mergeTags([source1._id, source2._id], target._id);
+
+			expect((await articlesDb.get("article_1")).tags).toEqual([target._id]);
+			expect((await articlesDb.get("article_2")).tags).toEqual([target._id]);
+			expect((await highlightsDb.get("highlight_1")).tags).toEqual([
+				target._id,
+			]);
+			expect((await getAllTags()).map((t) => t._id)).toEqual([target._id]);
+		});
+	});
+});
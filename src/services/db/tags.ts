@@ -1,8 +1,9 @@
 // src/services/db/tags.ts
 
 import { v4 as uuidv4 } from "uuid";
-import { tagsDb } from "./config"; // Import the initialized DB instance
-import type { Tag } from "./types";
+import { articlesDb, highlightsDb, tagsDb } from "./config"; // Import the initialized DB instances
+import { stampChangedFields } from "./conflicts";
+import type { Article, Highlight, Tag } from "./types";
 import { executeWithRetry } from "./utils";
 
 /**
@@ -141,10 +142,81 @@ export async function getAllTags(userId?: string): Promise<Tag[]> {
 	});
 }
 
+/**
+ * Replaces references to some tags on every article and highlight.
+ * Each database is updated with a single bulk write.
+ *
+ * @param tagIds - The tag IDs to remove from articles and highlights.
+ * @param replacementId - Optional tag ID to add wherever one of `tagIds` was removed.
+ * @returns The number of articles and highlights that were updated.
+ * @throws Error if any document fails to save.
+ */
+async function replaceTagReferences(
+	tagIds: string[],
+	replacementId?: string,
+): Promise<{ articles: number; highlights: number }> {
+	const removed = new Set(tagIds);
+	const retag = (tags: string[] = []): string[] | null => {
+		if (!tags.some((tagId) => removed.has(tagId))) {
+			return null; // Untouched
+		}
+		const kept = tags.filter((tagId) => !removed.has(tagId));
+		return replacementId && !kept.includes(replacementId)
+			? [...kept, replacementId]
+			: kept;
+	};
+
+	const articleRows = await articlesDb.allDocs<Article>({ include_docs: true });
+	const updatedArticles: Article[] = [];
+	for (const row of articleRows.rows) {
+		const tags = row.doc && retag(row.doc.tags);
+		if (row.doc && tags) {
+			// Stamp the change so sync merges treat it like any other tag edit
+			updatedArticles.push(stampChangedFields(row.doc, { ...row.doc, tags }));
+		}
+	}
+
+	const highlightRows = await highlightsDb.allDocs<Highlight>({
+		include_docs: true,
+	});
+	const updatedHighlights: Highlight[] = [];
+	for (const row of highlightRows.rows) {
+		const tags = row.doc && retag(row.doc.tags);
+		if (row.doc && tags) {
+			updatedHighlights.push({ ...row.doc, tags });
+		}
+	}
+
+	const results = [
+		...(updatedArticles.length > 0
+			? await articlesDb.bulkDocs(updatedArticles)
+			: []),
+		...(updatedHighlights.length > 0
+			? await highlightsDb.bulkDocs(updatedHighlights)
+			: []),
+	];
+	const errors = results.filter(
+		(res): res is PouchDB.Core.Error => "error" in res && !!res.error,
+	);
+	if (errors.length > 0) {
+		throw new Error(
+			`Failed to update ${errors.length} tagged document(s): ${errors
+				.map((err) => `${err.id}: ${err.message}`)
+				.join(", ")}`,
+		);
+	}
+
+	return {
+		articles: updatedArticles.length,
+		highlights: updatedHighlights.length,
+	};
+}
+
 /**
  * Deletes a tag from the database.
  * Requires the tag's _id and latest _rev.
- * Note: This does not automatically remove the tag ID from associated articles/highlights.
+ * The tag ID is first removed from every article and highlight that uses it,
+ * so no dangling references are left behind.
  *
  * @param id - The _id of the tag to delete.
  * @param rev - The latest _rev of the tag to delete.
@@ -155,6 +227,11 @@ export async function deleteTag(id: string, rev: string): Promise<boolean> {
 	return executeWithRetry(async () => {
 		try {
 			console.log(`Attempting to delete tag ${id} with rev ${rev}`);
+			const updated = await replaceTagReferences([id]);
+			console.log(
+				`Removed tag ${id} from ${updated.articles} articles and ${updated.highlights} highlights`,
+			);
+
 			const response = await tagsDb.remove(id, rev);
 			if (response.ok) {
 				console.log(`Tag ${id} deleted successfully.`);
@@ -171,6 +248,63 @@ export async function deleteTag(id: string, rev: string): Promise<boolean> {
 	});
 }
 
+/**
+ * Merges one or more tags into a target tag.
+ * Articles and highlights tagged with any source tag get the target tag
+ * instead, then the source tags are deleted.
+ *
+ * @param sourceIds - The _ids of the tags to merge away.
+ * @param targetId - The _id of the tag to keep.
+ * @returns The target tag.
+ * @throws Error if the target does not exist or any write fails.
+ */
+export async function mergeTags(
+	sourceIds: string[],
+	targetId: string,
+): Promise<Tag> {
+	return executeWithRetry(async () => {
+		const mergedIds = sourceIds.filter((tagId) => tagId !== targetId);
+		try {
+			console.log(
+				`Attempting to merge tags ${mergedIds.join(", ")} into ${targetId}`,
+			);
+			const target = await tagsDb.get(targetId);
+			if (mergedIds.length === 0) {
+				return target;
+			}
+
+			const updated = await replaceTagReferences(mergedIds, targetId);
+			console.log(
+				`Retagged ${updated.articles} articles and ${updated.highlights} highlights with ${targetId}`,
+			);
+
+			const sources = await tagsDb.allDocs({ keys: mergedIds });
+			const deletions = sources.rows.flatMap((row) =>
+				"value" in row && !row.value.deleted
+					? [{ _id: row.id, _rev: row.value.rev, _deleted: true }]
+					: [],
+			);
+			const results = await tagsDb.bulkDocs(deletions as unknown as Tag[]);
+			const errors = results.filter(
+				(res): res is PouchDB.Core.Error => "error" in res && !!res.error,
+			);
+			if (errors.length > 0) {
+				throw new Error(
+					`Failed to delete merged tags: ${errors
+						.map((err) => `${err.id}: ${err.message}`)
+						.join(", ")}`,
+				);
+			}
+
+			console.log(`Merged ${deletions.length} tags into ${targetId}`);
+			return target;
+		} catch (error) {
+			console.error(`Error merging tags into ${targetId}:`, error);
+			throw error; // Rethrow for the caller
+		}
+	});
+}
+
 /**
  * Updates the name and/or color of an existing tag.
  * Requires the tag's _id and latest _rev.
@@ -1,5 +1,8 @@
 // src/services/db/types.ts
 
+import type { ArticleFilters, SortCriteria } from "@/types/articles";
+import type { FieldTimestamps } from "../../../bondwise-worker/src/merge";
+
 /**
  * Represents a saved article, PDF, EPUB, or note.
  */
@@ -8,6 +11,7 @@ export interface Article {
 	_rev?: string; // PouchDB document revision
 	title: string; // Title of the item
 	url: string; // Original URL or local file identifier (e.g., 'local://filename.epub')
+	canonicalUrl?: string; // The page's own canonical URL, when it declares one; used to find duplicates
 	content: string; // Main content (HTML for articles, placeholder for binary files)
 	excerpt: string; // Short summary or description
 	author?: string; // Author name(s)
@@ -21,7 +25,7 @@ export interface Article {
 	estimatedReadTime?: number; // Estimated reading time in minutes
 	readingProgress?: number; // Reading progress (e.g., percentage, page number, CFI)
 	type: "article" | "pdf" | "note" | "epub"; // Type of content
-	fileData?: string; // Base64 encoded data for binary files (PDF, EPUB)
+	fileData?: string; // Legacy: base64 file data, moved into the "file" attachment by migrateFileDataToAttachments
 	fileSize?: number; // Size of the original file in bytes
 	fileName?: string; // Original filename for local files
 	pageCount?: number; // Number of pages (primarily for PDF)
@@ -31,8 +35,36 @@ export interface Article {
 	// Optional fields added based on usage elsewhere
 	htmlContent?: string; // Raw HTML content, if available
 	scrollPosition?: number; // Last reading scroll position (e.g., pixel value)
+	readingLocation?: string; // EPUB: CFI of the last reading position, to resume from
+	bookmarks?: Bookmark[]; // EPUB: saved positions in the book
 	coverImage?: string; // URL or base64 data for a cover image
 	language?: string; // Detected language code (e.g., 'en', 'vi')
+	note?: string; // Free-form markdown note about the whole article
+	fetchStatus?: "pending" | "failed"; // Set while imported content is still to be fetched, or when fetching failed
+	fetchError?: string; // Reason the last content fetch failed
+	fieldTimestamps?: FieldTimestamps; // Last-modified time per mutable field, used when merging
+	_attachments?: PouchDB.Core.Attachments; // Binary file (PDF, EPUB) under the "file" attachment; stubs unless loaded
+}
+
+/**
+ * A saved position in an EPUB.
+ */
+export interface Bookmark {
+	cfi: string; // EPUB CFI of the bookmarked position
+	label: string; // Chapter title (or similar) shown in the bookmark list
+	createdAt: number; // Timestamp (ms since epoch) when created
+}
+
+/**
+ * An area of a PDF page covered by a highlight, as fractions (0-1) of the
+ * page's width and height measured from its top-left corner, so it maps
+ * onto the page at any zoom level.
+ */
+export interface HighlightRect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
 }
 
 /**
@@ -51,8 +83,12 @@ export interface Highlight {
 		// For text/HTML: character offsets or range identifiers
 		start: number | string; // Start position (e.g., character offset, CFI)
 		end: number | string; // End position (e.g., character offset, CFI)
-		// For PDF: page number and coordinates might be needed
+		// For text/HTML: surrounding context used to re-anchor the quote if offsets drift
+		prefix?: string;
+		suffix?: string;
+		// For PDF: the page (1-based) and the highlighted areas on it
 		pageNumber?: number;
+		rects?: HighlightRect[];
 		// Add other relevant position fields as needed
 	};
 	tags: string[]; // Array of tag IDs associated with the highlight
@@ -70,3 +106,45 @@ export interface Tag {
 	createdAt: number; // Timestamp (ms since epoch) when created
 	userId?: string; // Optional: User ID if tags are user-specific
 }
+
+/**
+ * Persisted search index entry for one article.
+ * Holds the article's analyzed terms so the in-memory index can be rebuilt
+ * at startup without re-parsing every article.
+ */
+export interface SearchIndexEntry {
+	_id: string; // ID of the indexed Article
+	_rev?: string; // PouchDB document revision
+	terms: string; // Encoded terms with weights and positions (see services/search)
+	length: number; // Weighted number of indexed terms
+	highlightIds: string[]; // Highlights indexed as part of the article
+}
+
+/**
+ * A named filter+sort combination ("smart collection") shown in the sidebar.
+ * Deleted collections are kept as tombstones until the deletion has synced.
+ */
+export interface SmartCollection {
+	_id: string; // PouchDB document ID (e.g., 'collection_uuid')
+	_rev?: string; // PouchDB document revision
+	name: string; // Display name (e.g., 'Long reads about AI')
+	filter: ArticleFilters; // Filters applied to the library, including the query
+	sortCriteria: SortCriteria; // Sort order for the collection's articles
+	createdAt: number; // Timestamp (ms since epoch) when created
+	updatedAt: number; // Timestamp of the last edit; the newest copy wins on sync
+	userId?: string; // Optional: User ID if collections are user-specific
+	deleted?: boolean; // Tombstone, hidden locally and removed from other devices
+}
+
+/**
+ * A pending background fetch of an article's content, kept per device.
+ * The article carries `fetchStatus: "pending"` while its job exists.
+ */
+export interface FetchJob {
+	_id: string; // ID of the Article whose content is fetched
+	_rev?: string; // PouchDB document revision
+	attempts: number; // Failed attempts so far (attempts made offline don't count)
+	nextAttemptAt: number; // Timestamp (ms since epoch) of the next attempt
+	lastError?: string; // Reason the last attempt failed
+	createdAt: number; // Timestamp (ms since epoch) when queued
+}
@@ -1,5 +1,15 @@
 // src/services/db/utils.ts
 
+/**
+ * Checks if an error is PouchDB's "missing" error for a document or
+ * attachment that doesn't exist.
+ * @param error - The caught error.
+ * @returns True if the error is a not-found error.
+ */
+export function isNotFoundError(error: unknown): boolean {
+	return error instanceof Error && error.name === "not_found";
+}
+
 /**
  * Checks if an error is likely transient (e.g., network issue, temporary server error)
  * and suitable for retrying.
@@ -0,0 +1,122 @@
+import type { Book } from "epubjs";
+import { describe, expect, it, vi } from "vitest";
+import { extractEpubChapters, getEpubText, toPlainText } from "./epub";
+
+const parseChapter = (body: string) =>
+	new DOMParser().parseFromString(
+		`<html><head><style>p { color: red; }</style></head><body>${body}</body></html>`,
+		"text/html",
+	).documentElement;
+
+// A book with the given chapters, as epub.js presents it to the extractor
+function createBook(chapters: Record<string, string>) {
+	const load = vi.fn();
+	const sections = Object.entries(chapters).map(([href, body], index) => ({
+		index,
+		href,
+		linear: true,
+		load: vi.fn(async () => parseChapter(body)),
+		unload: vi.fn(),
+	}));
+	const book = {
+		load,
+		spine: {
+			each: (callback: (section: unknown) => void) =>
+				sections.forEach(callback),
+		},
+		navigation: {
+			toc: [
+				{ id: "c1", href: "Text/ch1.xhtml", label: " Loomings ", subitems: [] },
+			],
+		},
+	} as unknown as Book;
+	return { book, sections };
+}
+
+describe("services/epub", () => {
+	describe("toPlainText", () => {
+		it("should separate paragraphs and drop styles and scripts", () => {
+			const root = parseChapter(
+				"<h1>Title</h1><p>First   line<br>continues</p><script>x()</script><ul><li>One</li><li>Two</li></ul>",
+			);
+
+			expect(toPlainText(root)).toBe(
+				"Title\n\nFirst line\n\ncontinues\n\nOne\n\nTwo",
+			);
+		});
+	});
+
+	describe("extractEpubChapters", () => {
+		it("should extract every chapter with text, titled from the TOC", async () => {
+			const { book } = createBook({
+				"OEBPS/Text/cover.xhtml": "<img src='cover.jpg'>",
+				"OEBPS/Text/ch1.xhtml": "<p>Call me Ishmael.</p>",
+				"OEBPS/Text/ch2.xhtml": "<p>There now is your insular city.</p>",
+			});
+			const onChapter = vi.fn();
+
+			const chapters = await extractEpubChapters(book, { onChapter });
+
+			expect(chapters).toEqual([
+				{
+					index: 1,
+					href: "OEBPS/Text/ch1.xhtml",
+					title: "Loomings",
+					text: "Call me Ishmael.",
+				},
+				{
+					index: 2,
+					href: "OEBPS/Text/ch2.xhtml",
+					title: "Chapter 2",
+					text: "There now is your insular city.",
+				},
+			]);
+			expect(onChapter).toHaveBeenCalledTimes(2);
+		});
+
+		it("should reuse cached chapters for the same book", async () => {
+			const { book, sections } = createBook({
+				"ch1.xhtml": "<p>Cached text.</p>",
+			});
+
+			await extractEpubChapters(book, { bookKey: "book_cached" });
+			const chapters = await extractEpubChapters(book, {
+				bookKey: "book_cached",
+			});
+
+			expect(sections[0].load).toHaveBeenCalledTimes(1);
+			expect(chapters[0].text).toBe("Cached text.");
+		});
+
+		it("should stop when cancelled", async () => {
+			const { book, sections } = createBook({
+				"ch1.xhtml": "<p>One.</p>",
+				"ch2.xhtml": "<p>Two.</p>",
+			});
+			let cancelled = false;
+
+			const chapters = await extractEpubChapters(book, {
+				isCancelled: () => cancelled,
+				onChapter: () => {
+					cancelled = true;
+				},
+			});
+
+			expect(chapters).toHaveLength(1);
+			expect(sections[1].load).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("getEpubText", () => {
+		const chapters = [
+			{ index: 0, href: "ch1.xhtml", title: "One", text: "First." },
+			{ index: 1, href: "ch2.xhtml", title: "Two", text: "Second." },
+		];
+
+		it("should return the current chapter or the whole book", () => {
+			expect(getEpubText(chapters, "ch2.xhtml#part")).toBe("Two\n\nSecond.");
+			expect(getEpubText(chapters)).toBe("One\n\nFirst.\n\nTwo\n\nSecond.");
+			expect(getEpubText(chapters, "missing.xhtml")).toBeNull();
+		});
+	});
+});
@@ -2,7 +2,16 @@
  * EPUB parsing utilities
  * Provides functions to extract metadata from EPUB files
  */
-import ePub from "epubjs";
+import ePub, { type Book, type NavItem } from "epubjs";
+
+// A spine section as epub.js hands it to `spine.each`
+interface EpubSection {
+	index: number;
+	href: string;
+	linear?: boolean;
+	load(request: (url: string) => Promise<unknown>): Promise<Element>;
+	unload(): void;
+}
 
 // Helper function to convert ArrayBuffer to Base64
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
@@ -136,3 +145,166 @@ export function getEstimatedReadingTime(fileSize: number): number {
 	// Return at least 1 minute
 	return Math.max(1, estimatedMinutes);
 }
+
+// --- Full text extraction ---
+
+/** Plain text of one section (chapter) of a book, in spine order. */
+export interface EpubChapter {
+	index: number; // Position in the spine
+	href: string; // Spine href, as in epub.js locations
+	title: string; // From the table of contents, or "Chapter N"
+	text: string;
+}
+
+// Elements that end a line or paragraph when read as plain text
+const BLOCK_SELECTOR =
+	"p, div, section, article, aside, header, footer, h1, h2, h3, h4, h5, h6, li, blockquote, pre, tr, dt, dd, figcaption, br";
+
+// Books whose chapter texts are kept, most recent last
+const MAX_CACHED_BOOKS = 3;
+const chapterCache = new Map<string, Map<string, EpubChapter>>();
+
+// The cached chapters of a book, marking it as the most recently used
+function getBookCache(bookKey: string): Map<string, EpubChapter> {
+	let chapters = chapterCache.get(bookKey);
+	chapterCache.delete(bookKey);
+	if (!chapters) {
+		chapters = new Map();
+		if (chapterCache.size >= MAX_CACHED_BOOKS) {
+			const oldest = chapterCache.keys().next().value;
+			if (oldest !== undefined) chapterCache.delete(oldest);
+		}
+	}
+	chapterCache.set(bookKey, chapters);
+	return chapters;
+}
+
+// Path of a book href without its fragment, e.g. "OEBPS/ch1.xhtml#s2" -> "OEBPS/ch1.xhtml"
+const hrefPath = (href: string) => href.split("#")[0];
+
+/**
+ * Finds the table of contents entry for a section of the book. TOC hrefs are
+ * relative to the navigation document, so they're matched on path suffix.
+ */
+export function findTocItem(toc: NavItem[], href: string): NavItem | undefined {
+	const path = hrefPath(href);
+	if (!path) return undefined;
+	for (const item of toc) {
+		const itemPath = hrefPath(item.href);
+		if (itemPath && (path.endsWith(itemPath) || itemPath.endsWith(path))) {
+			return item;
+		}
+		const child = item.subitems && findTocItem(item.subitems, href);
+		if (child) return child;
+	}
+	return undefined;
+}
+
+/**
+ * Reads a chapter document as plain text, with a blank line between
+ * paragraphs and scripts and styles left out.
+ */
+export function toPlainText(root: Element): string {
+	const body = (root.querySelector("body") ?? root).cloneNode(true) as Element;
+	for (const el of body.querySelectorAll("script, style")) {
+		el.remove();
+	}
+	// textContent runs blocks together, so mark where each one ends
+	for (const el of body.querySelectorAll(BLOCK_SELECTOR)) {
+		el.after("\n\n");
+	}
+	return (body.textContent ?? "")
+		.split(/\n\s*\n/)
+		.map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+		.filter(Boolean)
+		.join("\n\n");
+}
+
+/**
+ * Extracts the plain text of every chapter of a book, walking the spine one
+ * section at a time and yielding between sections so reading isn't blocked.
+ * Chapters are cached per book, so reopening it skips the extraction.
+ *
+ * @param book - An opened epub.js book.
+ * @param options.bookKey - Identifies the book in the cache; no caching without it.
+ * @param options.isCancelled - Checked between chapters, e.g. once the reader closes.
+ * @param options.onChapter - Called as each chapter's text becomes available.
+ * @returns The chapters that contain text, in reading order.
+ */
+export async function extractEpubChapters(
+	book: Book,
+	{
+		bookKey,
+		isCancelled = () => false,
+		onChapter,
+	}: {
+		bookKey?: string;
+		isCancelled?: () => boolean;
+		onChapter?: (chapter: EpubChapter) => void;
+	} = {},
+): Promise<EpubChapter[]> {
+	const cache = bookKey
+		? getBookCache(bookKey)
+		: new Map<string, EpubChapter>();
+	const sections: EpubSection[] = [];
+	book.spine.each((section: EpubSection) => {
+		if (section.linear !== false && section.href) sections.push(section);
+	});
+
+	const chapters: EpubChapter[] = [];
+	for (const section of sections) {
+		if (isCancelled()) break;
+
+		let chapter = cache.get(section.href);
+		if (!chapter) {
+			try {
+				// book.load reads from the unpacked archive; a plain request would hit the network
+				const contents = await section.load(book.load.bind(book));
+				chapter = {
+					index: section.index,
+					href: section.href,
+					title:
+						findTocItem(
+							book.navigation?.toc ?? [],
+							section.href,
+						)?.label.trim() || `Chapter ${chapters.length + 1}`,
+					text: toPlainText(contents),
+				};
+				cache.set(section.href, chapter);
+			} catch (error) {
+				console.warn(`Could not extract text from ${section.href}:`, error);
+				continue;
+			} finally {
+				section.unload();
+			}
+			// Let the reader handle input before the next chapter
+			await new Promise((resolve) => setTimeout(resolve, 0));
+		}
+
+		if (chapter.text) {
+			chapters.push(chapter);
+			onChapter?.(chapter);
+		}
+	}
+	return chapters;
+}
+
+/**
+ * Text for the AI features: the chapter being read, or the whole book.
+ *
+ * @param chapters - The book's extracted chapters.
+ * @param href - Spine href of the chapter being read; the whole book if omitted.
+ * @returns The text, or null if there is none.
+ */
+export function getEpubText(
+	chapters: EpubChapter[],
+	href?: string,
+): string | null {
+	const selected = href
+		? chapters.filter((chapter) => hrefPath(chapter.href) === hrefPath(href))
+		: chapters;
+	const text = selected
+		.map((chapter) => `${chapter.title}\n\n${chapter.text}`)
+		.join("\n\n");
+	return text || null;
+}
@@ -0,0 +1,148 @@
+// src/services/export/highlights.test.ts
+
+import {
+	createArticle,
+	createHighlight,
+	createTag,
+} from "@/test-utils/dbFixtures";
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "../import/formats";
+import {
+	selectHighlightsForExport,
+	toAnkiTsv,
+	toReadwiseCsv,
+} from "./highlights";
+
+const tags = [createTag("tag_1", "Deep Work"), createTag("tag_2", "history")];
+
+describe("highlight export", () => {
+	describe("selectHighlightsForExport", () => {
+		const articles = [
+			createArticle("article_1", { tags: ["tag_2"] }),
+			createArticle("article_2"),
+		];
+		const highlights = [
+			createHighlight("late", { position: { start: 90, end: 95 } }),
+			createHighlight("early", { position: { start: 10, end: 15 } }),
+			createHighlight("tagged", {
+				articleId: "article_2",
+				tags: ["tag_1"],
+				createdAt: Date.UTC(2024, 0, 1),
+			}),
+			createHighlight("orphan", { articleId: "article_deleted" }),
+		];
+		const ids = (entries: ReturnType<typeof selectHighlightsForExport>) =>
+			entries.map((entry) => entry.highlight._id);
+
+		it("should keep highlights with an article, in reading order", () => {
+			const entries = selectHighlightsForExport({
+				highlights,
+				articles,
+				tags,
+			});
+
+			expect(ids(entries)).toEqual(["early", "late", "tagged"]);
+			expect(entries[2].tags).toEqual(["Deep Work"]);
+		});
+
+		it("should match tags on the highlight or its article", () => {
+			const data = { highlights, articles, tags };
+
+			expect(
+				ids(selectHighlightsForExport(data, { tagIds: ["tag_1"] })),
+			).toEqual(["tagged"]);
+			expect(
+				ids(selectHighlightsForExport(data, { tagIds: ["tag_2"] })),
+			).toEqual(["early", "late"]);
+		});
+
+		it("should filter by creation date", () => {
+			const entries = selectHighlightsForExport(
+				{ highlights, articles, tags },
+				{ from: Date.UTC(2023, 11, 1), to: Date.UTC(2024, 1, 1) },
+			);
+
+			expect(ids(entries)).toEqual(["tagged"]);
+		});
+	});
+
+	it("should write a Readwise CSV with tags in the note", () => {
+		const csv = toReadwiseCsv([
+			{
+				highlight: createHighlight("h1", {
+					text: 'He said, "stay"\nand left',
+					note: "Reread this",
+					position: { start: 0, end: 5, pageNumber: 12 },
+				}),
+				article: createArticle("article_1", {
+					title: "Essays, Vol. 1",
+					author: "Ada Lovelace",
+				}),
+				tags: ["Deep Work", "history"],
+			},
+			{
+				highlight: createHighlight("h2"),
+				article: createArticle("article_2", { url: "local-pdf://file.pdf" }),
+				tags: [],
+			},
+		]);
+
+		expect(parseCsv(csv)).toEqual([
+			["Highlight", "Title", "Author", "URL", "Note", "Location", "Date"],
+			[
+				'He said, "stay"\nand left',
+				"Essays, Vol. 1",
+				"Ada Lovelace",
+				"https://example.com/article_1",
+				".Deep_Work .history Reread this",
+				"12",
+				"1970-01-01 00:00:01",
+			],
+			["Quote", "article_2", "", "", "", "", "1970-01-01 00:00:01"],
+		]);
+	});
+
+	it("should write Anki cards with the highlight on the front and the source on the back", () => {
+		const tsv = toAnkiTsv([
+			{
+				highlight: createHighlight("h1", {
+					text: "A <b>bold</b>\tclaim\nover two lines",
+					note: "Compare with chapter 2",
+				}),
+				article: createArticle("article_1", {
+					title: "Tom & Jerry",
+					author: "Ada Lovelace",
+				}),
+				tags: ["Deep Work"],
+			},
+			{
+				highlight: createHighlight("h2"),
+				article: createArticle("article_2"),
+				tags: [],
+			},
+			{
+				highlight: createHighlight("h3"),
+				article: createArticle("article_3", { url: "local-epub://book.epub" }),
+				tags: [],
+			},
+		]);
+
+		expect(tsv.split("\n")).toEqual([
+			"#separator:tab",
+			"#html:true",
+			"#tags column:3",
+			[
+				"A &lt;b&gt;bold&lt;/b&gt; claim<br>over two lines",
+				'Compare with chapter 2<br><br>— <a href="https://example.com/article_1">Tom &amp; Jerry</a>, Ada Lovelace',
+				"Deep_Work",
+			].join("\t"),
+			[
+				"Quote",
+				'— <a href="https://example.com/article_2">article_2</a>',
+				"",
+			].join("\t"),
+			["Quote", "— article_3", ""].join("\t"),
+			"",
+		]);
+	});
+});
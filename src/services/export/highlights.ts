@@ -0,0 +1,176 @@
+// src/services/export/highlights.ts
+
+/**
+ * Highlight exports for review tools:
+ * - Readwise: the CSV layout Readwise accepts for uploads
+ *   (`Highlight,Title,Author,URL,Note,Location,Date`). Highlight tags are
+ *   written at the start of the note as `.tag`, which Readwise turns into tags.
+ * - Anki: a tab-separated file with Anki's import headers. The front of each
+ *   card is the highlight, the back is the note and the source title and URL.
+ */
+
+import { isLocalFileUrl } from "@/lib/articleUtils";
+import type { Article, Highlight, Tag } from "../db";
+
+export type HighlightExportFormat = "readwise" | "anki";
+
+export interface HighlightExportFilter {
+	tagIds?: string[]; // Keep highlights with any of these tags, on the highlight or its article
+	from?: number; // Earliest creation time (ms since epoch), inclusive
+	to?: number; // Latest creation time (ms since epoch), inclusive
+}
+
+export interface HighlightExportEntry {
+	highlight: Highlight;
+	article: Article;
+	tags: string[]; // Names of the highlight's tags
+}
+
+export const HIGHLIGHT_EXPORT_FILES: Record<
+	HighlightExportFormat,
+	{ extension: string; mimeType: string }
+> = {
+	readwise: { extension: "csv", mimeType: "text/csv" },
+	anki: { extension: "txt", mimeType: "text/tab-separated-values" },
+};
+
+/**
+ * Picks the highlights to export and pairs each with its article.
+ * Highlights whose article no longer exists are left out. The result is
+ * ordered by article, then by position within the article.
+ *
+ * @param data - All highlights, articles and tags.
+ * @param filter - Optional tag and date filters.
+ * @returns The highlights to export.
+ */
+export function selectHighlightsForExport(
+	data: { highlights: Highlight[]; articles: Article[]; tags: Tag[] },
+	filter: HighlightExportFilter = {},
+): HighlightExportEntry[] {
+	const articlesById = new Map(data.articles.map((a) => [a._id, a]));
+	const tagNames = new Map(data.tags.map((tag) => [tag._id, tag.name]));
+	const tagFilter = filter.tagIds?.length ? new Set(filter.tagIds) : null;
+
+	const entries: HighlightExportEntry[] = [];
+	for (const highlight of data.highlights) {
+		const article = articlesById.get(highlight.articleId);
+		if (!article) continue;
+		if (filter.from !== undefined && highlight.createdAt < filter.from)
+			continue;
+		if (filter.to !== undefined && highlight.createdAt > filter.to) continue;
+		if (
+			tagFilter &&
+			![...(highlight.tags ?? []), ...(article.tags ?? [])].some((id) =>
+				tagFilter.has(id),
+			)
+		) {
+			continue;
+		}
+		entries.push({
+			highlight,
+			article,
+			tags: (highlight.tags ?? [])
+				.map((id) => tagNames.get(id))
+				.filter((name): name is string => !!name),
+		});
+	}
+
+	const position = ({ highlight }: HighlightExportEntry) => {
+		const { start, pageNumber } = highlight.position;
+		const offset = typeof start === "number" ? start : 0;
+		return (pageNumber ?? 0) * 1e9 + offset;
+	};
+	return entries.sort(
+		(a, b) =>
+			a.article.title.localeCompare(b.article.title) ||
+			a.article._id.localeCompare(b.article._id) ||
+			position(a) - position(b) ||
+			a.highlight.createdAt - b.highlight.createdAt,
+	);
+}
+
+// Tags can't contain spaces in either tool
+const toTagToken = (name: string) => name.trim().replace(/\s+/g, "_");
+
+const csvField = (value: string | number | undefined) => {
+	const text = value === undefined ? "" : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// "YYYY-MM-DD HH:MM:SS" in UTC
+const formatDate = (timestamp: number) =>
+	new Date(timestamp).toISOString().replace("T", " ").slice(0, 19);
+
+/**
+ * Writes highlights as a Readwise CSV upload.
+ *
+ * @param entries - The highlights to write (see `selectHighlightsForExport`).
+ * @returns The CSV text.
+ */
+export function toReadwiseCsv(entries: HighlightExportEntry[]): string {
+	const rows = [
+		["Highlight", "Title", "Author", "URL", "Note", "Location", "Date"],
+	];
+	for (const { highlight, article, tags } of entries) {
+		const note = [
+			...tags.map((tag) => `.${toTagToken(tag)}`),
+			highlight.note?.trim(),
+		]
+			.filter(Boolean)
+			.join(" ");
+		rows.push([
+			highlight.text.trim(),
+			article.title,
+			article.author ?? "",
+			isLocalFileUrl(article.url) ? "" : article.url,
+			note,
+			highlight.position.pageNumber?.toString() ?? "",
+			formatDate(highlight.createdAt),
+		]);
+	}
+	return `${rows.map((row) => row.map(csvField).join(",")).join("\r\n")}\r\n`;
+}
+
+// Anki reads the fields as HTML, so escape them and keep line breaks as <br>
+const ankiField = (text: string) =>
+	text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/\t/g, " ")
+		.replace(/\r?\n/g, "<br>");
+
+/**
+ * Writes highlights as an Anki import file: one card per highlight with
+ * the highlight on the front and the note plus source on the back.
+ *
+ * @param entries - The highlights to write (see `selectHighlightsForExport`).
+ * @returns The tab-separated text, including Anki's header lines.
+ */
+export function toAnkiTsv(entries: HighlightExportEntry[]): string {
+	const lines = ["#separator:tab", "#html:true", "#tags column:3"];
+	for (const { highlight, article, tags } of entries) {
+		const source = isLocalFileUrl(article.url)
+			? ankiField(article.title)
+			: `<a href="${ankiField(article.url)}">${ankiField(article.title)}</a>`;
+		const byline = article.author ? `, ${ankiField(article.author)}` : "";
+		const page = highlight.position.pageNumber
+			? ` (page ${highlight.position.pageNumber})`
+			: "";
+		const back = [
+			highlight.note?.trim() && ankiField(highlight.note.trim()),
+			`— ${source}${byline}${page}`,
+		]
+			.filter(Boolean)
+			.join("<br><br>");
+		lines.push(
+			[
+				ankiField(highlight.text.trim()),
+				back,
+				tags.map(toTagToken).join(" "),
+			].join("\t"),
+		);
+	}
+	return `${lines.join("\n")}\n`;
+}
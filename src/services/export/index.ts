@@ -0,0 +1,20 @@
+// src/services/export/index.ts
+
+export {
+	HIGHLIGHT_EXPORT_FILES,
+	selectHighlightsForExport,
+	toAnkiTsv,
+	toReadwiseCsv,
+} from "./highlights";
+export type {
+	HighlightExportEntry,
+	HighlightExportFilter,
+	HighlightExportFormat,
+} from "./highlights";
+export {
+	MARKDOWN_EXPORT_FOLDER,
+	articleToMarkdown,
+	createMarkdownExport,
+	getMarkdownFileNames,
+} from "./markdown";
+export type { MarkdownExportData } from "./markdown";
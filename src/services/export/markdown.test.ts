@@ -0,0 +1,160 @@
+// src/services/export/markdown.test.ts
+
+import {
+	createArticle,
+	createHighlight,
+	createTag,
+} from "@/test-utils/dbFixtures";
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import {
+	MARKDOWN_EXPORT_FOLDER,
+	articleToMarkdown,
+	createMarkdownExport,
+	getMarkdownFileNames,
+} from "./markdown";
+
+const tags = [
+	createTag("tag_1", "Machine Learning"),
+	createTag("tag_2", "to-read"),
+];
+const tagNames = new Map(tags.map((tag) => [tag._id, tag.name]));
+
+describe("markdown export", () => {
+	describe("articleToMarkdown", () => {
+		it("should write front matter, body, note and highlights in reading order", () => {
+			const markdown = articleToMarkdown(
+				createArticle("article_1", {
+					title: "How: to # write",
+					content: "<h2>Intro</h2><p>Some <strong>bold</strong> text.</p>",
+					author: "Ada Lovelace",
+					siteName: "example.com",
+					savedAt: Date.UTC(2024, 0, 2, 3, 4, 5),
+					status: "later",
+					favorite: true,
+					tags: ["tag_1", "tag_2"],
+					note: "My **own** thoughts",
+				}),
+				[
+					createHighlight("second", {
+						text: "Quote second",
+						position: { start: 50, end: 55 },
+						note: "Why this matters",
+					}),
+					createHighlight("first", {
+						text: "Quote first",
+						position: { start: 10, end: 15 },
+					}),
+				],
+				tagNames,
+			);
+
+			expect(markdown).toBe(
+				[
+					"---",
+					'title: "How: to # write"',
+					'url: "https://example.com/article_1"',
+					'author: "Ada Lovelace"',
+					'siteName: "example.com"',
+					"tags:",
+					'  - "Machine-Learning"',
+					'  - "to-read"',
+					"savedAt: 2024-01-02T03:04:05.000Z",
+					"status: later",
+					"favorite: true",
+					"---",
+					"",
+					"# How: to # write",
+					"",
+					"## Intro",
+					"",
+					"Some **bold** text.",
+					"",
+					"## Notes",
+					"",
+					"My **own** thoughts",
+					"",
+					"## Highlights",
+					"",
+					"> Quote first",
+					"",
+					"---",
+					"",
+					"> Quote second",
+					"",
+					"Why this matters",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("should describe binary files instead of writing their placeholder body", () => {
+			const markdown = articleToMarkdown(
+				createArticle("pdf_1", {
+					type: "pdf",
+					fileName: "paper.pdf",
+					content: "<p>placeholder</p>",
+				}),
+				[
+					createHighlight("h", {
+						position: { start: 0, end: 5, pageNumber: 3 },
+					}),
+				],
+				tagNames,
+			);
+
+			expect(markdown).toContain("tags: []");
+			expect(markdown).toContain("*PDF document: paper.pdf.");
+			expect(markdown).not.toContain("placeholder");
+			expect(markdown).toContain("> Quote\n>\n> — page 3");
+		});
+	});
+
+	describe("getMarkdownFileNames", () => {
+		it("should give stable, unique, filesystem-safe names", () => {
+			const older = createArticle("article_aaaaaaaa-1", {
+				title: 'A/B: "Tests"?',
+				savedAt: 1,
+			});
+			const newer = createArticle("article_bbbbbbbb-2", {
+				title: "a/b: tests",
+				savedAt: 2,
+			});
+			const untitled = createArticle("article_c", { title: "  " });
+
+			const names = getMarkdownFileNames([newer, untitled, older]);
+
+			expect(names.get(older._id)).toBe("A B Tests.md");
+			expect(names.get(newer._id)).toBe("a b tests (bbbbbbbb).md");
+			expect(names.get(untitled._id)).toBe("Untitled.md");
+			// The same articles in another order get the same names
+			expect(getMarkdownFileNames([older, untitled, newer])).toEqual(names);
+		});
+	});
+
+	describe("createMarkdownExport", () => {
+		it("should put one file per article in a single folder", async () => {
+			const data = {
+				articles: [
+					createArticle("article_1", { title: "First" }),
+					createArticle("article_2", { title: "Second" }),
+				],
+				highlights: [createHighlight("h1")],
+				tags,
+			};
+
+			const zip = await JSZip.loadAsync(
+				await createMarkdownExport(data),
+			);
+
+			expect(Object.keys(zip.files).sort()).toEqual([
+				`${MARKDOWN_EXPORT_FOLDER}/First.md`,
+				`${MARKDOWN_EXPORT_FOLDER}/Second.md`,
+			]);
+			const first = await zip
+				.file(`${MARKDOWN_EXPORT_FOLDER}/First.md`)
+				?.async("string");
+			expect(first).toContain("> Quote");
+		});
+	});
+});
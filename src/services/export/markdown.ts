@@ -0,0 +1,212 @@
+// src/services/export/markdown.ts
+
+/**
+ * Markdown export for note-taking apps such as Obsidian and Logseq.
+ * Each article becomes one Markdown file with YAML front matter, the
+ * article body, the article note and its highlights, all in a single zip.
+ *
+ * File names are derived from titles and don't depend on when the export
+ * runs, so exporting again into the same vault overwrites the same files.
+ */
+
+import JSZip from "jszip";
+import type { Article, Highlight, Tag } from "../db";
+import { htmlToMarkdown } from "../parser";
+
+// Everything goes in one folder so unzipping into a vault doesn't scatter files
+export const MARKDOWN_EXPORT_FOLDER = "Read Sync Haven";
+
+const MAX_FILE_NAME_LENGTH = 100;
+
+export interface MarkdownExportData {
+	articles: Article[];
+	highlights: Highlight[];
+	tags: Tag[];
+}
+
+/**
+ * Quotes a value for YAML. JSON strings are valid double-quoted YAML
+ * scalars, which avoids having to escape `:`, `#` and friends by hand.
+ */
+const yamlString = (value: string) => JSON.stringify(value);
+
+/**
+ * Turns a tag name into one Obsidian accepts: no spaces and none of the
+ * characters it treats as separators.
+ */
+export function toVaultTag(name: string): string {
+	return name
+		.trim()
+		.replace(/\s+/g, "-")
+		.replace(/[^\p{L}\p{N}_\-/]/gu, "");
+}
+
+/**
+ * Makes a title safe to use as a file name on every platform (and as an
+ * Obsidian link target).
+ */
+export function toFileName(title: string): string {
+	const name = title
+		.replace(/[\\/:*?"<>|#^[\]]/g, " ")
+		.replace(/\s+/g, " ")
+		.trim()
+		.replace(/^\.+/, "")
+		.slice(0, MAX_FILE_NAME_LENGTH)
+		.trim();
+	return name || "Untitled";
+}
+
+/**
+ * Sort key for a highlight: its offset in the text when known, otherwise
+ * when it was made.
+ */
+function highlightOrder(highlight: Highlight): number {
+	const { start, pageNumber } = highlight.position;
+	if (typeof pageNumber === "number") {
+		return pageNumber * 1e9 + (typeof start === "number" ? start : 0);
+	}
+	return typeof start === "number" ? start : highlight.createdAt;
+}
+
+/**
+ * Writes one article as Markdown: YAML front matter, then the body, the
+ * article note and its highlights (with their notes) in reading order.
+ *
+ * @param article - The article to write.
+ * @param highlights - The article's highlights.
+ * @param tagNames - Tag names by tag ID.
+ * @returns The Markdown document.
+ */
+export function articleToMarkdown(
+	article: Article,
+	highlights: Highlight[],
+	tagNames: Map<string, string>,
+): string {
+	const tags = (article.tags ?? [])
+		.map((id) => tagNames.get(id))
+		.filter((name): name is string => !!name)
+		.map(toVaultTag)
+		.filter(Boolean);
+
+	const frontMatter = [
+		"---",
+		`title: ${yamlString(article.title)}`,
+		`url: ${yamlString(article.url)}`,
+		article.author && `author: ${yamlString(article.author)}`,
+		article.siteName && `siteName: ${yamlString(article.siteName)}`,
+		tags.length > 0
+			? `tags:\n${tags.map((tag) => `  - ${yamlString(tag)}`).join("\n")}`
+			: "tags: []",
+		`savedAt: ${new Date(article.savedAt).toISOString()}`,
+		`status: ${article.status}`,
+		article.isRead && "read: true",
+		article.favorite && "favorite: true",
+		"---",
+	]
+		.filter(Boolean)
+		.join("\n");
+
+	const sections = [frontMatter, `# ${article.title}`];
+
+	if (article.type === "pdf" || article.type === "epub") {
+		sections.push(
+			`*${article.type === "pdf" ? "PDF document" : "EPUB book"}${
+				article.fileName ? `: ${article.fileName}` : ""
+			}. The file itself is not included in this export.*`,
+		);
+	} else {
+		const body = htmlToMarkdown(article.content ?? "").trim();
+		if (body) sections.push(body);
+	}
+
+	if (article.note?.trim()) {
+		sections.push(`## Notes\n\n${article.note.trim()}`);
+	}
+
+	if (highlights.length > 0) {
+		const entries = [...highlights]
+			.sort((a, b) => highlightOrder(a) - highlightOrder(b))
+			.map((highlight) => {
+				const quote = highlight.text
+					.trim()
+					.split("\n")
+					.map((line) => `> ${line}`)
+					.join("\n");
+				const page =
+					typeof highlight.position.pageNumber === "number"
+						? `\n>\n> — page ${highlight.position.pageNumber}`
+						: "";
+				const note = highlight.note?.trim()
+					? `\n\n${highlight.note.trim()}`
+					: "";
+				return `${quote}${page}${note}`;
+			});
+		sections.push(`## Highlights\n\n${entries.join("\n\n---\n\n")}`);
+	}
+
+	return `${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Assigns each article a unique file name. Articles are taken oldest first,
+ * so the first article with a given title keeps the plain name and later
+ * ones get a short, stable suffix from their ID.
+ *
+ * @returns File names (including `.md`) by article ID.
+ */
+export function getMarkdownFileNames(articles: Article[]): Map<string, string> {
+	const names = new Map<string, string>();
+	const used = new Set<string>();
+	const ordered = [...articles].sort(
+		(a, b) => a.savedAt - b.savedAt || a._id.localeCompare(b._id),
+	);
+	for (const article of ordered) {
+		const base = toFileName(article.title);
+		let name = base;
+		if (used.has(name.toLowerCase())) {
+			name = `${base} (${article._id.replace(/^\w+_/, "").slice(0, 8)})`;
+		}
+		for (let n = 2; used.has(name.toLowerCase()); n++) {
+			name = `${base} (${n})`;
+		}
+		used.add(name.toLowerCase());
+		names.set(article._id, `${name}.md`);
+	}
+	return names;
+}
+
+/**
+ * Builds the Markdown zip for a set of articles. Each file's date is the
+ * article's save date, so the same library always produces the same zip.
+ *
+ * @param data - The articles to export, plus all highlights and tags.
+ * @returns The zip file.
+ */
+export async function createMarkdownExport(
+	data: MarkdownExportData,
+): Promise<Blob> {
+	const tagNames = new Map(data.tags.map((tag) => [tag._id, tag.name]));
+	const highlightsByArticle = new Map<string, Highlight[]>();
+	for (const highlight of data.highlights) {
+		const list = highlightsByArticle.get(highlight.articleId) ?? [];
+		list.push(highlight);
+		highlightsByArticle.set(highlight.articleId, list);
+	}
+
+	const fileNames = getMarkdownFileNames(data.articles);
+	const zip = new JSZip();
+	for (const article of data.articles) {
+		zip.file(
+			`${MARKDOWN_EXPORT_FOLDER}/${fileNames.get(article._id)}`,
+			articleToMarkdown(
+				article,
+				highlightsByArticle.get(article._id) ?? [],
+				tagNames,
+			),
+			// No separate folder entry: it would carry the current time
+			{ date: new Date(article.savedAt), createFolders: false },
+		);
+	}
+	console.log(`Created Markdown export of ${data.articles.length} articles`);
+	return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
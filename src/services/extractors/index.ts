@@ -0,0 +1,9 @@
+// src/services/extractors/index.ts
+
+export { applySiteRule, findSiteRule, registerSiteRule } from "./registry";
+export { SITE_RULES } from "./rules";
+export type { SiteExtraction, SiteRule } from "./rules";
+export { findNextPageUrl, mergePageContents } from "./pagination";
+export { detectLanguage } from "./language";
+export { readPageMetadata } from "./metadata";
+export type { PageMetadata } from "./metadata";
@@ -0,0 +1,41 @@
+// src/services/extractors/language.test.ts
+
+import { describe, expect, it } from "vitest";
+import { detectLanguage } from "./language";
+
+describe("detectLanguage", () => {
+	it("should tell Latin-script languages apart by their common words", () => {
+		expect(
+			detectLanguage(
+				"It was the best of times, it was the worst of times. The city was quiet and the people in it were waiting for something that would not come.",
+			),
+		).toBe("en");
+		expect(
+			detectLanguage(
+				"Der Zug kam spät an, und die Leute auf dem Bahnsteig waren müde. Es ist nicht das erste Mal, dass sich die Bahn verspätet, aber auch nicht das letzte.",
+			),
+		).toBe("de");
+		expect(
+			detectLanguage(
+				"Hôm nay trời đẹp và chúng tôi đã đi dạo trong công viên. Những người bạn của tôi cũng đến, và mọi người đều rất vui khi được gặp nhau ở đây.",
+			),
+		).toBe("vi");
+	});
+
+	it("should recognize languages by their script", () => {
+		expect(
+			detectLanguage("今日はとても良い天気ですね。散歩に行きましょう。"),
+		).toBe("ja");
+		expect(detectLanguage("今天天气很好，我们去公园散步吧。")).toBe("zh");
+		expect(detectLanguage("오늘은 날씨가 아주 좋네요. 산책하러 갑시다.")).toBe(
+			"ko",
+		);
+		expect(detectLanguage("Сегодня хорошая погода, пойдём гулять.")).toBe("ru");
+	});
+
+	it("should not guess from too little text", () => {
+		expect(detectLanguage("")).toBeUndefined();
+		expect(detectLanguage("Hello world")).toBeUndefined();
+		expect(detectLanguage("1234 5678 ---")).toBeUndefined();
+	});
+});
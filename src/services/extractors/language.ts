@@ -0,0 +1,113 @@
+// src/services/extractors/language.ts
+
+/**
+ * Guesses an article's language from its text, for pages that don't
+ * declare one. Non-Latin scripts are told apart by their characters, and
+ * Latin-script languages by how many of their most common words appear.
+ */
+
+// Characters of the text looked at; the opening is enough to tell
+const SAMPLE_LENGTH = 5000;
+// Below this, too few words to go by
+const MIN_WORDS = 20;
+// Share of the words that must be the language's common words
+const MIN_STOPWORD_SHARE = 0.1;
+// Share of letters in kana that marks Japanese, which also uses Han
+const MIN_KANA_SHARE = 0.1;
+// Share of letters a script needs for its language to be picked
+const MIN_SCRIPT_SHARE = 0.5;
+
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const SCRIPTS: [RegExp, string][] = [
+	[/\p{Script=Hangul}/gu, "ko"],
+	[/\p{Script=Han}/gu, "zh"],
+	[/\p{Script=Cyrillic}/gu, "ru"],
+	[/\p{Script=Arabic}/gu, "ar"],
+	[/\p{Script=Hebrew}/gu, "he"],
+	[/\p{Script=Greek}/gu, "el"],
+	[/\p{Script=Thai}/gu, "th"],
+	[/\p{Script=Devanagari}/gu, "hi"],
+];
+
+const STOPWORDS: Record<string, Set<string>> = {
+	en: new Set(
+		"the and of to is in that it for with was on are this be as have not you but".split(
+			" ",
+		),
+	),
+	es: new Set(
+		"el la los las de que y en es por para con una del se no más pero como al".split(
+			" ",
+		),
+	),
+	fr: new Set(
+		"le la les de des et est un une que en du pour dans pas qui sur avec ce au".split(
+			" ",
+		),
+	),
+	de: new Set(
+		"der die das und ist nicht ein eine zu den mit von sich auf für dem auch es ich".split(
+			" ",
+		),
+	),
+	it: new Set(
+		"il la di che e è un una per non con del della sono gli le si anche più nel".split(
+			" ",
+		),
+	),
+	pt: new Set(
+		"o a os as de que e é um uma não para com do da em no na mais por".split(
+			" ",
+		),
+	),
+	nl: new Set(
+		"de het een en van is dat niet op te zijn met voor er ook maar die als bij".split(
+			" ",
+		),
+	),
+	vi: new Set(
+		"của và là các những được có không trong một cho người này với đã để khi cũng".split(
+			" ",
+		),
+	),
+};
+
+function countMatches(text: string, pattern: RegExp): number {
+	return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Guesses the language of a text.
+ *
+ * @returns A language code such as "en", or undefined when the text is too
+ * short or doesn't clearly match a language.
+ */
+export function detectLanguage(text: string): string | undefined {
+	const sample = text.slice(0, SAMPLE_LENGTH).normalize("NFC");
+	const letters = countMatches(sample, /\p{L}/gu);
+	if (letters === 0) return undefined;
+
+	if (countMatches(sample, KANA) / letters >= MIN_KANA_SHARE) return "ja";
+	for (const [pattern, language] of SCRIPTS) {
+		if (countMatches(sample, pattern) / letters >= MIN_SCRIPT_SHARE) {
+			return language;
+		}
+	}
+
+	const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+	if (words.length < MIN_WORDS) return undefined;
+	const scores = Object.entries(STOPWORDS)
+		.map(([language, stopwords]) => ({
+			language,
+			score: words.filter((word) => stopwords.has(word)).length,
+		}))
+		.sort((a, b) => b.score - a.score);
+	const [best, runnerUp] = scores;
+	if (
+		best.score / words.length < MIN_STOPWORD_SHARE ||
+		best.score === runnerUp.score
+	) {
+		return undefined;
+	}
+	return best.language;
+}
@@ -0,0 +1,100 @@
+// src/services/extractors/metadata.test.ts
+
+import { describe, expect, it } from "vitest";
+import { readPageMetadata } from "./metadata";
+
+const pageUrl = new URL("https://news.example.com/2024/06/long-story");
+
+const metadataOf = (head: string, htmlAttributes = "") =>
+	readPageMetadata(
+		new DOMParser().parseFromString(
+			`<!DOCTYPE html><html ${htmlAttributes}><head>${head}</head><body></body></html>`,
+			"text/html",
+		),
+		pageUrl,
+	);
+
+describe("readPageMetadata", () => {
+	it("should read Open Graph and article tags", () => {
+		expect(
+			metadataOf(
+				`<meta property="og:image" content="https://cdn.example.com/story.jpg">
+				<meta property="og:url" content="https://news.example.com/2024/06/long-story/">
+				<meta property="og:locale" content="pt_BR">
+				<meta property="article:published_time" content="2024-06-12T08:00:00Z">`,
+			),
+		).toEqual({
+			coverImage: "https://cdn.example.com/story.jpg",
+			canonicalUrl: "https://news.example.com/2024/06/long-story/",
+			language: "pt",
+			publishedDate: "2024-06-12T08:00:00.000Z",
+		});
+	});
+
+	it("should fall back to Twitter cards for the cover image", () => {
+		expect(
+			metadataOf('<meta name="twitter:image" content="/img/card.png">')
+				.coverImage,
+		).toBe("https://news.example.com/img/card.png");
+		expect(
+			metadataOf(
+				'<meta property="og:image" content="data:image/png;base64,AA">',
+			).coverImage,
+		).toBeUndefined();
+	});
+
+	it("should read the Article from JSON-LD, in a @graph or a list", () => {
+		const jsonLd = (data: unknown) =>
+			`<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+		const metadata = metadataOf(
+			`<script type="application/ld+json">{ not json</script>
+			${jsonLd({
+				"@context": "https://schema.org",
+				"@graph": [
+					{ "@type": "WebSite", name: "Example News", inLanguage: "fr" },
+					{
+						"@type": ["NewsArticle"],
+						datePublished: "2024-06-12",
+						image: [{ "@type": "ImageObject", url: "/img/lead.jpg" }],
+						inLanguage: "de-DE",
+						author: [{ "@type": "Person", name: "A. Reporter" }],
+					},
+				],
+			})}`,
+		);
+
+		expect(metadata).toEqual({
+			publishedDate: "2024-06-12T00:00:00.000Z",
+			coverImage: "https://news.example.com/img/lead.jpg",
+			language: "de",
+			author: "A. Reporter",
+		});
+	});
+
+	it("should prefer <link rel=canonical> and ignore ones pointing at the home page", () => {
+		expect(
+			metadataOf(
+				`<link rel="canonical" href="/2024/06/long-story#top">
+				<meta property="og:url" content="https://m.example.com/long-story">`,
+			).canonicalUrl,
+		).toBe("https://news.example.com/2024/06/long-story");
+		expect(
+			metadataOf('<link rel="canonical" href="https://news.example.com/">')
+				.canonicalUrl,
+		).toBeUndefined();
+	});
+
+	it("should take the language from <html lang> before the meta tags", () => {
+		expect(
+			metadataOf(
+				'<meta http-equiv="Content-Language" content="es">',
+				'lang="vi"',
+			).language,
+		).toBe("vi");
+		expect(
+			metadataOf('<meta http-equiv="Content-Language" content="es">', 'lang=""')
+				.language,
+		).toBe("es");
+		expect(metadataOf("", 'lang="und"').language).toBeUndefined();
+	});
+});
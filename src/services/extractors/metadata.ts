@@ -0,0 +1,5 @@
+// src/services/extractors/metadata.ts
+
+// Metadata is read in the worker so the client and server share one copy
+export { readPageMetadata } from "../../../bondwise-worker/src/metadata";
+export type { PageMetadata } from "../../../bondwise-worker/src/metadata";
@@ -0,0 +1,62 @@
+// src/services/extractors/pagination.ts
+
+/**
+ * Support for articles split over several pages: finding the link to the
+ * next page, and joining the pages' content into one article.
+ */
+
+// Next pages are found in the worker so the client and server share one copy
+export { findNextPageUrl } from "../../../bondwise-worker/src/pagination";
+
+// Blocks at the top of a page checked for repeats of earlier pages' headers
+const LEADING_BLOCKS = 5;
+const BLOCK_SELECTOR =
+	"h1, h2, h3, h4, h5, h6, p, figure, blockquote, ul, ol, pre, table";
+
+function normalizedText(element: Element): string {
+	return (element.textContent ?? "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Joins the content of an article's pages. Headers that sites repeat at the
+ * top of every page (the title, standfirst, byline) are kept only once.
+ *
+ * @param pages - Each page's article HTML, in order.
+ * @param title - The article title, also dropped from later pages.
+ * @returns The joined HTML, not yet sanitized.
+ */
+export function mergePageContents(pages: string[], title?: string): string {
+	const parser = new DOMParser();
+	const seen = new Set<string>();
+	if (title) seen.add(title.replace(/\s+/g, " ").trim().toLowerCase());
+
+	return pages
+		.map((html, index) => {
+			const { body } = parser.parseFromString(html, "text/html");
+			const blocks = [...body.querySelectorAll(BLOCK_SELECTOR)];
+
+			if (index > 0) {
+				for (const heading of body.querySelectorAll("h1, h2, h3, h4, h5, h6")) {
+					if (seen.has(normalizedText(heading))) heading.remove();
+				}
+				for (const block of blocks) {
+					if (!block.isConnected) continue;
+					const text = normalizedText(block);
+					if (!text) continue; // Images
+					if (!seen.has(text)) break;
+					block.remove();
+				}
+			}
+
+			const leading = blocks.filter((block) => block.isConnected);
+			for (const block of leading.slice(0, LEADING_BLOCKS)) {
+				const text = normalizedText(block);
+				if (text) seen.add(text);
+			}
+			for (const heading of body.querySelectorAll("h1, h2, h3, h4, h5, h6")) {
+				seen.add(normalizedText(heading));
+			}
+			return body.innerHTML;
+		})
+		.join("\n");
+}
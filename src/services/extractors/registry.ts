@@ -0,0 +1,145 @@
+// src/services/extractors/registry.ts
+
+import {
+	SITE_RULES,
+	type SiteExtraction,
+	type SiteRule,
+	metaContent,
+} from "./rules";
+
+// Checked in order; rules registered at runtime go before the built-in ones
+const siteRules: SiteRule[] = [...SITE_RULES];
+
+/**
+ * Adds a site rule, taking precedence over the built-in rules and any
+ * registered earlier.
+ */
+export function registerSiteRule(rule: SiteRule): void {
+	siteRules.unshift(rule);
+}
+
+/**
+ * Finds the rule for a URL, matching its hostname (or a parent domain) and
+ * then the rule's path pattern.
+ *
+ * @returns The matching rule, or undefined to use plain Readability.
+ */
+export function findSiteRule(url: string): SiteRule | undefined {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return undefined;
+	}
+	const host = parsed.hostname.toLowerCase();
+	const path = parsed.pathname + parsed.search;
+	return siteRules.find(
+		(rule) =>
+			rule.hosts.some(
+				(ruleHost) => host === ruleHost || host.endsWith(`.${ruleHost}`),
+			) &&
+			(!rule.pattern || rule.pattern.test(path)),
+	);
+}
+
+/**
+ * Reads a selector's value: the `content` of a `<meta>`, the `datetime` of
+ * a `<time>`, or the text of anything else.
+ */
+function readSelector(
+	document: Document,
+	selector: string | undefined,
+): string | undefined {
+	if (!selector) return undefined;
+	const element = document.querySelector(selector);
+	if (!element) return undefined;
+	const value =
+		element.getAttribute("content") ??
+		element.getAttribute("datetime") ??
+		element.textContent;
+	return value?.replace(/\s+/g, " ").trim() || undefined;
+}
+
+// Makes links and images in extracted content absolute, as Readability does
+function resolveUrls(element: Element, url: URL) {
+	for (const [selector, attribute] of [
+		["a[href]", "href"],
+		["img[src]", "src"],
+	]) {
+		for (const node of element.querySelectorAll(selector)) {
+			try {
+				node.setAttribute(
+					attribute,
+					new URL(node.getAttribute(attribute) ?? "", url).href,
+				);
+			} catch {
+				node.removeAttribute(attribute);
+			}
+		}
+	}
+}
+
+// Leaves out undefined fields, so they don't override others when spread
+function definedFields(extraction: SiteExtraction): SiteExtraction {
+	return Object.fromEntries(
+		Object.entries(extraction).filter(([, value]) => value !== undefined),
+	);
+}
+
+/**
+ * Applies a site rule to a parsed page. The strip-list is removed from the
+ * document first, so Readability also works on the cleaned-up page when
+ * the rule finds no content.
+ *
+ * @param url - The URL of the page, for resolving relative links.
+ * @returns What the rule found. Without `content`, the caller runs
+ * Readability and uses the rest as metadata on top of its result.
+ */
+export function applySiteRule(
+	rule: SiteRule,
+	document: Document,
+	url: URL,
+): SiteExtraction {
+	for (const selector of rule.strip ?? []) {
+		for (const element of document.querySelectorAll(selector)) {
+			element.remove();
+		}
+	}
+
+	// Read before a dedicated extractor moves anything out of the document
+	const metadata = definedFields({
+		title: readSelector(document, rule.titleSelector),
+		author: readSelector(document, rule.authorSelector),
+		publishedDate: readSelector(document, rule.dateSelector),
+		siteName: rule.siteName,
+	});
+
+	const description =
+		metaContent(document, "description") ??
+		metaContent(document, "og:description");
+
+	const extracted = rule.extract?.(document, url);
+	if (extracted?.content) {
+		const body = document.createElement("div");
+		body.innerHTML = extracted.content;
+		resolveUrls(body, url);
+		return {
+			excerpt: description,
+			...metadata,
+			...definedFields(extracted),
+			content: body.innerHTML,
+		};
+	}
+
+	const body = rule.contentSelector
+		? document.querySelector(rule.contentSelector)
+		: null;
+	if (!body) return metadata;
+	resolveUrls(body, url);
+	return {
+		excerpt: description,
+		...metadata,
+		content: body.innerHTML,
+		textContent: body.textContent ?? "",
+	};
+}
@@ -0,0 +1,305 @@
+// src/services/extractors/rules.ts
+
+/**
+ * Extraction rules for sites Readability handles poorly: code hosts, forums,
+ * newsletters, paper archives and wikis. A rule either points at the
+ * elements that hold the article (`contentSelector` and friends) or builds
+ * the article itself (`extract`). See registry.ts for how rules are matched
+ * and applied.
+ */
+
+/**
+ * What a site rule found on a page. Anything left out is taken from
+ * Readability.
+ */
+export interface SiteExtraction {
+	title?: string;
+	content?: string; // HTML; sanitized later like any article
+	textContent?: string; // For the excerpt and read time
+	excerpt?: string;
+	author?: string;
+	publishedDate?: string;
+	siteName?: string;
+}
+
+export interface SiteRule {
+	name: string;
+	hosts: string[]; // Matches these hostnames and their subdomains
+	pattern?: RegExp; // Tested against the path and query string
+	// The page to fetch when it isn't the saved URL itself
+	pageUrl?: (url: URL) => string;
+	strip?: string[]; // Selectors removed before anything is extracted
+	contentSelector?: string; // The article body; Readability is skipped when found
+	titleSelector?: string;
+	authorSelector?: string;
+	dateSelector?: string;
+	siteName?: string;
+	// Builds the article from the page; null falls back to the selectors
+	extract?: (document: Document, url: URL) => SiteExtraction | null;
+}
+
+/**
+ * Reads a `<meta>` value by name or property (for Open Graph tags).
+ */
+export function metaContent(
+	document: Document,
+	name: string,
+): string | undefined {
+	const meta = document.querySelector(
+		`meta[name="${name}"], meta[property="${name}"]`,
+	);
+	return meta?.getAttribute("content")?.trim() || undefined;
+}
+
+function textOf(element: Element | null): string | undefined {
+	return element?.textContent?.replace(/\s+/g, " ").trim() || undefined;
+}
+
+// --- GitHub ---
+
+/**
+ * Repository READMEs and Markdown files, without the file browser and
+ * sidebar around them.
+ */
+const github: SiteRule = {
+	name: "github",
+	hosts: ["github.com"],
+	pattern: /^\/[^/]+\/[^/]+(\/?(\?.*)?$|\/blob\/.+\.(md|markdown)$)/i,
+	strip: ["a.anchor", "svg.octicon"],
+	extract(document, url) {
+		const body = document.querySelector("article.markdown-body");
+		if (!body) return null;
+		const [owner, repo, , , ...path] = url.pathname.split("/").filter(Boolean);
+		const file = path[path.length - 1];
+		return {
+			title: file ? `${owner}/${repo}: ${file}` : `${owner}/${repo}`,
+			content: body.innerHTML,
+			textContent: body.textContent ?? "",
+			author: owner,
+			siteName: "GitHub",
+		};
+	},
+};
+
+// --- Hacker News ---
+
+/**
+ * Builds nested lists from Hacker News comment rows, which are a flat table
+ * with the reply depth in each row's `td.ind[indent]`.
+ */
+function nestComments(document: Document, rows: Element[]): HTMLElement {
+	const lists = [document.createElement("ul")];
+	const items: HTMLElement[] = []; // Latest comment at each depth
+	for (const row of rows) {
+		const text = row.querySelector(".commtext");
+		if (!text) continue; // Deleted or flagged
+		text.querySelector(".reply")?.remove();
+
+		const indent = Number(row.querySelector("td.ind")?.getAttribute("indent"));
+		const depth = Math.min(Number.isFinite(indent) ? indent : 0, items.length);
+		if (depth === lists.length) {
+			const list = document.createElement("ul");
+			items[depth - 1].append(list);
+			lists.push(list);
+		}
+		lists.length = depth + 1;
+
+		const item = document.createElement("li");
+		const byline = document.createElement("p");
+		const user = document.createElement("strong");
+		user.textContent = textOf(row.querySelector(".hnuser")) ?? "[unknown]";
+		byline.append(user);
+		item.append(byline, ...text.childNodes);
+		lists[depth].append(item);
+		items[depth] = item;
+		items.length = depth + 1;
+	}
+	return lists[0];
+}
+
+/**
+ * Discussion threads: the story, its text for Ask/Show HN, and the
+ * comments as nested lists.
+ */
+const hackerNews: SiteRule = {
+	name: "hacker-news",
+	hosts: ["news.ycombinator.com"],
+	pattern: /^\/item\?id=\d+/,
+	siteName: "Hacker News",
+	extract(document, url) {
+		const storyLink = document.querySelector(".fatitem .titleline > a");
+		if (!storyLink) return null;
+		const title = textOf(storyLink) ?? "Hacker News";
+		const body = document.createElement("div");
+
+		const href = storyLink.getAttribute("href");
+		const storyUrl = href ? new URL(href, url).href : url.href;
+		if (storyUrl !== url.href) {
+			const link = document.createElement("a");
+			link.href = storyUrl;
+			link.textContent = title;
+			const paragraph = document.createElement("p");
+			paragraph.append(link);
+			body.append(paragraph);
+		}
+		const storyText = document.querySelector(".fatitem .toptext");
+		if (storyText && textOf(storyText)) {
+			const text = document.createElement("div");
+			text.append(...storyText.childNodes);
+			body.append(text);
+		}
+
+		const comments = [...document.querySelectorAll("tr.athing.comtr")];
+		if (comments.length > 0) {
+			const heading = document.createElement("h2");
+			heading.textContent = "Comments";
+			body.append(heading, nestComments(document, comments));
+		}
+
+		return {
+			title,
+			content: body.innerHTML,
+			textContent: body.textContent ?? "",
+			author: textOf(document.querySelector(".fatitem .hnuser")),
+			publishedDate: document
+				.querySelector(".fatitem .age")
+				?.getAttribute("title")
+				?.split(" ")[0],
+		};
+	},
+};
+
+// --- Substack ---
+
+/**
+ * Newsletter posts, without the subscribe and share buttons scattered
+ * through them.
+ */
+const substack: SiteRule = {
+	name: "substack",
+	hosts: ["substack.com"],
+	pattern: /^\/p\//,
+	strip: [
+		".subscription-widget-wrap",
+		".subscription-widget-wrap-editor",
+		".button-wrapper",
+		".captioned-button-wrap",
+		".share-dialog",
+		".post-footer",
+	],
+	contentSelector: ".available-content .body.markup",
+	titleSelector: "h1.post-title",
+	authorSelector: "meta[name='author']",
+	dateSelector: "meta[property='article:published_time'], time[datetime]",
+};
+
+// --- arXiv ---
+
+const ARXIV_ID = /^\/(?:abs|pdf)\/(.+?)(?:\.pdf)?\/?$/;
+
+/**
+ * Papers: the abstract page with a link to the PDF. Links to the PDF itself
+ * are read from their abstract page.
+ */
+const arxiv: SiteRule = {
+	name: "arxiv",
+	hosts: ["arxiv.org"],
+	pattern: /^\/(abs|pdf)\//,
+	siteName: "arXiv",
+	pageUrl(url) {
+		const id = url.pathname.match(ARXIV_ID)?.[1];
+		return id ? `${url.origin}/abs/${id}` : url.href;
+	},
+	extract(document, url) {
+		const abstract =
+			metaContent(document, "citation_abstract") ??
+			textOf(document.querySelector("blockquote.abstract"))?.replace(
+				/^Abstract:\s*/,
+				"",
+			);
+		const title =
+			metaContent(document, "citation_title") ??
+			textOf(document.querySelector("h1.title"))?.replace(/^Title:\s*/, "");
+		if (!abstract || !title) return null;
+
+		// "Doe, Jane" -> "Jane Doe"
+		const authors = [
+			...document.querySelectorAll("meta[name='citation_author']"),
+		].map((meta) =>
+			(meta.getAttribute("content") ?? "")
+				.split(",")
+				.map((part) => part.trim())
+				.reverse()
+				.join(" "),
+		);
+		const id = url.pathname.match(ARXIV_ID)?.[1];
+		const pdfUrl =
+			metaContent(document, "citation_pdf_url") ??
+			(id ? `${url.origin}/pdf/${id}` : undefined);
+
+		const body = document.createElement("div");
+		const heading = document.createElement("h2");
+		heading.textContent = "Abstract";
+		const text = document.createElement("p");
+		text.textContent = abstract;
+		body.append(heading, text);
+		if (pdfUrl) {
+			const link = document.createElement("a");
+			link.href = pdfUrl;
+			link.textContent = "Read the full paper (PDF)";
+			const paragraph = document.createElement("p");
+			paragraph.append(link);
+			body.append(paragraph);
+		}
+
+		return {
+			title,
+			content: body.innerHTML,
+			textContent: abstract,
+			excerpt: abstract,
+			author: authors.length > 0 ? authors.join(", ") : undefined,
+			// citation_date is "2023/06/12"
+			publishedDate: metaContent(document, "citation_date")?.replace(
+				/\//g,
+				"-",
+			),
+		};
+	},
+};
+
+// --- Wikipedia ---
+
+/**
+ * Articles without edit links, citation markers, navigation boxes and
+ * maintenance banners. Readability tends to drop infoboxes and tables.
+ */
+const wikipedia: SiteRule = {
+	name: "wikipedia",
+	hosts: ["wikipedia.org"],
+	pattern: /^\/wiki\/(?!Special:)/,
+	siteName: "Wikipedia",
+	strip: [
+		".mw-editsection",
+		"sup.reference",
+		".navbox",
+		".metadata",
+		".ambox",
+		".hatnote",
+		".noprint",
+		"#toc",
+		".toc",
+		".mw-empty-elt",
+		"style",
+	],
+	contentSelector: "#mw-content-text .mw-parser-output",
+	titleSelector: "#firstHeading",
+};
+
+// Built-in rules, most specific first
+export const SITE_RULES: SiteRule[] = [
+	github,
+	hackerNews,
+	substack,
+	arxiv,
+	wikipedia,
+];
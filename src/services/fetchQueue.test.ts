@@ -0,0 +1,159 @@
+// src/services/fetchQueue.test.ts
+
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+	type Article,
+	fetchJobsDb,
+	getArticle,
+	initializeDatabase,
+	saveArticle,
+} from "./db";
+import {
+	enqueueContentFetch,
+	resumePendingContentFetches,
+	subscribeToContentFetches,
+} from "./fetchQueue";
+import { parseArticle } from "./parser";
+
+// Content is fetched over the network; only the outcome matters here
+vi.mock("./parser", () => ({
+	parseArticle: vi.fn(),
+}));
+
+const parsed = {
+	title: "Fetched title",
+	url: "https://example.com/post",
+	content: "<p>Fetched content</p>",
+	excerpt: "Fetched excerpt",
+	siteName: "Example",
+	estimatedReadTime: 4,
+	status: "inbox" as const,
+	type: "article" as const,
+};
+
+let nextId = 0;
+
+// Saves an article waiting for its content, as the importer or an offline save does
+const savePending = (overrides: Partial<Omit<Article, "_id" | "_rev">> = {}) =>
+	saveArticle({
+		_id: `article_pending_${++nextId}`,
+		title: "https://example.com/post",
+		url: "https://example.com/post",
+		content: "<p>Placeholder</p>",
+		excerpt: "",
+		savedAt: Date.now(),
+		status: "inbox",
+		isRead: false,
+		favorite: false,
+		tags: [],
+		type: "article",
+		fetchStatus: "pending",
+		...overrides,
+	});
+
+// Resolves once nothing is queued or being fetched
+const waitForIdle = () =>
+	new Promise<void>((resolve) => {
+		const unsubscribe = subscribeToContentFetches((state) => {
+			if (state.queued + state.active === 0) {
+				queueMicrotask(() => unsubscribe());
+				resolve();
+			}
+		});
+	});
+
+const getJob = (articleId: string) =>
+	fetchJobsDb.get(articleId).catch(() => null);
+
+describe("services/fetchQueue", () => {
+	beforeAll(async () => {
+		await initializeDatabase();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.mocked(parseArticle).mockReset();
+	});
+
+	it("should fill in the content and drop the job", async () => {
+		vi.mocked(parseArticle).mockResolvedValue(parsed);
+		const article = await savePending({ tags: ["tag_1"] });
+
+		await enqueueContentFetch([article._id]);
+		await waitForIdle();
+
+		const updated = await getArticle(article._id);
+		expect(updated).toMatchObject({
+			title: "Fetched title",
+			content: "<p>Fetched content</p>",
+			estimatedReadTime: 4,
+			tags: ["tag_1"],
+		});
+		expect(updated?.fetchStatus).toBeUndefined();
+		expect(await getJob(article._id)).toBeNull();
+	});
+
+	it("should keep a job for a later retry when the page can't be reached", async () => {
+		const networkError = new Error(
+			"All CORS proxies failed. Unable to fetch article content.",
+		);
+		networkError.name = "NetworkError";
+		vi.mocked(parseArticle).mockRejectedValue(networkError);
+		const article = await savePending();
+
+		const before = Date.now();
+		await enqueueContentFetch([article._id]);
+		await waitForIdle();
+
+		const job = await getJob(article._id);
+		expect(job).toMatchObject({ attempts: 1, lastError: networkError.message });
+		expect(job?.nextAttemptAt).toBeGreaterThan(before);
+		const updated = await getArticle(article._id);
+		expect(updated?.fetchStatus).toBe("pending");
+		expect(updated?.fetchError).toBe(networkError.message);
+	});
+
+	it("should mark the article failed when it can't be parsed", async () => {
+		vi.mocked(parseArticle).mockRejectedValue(
+			new Error("Could not parse article content"),
+		);
+		const article = await savePending();
+
+		await enqueueContentFetch([article._id]);
+		await waitForIdle();
+
+		const updated = await getArticle(article._id);
+		expect(updated?.fetchStatus).toBe("failed");
+		expect(updated?.fetchError).toBe("Could not parse article content");
+		expect(await getJob(article._id)).toBeNull();
+	});
+
+	it("should wait for the connection to return before fetching", async () => {
+		const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+		vi.mocked(parseArticle).mockResolvedValue(parsed);
+		const article = await savePending();
+
+		await enqueueContentFetch([article._id]);
+		expect(parseArticle).not.toHaveBeenCalled();
+		expect(await getJob(article._id)).toMatchObject({ attempts: 0 });
+
+		onLine.mockReturnValue(true);
+		window.dispatchEvent(new Event("online"));
+		await waitForIdle();
+
+		expect(parseArticle).toHaveBeenCalledWith(article.url);
+		expect((await getArticle(article._id))?.fetchStatus).toBeUndefined();
+	});
+
+	it("should queue pending articles that have no job on startup", async () => {
+		vi.mocked(parseArticle).mockResolvedValue(parsed);
+		const article = await savePending();
+
+		await resumePendingContentFetches();
+		await waitForIdle();
+
+		expect((await getArticle(article._id))?.content).toBe(
+			"<p>Fetched content</p>",
+		);
+	});
+});
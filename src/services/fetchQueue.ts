@@ -0,0 +1,374 @@
+// src/services/fetchQueue.ts
+
+/**
+ * Background queue that fetches the content of articles saved without it,
+ * such as imported links or links saved while offline. Those articles are
+ * stored right away with a placeholder body and `fetchStatus: "pending"`,
+ * and a job for each is kept in `fetchJobsDb` so the queue survives the app
+ * closing. The queue runs `parseArticle` for a few jobs at a time and fills
+ * in the content.
+ *
+ * Connection problems are retried: a couple of times right away, then with
+ * growing delays between attempts, and at once when the browser comes back
+ * online. Nothing is attempted while offline. Other failures, or running out
+ * of attempts, mark the article `failed` with the reason.
+ */
+
+import {
+	type Article,
+	type FetchJob,
+	articlesDb,
+	executeWithRetry,
+	fetchJobsDb,
+	getArticle,
+	isNotFoundError,
+	isOffline,
+	isTransientError,
+	registerOfflineListeners,
+	updateArticle,
+} from "./db";
+import { parseArticle } from "./parser";
+
+const MAX_CONCURRENT_FETCHES = 2;
+// Attempts (made while online) before an article is marked failed
+export const MAX_FETCH_ATTEMPTS = 6;
+// Wait before the second attempt; doubled for every attempt after it
+const RETRY_BASE_DELAY = 30 * 1000;
+const RETRY_MAX_DELAY = 60 * 60 * 1000;
+
+export interface ContentFetchState {
+	queued: number; // Waiting to be fetched
+	active: number; // Being fetched right now
+	waiting: number; // Waiting for a retry or for the connection to return
+	finished: number; // Attempts finished since the app started, for refreshing
+}
+
+type ContentFetchListener = (state: ContentFetchState) => void;
+
+// Jobs by article ID, mirroring fetchJobsDb
+const jobs = new Map<string, FetchJob>();
+const activeIds = new Set<string>();
+const listeners = new Set<ContentFetchListener>();
+let jobsLoaded: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let removeOfflineListeners: (() => void) | null = null;
+let finishedCount = 0;
+
+function getState(): ContentFetchState {
+	const now = Date.now();
+	const offline = isOffline();
+	let queued = 0;
+	let waiting = 0;
+	for (const job of jobs.values()) {
+		if (activeIds.has(job._id)) continue;
+		if (!offline && job.nextAttemptAt <= now) queued++;
+		else waiting++;
+	}
+	return { queued, active: activeIds.size, waiting, finished: finishedCount };
+}
+
+function notify() {
+	const state = getState();
+	for (const listener of listeners) listener(state);
+}
+
+/**
+ * Subscribes to changes in the number of queued, active and waiting fetches.
+ * The listener is called immediately with the current state.
+ *
+ * @returns A function that removes the listener.
+ */
+export function subscribeToContentFetches(
+	listener: ContentFetchListener,
+): () => void {
+	listeners.add(listener);
+	listener(getState());
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+function loadJobs(): Promise<void> {
+	if (!jobsLoaded) {
+		jobsLoaded = fetchJobsDb
+			.allDocs<FetchJob>({ include_docs: true })
+			.then((result) => {
+				for (const row of result.rows) {
+					if (row.doc && !jobs.has(row.id)) jobs.set(row.id, row.doc);
+				}
+			})
+			.catch((error) => {
+				console.error("Error loading content fetch jobs:", error);
+				jobsLoaded = null; // Try again next time
+			});
+	}
+	return jobsLoaded;
+}
+
+async function saveJob(job: FetchJob): Promise<void> {
+	const response = await executeWithRetry(() => fetchJobsDb.put(job));
+	jobs.set(job._id, { ...job, _rev: response.rev });
+}
+
+async function removeJob(articleId: string): Promise<void> {
+	const job = jobs.get(articleId);
+	jobs.delete(articleId);
+	if (!job?._rev) return;
+	try {
+		await fetchJobsDb.remove(job._id, job._rev);
+	} catch (error) {
+		if (!isNotFoundError(error)) {
+			console.error(`Failed to remove fetch job for ${articleId}:`, error);
+		}
+	}
+}
+
+/**
+ * Delay before the attempt after `attempts` failed ones.
+ */
+function retryDelay(attempts: number): number {
+	return Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+}
+
+/**
+ * Records the outcome of a failed fetch on the article, so its card can
+ * show it.
+ */
+async function setFetchError(
+	articleId: string,
+	fetchStatus: NonNullable<Article["fetchStatus"]>,
+	fetchError: string,
+): Promise<void> {
+	const latest = await getArticle(articleId);
+	if (!latest?._rev) return;
+	try {
+		await updateArticle({
+			_id: latest._id,
+			_rev: latest._rev,
+			fetchStatus,
+			fetchError,
+		});
+	} catch (updateError) {
+		console.error(
+			`Failed to record fetch error for article ${articleId}:`,
+			updateError,
+		);
+	}
+}
+
+/**
+ * Fetches the content for one pending article and stores it. Jobs of
+ * articles that were deleted or already fetched in the meantime are dropped.
+ */
+async function runJob(job: FetchJob): Promise<void> {
+	const article = await getArticle(job._id);
+	if (!article || article.fetchStatus !== "pending" || !article._rev) {
+		await removeJob(job._id);
+		return;
+	}
+
+	try {
+		const parsed = await executeWithRetry(
+			() => parseArticle(article.url),
+			2,
+			1000,
+		);
+		// getArticle again: the user may have tagged or archived it meanwhile
+		const latest = (await getArticle(job._id)) ?? article;
+		await updateArticle({
+			_id: latest._id,
+			_rev: latest._rev as string,
+			content: parsed.content,
+			// Keep the title and excerpt from the export when there was one
+			title:
+				latest.title && latest.title !== latest.url
+					? latest.title
+					: parsed.title,
+			excerpt: latest.excerpt || parsed.excerpt,
+			author: latest.author || parsed.author,
+			publishedDate: latest.publishedDate || parsed.publishedDate,
+			siteName: parsed.siteName || latest.siteName,
+			coverImage: latest.coverImage || parsed.coverImage,
+			language: latest.language || parsed.language,
+			canonicalUrl: parsed.canonicalUrl,
+			estimatedReadTime: parsed.estimatedReadTime,
+			fetchStatus: undefined,
+			fetchError: undefined,
+		});
+		await removeJob(job._id);
+		console.log(`Fetched content for article ${job._id}`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`Failed to fetch content for article ${job._id}:`, error);
+
+		const offline = isOffline();
+		// Attempts made offline were never going to succeed
+		const attempts = offline ? job.attempts : job.attempts + 1;
+		if ((offline || isTransientError(error)) && attempts < MAX_FETCH_ATTEMPTS) {
+			try {
+				await saveJob({
+					...job,
+					attempts,
+					nextAttemptAt: Date.now() + retryDelay(Math.max(attempts, 1)),
+					lastError: message,
+				});
+			} catch (saveError) {
+				console.error(`Failed to reschedule fetch of ${job._id}:`, saveError);
+			}
+			await setFetchError(job._id, "pending", message);
+			return;
+		}
+
+		await removeJob(job._id);
+		await setFetchError(job._id, "failed", message);
+	}
+}
+
+/**
+ * Wakes the queue up when the next waiting job is due.
+ */
+function scheduleNextAttempt() {
+	if (retryTimer) clearTimeout(retryTimer);
+	retryTimer = null;
+	if (isOffline()) return; // Going online runs the queue
+	// Jobs already due start as running ones finish
+	const now = Date.now();
+	let next = Number.POSITIVE_INFINITY;
+	for (const job of jobs.values()) {
+		if (job.nextAttemptAt > now) next = Math.min(next, job.nextAttemptAt);
+	}
+	if (next === Number.POSITIVE_INFINITY) return;
+	retryTimer = setTimeout(processQueue, next - now);
+}
+
+function processQueue() {
+	if (!isOffline()) {
+		const now = Date.now();
+		const due = [...jobs.values()]
+			.filter((job) => !activeIds.has(job._id) && job.nextAttemptAt <= now)
+			.sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+		for (const job of due) {
+			if (activeIds.size >= MAX_CONCURRENT_FETCHES) break;
+			activeIds.add(job._id);
+			runJob(job)
+				.catch((error) =>
+					console.error(`Fetch job for ${job._id} failed:`, error),
+				)
+				.finally(() => {
+					activeIds.delete(job._id);
+					finishedCount++;
+					processQueue();
+				});
+		}
+	}
+	notify();
+	scheduleNextAttempt();
+}
+
+// Runs every waiting job as soon as the connection returns
+function listenForConnectivity() {
+	if (removeOfflineListeners) return;
+	removeOfflineListeners = registerOfflineListeners((offline) => {
+		if (offline) {
+			notify();
+			return;
+		}
+		const now = Date.now();
+		for (const job of jobs.values()) {
+			if (job.nextAttemptAt > now) job.nextAttemptAt = now;
+		}
+		processQueue();
+	});
+}
+
+/**
+ * Queues articles for a background content fetch. Articles that already
+ * have a job are left as they are.
+ *
+ * @param articleIds - The `_id`s of articles saved with `fetchStatus: "pending"`.
+ */
+export async function enqueueContentFetch(articleIds: string[]): Promise<void> {
+	await loadJobs();
+	const now = Date.now();
+	const newJobs: FetchJob[] = [...new Set(articleIds)]
+		.filter((articleId) => !jobs.has(articleId))
+		.map((articleId) => ({
+			_id: articleId,
+			attempts: 0,
+			nextAttemptAt: now,
+			createdAt: now,
+		}));
+	if (newJobs.length === 0) return;
+
+	try {
+		const results = await executeWithRetry(() => fetchJobsDb.bulkDocs(newJobs));
+		results.forEach((result, index) => {
+			const job = newJobs[index];
+			if ("ok" in result && result.ok) {
+				jobs.set(job._id, { ...job, _rev: result.rev });
+			} else {
+				console.error(`Failed to store fetch job for ${job._id}:`, result);
+				// Still fetch it in this session
+				jobs.set(job._id, job);
+			}
+		});
+	} catch (error) {
+		console.error("Error storing content fetch jobs:", error);
+		for (const job of newJobs) jobs.set(job._id, job);
+	}
+	listenForConnectivity();
+	processQueue();
+}
+
+/**
+ * Tries again to fetch the content of an article whose fetch failed.
+ *
+ * @param articleId - The `_id` of the article.
+ */
+export async function retryContentFetch(articleId: string): Promise<void> {
+	const article = await getArticle(articleId);
+	if (!article?._rev) return;
+	await updateArticle({
+		_id: article._id,
+		_rev: article._rev,
+		fetchStatus: "pending",
+		fetchError: undefined,
+	});
+	await loadJobs();
+	const job = jobs.get(articleId);
+	if (job) {
+		// Waiting for a retry: don't wait any longer
+		job.nextAttemptAt = Date.now();
+		processQueue();
+		return;
+	}
+	await enqueueContentFetch([articleId]);
+}
+
+/**
+ * Picks up the fetch jobs left from an earlier session, and queues every
+ * article still waiting for its content that has no job, e.g. one synced
+ * from another device.
+ *
+ * @returns The number of articles waiting for their content.
+ */
+export async function resumePendingContentFetches(): Promise<number> {
+	try {
+		await loadJobs();
+		const result = await articlesDb.allDocs<Article>({ include_docs: true });
+		const pendingIds = result.rows
+			.filter((row) => row.doc?.fetchStatus === "pending")
+			.map((row) => row.id);
+		if (pendingIds.length > 0) {
+			console.log(`Resuming content fetch for ${pendingIds.length} articles`);
+		}
+		// Jobs of articles that are no longer pending are dropped when they run
+		await enqueueContentFetch(pendingIds);
+		listenForConnectivity();
+		processQueue();
+		return pendingIds.length;
+	} catch (error) {
+		console.error("Error looking up articles waiting for content:", error);
+		return 0;
+	}
+}
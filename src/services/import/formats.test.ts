@@ -0,0 +1,253 @@
+// src/services/import/formats.test.ts
+
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import {
+	detectImportFormat,
+	parseBookmarksHtml,
+	parseCsv,
+	parseImportFile,
+	parseInstapaperCsv,
+	parseOmnivoreJson,
+	parsePocketCsv,
+	parsePocketHtml,
+	parseReadwiseCsv,
+} from "./formats";
+
+const POCKET_HTML = `<!DOCTYPE html>
+<html>
+<head><title>Pocket Export</title></head>
+<body>
+<h1>Unread</h1>
+<ul>
+<li><a href="https://example.com/a" time_added="1700000000" tags="ai,Long Reads">Article A</a></li>
+</ul>
+<h1>Read Archive</h1>
+<ul>
+<li><a href="https://example.com/b" time_added="1600000000" tags="">Article B</a></li>
+</ul>
+</body>
+</html>`;
+
+const BOOKMARKS_HTML = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1600000000">Bookmarks bar</H3>
+    <DL><p>
+        <DT><A HREF="https://example.com/top" ADD_DATE="1650000000">Top</A>
+        <DT><H3>Research</H3>
+        <DL><p>
+            <DT><A HREF="https://example.com/paper" ADD_DATE="1660000000" TAGS="ml,papers">Paper</A>
+        </DL><p>
+    </DL><p>
+</DL><p>`;
+
+// jsdom's File has no text()/arrayBuffer(), so provide just what the parser reads
+const createFile = (name: string, data: string | Uint8Array) =>
+	({
+		name,
+		text: async () =>
+			typeof data === "string" ? data : new TextDecoder().decode(data),
+		arrayBuffer: async () =>
+			typeof data === "string"
+				? new TextEncoder().encode(data).buffer
+				: data.buffer,
+	}) as unknown as File;
+
+describe("import formats", () => {
+	describe("parseCsv", () => {
+		it("should handle quoted fields, escaped quotes and embedded newlines", () => {
+			const rows = parseCsv(
+				'﻿a,b,c\r\n"one, two","say ""hi""","line 1\nline 2"\n\n',
+			);
+			expect(rows).toEqual([
+				["a", "b", "c"],
+				["one, two", 'say "hi"', "line 1\nline 2"],
+			]);
+		});
+	});
+
+	describe("parsePocketHtml", () => {
+		it("should map sections to statuses and read tags and dates", () => {
+			const items = parsePocketHtml(POCKET_HTML);
+			expect(items).toEqual([
+				expect.objectContaining({
+					url: "https://example.com/a",
+					title: "Article A",
+					savedAt: 1700000000000,
+					status: "inbox",
+					isRead: false,
+					tags: ["ai", "Long Reads"],
+				}),
+				expect.objectContaining({
+					url: "https://example.com/b",
+					status: "archived",
+					isRead: true,
+					tags: [],
+				}),
+			]);
+		});
+	});
+
+	describe("parsePocketCsv", () => {
+		it("should split pipe-separated tags", () => {
+			const [item] = parsePocketCsv(
+				"title,url,time_added,tags,status\nHello,https://example.com/x,1700000000,a|b,archive",
+			);
+			expect(item).toMatchObject({
+				title: "Hello",
+				tags: ["a", "b"],
+				status: "archived",
+			});
+		});
+	});
+
+	describe("parseInstapaperCsv", () => {
+		it("should map built-in folders to status and favorite, and others to tags", () => {
+			const items = parseInstapaperCsv(
+				[
+					"URL,Title,Selection,Folder,Timestamp",
+					"https://example.com/1,One,,Unread,1700000000",
+					'https://example.com/2,Two,"A quote",Starred,1700000001',
+					"https://example.com/3,Three,,Archive,1700000002",
+					"https://example.com/4,Four,,Recipes,1700000003",
+				].join("\n"),
+			);
+			expect(
+				items.map((item) => [item.status, item.favorite, item.tags]),
+			).toEqual([
+				["inbox", false, []],
+				["inbox", true, []],
+				["archived", false, []],
+				["inbox", false, ["Recipes"]],
+			]);
+			expect(items[1].excerpt).toBe("A quote");
+		});
+	});
+
+	describe("parseOmnivoreJson", () => {
+		it("should read labels, state and reading progress", () => {
+			const items = parseOmnivoreJson(
+				JSON.stringify([
+					{
+						title: "Done",
+						url: "https://example.com/done",
+						labels: ["Newsletter", { name: "AI" }],
+						savedAt: "2024-03-01T10:00:00.000Z",
+						state: "Succeeded",
+						readingProgress: 100,
+					},
+					{
+						title: "Archived",
+						url: "https://example.com/archived",
+						description: "Summary",
+						author: "Ada",
+						state: "Archived",
+					},
+				]),
+			);
+			expect(items[0]).toMatchObject({
+				status: "inbox",
+				isRead: true,
+				tags: ["Newsletter", "AI"],
+				savedAt: Date.parse("2024-03-01T10:00:00.000Z"),
+				readingProgress: 100,
+			});
+			expect(items[1]).toMatchObject({
+				status: "archived",
+				excerpt: "Summary",
+				author: "Ada",
+			});
+		});
+	});
+
+	describe("parseReadwiseCsv", () => {
+		it("should map locations and list-literal tags", () => {
+			const items = parseReadwiseCsv(
+				[
+					"Title,URL,Document tags,Saved date,Reading progress,Location,Seen",
+					`One,https://example.com/1,"['ai', 'long read']",2024-01-01 10:00:00+00:00,0.5,later,True`,
+					"Two,https://example.com/2,,2024-01-02 10:00:00+00:00,1,archive,True",
+				].join("\n"),
+			);
+			expect(items[0]).toMatchObject({
+				status: "later",
+				tags: ["ai", "long read"],
+				readingProgress: 50,
+			});
+			expect(items[1]).toMatchObject({ status: "archived", isRead: true });
+		});
+	});
+
+	describe("parseBookmarksHtml", () => {
+		it("should turn folders into tags, skipping the browser's own folders", () => {
+			const items = parseBookmarksHtml(BOOKMARKS_HTML);
+			expect(items.map((item) => [item.url, item.tags])).toEqual([
+				["https://example.com/top", []],
+				["https://example.com/paper", ["Research", "ml", "papers"]],
+			]);
+			expect(items[1].savedAt).toBe(1660000000000);
+		});
+	});
+
+	describe("detectImportFormat", () => {
+		it("should recognise each export from its name and contents", () => {
+			expect(detectImportFormat("ril_export.html", POCKET_HTML)).toBe(
+				"pocket-html",
+			);
+			expect(detectImportFormat("bookmarks.html", BOOKMARKS_HTML)).toBe(
+				"bookmarks-html",
+			);
+			expect(
+				detectImportFormat(
+					"instapaper-export.csv",
+					"URL,Title,Selection,Folder,Timestamp\n",
+				),
+			).toBe("instapaper-csv");
+			expect(
+				detectImportFormat(
+					"export.csv",
+					"Title,URL,Document tags,Saved date,Reading progress,Location,Seen\n",
+				),
+			).toBe("readwise-csv");
+			expect(
+				detectImportFormat(
+					"part_000000.csv",
+					"title,url,time_added,tags,status\n",
+				),
+			).toBe("pocket-csv");
+			expect(detectImportFormat("metadata_0_to_20.json", "[]")).toBe(
+				"omnivore-json",
+			);
+			expect(detectImportFormat("notes.txt", "just some text")).toBeNull();
+		});
+	});
+
+	describe("parseImportFile", () => {
+		it("should read every metadata file in an Omnivore zip", async () => {
+			const zip = new JSZip();
+			zip.file(
+				"metadata_0_to_1.json",
+				JSON.stringify([{ title: "A", url: "https://example.com/a" }]),
+			);
+			zip.file(
+				"metadata_1_to_2.json",
+				JSON.stringify([{ title: "B", url: "https://example.com/b" }]),
+			);
+			zip.file("content/a.html", "<p>ignored</p>");
+			const data = await zip.generateAsync({ type: "uint8array" });
+			const parsed = await parseImportFile(createFile("omnivore.zip", data));
+
+			expect(parsed.format).toBe("omnivore-json");
+			expect(parsed.items.map((item) => item.title)).toEqual(["A", "B"]);
+		});
+
+		it("should reject unsupported files", async () => {
+			await expect(
+				parseImportFile(createFile("notes.txt", "hello")),
+			).rejects.toThrow("Unsupported file");
+		});
+	});
+});
@@ -0,0 +1,440 @@
+// src/services/import/formats.ts
+
+/**
+ * Parsers for the export files of other read-later services and browsers.
+ * Each parser turns a file into a list of `ImportedItem`s, which
+ * `importItems` (see importer.ts) then maps onto articles and tags.
+ *
+ * Supported formats:
+ * - Pocket: the HTML export (`ril_export.html`) and the newer CSV export
+ * - Instapaper: the CSV export
+ * - Omnivore: the JSON metadata export (`metadata_*.json`, also inside the zip)
+ * - Readwise Reader: the CSV export
+ * - Netscape bookmark files, as exported by every browser
+ */
+
+import JSZip from "jszip";
+
+export type ImportFormat =
+	| "pocket-html"
+	| "pocket-csv"
+	| "instapaper-csv"
+	| "omnivore-json"
+	| "readwise-csv"
+	| "bookmarks-html";
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+	"pocket-html": "Pocket export",
+	"pocket-csv": "Pocket export",
+	"instapaper-csv": "Instapaper export",
+	"omnivore-json": "Omnivore export",
+	"readwise-csv": "Readwise Reader export",
+	"bookmarks-html": "Browser bookmarks",
+};
+
+/**
+ * A saved link read from an export file, before it becomes an article.
+ * Tags are names, not IDs; they are resolved when importing.
+ */
+export interface ImportedItem {
+	url: string;
+	title: string;
+	savedAt?: number; // Timestamp (ms since epoch) from the export, if any
+	status: "inbox" | "later" | "archived";
+	favorite: boolean;
+	isRead: boolean;
+	tags: string[];
+	excerpt?: string;
+	author?: string;
+	readingProgress?: number; // Percentage, when the service tracked it
+}
+
+export interface ParsedImport {
+	format: ImportFormat;
+	items: ImportedItem[];
+}
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, doubled quotes, newlines inside
+ * quotes) into rows of fields. A leading byte order mark is ignored.
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+	const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (inQuotes) {
+			if (char === '"') {
+				if (input[i + 1] === '"') {
+					field += '"';
+					i++;
+				} else {
+					inQuotes = false;
+				}
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	// Drop blank lines
+	return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Parses CSV text into records keyed by the (trimmed, lowercased) header row.
+ */
+function parseCsvRecords(text: string): Record<string, string>[] {
+	const [header, ...rows] = parseCsv(text);
+	if (!header) return [];
+	const columns = header.map((column) => column.trim().toLowerCase());
+	return rows.map((fields) =>
+		Object.fromEntries(
+			columns.map((column, index) => [column, fields[index]?.trim() ?? ""]),
+		),
+	);
+}
+
+/**
+ * Parses a timestamp given in seconds or milliseconds since the epoch, or as
+ * a date string. Returns undefined when it can't be read.
+ */
+function parseTimestamp(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === "") return undefined;
+	const numeric = typeof value === "number" ? value : Number(value);
+	if (Number.isFinite(numeric) && numeric > 0) {
+		// Ten-digit values are seconds; anything larger is already milliseconds
+		return numeric < 1e11 ? numeric * 1000 : numeric;
+	}
+	if (typeof value === "string") {
+		const parsed = Date.parse(value);
+		if (!Number.isNaN(parsed)) return parsed;
+	}
+	return undefined;
+}
+
+/**
+ * Splits a tag list on the given separators, trimming and dropping empties
+ * and duplicates (case-insensitively).
+ */
+function splitTags(value: string | undefined, separators: RegExp): string[] {
+	if (!value) return [];
+	const seen = new Set<string>();
+	const tags: string[] = [];
+	for (const raw of value.split(separators)) {
+		const tag = raw.trim();
+		if (!tag || seen.has(tag.toLowerCase())) continue;
+		seen.add(tag.toLowerCase());
+		tags.push(tag);
+	}
+	return tags;
+}
+
+/**
+ * Parses a Python-style list literal as used by Readwise
+ * (`['tag one', 'tag two']`), falling back to a comma-separated list.
+ */
+function parseListLiteral(value: string | undefined): string[] {
+	if (!value) return [];
+	const trimmed = value.trim();
+	if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
+		const quoted = [
+			...trimmed.matchAll(/'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"/g),
+		];
+		return splitTags(
+			quoted.map((match) => match[1] ?? match[2] ?? "").join("\n"),
+			/\n/,
+		);
+	}
+	return splitTags(trimmed, /,/);
+}
+
+const archivedItem = { status: "archived", isRead: true } as const;
+const unreadItem = { status: "inbox", isRead: false } as const;
+
+/**
+ * Pocket's HTML export: `<h1>Unread</h1>` and `<h1>Read Archive</h1>`
+ * sections, each followed by a list of
+ * `<a href time_added="…" tags="a,b">Title</a>` links.
+ */
+export function parsePocketHtml(html: string): ImportedItem[] {
+	const doc = new DOMParser().parseFromString(html, "text/html");
+	const items: ImportedItem[] = [];
+	let archived = false;
+	for (const element of Array.from(doc.body.querySelectorAll("h1, a"))) {
+		if (element.tagName === "H1") {
+			archived = /archive/i.test(element.textContent ?? "");
+			continue;
+		}
+		const url = element.getAttribute("href")?.trim() ?? "";
+		items.push({
+			url,
+			title: element.textContent?.trim() || url,
+			savedAt: parseTimestamp(element.getAttribute("time_added")),
+			...(archived ? archivedItem : unreadItem),
+			favorite: false,
+			tags: splitTags(element.getAttribute("tags") ?? undefined, /,/),
+		});
+	}
+	return items;
+}
+
+/**
+ * Pocket's CSV export: `title,url,time_added,tags,status` with tags joined
+ * by `|` and status `unread` or `archive`.
+ */
+export function parsePocketCsv(text: string): ImportedItem[] {
+	return parseCsvRecords(text).map((record) => ({
+		url: record.url,
+		title: record.title || record.url,
+		savedAt: parseTimestamp(record.time_added),
+		...(record.status === "archive" ? archivedItem : unreadItem),
+		favorite: false,
+		tags: splitTags(record.tags, /[|,]/),
+	}));
+}
+
+/**
+ * Instapaper's CSV export: `URL,Title,Selection,Folder,Timestamp`. The
+ * built-in folders map onto statuses; any other folder becomes a tag.
+ */
+export function parseInstapaperCsv(text: string): ImportedItem[] {
+	return parseCsvRecords(text).map((record) => {
+		const folder = record.folder;
+		const isArchive = folder.toLowerCase() === "archive";
+		const isStarred = folder.toLowerCase() === "starred";
+		const isCustomFolder =
+			!!folder && !isArchive && !isStarred && folder.toLowerCase() !== "unread";
+		return {
+			url: record.url,
+			title: record.title || record.url,
+			savedAt: parseTimestamp(record.timestamp),
+			...(isArchive ? archivedItem : unreadItem),
+			favorite: isStarred,
+			tags: isCustomFolder ? [folder] : [],
+			excerpt: record.selection || undefined,
+		};
+	});
+}
+
+interface OmnivoreItem {
+	url?: string;
+	title?: string;
+	description?: string;
+	author?: string;
+	labels?: (string | { name?: string })[];
+	savedAt?: string | number;
+	state?: string;
+	readingProgress?: number;
+}
+
+/**
+ * Omnivore's JSON export: an array of items with `labels`, `state`
+ * (`Archived`, `Succeeded`, …) and `readingProgress` (0–100).
+ */
+export function parseOmnivoreJson(text: string): ImportedItem[] {
+	const data = JSON.parse(text) as OmnivoreItem[] | { items?: OmnivoreItem[] };
+	const entries = Array.isArray(data) ? data : (data.items ?? []);
+	return entries.map((entry) => {
+		const progress = Number(entry.readingProgress) || 0;
+		const archived = /archiv/i.test(entry.state ?? "");
+		return {
+			url: entry.url?.trim() ?? "",
+			title: entry.title?.trim() || entry.url?.trim() || "",
+			savedAt: parseTimestamp(entry.savedAt),
+			status: archived ? "archived" : "inbox",
+			// Finished articles count as read even if they were never archived
+			isRead: archived || progress >= 100,
+			favorite: false,
+			tags: splitTags(
+				(entry.labels ?? [])
+					.map((label) => (typeof label === "string" ? label : label.name))
+					.join("\n"),
+				/\n/,
+			),
+			excerpt: entry.description || undefined,
+			author: entry.author || undefined,
+			readingProgress: progress > 0 ? Math.min(progress, 100) : undefined,
+		};
+	});
+}
+
+/**
+ * Readwise Reader's CSV export: `Title,URL,Document tags,Saved date,
+ * Reading progress,Location,Seen`. The `later` and `archive` locations map
+ * onto the matching statuses; `new`, `shortlist` and `feed` go to the inbox.
+ */
+export function parseReadwiseCsv(text: string): ImportedItem[] {
+	return parseCsvRecords(text).map((record) => {
+		const location = record.location.toLowerCase();
+		const progress = Number.parseFloat(record["reading progress"]) || 0;
+		const base =
+			location === "archive"
+				? archivedItem
+				: location === "later"
+					? ({ status: "later", isRead: false } as const)
+					: unreadItem;
+		return {
+			url: record.url,
+			title: record.title || record.url,
+			savedAt: parseTimestamp(record["saved date"]),
+			...base,
+			favorite: false,
+			tags: parseListLiteral(record["document tags"]),
+			author: record.author || undefined,
+			// Readwise reports progress as a fraction
+			readingProgress:
+				progress > 0 ? Math.round(Math.min(progress, 1) * 100) : undefined,
+		};
+	});
+}
+
+// Browser folders that don't say anything about the links inside them
+const IGNORED_BOOKMARK_FOLDERS =
+	/^(bookmarks( bar| toolbar| menu)?|favorites( bar)?|other bookmarks|mobile bookmarks|unfiled( bookmarks)?)$/i;
+
+/**
+ * Netscape bookmark files: nested `<DL>` lists of `<DT><H3>Folder</H3>` and
+ * `<DT><A HREF ADD_DATE TAGS>Title</A>` entries. The folders a bookmark sits
+ * in become its tags, next to any explicit `TAGS`.
+ */
+export function parseBookmarksHtml(html: string): ImportedItem[] {
+	const doc = new DOMParser().parseFromString(html, "text/html");
+	const items: ImportedItem[] = [];
+
+	for (const link of Array.from(doc.querySelectorAll("a[href]"))) {
+		const folders: string[] = [];
+		// Walk up the nested lists, picking up each enclosing folder's heading
+		let list = link.closest("dl");
+		while (list) {
+			let heading = list.previousElementSibling;
+			// Some exporters put the <DL> inside the folder's <DT>
+			if (!heading || heading.tagName !== "H3") {
+				heading = list.parentElement?.querySelector(":scope > h3") ?? null;
+			}
+			const name = heading?.tagName === "H3" ? heading.textContent?.trim() : "";
+			if (name && !IGNORED_BOOKMARK_FOLDERS.test(name)) folders.unshift(name);
+			list = list.parentElement?.closest("dl") ?? null;
+		}
+
+		const url = link.getAttribute("href")?.trim() ?? "";
+		items.push({
+			url,
+			title: link.textContent?.trim() || url,
+			savedAt: parseTimestamp(link.getAttribute("add_date")),
+			...unreadItem,
+			favorite: false,
+			tags: splitTags(
+				[...folders, link.getAttribute("tags") ?? ""].join(","),
+				/,/,
+			),
+		});
+	}
+	return items;
+}
+
+/**
+ * Works out which export a file is from, using its name and contents.
+ * Returns null for files that aren't a supported export.
+ */
+export function detectImportFormat(
+	fileName: string,
+	text: string,
+): ImportFormat | null {
+	const name = fileName.toLowerCase();
+	const start = text.slice(0, 4096);
+
+	if (name.endsWith(".json") || /^\s*[[{]/.test(start)) {
+		return "omnivore-json";
+	}
+	if (/<html|<!doctype|<dl|<a\s/i.test(start)) {
+		if (/NETSCAPE-Bookmark-file/i.test(start)) return "bookmarks-html";
+		if (/<title>\s*Pocket Export/i.test(start) || /time_added=/i.test(text)) {
+			return "pocket-html";
+		}
+		return "bookmarks-html";
+	}
+	if (name.endsWith(".csv") || start.includes(",")) {
+		const header = (parseCsv(start.split(/\r?\n/)[0] ?? "")[0] ?? []).map(
+			(column) => column.trim().toLowerCase(),
+		);
+		if (header.includes("selection") && header.includes("folder")) {
+			return "instapaper-csv";
+		}
+		if (header.includes("document tags") || header.includes("location")) {
+			return "readwise-csv";
+		}
+		if (header.includes("time_added")) return "pocket-csv";
+	}
+	return null;
+}
+
+const PARSERS: Record<ImportFormat, (text: string) => ImportedItem[]> = {
+	"pocket-html": parsePocketHtml,
+	"pocket-csv": parsePocketCsv,
+	"instapaper-csv": parseInstapaperCsv,
+	"omnivore-json": parseOmnivoreJson,
+	"readwise-csv": parseReadwiseCsv,
+	"bookmarks-html": parseBookmarksHtml,
+};
+
+/**
+ * Reads an export file and returns the items in it. Omnivore's zip export
+ * is unpacked and all of its `metadata_*.json` files are read.
+ *
+ * @param file - The file the user picked.
+ * @returns The detected format and the parsed items.
+ * @throws Error if the file isn't a supported export or can't be parsed.
+ */
+export async function parseImportFile(file: File): Promise<ParsedImport> {
+	if (file.name.toLowerCase().endsWith(".zip")) {
+		const zip = await JSZip.loadAsync(await file.arrayBuffer());
+		const metadataFiles = Object.values(zip.files).filter(
+			(entry) => !entry.dir && /(^|\/)metadata_[^/]*\.json$/i.test(entry.name),
+		);
+		if (metadataFiles.length === 0) {
+			throw new Error("This zip file doesn't contain an Omnivore export.");
+		}
+		const items: ImportedItem[] = [];
+		for (const entry of metadataFiles) {
+			items.push(...parseOmnivoreJson(await entry.async("string")));
+		}
+		return { format: "omnivore-json", items };
+	}
+
+	const text = await file.text();
+	const format = detectImportFormat(file.name, text);
+	if (!format) {
+		throw new Error(
+			"Unsupported file. Use a Pocket, Instapaper, Omnivore or Readwise export, or a bookmarks file.",
+		);
+	}
+	try {
+		return { format, items: PARSERS[format](text) };
+	} catch (error) {
+		console.error(`Error parsing ${format} import file:`, error);
+		throw new Error(
+			`This file couldn't be read as a ${IMPORT_FORMAT_LABELS[format]}.`,
+		);
+	}
+}
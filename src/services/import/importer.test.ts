@@ -0,0 +1,206 @@
+// src/services/import/importer.test.ts
+
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearDb } from "../../test-utils/dbFixtures";
+import {
+	type Article,
+	articlesDb,
+	getAllTags,
+	initializeDatabase,
+	saveTag,
+	tagsDb,
+} from "../db";
+import { enqueueContentFetch } from "../fetchQueue";
+import type { ImportedItem } from "./formats";
+import { getUrlKey, importItems } from "./importer";
+
+// Content is fetched over the network, so only check what gets queued
+vi.mock("../fetchQueue", () => ({
+	enqueueContentFetch: vi.fn(),
+}));
+
+const USER_ID = "test-user";
+
+const item = (
+	url: string,
+	overrides: Partial<ImportedItem> = {},
+): ImportedItem => ({
+	url,
+	title: `Title of ${url}`,
+	status: "inbox",
+	favorite: false,
+	isRead: false,
+	tags: [],
+	...overrides,
+});
+
+const getArticles = async () =>
+	(await articlesDb.allDocs<Article>({ include_docs: true })).rows.map(
+		(row) => row.doc as Article,
+	);
+
+describe("importItems", () => {
+	beforeAll(async () => {
+		await initializeDatabase();
+	});
+
+	beforeEach(async () => {
+		await clearDb(articlesDb);
+		await clearDb(tagsDb);
+		vi.mocked(enqueueContentFetch).mockClear();
+	});
+
+	it("should save pending articles with mapped fields and queue their content", async () => {
+		const progress = vi.fn();
+		const result = await importItems(
+			[
+				item("https://example.com/a", {
+					status: "archived",
+					isRead: true,
+					favorite: true,
+					savedAt: 1700000000000,
+					excerpt: "An <excerpt>",
+				}),
+			],
+			{ userId: USER_ID, onProgress: progress },
+		);
+
+		expect(result).toEqual({
+			imported: 1,
+			duplicates: 0,
+			invalid: 0,
+			failed: [],
+		});
+		const [article] = await getArticles();
+		expect(article).toMatchObject({
+			url: "https://example.com/a",
+			userId: USER_ID,
+			status: "archived",
+			isRead: true,
+			readAt: 1700000000000,
+			favorite: true,
+			savedAt: 1700000000000,
+			siteName: "example.com",
+			excerpt: "An <excerpt>",
+			fetchStatus: "pending",
+		});
+		expect(article.content).toContain("An &lt;excerpt&gt;");
+		expect(enqueueContentFetch).toHaveBeenCalledWith([article._id]);
+		expect(progress).toHaveBeenLastCalledWith({
+			phase: "articles",
+			done: 1,
+			total: 1,
+		});
+	});
+
+	it("should skip links that are already saved, repeated or not on the web", async () => {
+		await articlesDb.put({
+			_id: "article_existing",
+			url: "https://www.example.com/post/",
+			title: "Existing",
+			content: "Content",
+			excerpt: "",
+			savedAt: 1000,
+			isRead: false,
+			favorite: false,
+			tags: [],
+			type: "article",
+			status: "inbox",
+		});
+
+		const result = await importItems(
+			[
+				item("https://example.com/post?utm_source=pocket"),
+				item("https://example.com/new#section"),
+				item("https://example.com/new"),
+				item("javascript:alert(1)"),
+				item(""),
+			],
+			{ userId: USER_ID },
+		);
+
+		expect(result).toMatchObject({ imported: 1, duplicates: 2, invalid: 2 });
+		expect((await getArticles()).map((article) => article.url).sort()).toEqual([
+			"https://example.com/new#section",
+			"https://www.example.com/post/",
+		]);
+	});
+
+	it("should skip links to the canonical URL of a saved article", async () => {
+		await articlesDb.put({
+			_id: "article_existing",
+			url: "https://m.example.com/p/123",
+			canonicalUrl: "https://example.com/2024/a-post",
+			title: "Existing",
+			content: "Content",
+			excerpt: "",
+			savedAt: 1000,
+			isRead: false,
+			favorite: false,
+			tags: [],
+			type: "article",
+			status: "inbox",
+		});
+
+		const result = await importItems(
+			[item("https://example.com/2024/a-post/")],
+			{ userId: USER_ID },
+		);
+
+		expect(result).toMatchObject({ imported: 0, duplicates: 1 });
+	});
+
+	it("should reuse existing tags case-insensitively and create missing ones", async () => {
+		const work = await saveTag("work", undefined, USER_ID);
+
+		await importItems(
+			[
+				item("https://example.com/1", { tags: ["Work", "AI"] }),
+				item("https://example.com/2", { tags: ["ai"] }),
+			],
+			{ userId: USER_ID },
+		);
+
+		const tags = await getAllTags();
+		expect(tags.map((tag) => tag.name)).toEqual(["AI", "work"]);
+		const aiTag = tags.find((tag) => tag.name === "AI");
+		const articles = await getArticles();
+		const byUrl = Object.fromEntries(
+			articles.map((article) => [article.url, article.tags]),
+		);
+		expect(byUrl["https://example.com/1"]).toEqual([work._id, aiTag?._id]);
+		expect(byUrl["https://example.com/2"]).toEqual([aiTag?._id]);
+	});
+
+	it("should write large imports in batches", async () => {
+		const progress = vi.fn();
+		const items = Array.from({ length: 150 }, (_, i) =>
+			item(`https://example.com/${i}`),
+		);
+
+		const result = await importItems(items, {
+			userId: USER_ID,
+			onProgress: progress,
+		});
+
+		expect(result.imported).toBe(150);
+		expect(enqueueContentFetch).toHaveBeenCalledTimes(2);
+		expect(
+			progress.mock.calls
+				.map(([update]) => update)
+				.filter((update) => update.phase === "articles")
+				.map((update) => update.done),
+		).toEqual([0, 100, 150]);
+	});
+});
+
+describe("getUrlKey", () => {
+	it("should ignore www, fragments, trailing slashes and tracking parameters", () => {
+		expect(
+			getUrlKey("https://WWW.Example.com/a/?utm_medium=email&id=2#top"),
+		).toBe(getUrlKey("https://example.com/a?id=2"));
+		expect(getUrlKey("https://example.com/a?id=2")).not.toBe(
+			getUrlKey("https://example.com/a?id=3"),
+		);
+	});
+});
@@ -0,0 +1,194 @@
+// src/services/import/importer.ts
+
+import { getArticleUrlKeys, getUrlKey } from "@/lib/articleUtils";
+import {
+	type Article,
+	articlesDb,
+	getAllTags,
+	saveArticles,
+	saveTag,
+} from "../db";
+import { enqueueContentFetch } from "../fetchQueue";
+import { isValidUrl } from "../parser";
+import type { ImportedItem } from "./formats";
+
+// Kept here for callers of the import module
+export { getUrlKey };
+
+// Articles are written in batches so progress can be reported on big imports
+const IMPORT_BATCH_SIZE = 100;
+
+export interface ImportProgress {
+	phase: "tags" | "articles";
+	done: number;
+	total: number;
+}
+
+export interface ImportResult {
+	imported: number;
+	duplicates: number; // Already saved, or listed twice in the file
+	invalid: number; // Items without a usable http(s) URL
+	failed: { url: string; message: string }[];
+}
+
+function getHostname(url: string): string {
+	try {
+		return new URL(url).hostname.replace(/^www\./, "");
+	} catch {
+		return "";
+	}
+}
+
+/**
+ * Body shown for an imported article until its content has been fetched.
+ */
+function placeholderContent(item: ImportedItem): string {
+	const escapeHtml = (value: string) =>
+		value
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;")
+			.replace(/"/g, "&quot;");
+	const excerpt = item.excerpt ? `<p>${escapeHtml(item.excerpt)}</p>` : "";
+	return `${excerpt}<p>The full article is still being fetched. <a href="${escapeHtml(item.url)}">Open the original</a>.</p>`;
+}
+
+/**
+ * Looks up the tag ID for every tag name used by the items, creating the
+ * missing tags through `saveTag`. Existing tags are matched case-insensitively
+ * so an imported "Work" reuses a local "work".
+ */
+async function resolveTagIds(
+	items: ImportedItem[],
+	userId: string,
+	onProgress?: (progress: ImportProgress) => void,
+): Promise<Map<string, string>> {
+	const tagIds = new Map<string, string>();
+	for (const tag of await getAllTags()) {
+		tagIds.set(tag.name.toLowerCase(), tag._id);
+	}
+
+	const missing = new Map<string, string>();
+	for (const item of items) {
+		for (const name of item.tags) {
+			const key = name.toLowerCase();
+			if (!tagIds.has(key) && !missing.has(key)) missing.set(key, name);
+		}
+	}
+
+	let done = 0;
+	onProgress?.({ phase: "tags", done, total: missing.size });
+	for (const [key, name] of missing) {
+		try {
+			const tag = await saveTag(name, undefined, userId);
+			tagIds.set(key, tag._id);
+		} catch (error) {
+			// The articles are still imported, just without this tag
+			console.error(`Failed to create imported tag "${name}":`, error);
+		}
+		done++;
+		onProgress?.({ phase: "tags", done, total: missing.size });
+	}
+	return tagIds;
+}
+
+/**
+ * Saves imported items as articles for the given user. Links that are
+ * already saved (or repeated in the file) are skipped, tags are created as
+ * needed, and the articles are stored with a placeholder body and
+ * `fetchStatus: "pending"`; their content is fetched in the background by
+ * the fetch queue.
+ *
+ * @param items - The items parsed from an export file.
+ * @param options.userId - The user the articles belong to.
+ * @param options.onProgress - Called as tags are created and articles are written.
+ * @returns Counts of imported, duplicate and invalid items, and the items that failed.
+ */
+export async function importItems(
+	items: ImportedItem[],
+	options: {
+		userId: string;
+		onProgress?: (progress: ImportProgress) => void;
+	},
+): Promise<ImportResult> {
+	const { userId, onProgress } = options;
+	const result: ImportResult = {
+		imported: 0,
+		duplicates: 0,
+		invalid: 0,
+		failed: [],
+	};
+
+	// URLs already in the library, across all users on this device
+	const existing = await articlesDb.allDocs<Article>({ include_docs: true });
+	const seenUrls = new Set(
+		existing.rows
+			.filter((row) => !!row.doc?.url)
+			.flatMap((row) => getArticleUrlKeys(row.doc as Article)),
+	);
+
+	const newItems: ImportedItem[] = [];
+	for (const item of items) {
+		if (!isValidUrl(item.url.trim())) {
+			result.invalid++;
+			continue;
+		}
+		const key = getUrlKey(item.url);
+		if (seenUrls.has(key)) {
+			result.duplicates++;
+			continue;
+		}
+		seenUrls.add(key);
+		newItems.push(item);
+	}
+	console.log(
+		`Importing ${newItems.length} of ${items.length} items (${result.duplicates} duplicates, ${result.invalid} invalid)`,
+	);
+
+	const tagIds = await resolveTagIds(newItems, userId, onProgress);
+
+	onProgress?.({ phase: "articles", done: 0, total: newItems.length });
+	for (let start = 0; start < newItems.length; start += IMPORT_BATCH_SIZE) {
+		const batch = newItems.slice(start, start + IMPORT_BATCH_SIZE);
+		const articles = batch.map(
+			(item): Omit<Article, "_id" | "_rev"> => ({
+				title: item.title.trim() || item.url,
+				url: item.url.trim(),
+				content: placeholderContent(item),
+				excerpt: item.excerpt ?? "",
+				author: item.author,
+				siteName: getHostname(item.url),
+				savedAt: item.savedAt ?? Date.now(),
+				isRead: item.isRead,
+				...(item.isRead && { readAt: item.savedAt ?? Date.now() }),
+				favorite: item.favorite,
+				status: item.status,
+				tags: item.tags
+					.map((name) => tagIds.get(name.toLowerCase()))
+					.filter((id): id is string => !!id),
+				readingProgress: item.readingProgress ?? 0,
+				type: "article",
+				userId,
+				fetchStatus: "pending",
+			}),
+		);
+
+		try {
+			const { saved, errors } = await saveArticles(articles);
+			result.imported += saved.length;
+			result.failed.push(...errors);
+			await enqueueContentFetch(saved.map((article) => article._id));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error("Error saving a batch of imported articles:", error);
+			result.failed.push(...batch.map((item) => ({ url: item.url, message })));
+		}
+		onProgress?.({
+			phase: "articles",
+			done: Math.min(start + batch.length, newItems.length),
+			total: newItems.length,
+		});
+	}
+
+	return result;
+}
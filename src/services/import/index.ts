@@ -0,0 +1,10 @@
+// src/services/import/index.ts
+
+export {
+	IMPORT_FORMAT_LABELS,
+	detectImportFormat,
+	parseImportFile,
+} from "./formats";
+export type { ImportFormat, ImportedItem, ParsedImport } from "./formats";
+export { getUrlKey, importItems } from "./importer";
+export type { ImportProgress, ImportResult } from "./importer";
@@ -2,6 +2,12 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 // Use vi.hoisted for mocks that need to be available before imports
 const mockParse = vi.hoisted(() => vi.fn());
+const mockAuthFetch = vi.hoisted(() => vi.fn());
+
+// The worker's /api/extract, tried before fetching the page directly
+vi.mock("@/lib/authClient", () => ({
+	authClient: { $fetch: mockAuthFetch },
+}));
 
 // Mock JSDOM
 vi.mock("jsdom", () => {
@@ -27,7 +33,17 @@ vi.mock("@mozilla/readability", () => {
 });
 
 // Now import the module
-import { parseArticle } from "./parser"; // Import the real function
+import { registerSiteRule } from "./extractors";
+import arxivAbstractHtml from "./extractors/fixtures/arxiv-abstract.html?raw";
+import githubReadmeHtml from "./extractors/fixtures/github-readme.html?raw";
+import hackerNewsItemHtml from "./extractors/fixtures/hacker-news-item.html?raw";
+import substackPostHtml from "./extractors/fixtures/substack-post.html?raw";
+import wikipediaArticleHtml from "./extractors/fixtures/wikipedia-article.html?raw";
+import { MAX_ARTICLE_PAGES, parseArticle } from "./parser"; // Import the real function
+
+// Site rules need a real DOM; the tests above replace it with a stub
+const realWindow = window;
+const RealDOMParser = DOMParser;
 
 const mockFetch = vi.fn();
 
@@ -37,11 +53,19 @@ describe("parseArticle", () => {
 		vi.clearAllMocks();
 		mockParse.mockReset();
 		mockFetch.mockReset();
+		// Worker unavailable unless a test says otherwise
+		mockAuthFetch.mockResolvedValue({
+			data: null,
+			error: { status: 503, statusText: "Service Unavailable" },
+		});
 
 		// Setup global objects for browser environment testing
 		global.window = { DOMParser: vi.fn() } as any;
 		global.DOMParser = vi.fn().mockImplementation(() => ({
-			parseFromString: vi.fn().mockReturnValue({}),
+			// Readability is mocked; the parser still looks for page links
+			parseFromString: vi
+				.fn()
+				.mockImplementation(() => document.implementation.createHTMLDocument()),
 		}));
 
 		// Set default mock response
@@ -198,4 +222,525 @@ describe("parseArticle", () => {
 		expect(mockFetch).toHaveBeenCalledWith(`${testUrl}/`, expect.any(Object)); // Check normalized URL
 		expect(mockParse).toHaveBeenCalled(); // Parse was called but returned null
 	});
+
+	it("should use the article extracted by the worker", async () => {
+		const testUrl = "https://example.com/worker";
+		mockAuthFetch.mockResolvedValue({
+			data: {
+				status: "success",
+				article: {
+					title: "Worker Article",
+					url: testUrl,
+					content: '<p>Body<img src="x.png" onerror="alert(1)"></p>',
+					excerpt: "Body",
+					siteName: "Example",
+					estimatedReadTime: 2,
+					type: "article",
+					status: "inbox",
+				},
+			},
+			error: null,
+		});
+
+		const result = await parseArticle(testUrl);
+
+		expect(mockAuthFetch).toHaveBeenCalledWith("/api/extract", {
+			method: "POST",
+			body: { url: testUrl },
+		});
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(mockParse).not.toHaveBeenCalled();
+		expect(result).toMatchObject({
+			title: "Worker Article",
+			siteName: "Example",
+			estimatedReadTime: 2,
+		});
+		// Sanitized again on the client
+		expect(result.content).toContain("<p>Body");
+		expect(result.content).not.toContain("onerror");
+	});
+
+	it("should not fall back to the proxies when the worker can't parse the page", async () => {
+		mockAuthFetch.mockResolvedValue({
+			data: null,
+			error: { status: 422, message: "Could not parse article content" },
+		});
+
+		await expect(parseArticle("https://example.com/video")).rejects.toThrow(
+			"Could not parse article content",
+		);
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it("should fetch the page itself when the worker can't be reached", async () => {
+		const testUrl = "https://example.com/offline-worker";
+		mockAuthFetch.mockRejectedValue(new TypeError("Failed to fetch"));
+		mockParse.mockReturnValue({
+			title: "Direct Article",
+			content: "<p>Direct</p>",
+			textContent: "Direct",
+			excerpt: "Direct",
+			byline: null,
+			siteName: null,
+		});
+
+		const result = await parseArticle(testUrl);
+
+		expect(mockFetch).toHaveBeenCalledWith(testUrl, expect.any(Object));
+		expect(result.title).toBe("Direct Article");
+	});
+});
+
+describe("parseArticle with site rules", () => {
+	// Serves a stored page for any direct fetch
+	const servePage = (html: string) =>
+		mockFetch.mockResolvedValue(
+			new Response(html, { headers: { "Content-Type": "text/html" } }),
+		);
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockParse.mockReset();
+		mockFetch.mockReset();
+		mockAuthFetch.mockResolvedValue({
+			data: null,
+			error: { status: 503, statusText: "Service Unavailable" },
+		});
+		global.window = realWindow;
+		global.DOMParser = RealDOMParser;
+		vi.stubGlobal("fetch", mockFetch);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should extract a GitHub README without the repository page around it", async () => {
+		const testUrl = "https://github.com/octo-org/readsync";
+		servePage(githubReadmeHtml);
+
+		const result = await parseArticle(testUrl);
+
+		expect(mockParse).not.toHaveBeenCalled();
+		expect(result).toMatchObject({
+			title: "octo-org/readsync",
+			author: "octo-org",
+			siteName: "GitHub",
+			excerpt: expect.stringContaining("Read it later, offline first"),
+		});
+		expect(result.content).toContain("An offline-first read-it-later app");
+		expect(result.content).toContain("npm run dev");
+		expect(result.content).toContain(
+			'href="https://github.com/octo-org/readsync/blob/main/docs/CONTRIBUTING.md"',
+		);
+		expect(result.content).toContain(
+			'src="https://github.com/octo-org/readsync/raw/main/docs/screenshot.png"',
+		);
+		expect(result.content).not.toContain("package.json"); // File browser
+		expect(result.content).not.toContain("stars"); // Sidebar
+		expect(result.content).not.toContain("Permalink");
+	});
+
+	it("should leave GitHub pages that aren't READMEs to Readability", async () => {
+		mockParse.mockReturnValue({
+			title: "Issue",
+			content: "<p>Issue body</p>",
+			textContent: "Issue body",
+			excerpt: "Issue body",
+			byline: null,
+			siteName: null,
+		});
+		mockAuthFetch.mockResolvedValue({
+			data: {
+				status: "success",
+				article: {
+					title: "Issue",
+					url: "https://github.com/octo-org/readsync/issues/1",
+					content: "<p>Issue body</p>",
+					excerpt: "Issue body",
+					siteName: "GitHub",
+					estimatedReadTime: 1,
+					type: "article",
+					status: "inbox",
+				},
+			},
+			error: null,
+		});
+
+		const result = await parseArticle(
+			"https://github.com/octo-org/readsync/issues/1",
+		);
+
+		expect(mockAuthFetch).toHaveBeenCalledWith("/api/extract", {
+			method: "POST",
+			body: { url: "https://github.com/octo-org/readsync/issues/1" },
+		});
+		expect(result.title).toBe("Issue");
+	});
+
+	it("should turn a Hacker News thread into the story and nested comments", async () => {
+		const testUrl = "https://news.ycombinator.com/item?id=41000001";
+		servePage(hackerNewsItemHtml);
+
+		const result = await parseArticle(testUrl);
+
+		expect(result).toMatchObject({
+			title: "Show HN: An offline-first read-it-later app",
+			author: "jdoe",
+			siteName: "Hacker News",
+			publishedDate: "2024-07-21T14:02:11",
+		});
+		const document = new DOMParser().parseFromString(
+			result.content,
+			"text/html",
+		);
+		expect(document.querySelector("a")?.getAttribute("href")).toBe(
+			"https://readsync.example.com/",
+		);
+		expect(document.body.textContent).toContain("after Pocket shut down");
+		// alice's comment holds jdoe's reply; bob's is back at the top level
+		const topLevel = document.querySelectorAll("body > ul > li");
+		expect(topLevel).toHaveLength(2);
+		const replies = document.querySelectorAll("ul > li > ul > li");
+		expect(replies).toHaveLength(1);
+		expect(replies[0].textContent).toContain("Each field keeps its own");
+		expect(replies[0].textContent).toContain("jdoe");
+		expect(result.content).not.toContain("reply?id="); // Reply links
+		expect(result.content).not.toContain("add comment");
+	});
+
+	it("should extract a Substack post without the subscribe widgets", async () => {
+		const testUrl = "https://slowreader.substack.com/p/why-we-read-less";
+		servePage(substackPostHtml);
+
+		const result = await parseArticle(testUrl);
+
+		expect(mockParse).not.toHaveBeenCalled();
+		expect(result).toMatchObject({
+			title: "Why we read less than we save",
+			author: "Jane Writer",
+			publishedDate: "2024-03-05T08:00:00.000Z",
+			excerpt: "On the gap between saving an article and actually reading it.",
+		});
+		expect(result.content).toContain("Saving is cheap");
+		expect(result.content).toContain(
+			'href="https://slowreader.substack.com/p/pruning-your-queue"',
+		);
+		expect(result.content).not.toContain("Subscribe");
+		expect(result.content).not.toContain("12 comments");
+	});
+
+	it("should save an arXiv paper's abstract with a link to its PDF", async () => {
+		servePage(arxivAbstractHtml);
+
+		// Saved from the PDF link, read from the abstract page
+		const result = await parseArticle("https://arxiv.org/pdf/2403.01234.pdf");
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			"https://arxiv.org/abs/2403.01234",
+			expect.any(Object),
+		);
+		expect(result).toMatchObject({
+			title: "Reading Queues and Attention Decay",
+			url: "https://arxiv.org/pdf/2403.01234.pdf",
+			author: "Jane Doe, John Smith",
+			siteName: "arXiv",
+			publishedDate: "2024-03-02",
+			excerpt: expect.stringContaining("fewer than one in five"),
+		});
+		expect(result.content).toContain(
+			'<a href="https://arxiv.org/pdf/2403.01234">Read the full paper (PDF)</a>',
+		);
+	});
+
+	it("should extract a Wikipedia article without edit links and citation marks", async () => {
+		servePage(wikipediaArticleHtml);
+
+		const result = await parseArticle(
+			"https://en.wikipedia.org/wiki/Read-it-later",
+		);
+
+		expect(mockParse).not.toHaveBeenCalled();
+		expect(result).toMatchObject({
+			title: "Read-it-later",
+			siteName: "Wikipedia",
+		});
+		expect(result.content).toContain("let people save web pages");
+		expect(result.content).toContain("Pocket, Instapaper"); // Infobox kept
+		expect(result.content).toContain(
+			'href="https://en.wikipedia.org/wiki/Instapaper"',
+		);
+		expect(result.content).not.toContain("[1]");
+		expect(result.content).not.toContain("edit");
+		expect(result.content).not.toContain("additional citations");
+		expect(result.content).not.toContain("Web applications");
+		expect(result.content).not.toContain("For the browser feature");
+	});
+
+	it("should fetch pages for site rules through the worker when it's available", async () => {
+		mockAuthFetch.mockResolvedValue({
+			data: {
+				status: "success",
+				html: wikipediaArticleHtml,
+				url: "https://en.wikipedia.org/wiki/Read-it-later",
+			},
+			error: null,
+		});
+
+		const result = await parseArticle(
+			"https://en.wikipedia.org/wiki/Read-it-later",
+		);
+
+		expect(mockAuthFetch).toHaveBeenCalledWith("/api/extract", {
+			method: "POST",
+			body: { url: "https://en.wikipedia.org/wiki/Read-it-later", raw: true },
+		});
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(result.title).toBe("Read-it-later");
+	});
+
+	it("should use rules registered at runtime before the built-in ones", async () => {
+		registerSiteRule({
+			name: "example-docs",
+			hosts: ["docs.example.org"],
+			strip: [".cookie-banner"],
+			contentSelector: "main .doc",
+			authorSelector: ".doc-author",
+		});
+		servePage(`<html><head><title>Docs</title></head><body>
+			<div class="cookie-banner">We use cookies</div>
+			<main><div class="doc"><p>How to <a href="../guide">start</a>.</p><span class="doc-author">Docs Team</span></div></main>
+		</body></html>`);
+
+		const result = await parseArticle("https://docs.example.org/v1/start");
+
+		expect(result).toMatchObject({
+			title: "Untitled Article",
+			author: "Docs Team",
+			siteName: "docs.example.org",
+		});
+		expect(result.content).toContain('href="https://docs.example.org/guide"');
+		expect(result.content).not.toContain("cookies");
+	});
+});
+
+describe("parseArticle with paginated articles", () => {
+	const storyUrl = "https://news.example.com/story";
+	const pageHtml = (next?: string) =>
+		`<html><head>${next ? `<link rel="next" href="${next}">` : ""}</head><body><article>Story</article></body></html>`;
+	// What Readability finds on each page: the header repeats on every page
+	const pageContent = (part: string) =>
+		`<div><h1>The Long Story</h1><p>By A. Reporter</p><p>${`${part} `.repeat(300)}</p></div>`;
+	const readable = (content: string) => ({
+		title: "The Long Story",
+		content,
+		textContent: content.replace(/<[^>]+>/g, " "),
+		excerpt: "The long story",
+		byline: "A. Reporter",
+		siteName: "Example News",
+	});
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockParse.mockReset();
+		mockFetch.mockReset();
+		mockAuthFetch.mockResolvedValue({
+			data: null,
+			error: { status: 503, statusText: "Service Unavailable" },
+		});
+		global.window = realWindow;
+		global.DOMParser = RealDOMParser;
+		vi.stubGlobal("fetch", mockFetch);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should join the pages into one article without repeating the header", async () => {
+		const pages: Record<string, string> = {
+			[storyUrl]: pageHtml("/story?page=2"),
+			[`${storyUrl}?page=2`]: pageHtml("/story?page=3"),
+			[`${storyUrl}?page=3`]: pageHtml(),
+		};
+		mockFetch.mockImplementation(
+			async (url: string) => new Response(pages[url] ?? "", { status: 200 }),
+		);
+		mockParse
+			.mockReturnValueOnce(readable(pageContent("first")))
+			.mockReturnValueOnce(readable(pageContent("second")))
+			.mockReturnValueOnce(readable(pageContent("third")));
+
+		const result = await parseArticle(storyUrl);
+
+		expect(mockFetch).toHaveBeenCalledWith(
+			`${storyUrl}?page=3`,
+			expect.any(Object),
+		);
+		expect(result.url).toBe(storyUrl);
+		for (const part of ["first", "second", "third"]) {
+			expect(result.content).toContain(part);
+		}
+		expect(result.content.match(/The Long Story/g)).toHaveLength(1);
+		expect(result.content.match(/By A. Reporter/g)).toHaveLength(1);
+		// 900 words over the three pages, at 200 words a minute
+		expect(result.estimatedReadTime).toBe(5);
+	});
+
+	it("should stop after a bounded number of pages", async () => {
+		mockFetch.mockImplementation(async (url: string) => {
+			const page = Number(new URL(url).searchParams.get("page") ?? 1);
+			return new Response(pageHtml(`/story?page=${page + 1}`));
+		});
+		mockParse.mockImplementation(() => readable(pageContent("more")));
+
+		await parseArticle(storyUrl);
+
+		expect(mockParse).toHaveBeenCalledTimes(MAX_ARTICLE_PAGES);
+	});
+
+	it("should follow pages extracted by the worker and keep those fetched when one fails", async () => {
+		const workerPage = (content: string, nextPageUrl?: string) => ({
+			data: {
+				status: "success",
+				article: {
+					title: "The Long Story",
+					url: storyUrl,
+					content,
+					excerpt: "The long story",
+					siteName: "Example News",
+					estimatedReadTime: 2,
+					type: "article",
+					status: "inbox",
+				},
+				nextPageUrl,
+			},
+			error: null,
+		});
+		mockAuthFetch
+			.mockResolvedValueOnce(
+				workerPage(pageContent("first"), `${storyUrl}?page=2`),
+			)
+			.mockResolvedValueOnce(
+				workerPage(pageContent("second"), `${storyUrl}?page=3`),
+			)
+			.mockResolvedValueOnce({
+				data: null,
+				error: { status: 422, message: "Could not parse article content" },
+			});
+
+		const result = await parseArticle(storyUrl);
+
+		expect(mockAuthFetch).toHaveBeenLastCalledWith("/api/extract", {
+			method: "POST",
+			body: { url: `${storyUrl}?page=3` },
+		});
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(result.content).toContain("first");
+		expect(result.content).toContain("second");
+		expect(result.content.match(/The Long Story/g)).toHaveLength(1);
+		expect(result.estimatedReadTime).toBe(4);
+	});
+});
+
+describe("parseArticle with page metadata", () => {
+	const postUrl = "https://blog.example.com/posts/metadata?utm_source=feed";
+	const readable = (text: string) => ({
+		title: "A Post",
+		content: `<div><p>${text}</p></div>`,
+		textContent: text,
+		excerpt: "A post",
+		byline: null,
+		siteName: "Example Blog",
+	});
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockParse.mockReset();
+		mockFetch.mockReset();
+		mockAuthFetch.mockResolvedValue({
+			data: null,
+			error: { status: 503, statusText: "Service Unavailable" },
+		});
+		global.window = realWindow;
+		global.DOMParser = RealDOMParser;
+		vi.stubGlobal("fetch", mockFetch);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should read the date, cover image, language and canonical URL from the page", async () => {
+		mockFetch.mockResolvedValue(
+			new Response(`<html lang="en-GB"><head>
+				<link rel="canonical" href="/posts/metadata">
+				<meta property="og:image" content="/images/cover.jpg">
+				<script type="application/ld+json">
+					{"@context": "https://schema.org", "@type": "BlogPosting",
+					 "datePublished": "2024-03-05T09:30:00+01:00",
+					 "author": {"@type": "Person", "name": "Jo Writer"}}
+				</script>
+			</head><body><article>Post</article></body></html>`),
+		);
+		mockParse.mockReturnValue(readable("Some words"));
+
+		const result = await parseArticle(postUrl);
+
+		expect(result).toMatchObject({
+			url: postUrl,
+			canonicalUrl: "https://blog.example.com/posts/metadata",
+			coverImage: "https://blog.example.com/images/cover.jpg",
+			language: "en",
+			publishedDate: "2024-03-05T08:30:00.000Z",
+			author: "Jo Writer",
+		});
+	});
+
+	it("should detect the language of pages that don't declare one", async () => {
+		mockFetch.mockResolvedValue(
+			new Response("<html><body><article>Post</article></body></html>"),
+		);
+		mockParse.mockReturnValue(
+			readable(
+				"Le matin, nous sommes allés au marché avec les enfants. Il y avait des fruits et des légumes de saison, et le marchand nous a donné une pomme pour la route. Ce n'est pas tous les jours que le soleil est au rendez-vous dans cette ville.",
+			),
+		);
+
+		const result = await parseArticle(postUrl);
+
+		expect(result.language).toBe("fr");
+		expect(result.canonicalUrl).toBeUndefined();
+		expect(result.coverImage).toBeUndefined();
+	});
+
+	it("should keep the metadata extracted by the worker", async () => {
+		mockAuthFetch.mockResolvedValue({
+			data: {
+				article: {
+					title: "A Post",
+					url: postUrl,
+					content: "<p>Some words</p>",
+					excerpt: "A post",
+					siteName: "Example Blog",
+					estimatedReadTime: 1,
+					type: "article",
+					status: "inbox",
+					coverImage: "https://cdn.example.com/cover.png",
+					language: "de",
+					canonicalUrl: "https://blog.example.com/posts/metadata",
+				},
+			},
+			error: null,
+		});
+
+		const result = await parseArticle(postUrl);
+
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(result).toMatchObject({
+			coverImage: "https://cdn.example.com/cover.png",
+			language: "de",
+			canonicalUrl: "https://blog.example.com/posts/metadata",
+		});
+	});
 });
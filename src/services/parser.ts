@@ -8,6 +8,17 @@ import TurndownService from "turndown";
 
 // Import types
 import type { Article } from "./db";
+import {
+	type PageMetadata,
+	type SiteExtraction,
+	type SiteRule,
+	applySiteRule,
+	detectLanguage,
+	findNextPageUrl,
+	findSiteRule,
+	mergePageContents,
+	readPageMetadata,
+} from "./extractors";
 
 // Create turndown service for HTML to Markdown conversion
 const turndownService = new TurndownService({
@@ -18,8 +29,9 @@ const turndownService = new TurndownService({
 });
 
 // Add additional Turndown rules
+// Headings are left to the built-in rule so they keep their "#" markers
 turndownService.addRule("removeExtraLineBreaks", {
-	filter: ["p", "h1", "h2", "h3", "h4", "h5", "h6"],
+	filter: ["p"],
 	replacement: (content) => {
 		return `\n\n${content}\n\n`;
 	},
@@ -44,6 +56,50 @@ export function normalizeUrl(url: string): string {
 	}
 }
 
+// Tags and attributes kept in saved article HTML. The worker's /api/extract
+// sanitizes with the same allowlist.
+const ARTICLE_SANITIZE_CONFIG = {
+	ALLOWED_TAGS: [
+		"a",
+		"b",
+		"blockquote",
+		"br",
+		"caption",
+		"code",
+		"div",
+		"em",
+		"h1",
+		"h2",
+		"h3",
+		"h4",
+		"h5",
+		"h6",
+		"hr",
+		"i",
+		"img",
+		"li",
+		"nl",
+		"ol",
+		"p",
+		"pre",
+		"span",
+		"strong",
+		"table",
+		"tbody",
+		"td",
+		"th",
+		"thead",
+		"tr",
+		"ul",
+	],
+	ALLOWED_ATTR: ["href", "src", "alt", "title", "class"],
+};
+
+// Sanitize article HTML before it is stored or rendered
+function sanitizeArticleHtml(html: string): string {
+	return DOMPurify.sanitize(html, ARTICLE_SANITIZE_CONFIG);
+}
+
 // Fetch HTML content from URL
 export async function fetchHtml(url: string): Promise<string> {
 	try {
@@ -153,10 +209,13 @@ export async function fetchHtml(url: string): Promise<string> {
 
 			return await Promise.race(proxyRequests);
 		} catch (aggregateError) {
-			// All proxies failed in Promise.any
-			throw new Error(
+			// All proxies failed in Promise.any. Usually a connection problem, so
+			// named as one to let callers retry (see isTransientError)
+			const fetchError = new Error(
 				"All CORS proxies failed. Unable to fetch article content.",
 			);
+			fetchError.name = "NetworkError";
+			throw fetchError;
 		}
 	} catch (error) {
 		console.error("Error fetching HTML:", error);
@@ -176,47 +235,169 @@ interface ParsedReadabilityArticle {
 	// Add other potential properties if needed, though not used directly here
 }
 
-// Parse article content using Readability
-export async function parseArticle(
+type ParsedArticle = Omit<
+	Article,
+	"_id" | "savedAt" | "isRead" | "favorite" | "tags"
+>;
+
+// One page of an article, with the link to the next if it continues
+interface ParsedPage {
+	article: ParsedArticle;
+	nextPageUrl?: string;
+}
+
+// Pages of a paginated article fetched at most, the first included
+export const MAX_ARTICLE_PAGES = 5;
+
+// Worker responses about the page itself (not a valid URL, not an article).
+// Fetching it through a proxy would end the same way.
+const EXTRACT_REJECTED_STATUSES = [400, 422];
+
+// Calls the worker's /api/extract. Returns null when the worker can't be
+// used (not configured, offline, signed out, or it couldn't reach the page)
+// so the caller falls back to fetching the page itself.
+async function requestWorkerExtract<T>(body: {
+	url: string;
+	raw?: boolean;
+}): Promise<T | null> {
+	let result: {
+		data: T | null;
+		error: { status: number; message?: string } | null;
+	};
+	try {
+		// Imported here: it throws when no worker domain is configured
+		const { authClient } = await import("@/lib/authClient");
+		result = await authClient.$fetch<T>("/api/extract", {
+			method: "POST",
+			body,
+		});
+	} catch (error) {
+		console.log("Worker extraction unavailable, fetching directly", error);
+		return null;
+	}
+
+	const { data, error } = result;
+	if (error) {
+		if (EXTRACT_REJECTED_STATUSES.includes(error.status)) {
+			throw new Error(error.message || "Could not parse article content");
+		}
+		console.log(
+			`Worker extraction failed with status ${error.status}, fetching directly`,
+		);
+		return null;
+	}
+	return data;
+}
+
+// Have the worker fetch and parse the page, which avoids the CORS proxies
+async function extractWithWorker(url: string): Promise<ParsedPage | null> {
+	const data = await requestWorkerExtract<{
+		article?: ParsedArticle;
+		nextPageUrl?: string;
+	}>({ url });
+	if (!data?.article?.content) return null;
+
+	// The worker sanitizes too; don't store anything DOMPurify wouldn't allow
+	return {
+		article: {
+			...data.article,
+			content: sanitizeArticleHtml(data.article.content),
+		},
+		nextPageUrl: data.nextPageUrl,
+	};
+}
+
+// Have the worker fetch the page without parsing it, for site rules
+async function fetchHtmlWithWorker(url: string): Promise<string | null> {
+	const data = await requestWorkerExtract<{ html?: string }>({
+		url,
+		raw: true,
+	});
+	return data?.html || null;
+}
+
+// Create a proper DOM document that's compatible with Readability
+async function parseHtmlDocument(html: string, url: string): Promise<Document> {
+	// Check if we're in a browser environment
+	if (typeof window !== "undefined" && window.DOMParser) {
+		// Use browser's native DOMParser
+		const parser = new DOMParser();
+		return parser.parseFromString(html, "text/html");
+	}
+	if (import.meta.env.SSR) {
+		// Node.js environment (SSR build) - dynamically import and use JSDOM
+		try {
+			const { JSDOM } = await import("jsdom");
+			return new JSDOM(html, { url }).window.document;
+		} catch (e) {
+			console.error("Failed to load or use JSDOM in SSR:", e);
+			throw new Error("Failed to parse article in SSR environment.");
+		}
+	}
+	// Should not happen in a pure client-side build if window was undefined
+	throw new Error(
+		"Parsing environment unclear: window is undefined but not in SSR build.",
+	);
+}
+
+// Calculate estimated read time (average reading speed: 200 words per minute)
+function estimateReadTime(text: string): number {
+	const wordCount = text.split(/\s+/).length;
+	// Ensure minimum 1 minute read time
+	return Math.max(1, Math.ceil(wordCount / 200));
+}
+
+// Parse one page using Readability, or the site's rule for sites
+// Readability handles poorly (see ./extractors). Pages are fetched through
+// the worker when it's available, and directly or through a proxy otherwise.
+async function parsePage(
 	url: string,
-): Promise<Omit<Article, "_id" | "savedAt" | "isRead" | "favorite" | "tags">> {
-	if (!isValidUrl(url)) {
-		throw new Error("Invalid URL");
+	siteRule?: SiteRule,
+): Promise<ParsedPage> {
+	if (!siteRule) {
+		const extracted = await extractWithWorker(url);
+		if (extracted) {
+			return extracted;
+		}
 	}
 
-	const normalizedUrl = normalizeUrl(url);
-	const html = await fetchHtml(normalizedUrl);
+	// Site rules work on the page itself, which may not be the saved URL
+	const pageUrl = siteRule?.pageUrl?.(new URL(url)) ?? url;
+	const html =
+		(siteRule && (await fetchHtmlWithWorker(pageUrl))) ||
+		(await fetchHtml(pageUrl));
 	let article: ParsedReadabilityArticle | null;
+	let fromRule: SiteExtraction = {};
+	let metadata: PageMetadata = {};
+	let nextPageUrl: string | undefined;
 
-	// Create a proper DOM document that's compatible with Readability
 	try {
-		// Check if we're in a browser environment
-		if (typeof window !== "undefined" && window.DOMParser) {
-			// Use browser's native DOMParser
-			const parser = new DOMParser();
-			const document = parser.parseFromString(html, "text/html");
-
-			// Use Readability to parse the article
-			const reader = new Readability(document);
-			article = reader.parse();
-		} else if (import.meta.env.SSR) {
-			// Node.js environment (SSR build) - dynamically import and use JSDOM
-			try {
-				const { JSDOM } = await import("jsdom");
-				const dom = new JSDOM(html, { url: normalizedUrl });
-				const reader = new Readability(dom.window.document);
-				article = reader.parse();
-			} catch (e) {
-				console.error("Failed to load or use JSDOM in SSR:", e);
-				throw new Error("Failed to parse article in SSR environment.");
-			}
+		const document = await parseHtmlDocument(html, pageUrl);
+		metadata = readPageMetadata(document, new URL(pageUrl));
+		if (siteRule) {
+			fromRule = applySiteRule(siteRule, document, new URL(pageUrl));
 		} else {
-			// Should not happen in a pure client-side build if window was undefined
-			throw new Error(
-				"Parsing environment unclear: window is undefined but not in SSR build.",
-			);
+			// Site rules cover whole pages; other articles may continue on the next
+			nextPageUrl = findNextPageUrl(document, pageUrl);
 		}
 
+		// Use Readability to parse the article, unless the rule found it
+		const readable: ParsedReadabilityArticle | null = fromRule.content
+			? null
+			: new Readability(document).parse();
+		article =
+			fromRule.content || readable
+				? {
+						title: fromRule.title ?? readable?.title,
+						content: fromRule.content ?? readable?.content,
+						textContent: fromRule.textContent ?? readable?.textContent,
+						length: fromRule.textContent?.length ?? readable?.length,
+						excerpt: fromRule.excerpt ?? readable?.excerpt,
+						byline: fromRule.author ?? readable?.byline,
+						siteName: fromRule.siteName ?? readable?.siteName,
+					}
+				: null;
+
 		if (!article) {
 			throw new Error("Could not parse article content");
 		}
@@ -228,42 +409,7 @@ export async function parseArticle(
 	}
 
 	// Sanitize HTML content
-	const sanitizedHtml = DOMPurify.sanitize(article.content || "", {
-		ALLOWED_TAGS: [
-			"a",
-			"b",
-			"blockquote",
-			"br",
-			"caption",
-			"code",
-			"div",
-			"em",
-			"h1",
-			"h2",
-			"h3",
-			"h4",
-			"h5",
-			"h6",
-			"hr",
-			"i",
-			"img",
-			"li",
-			"nl",
-			"ol",
-			"p",
-			"pre",
-			"span",
-			"strong",
-			"table",
-			"tbody",
-			"td",
-			"th",
-			"thead",
-			"tr",
-			"ul",
-		],
-		ALLOWED_ATTR: ["href", "src", "alt", "title", "class"],
-	});
+	const sanitizedHtml = sanitizeArticleHtml(article.content || "");
 
 	// Convert to Markdown
 	// Markdown conversion removed as it's not used
@@ -273,26 +419,83 @@ export async function parseArticle(
 		article.excerpt ||
 		`${(article.textContent || "").substring(0, 280).trim()}...`;
 
-	// Calculate estimated read time (average reading speed: 200 words per minute)
-	const wordCount = (article.textContent || "").split(/\s+/).length;
-	let finalEstimatedReadTime = Math.ceil(wordCount / 200);
-	if (finalEstimatedReadTime === 0) {
-		finalEstimatedReadTime = 1; // Ensure minimum 1 minute read time
-	}
-
 	const result = {
 		title: article.title || "Untitled Article",
-		url: normalizedUrl,
+		url,
 		content: sanitizedHtml, // Store sanitized HTML
 		excerpt,
-		author: article.byline || undefined,
-		siteName: article.siteName || new URL(normalizedUrl).hostname,
-		estimatedReadTime: finalEstimatedReadTime, // Use the adjusted value
+		author: article.byline || metadata.author,
+		publishedDate: fromRule.publishedDate ?? metadata.publishedDate,
+		siteName: article.siteName || new URL(url).hostname,
+		coverImage: metadata.coverImage,
+		language: metadata.language,
+		canonicalUrl: metadata.canonicalUrl,
+		estimatedReadTime: estimateReadTime(article.textContent || ""),
 		type: "article" as const, // Explicitly assert type
 		status: "inbox" as const, // Add default status with const assertion
 	};
 
-	return result;
+	return { article: result, nextPageUrl };
+}
+
+// Fetches the rest of a paginated article, up to MAX_ARTICLE_PAGES pages in
+// all, and joins it onto the first page. A page that can't be fetched ends
+// the article there instead of failing it.
+async function appendFollowingPages(first: ParsedPage): Promise<ParsedArticle> {
+	const contents = [first.article.content];
+	const visited = new Set([first.article.url]);
+	let nextPageUrl = first.nextPageUrl;
+
+	while (
+		nextPageUrl &&
+		!visited.has(nextPageUrl) &&
+		contents.length < MAX_ARTICLE_PAGES
+	) {
+		visited.add(nextPageUrl);
+		try {
+			const page = await parsePage(nextPageUrl);
+			contents.push(page.article.content);
+			nextPageUrl = page.nextPageUrl;
+		} catch (error) {
+			console.warn(
+				`Could not fetch page ${contents.length + 1} of ${first.article.url}:`,
+				error,
+			);
+			break;
+		}
+	}
+	if (contents.length === 1) {
+		return first.article;
+	}
+
+	console.log(`Joined ${contents.length} pages of ${first.article.url}`);
+	const content = sanitizeArticleHtml(
+		mergePageContents(contents, first.article.title),
+	);
+	return {
+		...first.article,
+		content,
+		estimatedReadTime: estimateReadTime(extractTextFromHtml(content)),
+	};
+}
+
+// Parse an article, following its pages when it's split over several
+export async function parseArticle(url: string): Promise<ParsedArticle> {
+	if (!isValidUrl(url)) {
+		throw new Error("Invalid URL");
+	}
+
+	const normalizedUrl = normalizeUrl(url);
+	const first = await parsePage(normalizedUrl, findSiteRule(normalizedUrl));
+	const article = first.nextPageUrl
+		? await appendFollowingPages(first)
+		: first.article;
+	// Pages that don't declare their language
+	return {
+		...article,
+		language:
+			article.language || detectLanguage(extractTextFromHtml(article.content)),
+	};
 }
 
 // Helper function to extract text content from HTML
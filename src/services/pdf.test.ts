@@ -0,0 +1,50 @@
+// src/services/pdf.test.ts
+
+import type { PDFPageProxy } from "pdfjs-dist";
+import { describe, expect, it } from "vitest";
+import { findPdfMatches, getPdfPageText } from "./pdf";
+
+// Just enough of a pdf.js page for text extraction
+const createPage = (
+	items: ({ str: string; hasEOL: boolean } | { type: string })[],
+) =>
+	({
+		getTextContent: async () => ({ items, styles: {}, lang: null }),
+	}) as unknown as PDFPageProxy;
+
+describe("pdf", () => {
+	describe("getPdfPageText", () => {
+		it("should join text items and keep line ends", async () => {
+			const page = createPage([
+				{ str: "First line ", hasEOL: true },
+				{ type: "beginMarkedContent" },
+				{ str: "second", hasEOL: false },
+				{ str: " line", hasEOL: false },
+			]);
+
+			expect(await getPdfPageText(page)).toBe("First line\nsecond line");
+		});
+	});
+
+	describe("findPdfMatches", () => {
+		const pages = [
+			"Introduction to pdf.js",
+			"Nothing here",
+			"PDF rendering and more PDF\nrendering",
+		];
+
+		it("should count case-insensitive matches per page", () => {
+			expect(findPdfMatches(pages, "pdf")).toEqual([
+				{ pageNumber: 1, count: 1 },
+				{ pageNumber: 3, count: 2 },
+			]);
+		});
+
+		it("should match phrases across line breaks and ignore empty queries", () => {
+			expect(findPdfMatches(pages, "more pdf rendering")).toEqual([
+				{ pageNumber: 3, count: 1 },
+			]);
+			expect(findPdfMatches(pages, "   ")).toEqual([]);
+		});
+	});
+});
@@ -1,8 +1,11 @@
 /**
  * PDF parsing utilities
- * Provides functions to extract metadata from PDF files
+ * Provides functions to open PDF files with pdf.js and extract their
+ * metadata and text
  */
 
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+
 // Helper function to convert ArrayBuffer to Base64
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
 	let binary = "";
@@ -49,39 +52,150 @@ export interface PdfMetadata {
 	publishedDate?: string;
 }
 
-// Extract basic metadata from a PDF file
-// Note: This is a simple implementation that extracts basic info from the filename
-// In a real implementation, you might use a PDF.js or similar library to extract actual metadata
+// Titles some tools write into every document, which say nothing about it
+const PLACEHOLDER_TITLE = /^(untitled|microsoft word - .*|document\d*)$/i;
+
+/**
+ * Loads pdf.js on first use (it's large) and opens a document with it.
+ * The worker is served as a separate asset by Vite.
+ *
+ * @param data - The PDF file. pdf.js takes ownership of the buffer, so pass a copy
+ *   if it is still needed.
+ * @returns The opened document. Call `destroy()` on it when done.
+ */
+export async function loadPdfDocument(
+	data: ArrayBuffer,
+): Promise<PDFDocumentProxy> {
+	const [pdfjs, { default: workerSrc }] = await Promise.all([
+		import("pdfjs-dist"),
+		import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+	]);
+	pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+	return pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+}
+
+/**
+ * Gets the plain text of one page, keeping the line breaks pdf.js reports.
+ */
+export async function getPdfPageText(page: PDFPageProxy): Promise<string> {
+	const content = await page.getTextContent();
+	return content.items
+		.map((item) =>
+			"str" in item ? `${item.str}${item.hasEOL ? "\n" : ""}` : "",
+		)
+		.join("")
+		.replace(/[ \t]+\n/g, "\n")
+		.trim();
+}
+
+/**
+ * Extracts the text of every page.
+ *
+ * @param pdf - The opened document.
+ * @param isCancelled - Checked between pages so long documents can be abandoned.
+ * @returns The text of each page, in page order (index 0 is page 1).
+ */
+export async function extractPdfText(
+	pdf: PDFDocumentProxy,
+	isCancelled: () => boolean = () => false,
+): Promise<string[]> {
+	const pages: string[] = [];
+	for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+		if (isCancelled()) break;
+		const page = await pdf.getPage(pageNumber);
+		pages.push(await getPdfPageText(page));
+		page.cleanup();
+	}
+	return pages;
+}
+
+/**
+ * Finds the pages that contain a search term (case-insensitive).
+ *
+ * @param pageTexts - Text of each page, as returned by `extractPdfText`.
+ * @param query - The text to look for.
+ * @returns Matching pages in order, with the number of matches on each.
+ */
+export function findPdfMatches(
+	pageTexts: string[],
+	query: string,
+): { pageNumber: number; count: number }[] {
+	const needle = query.trim().toLowerCase();
+	if (!needle) return [];
+	const matches: { pageNumber: number; count: number }[] = [];
+	pageTexts.forEach((text, index) => {
+		// Lines are joined with a space so phrases split across lines still match
+		const haystack = text.replace(/\s+/g, " ").toLowerCase();
+		let count = 0;
+		for (
+			let at = haystack.indexOf(needle);
+			at !== -1;
+			at = haystack.indexOf(needle, at + needle.length)
+		) {
+			count++;
+		}
+		if (count > 0) matches.push({ pageNumber: index + 1, count });
+	});
+	return matches;
+}
+
+// Reads a string entry from the PDF information dictionary
+const infoString = (info: Record<string, unknown>, key: string) => {
+	const value = info[key];
+	return typeof value === "string" && value.trim() ? value.trim() : undefined;
+};
+
+/**
+ * Extracts metadata from a PDF: title, author, subject, language and
+ * creation date from the document information (falling back to the XMP
+ * metadata for the title and author), and the real page count.
+ * Falls back to the file name when the PDF can't be read.
+ *
+ * @param file - The uploaded file, used for the fallback title.
+ * @param fileBuffer - The file's contents. Not modified.
+ * @returns The metadata.
+ */
 export async function extractPdfMetadata(
 	file: File,
-	_fileBuffer: ArrayBuffer, // Renamed to indicate it's unused
+	fileBuffer: ArrayBuffer,
 ): Promise<PdfMetadata> {
+	const fallbackTitle = file.name.replace(/\.pdf$/i, "");
+	let pdf: PDFDocumentProxy | null = null;
 	try {
-		// For now, we'll just extract basic info from the filename
-		// In a real implementation, you would use PDF.js to parse the PDF and extract metadata
-		const fileName = file.name;
-		const title = fileName.replace(/\.pdf$/i, "");
+		pdf = await loadPdfDocument(fileBuffer.slice(0));
+		const { info, metadata } = await pdf.getMetadata();
+		const fields = info as Record<string, unknown>;
 
-		// Estimate page count based on file size
-		// This is a very rough estimate - 100KB per page
-		const pageCount = Math.max(1, Math.floor(file.size / 100000));
+		const title =
+			[infoString(fields, "Title"), metadata?.get("dc:title") ?? undefined]
+				.map((value) => value?.trim())
+				.find((value) => value && !PLACEHOLDER_TITLE.test(value)) ??
+			fallbackTitle;
+		const author =
+			infoString(fields, "Author") ?? metadata?.get("dc:creator") ?? undefined;
+		const creationDate = infoString(fields, "CreationDate");
+		const { PDFDateString } = await import("pdfjs-dist");
+		const published = creationDate
+			? PDFDateString.toDateObject(creationDate)
+			: null;
 
 		return {
-			title: title,
-			author: "Unknown",
-			pageCount: pageCount,
-			description: `PDF Document: ${title}`,
-			language: "en",
+			title,
+			author: Array.isArray(author) ? author.join(", ") : author,
+			pageCount: pdf.numPages,
+			description: infoString(fields, "Subject") ?? `PDF Document: ${title}`,
+			language: infoString(fields, "Language"),
+			publishedDate: published?.toISOString(),
 		};
 	} catch (error) {
 		console.error("Error extracting PDF metadata:", error);
 		// Return minimal metadata if extraction fails
 		return {
-			title: file.name.replace(/\.pdf$/i, ""),
-			author: "Unknown",
+			title: fallbackTitle,
 			description: "No description available",
-			language: "en",
 		};
+	} finally {
+		await pdf?.destroy();
 	}
 }
 
@@ -0,0 +1,56 @@
+// src/services/search/analyzer.test.ts
+
+import { describe, expect, it } from "vitest";
+import { analyzeQuery, stem, tokenize } from "./analyzer";
+
+describe("analyzer", () => {
+	describe("stem", () => {
+		it.each([
+			["caresses", "caress"],
+			["ponies", "poni"],
+			["running", "run"],
+			["hopping", "hop"],
+			["connections", "connect"],
+			["relational", "relat"],
+			["generalization", "gener"],
+			["happy", "happi"],
+		])("should stem %s to %s", (word, expected) => {
+			expect(stem(word)).toBe(expected);
+		});
+
+		it("should leave short and non-Latin words alone", () => {
+			expect(stem("is")).toBe("is");
+			expect(stem("東京")).toBe("東京");
+		});
+	});
+
+	describe("tokenize", () => {
+		it("should normalize, stem and drop stop words while keeping offsets", () => {
+			const text = "The Cafés are running";
+			const tokens = tokenize(text);
+
+			expect(tokens.map((token) => token.term)).toEqual(["cafe", "run"]);
+			expect(tokens.map((token) => token.position)).toEqual([1, 3]);
+			expect(text.slice(tokens[0].start, tokens[0].end)).toBe("Cafés");
+		});
+	});
+
+	describe("analyzeQuery", () => {
+		it("should split phrases, terms and the trailing prefix", () => {
+			const query = analyzeQuery('"state of the art" search engi');
+
+			expect(query.phrases).toEqual([
+				{ terms: ["state", "art"], offsets: [0, 3] },
+			]);
+			expect(query.terms).toEqual(["state", "art", "search"]);
+			expect(query.prefix).toBe("engi");
+		});
+
+		it("should not treat a finished word as a prefix", () => {
+			const query = analyzeQuery("search engines ");
+
+			expect(query.terms).toEqual(["search", "engin"]);
+			expect(query.prefix).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,318 @@
+// src/services/search/analyzer.ts
+
+/**
+ * Text analysis shared by indexing, querying and snippet generation.
+ * Text is split into word tokens, lower-cased, stripped of diacritics and
+ * stemmed, so "Running", "runs" and "run" all index as the same term.
+ */
+
+export interface Token {
+	term: string; // Normalized, stemmed term
+	position: number; // Word position in the analyzed text (stop words included)
+	start: number; // Offset of the original word in the text
+	end: number;
+}
+
+export interface AnalyzedQuery {
+	terms: string[]; // Distinct terms that must all match
+	phrases: PhraseQuery[];
+	prefix?: string; // Trailing partial word (normalized, unstemmed)
+}
+
+export interface PhraseQuery {
+	terms: string[];
+	offsets: number[]; // Position of each term relative to the first
+}
+
+// Common English words that carry no meaning for search
+const STOP_WORDS = new Set(
+	(
+		"a an and are as at be but by for from has have he her his i if in into " +
+		"is it its me my no not of on or our she so than that the their them " +
+		"then there these they this to was we were what when which who will " +
+		"with you your"
+	).split(" "),
+);
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const DIACRITICS_PATTERN = /\p{M}/gu;
+const LATIN_WORD = /^[a-z]+$/;
+
+/**
+ * Lower-cases a word and strips accents ("Café" -> "cafe").
+ */
+export function normalizeWord(word: string): string {
+	return word.normalize("NFKD").replace(DIACRITICS_PATTERN, "").toLowerCase();
+}
+
+/**
+ * Splits text into indexable tokens.
+ * Stop words and single letters are dropped but still advance the position,
+ * so phrase queries keep their spacing.
+ *
+ * @param text - Plain text to analyze.
+ * @returns The tokens in text order.
+ */
+export function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	let position = 0;
+	for (const match of text.matchAll(WORD_PATTERN)) {
+		const word = normalizeWord(match[0]);
+		const index = match.index ?? 0;
+		if (!STOP_WORDS.has(word) && (word.length > 1 || /\d/.test(word))) {
+			tokens.push({
+				term: stem(word),
+				position,
+				start: index,
+				end: index + match[0].length,
+			});
+		}
+		position++;
+	}
+	return tokens;
+}
+
+/**
+ * Analyzes a free-text search query.
+ * Double-quoted parts become phrase queries; every other word must match.
+ * Unless the query ends in whitespace, its last word is treated as a prefix
+ * so results appear while the user is still typing.
+ *
+ * @param query - The raw query string.
+ * @returns The analyzed query.
+ */
+export function analyzeQuery(query: string): AnalyzedQuery {
+	const phrases: PhraseQuery[] = [];
+	const terms = new Set<string>();
+
+	const unquoted = query.replace(/"([^"]*)"?/g, (_match, phrase: string) => {
+		const tokens = tokenize(phrase);
+		if (tokens.length > 1) {
+			const first = tokens[0].position;
+			phrases.push({
+				terms: tokens.map((token) => token.term),
+				offsets: tokens.map((token) => token.position - first),
+			});
+		}
+		for (const token of tokens) {
+			terms.add(token.term);
+		}
+		return " ";
+	});
+
+	const words = tokenize(unquoted);
+	let prefix: string | undefined;
+	const lastWord = words[words.length - 1];
+	// Only a word that runs to the very end of the query is still being typed
+	if (lastWord && lastWord.end === unquoted.length) {
+		words.pop();
+		prefix = normalizeWord(unquoted.slice(lastWord.start, lastWord.end));
+	}
+	for (const word of words) {
+		terms.add(word.term);
+	}
+
+	return { terms: Array.from(terms), phrases, prefix };
+}
+
+// --- Porter stemmer ---
+// M. F. Porter, "An algorithm for suffix stripping", 1980.
+// Only applied to plain a-z words; other scripts are indexed unstemmed.
+
+const isConsonant = (word: string, i: number): boolean => {
+	const char = word[i];
+	if ("aeiou".includes(char)) return false;
+	if (char === "y") return i === 0 || !isConsonant(word, i - 1);
+	return true;
+};
+
+// Number of vowel-consonant sequences in the stem ("m" in the paper)
+const measure = (stem: string): number => {
+	let count = 0;
+	let i = 0;
+	const length = stem.length;
+	while (i < length && isConsonant(stem, i)) i++;
+	while (i < length) {
+		while (i < length && !isConsonant(stem, i)) i++;
+		if (i >= length) break;
+		while (i < length && isConsonant(stem, i)) i++;
+		count++;
+	}
+	return count;
+};
+
+const hasVowel = (stem: string): boolean => {
+	for (let i = 0; i < stem.length; i++) {
+		if (!isConsonant(stem, i)) return true;
+	}
+	return false;
+};
+
+const endsWithDoubleConsonant = (word: string): boolean => {
+	const length = word.length;
+	return (
+		length >= 2 &&
+		word[length - 1] === word[length - 2] &&
+		isConsonant(word, length - 1)
+	);
+};
+
+// Consonant-vowel-consonant ending where the last letter is not w, x or y
+const endsWithCvc = (word: string): boolean => {
+	const length = word.length;
+	return (
+		length >= 3 &&
+		isConsonant(word, length - 3) &&
+		!isConsonant(word, length - 2) &&
+		isConsonant(word, length - 1) &&
+		!"wxy".includes(word[length - 1])
+	);
+};
+
+// Replaces the first matching suffix whose stem has a measure above minMeasure
+const replaceSuffix = (
+	word: string,
+	rules: [string, string][],
+	minMeasure: number,
+): string => {
+	for (const [suffix, replacement] of rules) {
+		if (word.endsWith(suffix)) {
+			const stem = word.slice(0, -suffix.length);
+			return measure(stem) > minMeasure ? stem + replacement : word;
+		}
+	}
+	return word;
+};
+
+const STEP2_RULES: [string, string][] = [
+	["ational", "ate"],
+	["tional", "tion"],
+	["enci", "ence"],
+	["anci", "ance"],
+	["izer", "ize"],
+	["bli", "ble"],
+	["alli", "al"],
+	["entli", "ent"],
+	["eli", "e"],
+	["ousli", "ous"],
+	["ization", "ize"],
+	["ation", "ate"],
+	["ator", "ate"],
+	["alism", "al"],
+	["iveness", "ive"],
+	["fulness", "ful"],
+	["ousness", "ous"],
+	["aliti", "al"],
+	["iviti", "ive"],
+	["biliti", "ble"],
+	["logi", "log"],
+];
+
+const STEP3_RULES: [string, string][] = [
+	["icate", "ic"],
+	["ative", ""],
+	["alize", "al"],
+	["iciti", "ic"],
+	["ical", "ic"],
+	["ful", ""],
+	["ness", ""],
+];
+
+const STEP4_SUFFIXES = [
+	"al",
+	"ance",
+	"ence",
+	"er",
+	"ic",
+	"able",
+	"ible",
+	"ant",
+	"ement",
+	"ment",
+	"ent",
+	"ion",
+	"ou",
+	"ism",
+	"ate",
+	"iti",
+	"ous",
+	"ive",
+	"ize",
+];
+
+/**
+ * Reduces an English word to its Porter stem ("connections" -> "connect").
+ *
+ * @param word - A lower-cased word.
+ * @returns The stem, or the word itself if it is short or not plain a-z.
+ */
+export function stem(word: string): string {
+	if (word.length <= 2 || !LATIN_WORD.test(word)) {
+		return word;
+	}
+
+	let w = word;
+
+	// Step 1a: plurals
+	if (w.endsWith("sses")) w = w.slice(0, -2);
+	else if (w.endsWith("ies")) w = w.slice(0, -2);
+	else if (!w.endsWith("ss") && w.endsWith("s")) w = w.slice(0, -1);
+
+	// Step 1b: -ed and -ing
+	let cleanup = false;
+	if (w.endsWith("eed")) {
+		if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+	} else if (w.endsWith("ed") && hasVowel(w.slice(0, -2))) {
+		w = w.slice(0, -2);
+		cleanup = true;
+	} else if (w.endsWith("ing") && hasVowel(w.slice(0, -3))) {
+		w = w.slice(0, -3);
+		cleanup = true;
+	}
+	if (cleanup) {
+		if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) {
+			w += "e";
+		} else if (endsWithDoubleConsonant(w) && !"lsz".includes(w[w.length - 1])) {
+			w = w.slice(0, -1);
+		} else if (measure(w) === 1 && endsWithCvc(w)) {
+			w += "e";
+		}
+	}
+
+	// Step 1c: terminal y
+	if (w.endsWith("y") && hasVowel(w.slice(0, -1))) {
+		w = `${w.slice(0, -1)}i`;
+	}
+
+	// Steps 2 and 3: double and single suffixes
+	w = replaceSuffix(w, STEP2_RULES, 0);
+	w = replaceSuffix(w, STEP3_RULES, 0);
+
+	// Step 4: remove suffixes from longer stems
+	for (const suffix of STEP4_SUFFIXES) {
+		if (w.endsWith(suffix)) {
+			const candidate = w.slice(0, -suffix.length);
+			if (
+				measure(candidate) > 1 &&
+				(suffix !== "ion" || /[st]$/.test(candidate))
+			) {
+				w = candidate;
+			}
+			break;
+		}
+	}
+
+	// Step 5: tidy up final e and double l
+	if (w.endsWith("e")) {
+		const candidate = w.slice(0, -1);
+		const m = measure(candidate);
+		if (m > 1 || (m === 1 && !endsWithCvc(candidate))) {
+			w = candidate;
+		}
+	}
+	if (measure(w) > 1 && endsWithDoubleConsonant(w) && w.endsWith("l")) {
+		w = w.slice(0, -1);
+	}
+
+	return w;
+}
@@ -0,0 +1,150 @@
+// src/services/search/articleSearch.test.ts
+
+import { articlesDb, highlightsDb, searchIndexDb } from "@/services/db/config";
+import {
+	clearDb,
+	createArticle,
+	createHighlight,
+} from "@/test-utils/dbFixtures";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ArticleSearchIndex } from "./articleSearch";
+
+// Drops the index checkpoint too, which allDocs doesn't list
+const clearSearchIndex = async () => {
+	await clearDb(searchIndexDb);
+	try {
+		const checkpoint = await searchIndexDb.get("_local/search_checkpoint");
+		await searchIndexDb.remove(checkpoint);
+	} catch {
+		// No checkpoint yet
+	}
+};
+
+const resultIds = async (index: ArticleSearchIndex, query: string) =>
+	(await index.search(query)).hits.map((hit) => hit.articleId);
+
+describe("ArticleSearchIndex", () => {
+	let index: ArticleSearchIndex;
+
+	beforeEach(async () => {
+		await clearDb(articlesDb);
+		await clearDb(highlightsDb);
+		await clearSearchIndex();
+		await highlightsDb.createIndex({ index: { fields: ["articleId"] } });
+		index = new ArticleSearchIndex(articlesDb, highlightsDb, searchIndexDb);
+	});
+
+	afterEach(() => {
+		index.close();
+	});
+
+	it("should rank title matches above body matches and build snippets", async () => {
+		await articlesDb.bulkDocs([
+			createArticle("article_1", {
+				title: "Gardening basics",
+				content: "<p>Tomatoes need sun.</p><p>Water the gardens daily.</p>",
+			}),
+			createArticle("article_2", {
+				title: "Cooking at home",
+				content: "<p>Fresh tomatoes make the best sauce.</p>",
+			}),
+			createArticle("article_3", {
+				title: "Tomato varieties",
+				content: "<p>Heirloom picks.</p>",
+			}),
+		]);
+
+		const results = await index.search("tomatoes");
+
+		expect(results.total).toBe(3);
+		expect(results.hits[0].articleId).toBe("article_3");
+		const snippet = results.hits.find(
+			(hit) => hit.articleId === "article_2",
+		)?.snippet;
+		expect(snippet?.filter((segment) => segment.match)).toEqual([
+			{ text: "tomatoes", match: true },
+		]);
+		expect(snippet?.map((segment) => segment.text).join("")).toBe(
+			"Fresh tomatoes make the best sauce.",
+		);
+	});
+
+	it("should match phrases only in order", async () => {
+		await articlesDb.bulkDocs([
+			createArticle("article_1", {
+				title: "One",
+				content: "<p>The state of the art in search.</p>",
+			}),
+			createArticle("article_2", {
+				title: "Two",
+				content: "<p>The art of the state.</p>",
+			}),
+		]);
+
+		expect(await resultIds(index, '"state of the art"')).toEqual(["article_1"]);
+		expect((await resultIds(index, "state art ")).sort()).toEqual([
+			"article_1",
+			"article_2",
+		]);
+	});
+
+	it("should index highlights and notes and follow later changes", async () => {
+		await articlesDb.put(
+			createArticle("article_1", {
+				title: "Essay",
+				content: "<p>Body text.</p>",
+				note: "Remember the octopus argument",
+			}),
+		);
+		expect(await resultIds(index, "octopus ")).toEqual(["article_1"]);
+
+		await highlightsDb.put(
+			createHighlight("highlight_1", {
+				articleId: "article_1",
+				text: "Cephalopods are clever",
+			}),
+		);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		await index.flush();
+		expect(await resultIds(index, "cephalopod ")).toEqual(["article_1"]);
+
+		const highlight = await highlightsDb.get("highlight_1");
+		await highlightsDb.remove(highlight);
+		const article = await articlesDb.get("article_1");
+		await articlesDb.put({ ...article, title: "Renamed essay" });
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		await index.flush();
+
+		expect(await resultIds(index, "cephalopod ")).toEqual([]);
+		expect(await resultIds(index, "renamed ")).toEqual(["article_1"]);
+	});
+
+	it("should reload from persisted entries and catch up on missed changes", async () => {
+		await articlesDb.put(
+			createArticle("article_1", { title: "Quantum physics", content: "" }),
+		);
+		expect(await resultIds(index, "quantum ")).toEqual(["article_1"]);
+		index.close();
+
+		// Changes made while the index is closed are picked up on reopen
+		await articlesDb.put(
+			createArticle("article_2", { title: "Quantum computing", content: "" }),
+		);
+		const article = await articlesDb.get("article_1");
+		await articlesDb.remove(article);
+
+		const reopened = new ArticleSearchIndex(
+			articlesDb,
+			highlightsDb,
+			searchIndexDb,
+		);
+		try {
+			expect(await resultIds(reopened, "quantum ")).toEqual(["article_2"]);
+			expect(await resultIds(reopened, "quan")).toEqual(["article_2"]);
+			const entries = await searchIndexDb.allDocs();
+			expect(entries.rows.map((row) => row.id)).toEqual(["article_2"]);
+		} finally {
+			reopened.close();
+		}
+	});
+});
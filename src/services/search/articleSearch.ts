@@ -0,0 +1,505 @@
+// src/services/search/articleSearch.ts
+
+import { isNotFoundError } from "@/services/db/utils";
+import type { Article, Highlight, SearchIndexEntry } from "@/services/db/types";
+import { type AnalyzedQuery, analyzeQuery, stem } from "./analyzer";
+import {
+	analyzeArticle,
+	decodeTermPositions,
+	decodeTermWeights,
+	encodeTerms,
+	getArticleBodyText,
+} from "./document";
+import { InvertedIndex } from "./invertedIndex";
+import { type SnippetSegment, createSnippet, hasMatch } from "./snippets";
+
+/**
+ * Full-text search over articles, their highlights and notes.
+ *
+ * Ranking runs against an in-memory inverted index. Each article's analyzed
+ * terms are also persisted as a SearchIndexEntry, so on startup the index is
+ * rebuilt from those entries and only articles changed since the last
+ * checkpoint are re-analyzed. While open, the index follows the articles and
+ * highlights change feeds.
+ */
+
+export interface SearchOptions {
+	limit?: number;
+	offset?: number;
+	filter?: (articleId: string) => boolean; // Applied before paging
+}
+
+export interface SearchHit {
+	articleId: string;
+	score: number;
+	snippet: SnippetSegment[]; // Best matching passage, empty if none
+}
+
+export interface SearchResults {
+	hits: SearchHit[];
+	total: number; // Number of matching articles across all pages
+}
+
+interface SearchCheckpoint {
+	_id: string;
+	_rev?: string;
+	version: number;
+	articlesSeq: string | number;
+	highlightsSeq: string | number;
+}
+
+// Bump to rebuild every persisted entry after changing the analyzer
+const INDEX_VERSION = 1;
+const CHECKPOINT_ID = "_local/search_checkpoint";
+const BATCH_SIZE = 200;
+const FLUSH_DELAY_MS = 500;
+const DEFAULT_LIMIT = 50;
+
+// Lets the UI breathe between indexing batches
+const yieldToEventLoop = () =>
+	new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+type DeletedEntry = { _id: string; _rev: string; _deleted: true };
+
+const isDesignDoc = (id: string) => id.startsWith("_design/");
+
+export class ArticleSearchIndex {
+	private index = new InvertedIndex();
+	private highlightArticles = new Map<string, string>(); // Highlight ID -> article ID
+	private checkpoint: SearchCheckpoint = {
+		_id: CHECKPOINT_ID,
+		version: INDEX_VERSION,
+		articlesSeq: 0,
+		highlightsSeq: 0,
+	};
+	private opening: Promise<void> | null = null;
+	private feeds: (
+		| PouchDB.Core.Changes<Article>
+		| PouchDB.Core.Changes<Highlight>
+	)[] = [];
+	private pendingIds = new Set<string>();
+	private pendingSeqs: Partial<SearchCheckpoint> = {};
+	private flushTimer: ReturnType<typeof setTimeout> | null = null;
+	// Serializes index updates so batches never interleave
+	private updates: Promise<void> = Promise.resolve();
+
+	constructor(
+		private articlesDb: PouchDB.Database<Article>,
+		private highlightsDb: PouchDB.Database<Highlight>,
+		private entriesDb: PouchDB.Database<SearchIndexEntry>,
+	) {}
+
+	// The entries database also holds the checkpoint and deletion stubs
+	private get docs(): PouchDB.Database<
+		SearchIndexEntry | SearchCheckpoint | DeletedEntry
+	> {
+		return this.entriesDb;
+	}
+
+	/**
+	 * Loads the persisted index, indexes anything changed since the last
+	 * checkpoint and starts following changes. Safe to call repeatedly.
+	 */
+	open(): Promise<void> {
+		if (!this.opening) {
+			this.opening = this.load().catch((error) => {
+				console.error("Failed to open the search index:", error);
+				this.opening = null;
+				throw error;
+			});
+		}
+		return this.opening;
+	}
+
+	/**
+	 * Stops following changes. Pending updates are dropped and picked up from
+	 * the checkpoint next time the index is opened.
+	 */
+	close(): void {
+		for (const feed of this.feeds) {
+			feed.cancel();
+		}
+		this.feeds = [];
+		if (this.flushTimer) clearTimeout(this.flushTimer);
+		this.flushTimer = null;
+		this.pendingIds.clear();
+		this.pendingSeqs = {};
+		this.opening = null;
+	}
+
+	/**
+	 * Indexes any changes received but not yet processed.
+	 */
+	flush(): Promise<void> {
+		if (this.flushTimer) clearTimeout(this.flushTimer);
+		this.flushTimer = null;
+		const ids = Array.from(this.pendingIds);
+		const seqs = this.pendingSeqs;
+		this.pendingIds.clear();
+		this.pendingSeqs = {};
+		if (ids.length === 0 && Object.keys(seqs).length === 0) {
+			return this.updates;
+		}
+		return this.enqueue(async () => {
+			await this.reindex(ids);
+			await this.saveCheckpoint(seqs);
+		});
+	}
+
+	/**
+	 * Searches articles, their notes and their highlights.
+	 * Every word must match; quoted phrases must match in order, and the last
+	 * word also matches as a prefix while it's being typed.
+	 *
+	 * @param query - The search query.
+	 * @param options - Paging options and an optional article filter.
+	 * @returns The requested page of hits, best first, with snippets.
+	 */
+	async search(
+		query: string,
+		options: SearchOptions = {},
+	): Promise<SearchResults> {
+		const { limit = DEFAULT_LIMIT, offset = 0, filter } = options;
+		await this.open();
+		await this.updates;
+
+		const analyzed = analyzeQuery(query);
+		const groups = analyzed.terms.map((term) => [term]);
+		if (analyzed.prefix) {
+			groups.push([
+				stem(analyzed.prefix),
+				...this.index.expandPrefix(analyzed.prefix),
+			]);
+		}
+		if (groups.length === 0) return { hits: [], total: 0 };
+
+		let ranked = this.index.search(groups);
+		if (filter) {
+			ranked = ranked.filter((hit) => filter(hit.id));
+		}
+		if (analyzed.phrases.length > 0) {
+			ranked = await this.filterByPhrases(ranked, analyzed);
+		}
+
+		const page = ranked.slice(offset, offset + limit);
+		const snippets = await this.createSnippets(
+			page.map((hit) => hit.id),
+			analyzed,
+		);
+		return {
+			hits: page.map((hit) => ({
+				articleId: hit.id,
+				score: hit.score,
+				snippet: snippets.get(hit.id) ?? [],
+			})),
+			total: ranked.length,
+		};
+	}
+
+	private enqueue(task: () => Promise<void>): Promise<void> {
+		const run = this.updates.then(task);
+		// Keep the chain alive after a failed batch
+		this.updates = run.catch((error) => {
+			console.error("Search index update failed:", error);
+		});
+		return run;
+	}
+
+	private async load(): Promise<void> {
+		try {
+			const saved = await this.entriesDb.get<SearchCheckpoint>(CHECKPOINT_ID);
+			if (saved.version === INDEX_VERSION) {
+				this.checkpoint = saved;
+			} else {
+				console.log("Search index format changed, rebuilding.");
+				await this.clearEntries();
+				this.checkpoint = { ...this.checkpoint, _rev: saved._rev };
+			}
+		} catch (error) {
+			if (!isNotFoundError(error)) throw error;
+		}
+
+		await this.loadEntries();
+		await this.enqueue(() => this.catchUp());
+		this.follow();
+		console.log(`Search index ready with ${this.index.size} articles.`);
+	}
+
+	// Rebuilds the in-memory index from the persisted entries
+	private async loadEntries(): Promise<void> {
+		this.index.clear();
+		this.highlightArticles.clear();
+		let startkey: string | undefined;
+		while (true) {
+			const result = await this.entriesDb.allDocs({
+				include_docs: true,
+				limit: BATCH_SIZE + (startkey ? 1 : 0),
+				...(startkey && { startkey }),
+			});
+			const rows = startkey ? result.rows.slice(1) : result.rows;
+			if (rows.length === 0) break;
+			for (const row of rows) {
+				const entry = row.doc;
+				if (!entry || isDesignDoc(entry._id)) continue;
+				this.index.add(entry._id, decodeTermWeights(entry.terms), entry.length);
+				for (const highlightId of entry.highlightIds) {
+					this.highlightArticles.set(highlightId, entry._id);
+				}
+			}
+			startkey = rows[rows.length - 1].id;
+			await yieldToEventLoop();
+		}
+	}
+
+	// Indexes everything that changed since the checkpoint, in batches
+	private async catchUp(): Promise<void> {
+		// Highlight changes are few and small; collect their articles up front
+		const highlightArticleIds = new Set<string>();
+		const highlightChanges = await this.highlightsDb.changes({
+			since: this.checkpoint.highlightsSeq,
+			include_docs: true,
+		});
+		for (const change of highlightChanges.results) {
+			const articleId = this.getHighlightArticleId(change);
+			if (articleId) highlightArticleIds.add(articleId);
+		}
+
+		let since = this.checkpoint.articlesSeq;
+		while (true) {
+			const changes = await this.articlesDb.changes({
+				since,
+				limit: BATCH_SIZE,
+			});
+			if (changes.results.length === 0) break;
+			const ids = changes.results.map((change) => change.id);
+			for (const id of ids) highlightArticleIds.delete(id);
+			await this.reindex(ids);
+			since = changes.last_seq;
+			await this.saveCheckpoint({ articlesSeq: since });
+			await yieldToEventLoop();
+		}
+
+		const remaining = Array.from(highlightArticleIds);
+		for (let i = 0; i < remaining.length; i += BATCH_SIZE) {
+			await this.reindex(remaining.slice(i, i + BATCH_SIZE));
+		}
+		await this.saveCheckpoint({ highlightsSeq: highlightChanges.last_seq });
+	}
+
+	// Follows both change feeds, batching updates
+	private follow(): void {
+		const articlesFeed = this.articlesDb
+			.changes({ live: true, since: this.checkpoint.articlesSeq })
+			.on("change", (change) => {
+				this.schedule(change.id, { articlesSeq: change.seq });
+			})
+			.on("error", (error) => {
+				console.error("Search index article feed failed:", error);
+			});
+		const highlightsFeed = this.highlightsDb
+			.changes({
+				live: true,
+				since: this.checkpoint.highlightsSeq,
+				include_docs: true,
+			})
+			.on("change", (change) => {
+				this.schedule(this.getHighlightArticleId(change), {
+					highlightsSeq: change.seq,
+				});
+			})
+			.on("error", (error) => {
+				console.error("Search index highlight feed failed:", error);
+			});
+		this.feeds = [articlesFeed, highlightsFeed];
+	}
+
+	private schedule(
+		articleId: string | undefined,
+		seqs: Partial<SearchCheckpoint>,
+	): void {
+		if (articleId) this.pendingIds.add(articleId);
+		Object.assign(this.pendingSeqs, seqs);
+		if (this.flushTimer) clearTimeout(this.flushTimer);
+		this.flushTimer = setTimeout(() => {
+			this.flush().catch(() => {
+				// Logged by enqueue; the checkpoint was not advanced
+			});
+		}, FLUSH_DELAY_MS);
+	}
+
+	// Deleted highlights no longer carry their article ID, so fall back to the index
+	private getHighlightArticleId(
+		change: PouchDB.Core.ChangesResponseChange<Highlight>,
+	): string | undefined {
+		return change.doc?.articleId ?? this.highlightArticles.get(change.id);
+	}
+
+	// Re-analyzes the given articles and persists their entries
+	private async reindex(ids: string[]): Promise<void> {
+		const articleIds = Array.from(new Set(ids)).filter(
+			(id) => !isDesignDoc(id),
+		);
+		if (articleIds.length === 0) return;
+
+		const [articles, highlights, entries] = await Promise.all([
+			this.articlesDb.allDocs({ keys: articleIds, include_docs: true }),
+			this.highlightsDb.find({
+				selector: { articleId: { $in: articleIds } },
+			}),
+			this.entriesDb.allDocs({ keys: articleIds }),
+		]);
+
+		const highlightsByArticle = new Map<string, Highlight[]>();
+		for (const highlight of highlights.docs) {
+			const list = highlightsByArticle.get(highlight.articleId) ?? [];
+			list.push(highlight);
+			highlightsByArticle.set(highlight.articleId, list);
+		}
+		const entryRevs = new Map<string, string>();
+		for (const row of entries.rows) {
+			if ("value" in row && !row.value.deleted) {
+				entryRevs.set(row.id, row.value.rev);
+			}
+		}
+
+		const writes: (SearchIndexEntry | DeletedEntry)[] = [];
+		for (const row of articles.rows) {
+			const articleId = row.key;
+			const article = "doc" in row ? row.doc : undefined;
+			const rev = entryRevs.get(articleId);
+			for (const [highlightId, owner] of this.highlightArticles) {
+				if (owner === articleId) this.highlightArticles.delete(highlightId);
+			}
+
+			if (!article) {
+				this.index.remove(articleId);
+				if (rev) {
+					writes.push({ _id: articleId, _rev: rev, _deleted: true });
+				}
+				continue;
+			}
+
+			const articleHighlights = highlightsByArticle.get(articleId) ?? [];
+			const terms = analyzeArticle(article, articleHighlights);
+			this.index.add(articleId, terms.weights, terms.length);
+			for (const highlight of articleHighlights) {
+				this.highlightArticles.set(highlight._id, articleId);
+			}
+			writes.push({
+				_id: articleId,
+				...(rev && { _rev: rev }),
+				terms: encodeTerms(terms),
+				length: terms.length,
+				highlightIds: articleHighlights.map((highlight) => highlight._id),
+			});
+		}
+
+		if (writes.length > 0) {
+			const results = await this.docs.bulkDocs(writes);
+			const errors = results.filter(
+				(res): res is PouchDB.Core.Error => "error" in res && !!res.error,
+			);
+			if (errors.length > 0) {
+				// The in-memory index is current; the entries are rewritten on the next change
+				console.warn(`Failed to persist ${errors.length} search entries.`);
+			}
+		}
+	}
+
+	private async saveCheckpoint(seqs: Partial<SearchCheckpoint>): Promise<void> {
+		if (Object.keys(seqs).length === 0) return;
+		const checkpoint: PouchDB.Core.PutDocument<SearchCheckpoint> = {
+			...this.checkpoint,
+			...seqs,
+		};
+		const response = await this.docs.put(checkpoint);
+		this.checkpoint = { ...checkpoint, _rev: response.rev };
+	}
+
+	private async clearEntries(): Promise<void> {
+		const result = await this.entriesDb.allDocs();
+		const deletions = result.rows
+			.filter((row) => !isDesignDoc(row.id))
+			.map(
+				(row): DeletedEntry => ({
+					_id: row.id,
+					_rev: row.value.rev,
+					_deleted: true,
+				}),
+			);
+		if (deletions.length > 0) {
+			await this.docs.bulkDocs(deletions);
+		}
+	}
+
+	// Keeps the hits whose stored term positions contain every phrase
+	private async filterByPhrases<T extends { id: string }>(
+		hits: T[],
+		query: AnalyzedQuery,
+	): Promise<T[]> {
+		const phraseTerms = new Set(
+			query.phrases.flatMap((phrase) => phrase.terms),
+		);
+		const matching: T[] = [];
+		for (let i = 0; i < hits.length; i += BATCH_SIZE) {
+			const batch = hits.slice(i, i + BATCH_SIZE);
+			const entries = await this.entriesDb.allDocs({
+				keys: batch.map((hit) => hit.id),
+				include_docs: true,
+			});
+			entries.rows.forEach((row, index) => {
+				const entry = "doc" in row ? row.doc : undefined;
+				if (!entry) return;
+				const positions = decodeTermPositions(entry.terms, phraseTerms);
+				const matchesAll = query.phrases.every((phrase) => {
+					const termPositions = phrase.terms.map(
+						(term) => new Set(positions.get(term) ?? []),
+					);
+					return Array.from(termPositions[0]).some((start) =>
+						phrase.offsets.every((offset, termIndex) =>
+							termPositions[termIndex].has(start + offset),
+						),
+					);
+				});
+				if (matchesAll) matching.push(batch[index]);
+			});
+		}
+		return matching;
+	}
+
+	// Snippets come from the first field that matches: body, note, then highlights
+	private async createSnippets(
+		articleIds: string[],
+		query: AnalyzedQuery,
+	): Promise<Map<string, SnippetSegment[]>> {
+		const snippets = new Map<string, SnippetSegment[]>();
+		if (articleIds.length === 0) return snippets;
+
+		const [articles, highlights] = await Promise.all([
+			this.articlesDb.allDocs({ keys: articleIds, include_docs: true }),
+			this.highlightsDb.find({
+				selector: { articleId: { $in: articleIds } },
+			}),
+		]);
+
+		for (const row of articles.rows) {
+			const article = "doc" in row ? row.doc : undefined;
+			if (!article) continue;
+			const body = getArticleBodyText(article);
+			const candidates = [
+				body,
+				article.note ?? "",
+				...highlights.docs
+					.filter((highlight) => highlight.articleId === article._id)
+					.flatMap((highlight) => [highlight.text, highlight.note ?? ""]),
+			];
+			const text =
+				candidates.find(
+					(candidate) => candidate && hasMatch(candidate, query),
+				) ??
+				(body || article.excerpt);
+			snippets.set(article._id, createSnippet(text, query));
+		}
+		return snippets;
+	}
+}
@@ -0,0 +1,169 @@
+// src/services/search/document.ts
+
+import type { Article, Highlight } from "@/services/db/types";
+import { tokenize } from "./analyzer";
+
+/**
+ * Turns an article and its highlights into the terms stored in the search
+ * index, and encodes them compactly for the persisted index entry.
+ */
+
+// Relative importance of each field when ranking
+const FIELD_WEIGHTS = {
+	title: 3,
+	author: 2,
+	siteName: 1,
+	excerpt: 1,
+	content: 1,
+	highlights: 2,
+	note: 2,
+} as const;
+
+// Position gap between fields so phrases never match across them
+const FIELD_GAP = 16;
+
+// Block elements whose text must not run into the next element's
+const BLOCK_ELEMENTS =
+	"address,article,aside,blockquote,br,dd,div,dl,dt,figcaption,figure,footer," +
+	"h1,h2,h3,h4,h5,h6,header,hr,li,main,nav,ol,p,pre,section,table,td,th,tr,ul";
+
+export interface DocumentTerms {
+	weights: Map<string, number>; // Weighted frequency of each term
+	positions: Map<string, number[]>; // Positions of each term, ascending
+	length: number; // Weighted number of terms
+}
+
+/**
+ * Extracts readable text from article HTML, keeping block elements apart.
+ *
+ * @param html - The HTML to convert.
+ * @returns Plain text with whitespace collapsed.
+ */
+export function htmlToText(html: string): string {
+	if (!html) return "";
+	const doc = new DOMParser().parseFromString(html, "text/html");
+	for (const element of doc.body.querySelectorAll("script,style,noscript")) {
+		element.remove();
+	}
+	for (const element of doc.body.querySelectorAll(BLOCK_ELEMENTS)) {
+		element.append(" ");
+	}
+	return (doc.body.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Returns the searchable body text of an article.
+ * PDFs and EPUBs keep file data rather than text in `content`, so only their
+ * metadata is searchable.
+ */
+export function getArticleBodyText(article: Article): string {
+	if (article.type === "pdf" || article.type === "epub") return "";
+	return htmlToText(article.content);
+}
+
+/**
+ * Analyzes every searchable field of an article.
+ *
+ * @param article - The article to index.
+ * @param highlights - The article's highlights; their text and notes are indexed with it.
+ * @returns The article's weighted terms and their positions.
+ */
+export function analyzeArticle(
+	article: Article,
+	highlights: Highlight[],
+): DocumentTerms {
+	const fields: [string, number][] = [
+		[article.title, FIELD_WEIGHTS.title],
+		[article.author ?? "", FIELD_WEIGHTS.author],
+		[article.siteName ?? "", FIELD_WEIGHTS.siteName],
+		[article.excerpt, FIELD_WEIGHTS.excerpt],
+		[getArticleBodyText(article), FIELD_WEIGHTS.content],
+		[article.note ?? "", FIELD_WEIGHTS.note],
+		...highlights.flatMap((highlight): [string, number][] => [
+			[highlight.text, FIELD_WEIGHTS.highlights],
+			[highlight.note ?? "", FIELD_WEIGHTS.highlights],
+		]),
+	];
+
+	const weights = new Map<string, number>();
+	const positions = new Map<string, number[]>();
+	let length = 0;
+	let offset = 0;
+
+	for (const [text, weight] of fields) {
+		if (!text) continue;
+		const tokens = tokenize(text);
+		for (const token of tokens) {
+			weights.set(token.term, (weights.get(token.term) ?? 0) + weight);
+			const termPositions = positions.get(token.term);
+			const position = offset + token.position;
+			if (termPositions) {
+				termPositions.push(position);
+			} else {
+				positions.set(token.term, [position]);
+			}
+		}
+		length += tokens.length * weight;
+		const lastToken = tokens[tokens.length - 1];
+		offset += (lastToken ? lastToken.position + 1 : 0) + FIELD_GAP;
+	}
+
+	return { weights, positions, length };
+}
+
+// Entries are stored as "term:weight:positions" separated by spaces, with
+// positions delta-encoded in base 36. Terms only contain letters and digits.
+
+/**
+ * Encodes analyzed terms for storage.
+ */
+export function encodeTerms(terms: DocumentTerms): string {
+	const parts: string[] = [];
+	for (const [term, weight] of terms.weights) {
+		let previous = 0;
+		const deltas = (terms.positions.get(term) ?? []).map((position) => {
+			const delta = position - previous;
+			previous = position;
+			return delta.toString(36);
+		});
+		parts.push(`${term}:${weight}:${deltas.join(",")}`);
+	}
+	return parts.join(" ");
+}
+
+/**
+ * Decodes the weight of every term in an encoded entry.
+ */
+export function decodeTermWeights(encoded: string): Map<string, number> {
+	const weights = new Map<string, number>();
+	if (!encoded) return weights;
+	for (const part of encoded.split(" ")) {
+		const [term, weight] = part.split(":");
+		weights.set(term, Number(weight));
+	}
+	return weights;
+}
+
+/**
+ * Decodes the positions of the given terms in an encoded entry.
+ */
+export function decodeTermPositions(
+	encoded: string,
+	terms: Set<string>,
+): Map<string, number[]> {
+	const positions = new Map<string, number[]>();
+	if (!encoded) return positions;
+	for (const part of encoded.split(" ")) {
+		const [term, , deltas] = part.split(":");
+		if (!terms.has(term)) continue;
+		let position = 0;
+		positions.set(
+			term,
+			deltas.split(",").map((delta) => {
+				position += Number.parseInt(delta, 36);
+				return position;
+			}),
+		);
+	}
+	return positions;
+}
@@ -0,0 +1,52 @@
+// src/services/search/index.ts
+
+import { articlesDb, highlightsDb, searchIndexDb } from "@/services/db";
+import {
+	ArticleSearchIndex,
+	type SearchOptions,
+	type SearchResults,
+} from "./articleSearch";
+
+export { ArticleSearchIndex } from "./articleSearch";
+export type { SearchHit, SearchOptions, SearchResults } from "./articleSearch";
+export type { SnippetSegment } from "./snippets";
+
+let articleSearch: ArticleSearchIndex | null = null;
+
+// Created lazily so it binds to the databases chosen by initializeDatabase
+function getArticleSearch(): ArticleSearchIndex {
+	if (!articleSearch) {
+		articleSearch = new ArticleSearchIndex(
+			articlesDb,
+			highlightsDb,
+			searchIndexDb,
+		);
+	}
+	return articleSearch;
+}
+
+/**
+ * Opens the search index in the background so it's current before the
+ * first search. Call after the database is initialized.
+ */
+export function startSearchIndex(): void {
+	getArticleSearch()
+		.open()
+		.catch(() => {
+			// Logged by the index; the next search retries
+		});
+}
+
+/**
+ * Full-text search over article content, highlights and notes.
+ *
+ * @param query - The search query. Quote words to match them as a phrase.
+ * @param options - Paging options.
+ * @returns The matching articles, best first, with highlighted snippets.
+ */
+export function searchArticles(
+	query: string,
+	options?: SearchOptions,
+): Promise<SearchResults> {
+	return getArticleSearch().search(query, options);
+}
@@ -0,0 +1,46 @@
+// src/services/search/invertedIndex.test.ts
+
+import { describe, expect, it } from "vitest";
+import { InvertedIndex } from "./invertedIndex";
+
+const terms = (...entries: [string, number][]) => new Map(entries);
+
+describe("InvertedIndex", () => {
+	it("should rank documents with more weight for rare terms higher", () => {
+		const index = new InvertedIndex();
+		index.add("a", terms(["search", 1], ["index", 1]), 10);
+		index.add("b", terms(["search", 3], ["index", 1]), 10);
+		index.add("c", terms(["index", 1]), 10);
+
+		const results = index.search([["search"], ["index"]]);
+
+		expect(results.map((result) => result.id)).toEqual(["b", "a"]);
+	});
+
+	it("should match any term within a group", () => {
+		const index = new InvertedIndex();
+		index.add("a", terms(["engine", 1]), 5);
+		index.add("b", terms(["engineer", 1]), 5);
+		index.add("c", terms(["motor", 1]), 5);
+
+		const expanded = index.expandPrefix("engin");
+		const results = index.search([expanded]);
+
+		expect(expanded.sort()).toEqual(["engine", "engineer"]);
+		expect(results.map((result) => result.id).sort()).toEqual(["a", "b"]);
+	});
+
+	it("should replace and remove documents, compacting the postings", () => {
+		const index = new InvertedIndex();
+		index.add("a", terms(["old", 1]), 5);
+		index.add("b", terms(["old", 1]), 5);
+		index.add("a", terms(["new", 1]), 5);
+		index.remove("b");
+		index.remove("missing");
+
+		expect(index.size).toBe(1);
+		expect(index.search([["old"]])).toEqual([]);
+		expect(index.search([["new"]]).map((result) => result.id)).toEqual(["a"]);
+		expect(index.expandPrefix("old")).toEqual([]);
+	});
+});
@@ -0,0 +1,207 @@
+// src/services/search/invertedIndex.ts
+
+/**
+ * In-memory inverted index with BM25 ranking.
+ *
+ * Each term maps to a flat postings array of [docNum, weight, docNum, weight, ...]
+ * pairs. Documents get increasing numbers as they are added, so postings stay
+ * sorted without any re-sorting. Removing a document only tombstones its
+ * number; the postings are compacted once tombstones pile up.
+ */
+
+// BM25 tuning: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Compact once this fraction of document numbers are tombstones
+const COMPACTION_RATIO = 0.25;
+
+export interface ScoredDocument {
+	id: string;
+	score: number;
+}
+
+export class InvertedIndex {
+	private postings = new Map<string, number[]>();
+	private docIds: (string | null)[] = []; // docNum -> ID, null when removed
+	private docLengths: number[] = [];
+	private docNums = new Map<string, number>();
+	private totalLength = 0;
+	private tombstones = 0;
+
+	/** Number of indexed documents. */
+	get size(): number {
+		return this.docNums.size;
+	}
+
+	has(id: string): boolean {
+		return this.docNums.has(id);
+	}
+
+	/**
+	 * Adds a document, replacing any previous version with the same ID.
+	 *
+	 * @param id - The document ID.
+	 * @param termWeights - Weighted frequency of each term in the document.
+	 * @param length - Weighted length of the document.
+	 */
+	add(id: string, termWeights: Map<string, number>, length: number): void {
+		this.remove(id);
+		const docNum = this.docIds.length;
+		this.docIds.push(id);
+		this.docLengths.push(length);
+		this.docNums.set(id, docNum);
+		this.totalLength += length;
+
+		for (const [term, weight] of termWeights) {
+			const list = this.postings.get(term);
+			if (list) {
+				list.push(docNum, weight);
+			} else {
+				this.postings.set(term, [docNum, weight]);
+			}
+		}
+	}
+
+	/**
+	 * Removes a document. Does nothing if it isn't indexed.
+	 */
+	remove(id: string): void {
+		const docNum = this.docNums.get(id);
+		if (docNum === undefined) return;
+		this.docNums.delete(id);
+		this.docIds[docNum] = null;
+		this.totalLength -= this.docLengths[docNum];
+		this.tombstones++;
+		if (this.tombstones > this.docIds.length * COMPACTION_RATIO) {
+			this.compact();
+		}
+	}
+
+	clear(): void {
+		this.postings.clear();
+		this.docIds = [];
+		this.docLengths = [];
+		this.docNums.clear();
+		this.totalLength = 0;
+		this.tombstones = 0;
+	}
+
+	/**
+	 * Lists indexed terms starting with the given prefix.
+	 */
+	expandPrefix(prefix: string): string[] {
+		const terms: string[] = [];
+		for (const term of this.postings.keys()) {
+			if (term.startsWith(prefix)) {
+				terms.push(term);
+			}
+		}
+		return terms;
+	}
+
+	/**
+	 * Ranks the documents that match every group of terms.
+	 * A document matches a group when it contains any of the group's terms,
+	 * which is how prefix expansions are combined.
+	 *
+	 * @param groups - Term groups that must all match.
+	 * @returns Matching documents, best first.
+	 */
+	search(groups: string[][]): ScoredDocument[] {
+		if (groups.length === 0 || this.size === 0) return [];
+
+		const documentCount = this.size;
+		const averageLength = this.totalLength / documentCount || 1;
+
+		// Score each group separately, then keep the documents found by all
+		const groupScores = groups.map((terms) => {
+			const scores = new Map<number, number>();
+			for (const term of new Set(terms)) {
+				const list = this.postings.get(term);
+				if (!list) continue;
+				const documentFrequency = this.countLive(list);
+				const idf = Math.log(
+					1 +
+						(documentCount - documentFrequency + 0.5) /
+							(documentFrequency + 0.5),
+				);
+				for (let i = 0; i < list.length; i += 2) {
+					const docNum = list[i];
+					if (this.docIds[docNum] === null) continue;
+					const weight = list[i + 1];
+					const lengthNorm =
+						1 - B + (B * this.docLengths[docNum]) / averageLength;
+					const score = (idf * weight * (K1 + 1)) / (weight + K1 * lengthNorm);
+					scores.set(docNum, (scores.get(docNum) ?? 0) + score);
+				}
+			}
+			return scores;
+		});
+
+		groupScores.sort((a, b) => a.size - b.size);
+		const [smallest, ...rest] = groupScores;
+		const results: ScoredDocument[] = [];
+		for (const [docNum, score] of smallest) {
+			let total = score;
+			let matchesAll = true;
+			for (const scores of rest) {
+				const groupScore = scores.get(docNum);
+				if (groupScore === undefined) {
+					matchesAll = false;
+					break;
+				}
+				total += groupScore;
+			}
+			const id = this.docIds[docNum];
+			if (matchesAll && id !== null) {
+				results.push({ id, score: total });
+			}
+		}
+
+		return results.sort((a, b) => b.score - a.score);
+	}
+
+	// Number of live documents in a postings list
+	private countLive(list: number[]): number {
+		if (this.tombstones === 0) return list.length / 2;
+		let count = 0;
+		for (let i = 0; i < list.length; i += 2) {
+			if (this.docIds[list[i]] !== null) count++;
+		}
+		return count;
+	}
+
+	// Renumbers live documents and drops tombstoned postings
+	private compact(): void {
+		const renumbered = new Map<number, number>();
+		const docIds: string[] = [];
+		const docLengths: number[] = [];
+		this.docIds.forEach((id, docNum) => {
+			if (id === null) return;
+			renumbered.set(docNum, docIds.length);
+			this.docNums.set(id, docIds.length);
+			docIds.push(id);
+			docLengths.push(this.docLengths[docNum]);
+		});
+
+		for (const [term, list] of this.postings) {
+			const compacted: number[] = [];
+			for (let i = 0; i < list.length; i += 2) {
+				const docNum = renumbered.get(list[i]);
+				if (docNum !== undefined) {
+					compacted.push(docNum, list[i + 1]);
+				}
+			}
+			if (compacted.length > 0) {
+				this.postings.set(term, compacted);
+			} else {
+				this.postings.delete(term);
+			}
+		}
+
+		this.docIds = docIds;
+		this.docLengths = docLengths;
+		this.tombstones = 0;
+	}
+}
@@ -0,0 +1,113 @@
+// src/services/search/snippets.ts
+
+import { type AnalyzedQuery, normalizeWord, stem, tokenize } from "./analyzer";
+
+/**
+ * Builds short result snippets around the query's matches.
+ */
+
+export interface SnippetSegment {
+	text: string;
+	match: boolean; // True when the segment is a matched word
+}
+
+const DEFAULT_SNIPPET_LENGTH = 200;
+const ELLIPSIS = "…";
+
+// Returns whether a token of the text matches the query
+const createMatcher = (query: AnalyzedQuery) => {
+	const terms = new Set(query.terms);
+	const prefix = query.prefix;
+	if (prefix) terms.add(stem(prefix));
+	return (term: string, word: string) =>
+		terms.has(term) || (!!prefix && normalizeWord(word).startsWith(prefix));
+};
+
+/**
+ * Checks whether any word of the text matches the query.
+ */
+export function hasMatch(text: string, query: AnalyzedQuery): boolean {
+	const matches = createMatcher(query);
+	return tokenize(text).some((token) =>
+		matches(token.term, text.slice(token.start, token.end)),
+	);
+}
+
+/**
+ * Cuts the passage of the text with the most distinct query matches and
+ * splits it into plain and matched segments.
+ * Falls back to the start of the text when nothing matches.
+ *
+ * @param text - Plain text to take the snippet from.
+ * @param query - The analyzed search query.
+ * @param maxLength - Approximate maximum snippet length in characters.
+ * @returns The snippet segments, empty if the text is empty.
+ */
+export function createSnippet(
+	text: string,
+	query: AnalyzedQuery,
+	maxLength = DEFAULT_SNIPPET_LENGTH,
+): SnippetSegment[] {
+	if (!text) return [];
+	const matches = createMatcher(query);
+	const matched = tokenize(text).filter((token) =>
+		matches(token.term, text.slice(token.start, token.end)),
+	);
+
+	// Slide a window over the matches to find the densest passage
+	let bestStart = 0;
+	let bestEnd = 0;
+	let bestDistinct = 0;
+	let bestCount = 0;
+	let left = 0;
+	for (let right = 0; right < matched.length; right++) {
+		while (matched[right].end - matched[left].start > maxLength) left++;
+		const window = matched.slice(left, right + 1);
+		const distinct = new Set(window.map((token) => token.term)).size;
+		if (
+			distinct > bestDistinct ||
+			(distinct === bestDistinct && window.length > bestCount)
+		) {
+			bestDistinct = distinct;
+			bestCount = window.length;
+			bestStart = left;
+			bestEnd = right;
+		}
+	}
+
+	// Center the passage on the matches, snapped to word boundaries
+	let start = 0;
+	if (matched.length > 0) {
+		const matchStart = matched[bestStart].start;
+		const matchEnd = matched[bestEnd].end;
+		const context = Math.max(0, (maxLength - (matchEnd - matchStart)) / 2);
+		start = Math.max(0, Math.floor(matchStart - context));
+		if (start > 0) {
+			const boundary = text.indexOf(" ", start);
+			start =
+				boundary === -1 || boundary >= matchStart ? matchStart : boundary + 1;
+		}
+	}
+	let end = Math.min(text.length, start + maxLength);
+	if (end < text.length) {
+		const boundary = text.lastIndexOf(" ", end);
+		if (boundary > start) end = boundary;
+	}
+
+	const segments: SnippetSegment[] = [];
+	const pushText = (value: string, match: boolean) => {
+		if (value) segments.push({ text: value, match });
+	};
+	let cursor = start;
+	for (const token of matched) {
+		if (token.start < start || token.end > end) continue;
+		pushText(text.slice(cursor, token.start), false);
+		pushText(text.slice(token.start, token.end), true);
+		cursor = token.end;
+	}
+	pushText(text.slice(cursor, end), false);
+
+	if (start > 0) segments.unshift({ text: ELLIPSIS, match: false });
+	if (end < text.length) segments.push({ text: ELLIPSIS, match: false });
+	return segments;
+}
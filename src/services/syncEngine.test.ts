@@ -0,0 +1,394 @@
+// src/services/syncEngine.test.ts
+
+import PouchDBAdapterMemory from "pouchdb-adapter-memory";
+import PouchDB from "pouchdb-browser";
+import { createArticle } from "@/test-utils/dbFixtures";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CloudSyncStatus } from "./cloudSync";
+import type { Article } from "./db";
+import {
+	type RemotePullResult,
+	type SyncRemote,
+	createCloudRemote,
+	getSyncCheckpoint,
+	syncArticles,
+} from "./syncEngine";
+
+if (typeof PouchDB.plugin === "function") {
+	PouchDB.plugin(PouchDBAdapterMemory);
+}
+
+const USER_ID = "test-user";
+
+// jsdom's Blob has no text() or arrayBuffer()
+const readBlob = (blob: Blob) =>
+	new Promise<string>((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsText(blob);
+	});
+
+/**
+ * In-memory stand-in for the worker's KV store.
+ * Values are stored as JSON under `${userId}:${itemId}`, like the worker does.
+ */
+class MemoryKvRemote implements SyncRemote {
+	store = new Map<string, string>();
+	files = new Map<string, string>();
+	failPushFor = new Set<string>();
+
+	constructor(private userId: string) {}
+
+	async pull(): Promise<RemotePullResult> {
+		const items = Array.from(this.store.entries())
+			.filter(([key]) => key.startsWith(`${this.userId}:`))
+			.map(([, value]) => JSON.parse(value) as Article);
+		return { items, deletedIds: [], lastSeq: null, snapshot: true };
+	}
+
+	async push(article: Article): Promise<CloudSyncStatus> {
+		if (this.failPushFor.has(article._id)) return "error";
+		this.store.set(`${this.userId}:${article._id}`, JSON.stringify(article));
+		return "success";
+	}
+
+	async remove(articleId: string): Promise<CloudSyncStatus> {
+		const key = `${this.userId}:${articleId}`;
+		if (!this.store.has(key)) return "not_found";
+		this.store.delete(key);
+		return "success";
+	}
+
+	async uploadFile(article: Article, file: Blob): Promise<CloudSyncStatus> {
+		if (this.failPushFor.has(article._id)) return "error";
+		this.files.set(`${this.userId}:${article._id}`, await readBlob(file));
+		return "success";
+	}
+
+	async downloadFile(articleId: string): Promise<Blob | null> {
+		const file = this.files.get(`${this.userId}:${articleId}`);
+		if (!file) return null;
+		// PouchDB's Node build, used with the memory adapter, stores Buffers rather than Blobs
+		return Buffer.from(file) as unknown as Blob;
+	}
+
+	getItem(articleId: string): Article | undefined {
+		const value = this.store.get(`${this.userId}:${articleId}`);
+		return value ? JSON.parse(value) : undefined;
+	}
+}
+
+let dbCounter = 0;
+
+describe("syncArticles", () => {
+	let db: PouchDB.Database<Article>;
+	let remote: MemoryKvRemote;
+
+	beforeEach(() => {
+		dbCounter++;
+		db = new PouchDB<Article>(`sync_engine_test_${dbCounter}`, {
+			adapter: "memory",
+		});
+		remote = new MemoryKvRemote(USER_ID);
+	});
+
+	afterEach(async () => {
+		await db.destroy();
+	});
+
+	it("pushes local articles and pulls remote ones", async () => {
+		await db.put(createArticle("article_local", { title: "Local" }));
+		await remote.push(createArticle("article_remote", { title: "Remote" }));
+
+		const result = await syncArticles({ userId: USER_ID, remote, db });
+
+		expect(result.pushed).toBe(1);
+		expect(result.pulled).toBe(1);
+		expect(remote.getItem("article_local")?.title).toBe("Local");
+		const pulled = await db.get("article_remote");
+		expect(pulled.title).toBe("Remote");
+		expect(pulled.userId).toBe(USER_ID);
+	});
+
+	it("does not push back articles it just pulled", async () => {
+		await remote.push(createArticle("article_remote", { title: "Remote" }));
+		await syncArticles({ userId: USER_ID, remote, db });
+
+		const second = await syncArticles({ userId: USER_ID, remote, db });
+
+		expect(second.pushed).toBe(0);
+		expect(second.pulled).toBe(0);
+	});
+
+	it("only pushes changes made since the checkpoint", async () => {
+		await db.put(createArticle("article_1", { title: "One" }));
+		await syncArticles({ userId: USER_ID, remote, db });
+
+		const doc = await db.get("article_1");
+		await db.put({ ...doc, isRead: true });
+		await db.put(createArticle("article_2", { title: "Two" }));
+
+		const result = await syncArticles({ userId: USER_ID, remote, db });
+
+		expect(result.pushed).toBe(2);
+		expect(remote.getItem("article_1")?.isRead).toBe(true);
+		expect(remote.getItem("article_2")).toBeDefined();
+	});
+
+	it("pushes local deletions as remote deletes", async () => {
+		await db.put(createArticle("article_1", { title: "One" }));
+		await syncArticles({ userId: USER_ID, remote, db });
+
+		const doc = await db.get("article_1");
+		await db.remove(doc);
+		const result = await syncArticles({ userId: USER_ID, remote, db });
+
+		expect(result.pushedDeletes).toBe(1);
+		expect(remote.getItem("article_1")).toBeUndefined();
+	});
+
+	it("applies articles deleted remotely as local tombstones", async () => {
+		await remote.push(createArticle("article_1", { title: "One" }));
+		await remote.push(createArticle("article_2", { title: "Two" }));
+		await syncArticles({ userId: USER_ID, remote, db });
+
+		await remote.remove("article_1"); // Deleted on another device
+		const result = await syncArticles({ userId: USER_ID, remote, db });
+
+		expect(result.deletedLocally).toBe(1);
+		await expect(db.get("article_1")).rejects.toMatchObject({
+			name: "not_found",
+		});
+		expect((await db.get("article_2")).title).toBe("Two");
+	});
+
+	it("keeps local articles that were never pushed", async () => {
+		remote.failPushFor.add("article_1");
+		await db.put(createArticle("article_1", { title: "One" }));
+
+		const result = await syncArticles({ userId: USER_ID, remote, db });
+
+		expect(result.failed).toBe(1);
+		expect((await db.get("article_1")).title).toBe("One");
+
+		remote.failPushFor.clear();
+		const retry = await syncArticles({ userId: USER_ID, remote, db });
+		expect(retry.pushed).toBe(1);
+		expect(remote.getItem("article_1")).toBeDefined();
+	});
+
+	it("merges local and remote edits to different fields", async () => {
+		await db.put(createArticle("article_1", { title: "One" }));
+		await syncArticles({ userId: USER_ID, remote, db });
+
+		// Favorited on another device...
+		await remote.push({
+			...createArticle("article_1", { title: "One" }),
+			favorite: true,
+			fieldTimestamps: { favorite: 2000 },
+		});
+		// ...and marked read locally while the push fails, so the pull must merge
+		const local = await db.get("article_1");
+		await db.put({ ...local, isRead: true, fieldTimestamps: { isRead: 3000 } });
+		remote.failPushFor.add("article_1");
+
+		await syncArticles({ userId: USER_ID, remote, db });
+
+		const merged = await db.get("article_1");
+		expect(merged.favorite).toBe(true);
+		expect(merged.isRead).toBe(true);
+	});
+
+	it("resolves PouchDB conflicts before pushing", async () => {
+		await db.bulkDocs(
+			[
+				{
+					...createArticle("article_1", { title: "One" }),
+					_rev: "1-aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+					favorite: true,
+					fieldTimestamps: { favorite: 2000 },
+				},
+				{
+					...createArticle("article_1", { title: "One" }),
+					_rev: "1-bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb",
+					isRead: true,
+					fieldTimestamps: { isRead: 3000 },
+				},
+			],
+			{ new_edits: false },
+		);
+
+		const result = await syncArticles({ userId: USER_ID, remote, db });
+
+		expect(result.conflictsResolved).toBe(1);
+		const pushed = remote.getItem("article_1");
+		expect(pushed?.favorite).toBe(true);
+		expect(pushed?.isRead).toBe(true);
+	});
+
+	it("resolves conflicts the push didn't touch after pulling", async () => {
+		// Conflicts in another account's articles, e.g. replicated from another tab
+		await db.bulkDocs(
+			[
+				{
+					...createArticle("article_other", { title: "Other" }),
+					userId: "someone-else",
+					_rev: "1-aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+					favorite: true,
+					fieldTimestamps: { favorite: 2000 },
+				},
+				{
+					...createArticle("article_other", { title: "Other" }),
+					userId: "someone-else",
+					_rev: "1-bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb",
+					isRead: true,
+					fieldTimestamps: { isRead: 3000 },
+				},
+			],
+			{ new_edits: false },
+		);
+
+		const result = await syncArticles({ userId: USER_ID, remote, db });
+
+		expect(result.conflictsResolved).toBe(1);
+		expect(result.conflicted).toEqual([]);
+		expect(remote.getItem("article_other")).toBeUndefined();
+		const merged = await db.get("article_other", { conflicts: true });
+		expect(merged._conflicts).toBeUndefined();
+		expect(merged.favorite).toBe(true);
+		expect(merged.isRead).toBe(true);
+	});
+
+	it("skips articles owned by other users", async () => {
+		await db.put({
+			...createArticle("article_other", { title: "Other" }),
+			userId: "x",
+		});
+
+		const result = await syncArticles({ userId: USER_ID, remote, db });
+
+		expect(result.pushed).toBe(0);
+		expect(remote.getItem("article_other")).toBeUndefined();
+	});
+
+	it("persists a per-device checkpoint", async () => {
+		await db.put(createArticle("article_1", { title: "One" }));
+		await syncArticles({ userId: USER_ID, remote, db });
+
+		const checkpoint = await getSyncCheckpoint(USER_ID, db);
+		expect(checkpoint.deviceId).toMatch(/^device_/);
+		expect(checkpoint.remoteIds).toEqual(["article_1"]);
+		expect(checkpoint.lastSyncedAt).toBeDefined();
+
+		await syncArticles({ userId: USER_ID, remote, db });
+		const after = await getSyncCheckpoint(USER_ID, db);
+		expect(after.deviceId).toBe(checkpoint.deviceId);
+	});
+
+	describe("files", () => {
+		const createPdf = (id: string): Article => ({
+			...createArticle(id, { title: "Paper" }),
+			type: "pdf",
+			content: "PDF content is stored as an attachment.",
+		});
+		const pdfBytes = "%PDF-1.4 test";
+
+		it("uploads a file attachment separately, once per version", async () => {
+			await db.put({
+				...createPdf("article_pdf"),
+				_attachments: {
+					file: {
+						content_type: "application/pdf",
+						data: btoa(pdfBytes),
+					},
+				},
+			});
+
+			const result = await syncArticles({ userId: USER_ID, remote, db });
+
+			expect(result.filesUploaded).toBe(1);
+			expect(remote.getItem("article_pdf")?._attachments).toBeUndefined();
+			expect(remote.files.get(`${USER_ID}:article_pdf`)).toBe(pdfBytes);
+
+			// Editing the article alone doesn't upload the file again
+			const doc = await db.get("article_pdf");
+			await db.put({ ...doc, isRead: true });
+			const second = await syncArticles({ userId: USER_ID, remote, db });
+			expect(second.pushed).toBe(1);
+			expect(second.filesUploaded).toBe(0);
+		});
+
+		it("downloads the file of a pulled PDF into an attachment", async () => {
+			await remote.push(createPdf("article_pdf"));
+			await remote.uploadFile(createPdf("article_pdf"), new Blob([pdfBytes]));
+
+			const result = await syncArticles({ userId: USER_ID, remote, db });
+
+			expect(result.filesDownloaded).toBe(1);
+			const file = await db.getAttachment("article_pdf", "file");
+			expect(file.toString()).toBe(pdfBytes);
+
+			const second = await syncArticles({ userId: USER_ID, remote, db });
+			expect(second.pushed).toBe(0);
+			expect(second.filesUploaded).toBe(0);
+		});
+
+		it("retries downloads of files not uploaded yet", async () => {
+			await remote.push(createPdf("article_pdf"));
+			const first = await syncArticles({ userId: USER_ID, remote, db });
+			expect(first.filesDownloaded).toBe(0);
+
+			await remote.uploadFile(createPdf("article_pdf"), new Blob([pdfBytes]));
+			const second = await syncArticles({ userId: USER_ID, remote, db });
+
+			expect(second.filesDownloaded).toBe(1);
+			expect((await getSyncCheckpoint(USER_ID, db)).pendingDownloads).toEqual(
+				[],
+			);
+		});
+
+		it("turns inline fileData from older clients into an attachment", async () => {
+			await remote.push({
+				...createPdf("article_pdf"),
+				fileData: btoa(pdfBytes),
+			});
+
+			await syncArticles({ userId: USER_ID, remote, db });
+
+			const doc = await db.get("article_pdf");
+			expect(doc.fileData).toBeUndefined();
+			expect(doc._attachments?.file.content_type).toBe("application/pdf");
+		});
+	});
+});
+
+describe("createCloudRemote", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("signs pushes and deletes with the token", async () => {
+		const fetchSpy = vi
+			.spyOn(globalThis, "fetch")
+			.mockImplementation(async () => new Response(null, { status: 200 }));
+		const cloud = createCloudRemote("session-token");
+
+		await expect(
+			cloud.push(createArticle("article_1", { title: "One" })),
+		).resolves.toBe("success");
+		await expect(cloud.remove("article_1")).resolves.toBe("success");
+
+		const [[pushUrl, push], [removeUrl, remove]] = fetchSpy.mock.calls;
+		expect(pushUrl).toMatch(/\/items$/);
+		expect(push?.method).toBe("POST");
+		expect(push?.headers).toMatchObject({
+			Authorization: "Bearer session-token",
+		});
+		expect(removeUrl).toMatch(/\/items\/article_1$/);
+		expect(remove?.method).toBe("DELETE");
+		expect(remove?.headers).toMatchObject({
+			Authorization: "Bearer session-token",
+		});
+	});
+});
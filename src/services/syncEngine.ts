@@ -0,0 +1,563 @@
+// src/services/syncEngine.ts
+/**
+ * Bidirectional sync between the local `articlesDb` and the sync worker.
+ *
+ * A sync round first pushes every local change recorded in the PouchDB
+ * changes feed since the last checkpoint (including deletions), then pulls
+ * the remote changes since the last remote cursor and applies them locally,
+ * turning remote tombstones into local deletions. Progress is persisted in a
+ * per-device `_local` checkpoint document, which PouchDB never replicates.
+ *
+ * PDF and EPUB files travel separately from the article documents: a file is
+ * uploaded after its article whenever its attachment digest changes, and
+ * downloaded into an attachment after pulling an article that has none.
+ */
+import { v4 as uuidv4 } from "uuid";
+import {
+	type CloudSyncStatus,
+	deleteItemFromCloud,
+	fetchCloudChanges,
+	fetchFileFromCloud,
+	saveItemToCloud,
+	uploadFileToCloud,
+} from "./cloudSync";
+import {
+	type Article,
+	FILE_CONTENT_TYPES,
+	articlesDb,
+	fileAttachment,
+	getArticleFile,
+	getArticleFileDigest,
+	getConflictedArticleIds,
+	isNotFoundError,
+	mergeArticles,
+	putArticleFile,
+	resolveAllArticleConflicts,
+	resolveArticleConflicts,
+} from "./db";
+
+/**
+ * Result of a remote pull.
+ * When `snapshot` is true, `items` holds the complete remote set and any
+ * previously known remote ID missing from it is treated as a tombstone.
+ */
+export interface RemotePullResult {
+	items: Article[];
+	deletedIds: string[];
+	lastSeq: string | null;
+	snapshot: boolean;
+}
+
+/**
+ * Transport used by the sync engine to talk to the remote store.
+ * The production implementation talks to the worker (see `createCloudRemote`);
+ * tests can provide an in-memory stand-in.
+ */
+export interface SyncRemote {
+	pull(since: string | null): Promise<RemotePullResult>;
+	push(article: Article): Promise<CloudSyncStatus>;
+	remove(articleId: string): Promise<CloudSyncStatus>;
+	uploadFile(article: Article, file: Blob): Promise<CloudSyncStatus>;
+	downloadFile(articleId: string): Promise<Blob | null>; // null if the remote has no file
+}
+
+/**
+ * Per-device sync progress, stored as a `_local` document in `articlesDb`.
+ */
+export interface SyncCheckpoint {
+	_id: string;
+	_rev?: string;
+	deviceId: string;
+	localSeq: number | string; // Last local changes-feed sequence pushed
+	remoteSeq: string | null; // Cursor returned by the last remote pull
+	remoteIds: string[]; // IDs known to exist remotely after the last round
+	pulledRevs: string[]; // `${id}@${rev}` written by pulls, skipped on push
+	uploadedFiles?: Record<string, string>; // Article ID -> digest of the file the remote has
+	pendingDownloads?: string[]; // IDs of pulled PDFs/EPUBs whose file is still to be fetched
+	lastSyncedAt?: number;
+}
+
+/**
+ * Summary of a completed sync round.
+ */
+export interface SyncResult {
+	pushed: number;
+	pushedDeletes: number;
+	pulled: number;
+	deletedLocally: number;
+	filesUploaded: number;
+	filesDownloaded: number;
+	conflictsResolved: number;
+	conflicted: string[]; // Articles whose conflicts couldn't be resolved
+	failed: number;
+}
+
+export interface SyncOptions {
+	userId: string;
+	remote: SyncRemote;
+	db?: PouchDB.Database<Article>;
+}
+
+const CHECKPOINT_PREFIX = "_local/sync_checkpoint_";
+
+const checkpointId = (userId: string) => `${CHECKPOINT_PREFIX}${userId}`;
+
+// Checkpoints live in the articles DB but are not articles
+const checkpointStore = (db: PouchDB.Database<Article>) =>
+	db as unknown as PouchDB.Database<SyncCheckpoint>;
+
+const revKey = (id: string, rev: string) => `${id}@${rev}`;
+
+/**
+ * Loads the sync checkpoint for a user, creating a fresh one (with a new
+ * device ID) if this device has never synced.
+ */
+export async function getSyncCheckpoint(
+	userId: string,
+	db: PouchDB.Database<Article> = articlesDb,
+): Promise<SyncCheckpoint> {
+	try {
+		return await checkpointStore(db).get(checkpointId(userId));
+	} catch (error) {
+		if (!isNotFoundError(error)) {
+			throw error;
+		}
+		console.log(
+			`Sync: No checkpoint found for user ${userId}, starting fresh.`,
+		);
+		return {
+			_id: checkpointId(userId),
+			deviceId: `device_${uuidv4()}`,
+			localSeq: 0,
+			remoteSeq: null,
+			remoteIds: [],
+			pulledRevs: [],
+		};
+	}
+}
+
+async function saveSyncCheckpoint(
+	checkpoint: SyncCheckpoint,
+	db: PouchDB.Database<Article>,
+): Promise<SyncCheckpoint> {
+	const response = await checkpointStore(db).put(checkpoint);
+	return { ...checkpoint, _rev: response.rev };
+}
+
+/**
+ * Fixes up a remote item before it is stored locally.
+ * Files sent inline by older clients, in `fileData` or even in `content`,
+ * become a file attachment; otherwise the file is downloaded after the pull.
+ */
+export function normalizeRemoteArticle(
+	article: Article,
+	userId: string,
+): Article {
+	// Remote revisions and attachment stubs never match local ones, so drop them
+	const {
+		_rev: _remoteRev,
+		_attachments: _remoteAttachments,
+		fileData,
+		...rest
+	} = article;
+	const normalized: Article = { ...rest, userId };
+
+	if (normalized.type === "epub" || normalized.type === "pdf") {
+		const label = normalized.type === "epub" ? "EPUB" : "PDF";
+		let inlineFile = fileData;
+		if (!inlineFile && normalized.content && normalized.content.length > 100) {
+			console.warn(
+				`Sync: Migrating ${label} ${normalized._id} from content to an attachment.`,
+			);
+			inlineFile = normalized.content;
+		}
+		if (inlineFile) {
+			normalized._attachments = fileAttachment(
+				inlineFile.replace(/^data:[^,]*,/, ""),
+				FILE_CONTENT_TYPES[normalized.type],
+			);
+		}
+		normalized.content = `${label} content is stored as an attachment.`;
+	}
+	return normalized;
+}
+
+// True when both versions hold the same value for every field but `_rev`.
+function isUnchanged(existing: Article, merged: Article): boolean {
+	const keys = new Set([...Object.keys(existing), ...Object.keys(merged)]);
+	return [...keys].every(
+		(key) =>
+			key === "_rev" ||
+			JSON.stringify(existing[key as keyof Article]) ===
+				JSON.stringify(merged[key as keyof Article]),
+	);
+}
+
+/**
+ * Merges a remote article into the local database.
+ * @returns The `${id}@${rev}` key of the written revision, or null if the
+ *          local copy was already up to date.
+ */
+async function applyRemoteArticle(
+	db: PouchDB.Database<Article>,
+	incoming: Article,
+): Promise<string | null> {
+	let existing: Article | null = null;
+	try {
+		existing = await db.get(incoming._id);
+	} catch (error) {
+		if (!isNotFoundError(error)) throw error;
+	}
+
+	// Field-level merge so local edits made since the last push survive
+	const docToSave = existing ? mergeArticles(existing, incoming) : incoming;
+	if (existing && isUnchanged(existing, docToSave)) {
+		return null;
+	}
+	const response = await db.put(docToSave);
+	return revKey(incoming._id, response.rev);
+}
+
+/**
+ * Applies a remote tombstone by deleting the local document, if present.
+ * @returns The `${id}@${rev}` key of the deletion, or null if nothing was deleted.
+ */
+async function applyRemoteDeletion(
+	db: PouchDB.Database<Article>,
+	articleId: string,
+): Promise<string | null> {
+	try {
+		const existing = await db.get(articleId);
+		const response = await db.remove(existing);
+		return revKey(articleId, response.rev);
+	} catch (error) {
+		if (isNotFoundError(error)) return null;
+		throw error;
+	}
+}
+
+const isPushSuccess = (status: CloudSyncStatus) =>
+	status === "success" || status === "not_found";
+
+/**
+ * Uploads an article's file if the remote doesn't have this version of it.
+ * @returns The upload status, or null if there was nothing to upload.
+ */
+async function pushArticleFile(
+	db: PouchDB.Database<Article>,
+	remote: SyncRemote,
+	article: Article,
+	uploadedFiles: Record<string, string>,
+): Promise<CloudSyncStatus | null> {
+	const digest = getArticleFileDigest(article);
+	if (!digest || uploadedFiles[article._id] === digest) return null;
+
+	const file = await getArticleFile(article._id, db);
+	if (!file) return null;
+	const { _attachments, ...metadata } = article;
+	const status = await remote.uploadFile(metadata, file);
+	if (isPushSuccess(status)) {
+		uploadedFiles[article._id] = digest;
+	}
+	return status;
+}
+
+// Outcome of fetching the file of a pulled article
+type FileDownload =
+	| { downloaded: false; pending: boolean }
+	| { downloaded: true; written: string; digest: string };
+
+/**
+ * Downloads the file of a pulled PDF or EPUB that has none locally yet and
+ * stores it as the article's attachment.
+ */
+async function downloadArticleFile(
+	db: PouchDB.Database<Article>,
+	remote: SyncRemote,
+	articleId: string,
+): Promise<FileDownload> {
+	let article: Article;
+	try {
+		article = await db.get(articleId);
+	} catch (error) {
+		if (isNotFoundError(error)) return { downloaded: false, pending: false };
+		throw error;
+	}
+	if (
+		(article.type !== "pdf" && article.type !== "epub") ||
+		getArticleFileDigest(article) ||
+		article.fileData
+	) {
+		return { downloaded: false, pending: false };
+	}
+
+	const file = await remote.downloadFile(articleId);
+	if (!file) {
+		// The other device may not have uploaded it yet; try again next round
+		console.warn(`Sync: File of ${articleId} is not available remotely yet.`);
+		return { downloaded: false, pending: true };
+	}
+	const rev = await putArticleFile(
+		articleId,
+		file,
+		FILE_CONTENT_TYPES[article.type],
+		db,
+	);
+	const digest = getArticleFileDigest(await db.get(articleId)) ?? "";
+	return { downloaded: true, written: revKey(articleId, rev), digest };
+}
+
+/**
+ * Pushes local changes since the checkpoint to the remote.
+ * Stops at the first failed change so the next round resumes from there.
+ */
+async function pushLocalChanges(
+	db: PouchDB.Database<Article>,
+	remote: SyncRemote,
+	userId: string,
+	checkpoint: SyncCheckpoint,
+	result: SyncResult,
+): Promise<SyncCheckpoint> {
+	const pulledRevs = new Set(checkpoint.pulledRevs);
+	const remoteIds = new Set(checkpoint.remoteIds);
+	const uploadedFiles = { ...checkpoint.uploadedFiles };
+	const changes = await db.changes<Article>({
+		since: checkpoint.localSeq,
+		include_docs: true,
+		conflicts: true,
+	});
+	let localSeq = checkpoint.localSeq;
+	let completed = true;
+
+	for (const change of changes.results) {
+		const rev = change.changes[0]?.rev;
+		const isOwnWrite = rev && pulledRevs.has(revKey(change.id, rev));
+
+		if (!change.id.startsWith("_design/") && !isOwnWrite) {
+			let status: CloudSyncStatus | null = null;
+			if (change.deleted) {
+				status = await remote.remove(change.id);
+				if (isPushSuccess(status)) {
+					remoteIds.delete(change.id);
+					delete uploadedFiles[change.id];
+					result.pushedDeletes++;
+				}
+			} else if (change.doc && change.doc.userId === userId) {
+				let doc: Article = change.doc;
+				if (change.doc._conflicts?.length) {
+					// Settle PouchDB conflicts so only the merged revision is pushed
+					const resolved = await resolveArticleConflicts(change.id, db);
+					if (resolved) {
+						doc = resolved;
+						result.conflictsResolved++;
+					}
+				}
+				const { _attachments, ...metadata } = doc;
+				status = await remote.push(metadata);
+				if (isPushSuccess(status)) {
+					remoteIds.add(change.id);
+					result.pushed++;
+					const fileStatus = await pushArticleFile(
+						db,
+						remote,
+						doc,
+						uploadedFiles,
+					);
+					if (fileStatus) {
+						status = fileStatus;
+						if (isPushSuccess(fileStatus)) result.filesUploaded++;
+					}
+				}
+			}
+
+			if (status && !isPushSuccess(status)) {
+				console.warn(
+					`Sync: Failed to push change for ${change.id} (status: ${status}). Will retry next round.`,
+				);
+				result.failed++;
+				completed = false;
+				break;
+			}
+		}
+		localSeq = change.seq;
+	}
+
+	return {
+		...checkpoint,
+		localSeq,
+		remoteIds: Array.from(remoteIds),
+		uploadedFiles,
+		// Pulled revisions are only needed until the feed has moved past them
+		pulledRevs: completed ? [] : checkpoint.pulledRevs,
+	};
+}
+
+/**
+ * Pulls remote changes since the checkpoint and applies them locally.
+ */
+async function pullRemoteChanges(
+	db: PouchDB.Database<Article>,
+	remote: SyncRemote,
+	userId: string,
+	checkpoint: SyncCheckpoint,
+	result: SyncResult,
+): Promise<SyncCheckpoint> {
+	const pullResult = await remote.pull(checkpoint.remoteSeq);
+	const remoteIds = new Set(pullResult.snapshot ? [] : checkpoint.remoteIds);
+	const deletedIds = new Set(pullResult.deletedIds);
+	const pulledRevs: string[] = [...checkpoint.pulledRevs];
+	const uploadedFiles = { ...checkpoint.uploadedFiles };
+	const pendingDownloads = new Set(checkpoint.pendingDownloads);
+
+	for (const item of pullResult.items) {
+		remoteIds.add(item._id);
+	}
+	if (pullResult.snapshot) {
+		// Anything we knew about remotely that is gone now was deleted elsewhere
+		for (const knownId of checkpoint.remoteIds) {
+			if (!remoteIds.has(knownId)) deletedIds.add(knownId);
+		}
+	}
+
+	for (const item of pullResult.items) {
+		if (!item._id || !item.title || !item.url || !item.content) {
+			console.warn(
+				`Sync: Skipping incomplete remote article ${item._id} (missing title, url, or content)`,
+			);
+			continue;
+		}
+		try {
+			const written = await applyRemoteArticle(
+				db,
+				normalizeRemoteArticle(item, userId),
+			);
+			if (written) {
+				pulledRevs.push(written);
+				result.pulled++;
+			}
+			if (item.type === "pdf" || item.type === "epub") {
+				pendingDownloads.add(item._id);
+			}
+		} catch (error) {
+			console.warn(`Sync: Failed to apply remote article ${item._id}:`, error);
+			result.failed++;
+		}
+	}
+
+	for (const deletedId of deletedIds) {
+		remoteIds.delete(deletedId);
+		pendingDownloads.delete(deletedId);
+		delete uploadedFiles[deletedId];
+		try {
+			const written = await applyRemoteDeletion(db, deletedId);
+			if (written) {
+				pulledRevs.push(written);
+				result.deletedLocally++;
+			}
+		} catch (error) {
+			console.warn(
+				`Sync: Failed to apply remote deletion ${deletedId}:`,
+				error,
+			);
+			result.failed++;
+		}
+	}
+
+	for (const articleId of pendingDownloads) {
+		try {
+			const download = await downloadArticleFile(db, remote, articleId);
+			if (download.downloaded) {
+				pulledRevs.push(download.written);
+				// The remote already has this file, so don't upload it back
+				uploadedFiles[articleId] = download.digest;
+				result.filesDownloaded++;
+			}
+			if (!download.downloaded && download.pending) continue;
+			pendingDownloads.delete(articleId);
+		} catch (error) {
+			console.warn(`Sync: Failed to download file of ${articleId}:`, error);
+			result.failed++;
+		}
+	}
+
+	return {
+		...checkpoint,
+		remoteSeq: pullResult.lastSeq,
+		remoteIds: Array.from(remoteIds),
+		pulledRevs,
+		uploadedFiles,
+		pendingDownloads: Array.from(pendingDownloads),
+	};
+}
+
+/**
+ * Runs one full sync round (push, then pull) for a user and persists the
+ * updated checkpoint.
+ *
+ * @returns Counts of what was pushed, pulled and deleted.
+ * @throws If the remote pull fails or the checkpoint cannot be stored.
+ */
+export async function syncArticles({
+	userId,
+	remote,
+	db = articlesDb,
+}: SyncOptions): Promise<SyncResult> {
+	const result: SyncResult = {
+		pushed: 0,
+		pushedDeletes: 0,
+		pulled: 0,
+		deletedLocally: 0,
+		filesUploaded: 0,
+		filesDownloaded: 0,
+		conflictsResolved: 0,
+		conflicted: [],
+		failed: 0,
+	};
+
+	let checkpoint = await getSyncCheckpoint(userId, db);
+	console.log(
+		`Sync: Starting round for user ${userId} on ${checkpoint.deviceId} (local seq ${checkpoint.localSeq}, remote seq ${checkpoint.remoteSeq ?? "none"})`,
+	);
+
+	try {
+		checkpoint = await pushLocalChanges(db, remote, userId, checkpoint, result);
+		checkpoint = await pullRemoteChanges(
+			db,
+			remote,
+			userId,
+			checkpoint,
+			result,
+		);
+		// Conflicts can also come from other tabs or PouchDB replication; the
+		// merged revisions are pushed next round
+		result.conflictsResolved += (await resolveAllArticleConflicts(db)).length;
+		result.conflicted = await getConflictedArticleIds(db);
+		checkpoint.lastSyncedAt = Date.now();
+	} finally {
+		// Persist whatever progress was made, even if the pull failed
+		await saveSyncCheckpoint(checkpoint, db);
+	}
+
+	console.log("Sync: Round complete:", result);
+	return result;
+}
+
+/**
+ * Creates a `SyncRemote` backed by the sync worker's incremental
+ * /items/changes feed.
+ */
+export function createCloudRemote(
+	token: string,
+	email?: string | null,
+): SyncRemote {
+	return {
+		pull: async (since) => ({
+			...(await fetchCloudChanges(token, since, email)),
+			snapshot: false,
+		}),
+		push: (article) => saveItemToCloud(article, token),
+		remove: (articleId) => deleteItemFromCloud(articleId, token),
+		uploadFile: (article, file) => uploadFileToCloud(article, file, token),
+		downloadFile: (articleId) => fetchFileFromCloud(articleId, token),
+	};
+}
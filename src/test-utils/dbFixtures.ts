@@ -0,0 +1,59 @@
+// src/test-utils/dbFixtures.ts
+
+import type { Article, Highlight, Tag } from "@/services/db/types";
+
+// Documents with every required field, for seeding the test databases
+
+export const createArticle = (
+	id: string,
+	overrides: Partial<Article> = {},
+): Article => ({
+	_id: id,
+	userId: "test-user",
+	url: `https://example.com/${id}`,
+	title: id,
+	content: "Content",
+	excerpt: "Excerpt",
+	savedAt: 1000,
+	status: "inbox",
+	isRead: false,
+	favorite: false,
+	tags: [],
+	type: "article",
+	...overrides,
+});
+
+export const createHighlight = (
+	id: string,
+	overrides: Partial<Highlight> = {},
+): Highlight => ({
+	_id: id,
+	articleId: "article_1",
+	text: "Quote",
+	color: "#FEF08A",
+	createdAt: 1000,
+	position: { start: 0, end: 5 },
+	tags: [],
+	...overrides,
+});
+
+export const createTag = (id: string, name: string): Tag => ({
+	_id: id,
+	name,
+	color: "#3B82F6",
+	createdAt: 1000,
+});
+
+// Removes every document, index design docs included, from a database
+export const clearDb = async (db: PouchDB.Database) => {
+	const allDocs = await db.allDocs();
+	if (allDocs.rows.length > 0) {
+		await db.bulkDocs(
+			allDocs.rows.map((row) => ({
+				_id: row.id,
+				_rev: row.value.rev,
+				_deleted: true,
+			})),
+		);
+	}
+};
@@ -11,8 +11,8 @@ declare module "epubjs" {
 		width(): number;
 		height(): number;
 		element(query: string): Element;
-		window(): Window;
-		document(): Document;
+		window: Window;
+		document: Document;
 		range(cfi: string): Range;
 		text(cfi: string): string;
 		cfiFromRange(range: Range): string;
@@ -85,11 +85,22 @@ declare module "epubjs" {
 		};
 		flow(flow: string): void;
 		spread(spread: string): void;
-		on(event: string, callback: (event: any) => void): void;
-		off(event: string, callback: (event: any) => void): void;
+		on(event: string, callback: (...args: any[]) => void): void;
+		off(event: string, callback: (...args: any[]) => void): void;
 		hooks: {
 			register(event: string, callback: (event: any) => void): void;
 		};
+		annotations: {
+			highlight(
+				cfiRange: string,
+				data?: object,
+				cb?: (event: Event) => void,
+				className?: string,
+				styles?: Record<string, string>,
+			): object;
+			remove(cfiRange: string, type: string): void;
+		};
+		getRange(cfi: string, ignoreClass?: string): Range | null;
 		location: {
 			current: Location;
 		};
@@ -113,14 +124,16 @@ declare module "epubjs" {
 		coverUrl(): string;
 		destroy(): void;
 		displayed(): Promise<any>;
+		load(path: string): Promise<any>;
 		locations: {
 			total: number;
 			currentLocation(): Location;
-			generate(spine?: any): Promise<any>;
+			generate(chars?: number): Promise<any>;
 			parse(locations: string): any;
+			percentageFromCfi(cfi: string): number;
 		};
 		navigation: {
-			get(target: string): NavItem[];
+			get(target: string): NavItem | undefined;
 			getByPath(path: string): NavItem;
 			getTocByHref(href: string): NavItem;
 			toc: NavItem[];